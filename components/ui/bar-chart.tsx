@@ -0,0 +1,105 @@
+import * as React from "react"
+import { cn } from "@/lib/utils"
+
+export interface BarChartDatum {
+  label: string
+  value: number
+  /** Clase de relleno de Tailwind (p. ej. `fill-orange-500`); por defecto gris. */
+  fillClassName?: string
+}
+
+export interface BarChartMarker {
+  /** Posición en unidades de barra: 0 es el centro de la primera barra. */
+  position: number
+  label: string
+}
+
+export interface BarChartProps extends React.SVGAttributes<SVGSVGElement> {
+  data: BarChartDatum[]
+  height?: number
+  formatValue?: (value: number) => string
+  /** Línea vertical punteada, p. ej. el valor esperado. */
+  marker?: BarChartMarker
+}
+
+const ANCHO = 600
+const MARGEN = { arriba: 16, derecha: 8, abajo: 24, izquierda: 44 }
+const LINEAS_GUIA = 4
+
+/** Gráfica de barras en SVG, sin dependencias, que escala al ancho del contenedor. */
+const BarChart = React.forwardRef<SVGSVGElement, BarChartProps>(
+  ({ data, height = 220, formatValue = (value) => value.toFixed(2), marker, className, ...props }, ref) => {
+    const anchoUtil = ANCHO - MARGEN.izquierda - MARGEN.derecha
+    const altoUtil = height - MARGEN.arriba - MARGEN.abajo
+    const maximo = Math.max(...data.map((d) => d.value), 0) || 1
+    const paso = anchoUtil / Math.max(data.length, 1)
+    const anchoBarra = paso * 0.75
+    const y = (value: number) => MARGEN.arriba + altoUtil * (1 - value / maximo)
+    const x = (posicion: number) => MARGEN.izquierda + paso * (posicion + 0.5)
+
+    return (
+      <svg
+        ref={ref}
+        viewBox={`0 0 ${ANCHO} ${height}`}
+        className={cn("w-full h-auto text-gray-500", className)}
+        role="img"
+        {...props}
+      >
+        {Array.from({ length: LINEAS_GUIA + 1 }, (_, i) => {
+          const valor = (maximo * i) / LINEAS_GUIA
+          return (
+            <g key={i}>
+              <line
+                x1={MARGEN.izquierda}
+                x2={ANCHO - MARGEN.derecha}
+                y1={y(valor)}
+                y2={y(valor)}
+                className="stroke-gray-200"
+              />
+              <text x={MARGEN.izquierda - 4} y={y(valor) + 3} textAnchor="end" className="fill-current text-[10px]">
+                {formatValue(valor)}
+              </text>
+            </g>
+          )
+        })}
+
+        {data.map((d, i) => (
+          <g key={d.label}>
+            <rect
+              x={x(i) - anchoBarra / 2}
+              y={y(d.value)}
+              width={anchoBarra}
+              height={Math.max(altoUtil - (y(d.value) - MARGEN.arriba), 0)}
+              rx={2}
+              className={d.fillClassName || "fill-gray-400"}
+            >
+              <title>{`${d.label}: ${formatValue(d.value)}`}</title>
+            </rect>
+            <text x={x(i)} y={height - MARGEN.abajo + 14} textAnchor="middle" className="fill-current text-[10px]">
+              {d.label}
+            </text>
+          </g>
+        ))}
+
+        {marker && (
+          <g>
+            <line
+              x1={x(marker.position)}
+              x2={x(marker.position)}
+              y1={MARGEN.arriba}
+              y2={height - MARGEN.abajo}
+              strokeDasharray="4 3"
+              className="stroke-blue-600"
+            />
+            <text x={x(marker.position) + 4} y={MARGEN.arriba + 8} className="fill-blue-600 text-[10px]">
+              {marker.label}
+            </text>
+          </g>
+        )}
+      </svg>
+    )
+  }
+)
+BarChart.displayName = "BarChart"
+
+export { BarChart }
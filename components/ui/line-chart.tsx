@@ -0,0 +1,96 @@
+import * as React from "react"
+import { cn } from "@/lib/utils"
+
+export interface LineChartDatum {
+  label: string
+  value: number
+}
+
+export interface LineChartProps extends React.SVGAttributes<SVGSVGElement> {
+  data: LineChartDatum[]
+  height?: number
+  formatValue?: (value: number) => string
+  /** Línea horizontal punteada de referencia, p. ej. el rating inicial. */
+  reference?: number
+}
+
+const ANCHO = 600
+const MARGEN = { arriba: 12, derecha: 12, abajo: 24, izquierda: 44 }
+const LINEAS_GUIA = 4
+const ETIQUETAS_X = 6
+
+/** Serie en el tiempo en SVG, con el eje Y ajustado al rango de los datos. */
+const LineChart = React.forwardRef<SVGSVGElement, LineChartProps>(
+  ({ data, height = 200, formatValue = (value) => value.toFixed(0), reference, className, ...props }, ref) => {
+    const anchoUtil = ANCHO - MARGEN.izquierda - MARGEN.derecha
+    const altoUtil = height - MARGEN.arriba - MARGEN.abajo
+    const valores = [...data.map((d) => d.value), ...(reference === undefined ? [] : [reference])]
+    const holgura = Math.max((Math.max(...valores) - Math.min(...valores)) * 0.1, 1)
+    const minimo = Math.min(...valores) - holgura
+    const maximo = Math.max(...valores) + holgura
+    const x = (i: number) => MARGEN.izquierda + (data.length > 1 ? (anchoUtil * i) / (data.length - 1) : anchoUtil / 2)
+    const y = (value: number) => MARGEN.arriba + altoUtil * (1 - (value - minimo) / (maximo - minimo))
+    const cadaEtiqueta = Math.max(1, Math.ceil(data.length / ETIQUETAS_X))
+
+    return (
+      <svg
+        ref={ref}
+        viewBox={`0 0 ${ANCHO} ${height}`}
+        className={cn("w-full h-auto text-gray-500", className)}
+        role="img"
+        {...props}
+      >
+        {Array.from({ length: LINEAS_GUIA + 1 }, (_, i) => {
+          const valor = minimo + ((maximo - minimo) * i) / LINEAS_GUIA
+          return (
+            <g key={i}>
+              <line
+                x1={MARGEN.izquierda}
+                x2={ANCHO - MARGEN.derecha}
+                y1={y(valor)}
+                y2={y(valor)}
+                className="stroke-gray-200"
+              />
+              <text x={MARGEN.izquierda - 4} y={y(valor) + 3} textAnchor="end" className="fill-current text-[10px]">
+                {formatValue(valor)}
+              </text>
+            </g>
+          )
+        })}
+
+        {reference !== undefined && (
+          <line
+            x1={MARGEN.izquierda}
+            x2={ANCHO - MARGEN.derecha}
+            y1={y(reference)}
+            y2={y(reference)}
+            strokeDasharray="4 3"
+            className="stroke-gray-400"
+          />
+        )}
+
+        <polyline
+          points={data.map((d, i) => `${x(i)},${y(d.value)}`).join(" ")}
+          fill="none"
+          strokeWidth={1.5}
+          className="stroke-blue-600"
+        />
+        {data.map((d, i) => (
+          <g key={i}>
+            <circle cx={x(i)} cy={y(d.value)} r={2.5} className="fill-blue-600">
+              <title>{`${d.label}: ${formatValue(d.value)}`}</title>
+            </circle>
+            {i % cadaEtiqueta === 0 && (
+              <text x={x(i)} y={height - MARGEN.abajo + 14} textAnchor="middle" className="fill-current text-[10px]">
+                {d.label}
+              </text>
+            )}
+          </g>
+        ))}
+      </svg>
+    )
+  }
+)
+LineChart.displayName = "LineChart"
+
+export { LineChart }
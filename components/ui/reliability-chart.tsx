@@ -0,0 +1,93 @@
+import * as React from "react"
+import { cn } from "@/lib/utils"
+
+export interface ReliabilityPoint {
+  /** Probabilidad predicha promedio del intervalo. */
+  predicted: number
+  observed: number
+  count: number
+}
+
+export interface ReliabilitySeries {
+  label: string
+  points: ReliabilityPoint[]
+  /** Clase de trazo de Tailwind (p. ej. `stroke-blue-600`); el relleno de los puntos se deriva con `fill-current`. */
+  strokeClassName: string
+  /** Clase de color de texto con la que se pintan los puntos y la leyenda (p. ej. `text-blue-600`). */
+  colorClassName: string
+}
+
+export interface ReliabilityChartProps extends React.SVGAttributes<SVGSVGElement> {
+  series: ReliabilitySeries[]
+  size?: number
+}
+
+const MARGEN = { arriba: 12, derecha: 12, abajo: 28, izquierda: 36 }
+const MARCAS = [0, 0.2, 0.4, 0.6, 0.8, 1]
+
+/**
+ * Diagrama de confiabilidad en SVG: frecuencia observada contra probabilidad predicha. La
+ * diagonal es la calibración perfecta; el área de cada punto crece con sus casos.
+ */
+const ReliabilityChart = React.forwardRef<SVGSVGElement, ReliabilityChartProps>(
+  ({ series, size = 320, className, ...props }, ref) => {
+    const util = size - MARGEN.izquierda - MARGEN.derecha
+    const alto = size - MARGEN.arriba - MARGEN.abajo
+    const x = (p: number) => MARGEN.izquierda + util * p
+    const y = (p: number) => MARGEN.arriba + alto * (1 - p)
+    const maxCasos = Math.max(...series.flatMap((s) => s.points.map((p) => p.count)), 1)
+
+    return (
+      <svg
+        ref={ref}
+        viewBox={`0 0 ${size} ${size}`}
+        className={cn("w-full h-auto text-gray-500", className)}
+        role="img"
+        {...props}
+      >
+        {MARCAS.map((marca) => (
+          <g key={marca}>
+            <line x1={x(0)} x2={x(1)} y1={y(marca)} y2={y(marca)} className="stroke-gray-200" />
+            <line x1={x(marca)} x2={x(marca)} y1={y(0)} y2={y(1)} className="stroke-gray-200" />
+            <text x={x(0) - 4} y={y(marca) + 3} textAnchor="end" className="fill-current text-[10px]">
+              {`${marca * 100}%`}
+            </text>
+            <text x={x(marca)} y={y(0) + 12} textAnchor="middle" className="fill-current text-[10px]">
+              {`${marca * 100}%`}
+            </text>
+          </g>
+        ))}
+        <text x={x(0.5)} y={size - 2} textAnchor="middle" className="fill-current text-[10px]">
+          Probabilidad predicha
+        </text>
+
+        <line x1={x(0)} y1={y(0)} x2={x(1)} y2={y(1)} strokeDasharray="4 3" className="stroke-gray-400" />
+
+        {series.map((s) => (
+          <g key={s.label} className={s.colorClassName}>
+            <polyline
+              points={s.points.map((p) => `${x(p.predicted)},${y(p.observed)}`).join(" ")}
+              fill="none"
+              strokeWidth={1.5}
+              className={s.strokeClassName}
+            />
+            {s.points.map((p, i) => (
+              <circle
+                key={i}
+                cx={x(p.predicted)}
+                cy={y(p.observed)}
+                r={2 + 4 * Math.sqrt(p.count / maxCasos)}
+                className="fill-current"
+              >
+                <title>{`${s.label}: predicho ${(p.predicted * 100).toFixed(1)}%, observado ${(p.observed * 100).toFixed(1)}% (${p.count})`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+    )
+  }
+)
+ReliabilityChart.displayName = "ReliabilityChart"
+
+export { ReliabilityChart }
@@ -0,0 +1,14 @@
+const nextJest = require('next/jest')
+
+// Usa la configuración de SWC de Next.js para compilar TypeScript en las pruebas
+const createJestConfig = nextJest({ dir: './' })
+
+/** @type {import('jest').Config} */
+const customJestConfig = {
+  testEnvironment: 'node',
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1',
+  },
+}
+
+module.exports = createJestConfig(customJestConfig)
@@ -0,0 +1,87 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import portfolio from '@/pages/api/portfolio';
+import { crearEndpointPost } from '../api';
+import { createSampleData } from '../progol';
+import type { ResultadoEsquema } from '../progol';
+
+const crearRespuesta = () => {
+  const res = {
+    statusCode: 0,
+    body: undefined as unknown,
+    headers: {} as Record<string, string>,
+    status(codigo: number) { res.statusCode = codigo; return res; },
+    json(body: unknown) { res.body = body; return res; },
+    setHeader(nombre: string, valor: string) { res.headers[nombre] = valor; return res; }
+  };
+  return res;
+};
+
+const validarNumero = (body: unknown): ResultadoEsquema<number> =>
+  typeof body === 'number' ? { ok: true, datos: body } : { ok: false, errores: [{ campo: '', mensaje: 'debe ser un número' }] };
+
+const llamar = (endpoint: ReturnType<typeof crearEndpointPost>, method: string, body: unknown) => {
+  const res = crearRespuesta();
+  endpoint({ method, body, url: '/api/prueba' } as NextApiRequest, res as unknown as NextApiResponse);
+  return res;
+};
+
+describe('crearEndpointPost', () => {
+  const endpoint = crearEndpointPost(validarNumero, n => ({ doble: n * 2 }));
+
+  it('responde con el resultado del motor', () => {
+    const res = llamar(endpoint, 'POST', 21);
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ doble: 42 });
+  });
+
+  it('rechaza otros métodos con 405', () => {
+    const res = llamar(endpoint, 'GET', undefined);
+    expect(res.statusCode).toBe(405);
+    expect(res.headers.Allow).toBe('POST');
+    expect(res.body).toMatchObject({ error: { codigo: 'METODO_NO_PERMITIDO' } });
+  });
+
+  it('devuelve los errores de esquema con 400', () => {
+    const res = llamar(endpoint, 'POST', 'veinte');
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({
+      error: {
+        codigo: 'SOLICITUD_INVALIDA',
+        mensaje: 'El cuerpo de la solicitud no cumple el esquema',
+        detalles: [{ campo: '', mensaje: 'debe ser un número' }]
+      }
+    });
+  });
+
+  it('convierte las excepciones del motor en 500', () => {
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const fallido = crearEndpointPost(validarNumero, () => { throw new Error('fallo'); });
+
+    const res = llamar(fallido, 'POST', 1);
+
+    expect(res.statusCode).toBe(500);
+    expect(res.body).toMatchObject({ error: { codigo: 'ERROR_INTERNO' } });
+    spy.mockRestore();
+  });
+});
+
+describe('POST /api/portfolio', () => {
+  const { partidos_regular, partidos_revancha } = createSampleData(5);
+
+  it('rechaza con 400 un presupuesto que no alcanza para un boleto', () => {
+    const res = llamar(portfolio, 'POST', { partidos: partidos_regular, config: { presupuesto: 5 } });
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toMatchObject({
+      error: { codigo: 'SOLICITUD_INVALIDA', detalles: [{ campo: 'config.presupuesto', mensaje: 'debe estar entre 15 y 1000000' }] }
+    });
+
+    const conPrecio = llamar(portfolio, 'POST', { partidos: partidos_regular, config: { presupuesto: 5, restricciones: { precioBoleto: 5 } } });
+    expect(conPrecio.statusCode).toBe(200);
+
+    // Con Revancha, el boleto más barato incluye su complemento
+    const conRevancha = llamar(portfolio, 'POST', { partidos: partidos_regular, partidos_revancha, config: { presupuesto: 20 } });
+    expect(conRevancha.body).toMatchObject({
+      error: { detalles: [{ campo: 'config.presupuesto', mensaje: 'debe estar entre 25 y 1000000' }] }
+    });
+  });
+});
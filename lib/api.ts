@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { ErrorCampo, ResultadoEsquema } from '@/lib/progol';
+
+/** Forma común de los errores de la API: `{ error: { codigo, mensaje, detalles? } }`. */
+export interface RespuestaError {
+  error: {
+    codigo: 'METODO_NO_PERMITIDO' | 'SOLICITUD_INVALIDA' | 'ERROR_INTERNO';
+    mensaje: string;
+    detalles?: ErrorCampo[];
+  };
+}
+
+/**
+ * Crea un endpoint `POST` que valida el cuerpo con `validar` antes de llamar a `ejecutar`.
+ * Responde 405 a otros métodos, 400 con los errores por campo si el cuerpo no cumple el
+ * esquema y 500 si el motor falla.
+ */
+export const crearEndpointPost = <T, R>(
+  validar: (body: unknown) => ResultadoEsquema<T>,
+  ejecutar: (datos: T) => R
+) => (req: NextApiRequest, res: NextApiResponse<R | RespuestaError>) => {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({
+      error: { codigo: 'METODO_NO_PERMITIDO', mensaje: `Método ${req.method} no permitido; usa POST` }
+    });
+  }
+
+  const validacion = validar(req.body);
+  if (!validacion.ok) {
+    return res.status(400).json({
+      error: { codigo: 'SOLICITUD_INVALIDA', mensaje: 'El cuerpo de la solicitud no cumple el esquema', detalles: validacion.errores }
+    });
+  }
+
+  try {
+    return res.status(200).json(ejecutar(validacion.datos));
+  } catch (error) {
+    console.error(`Error en ${req.url}:`, error);
+    return res.status(500).json({
+      error: { codigo: 'ERROR_INTERNO', mensaje: 'Error interno del motor' }
+    });
+  }
+};
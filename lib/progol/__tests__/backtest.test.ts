@@ -0,0 +1,56 @@
+import { ejecutarBacktest } from '../backtest';
+import { PARAMETROS_OPTIMIZADOR } from '../config';
+import { ejecutarPipeline } from '../pipeline';
+import { createSampleData } from '../sample-data';
+import type { ConcursoHistorico, ConfiguracionBacktest } from '../types';
+
+const configuracion = (nombre: string, extra: Partial<ConfiguracionBacktest> = {}): ConfiguracionBacktest => ({
+  nombre,
+  numQuinielas: 6,
+  seed: 7,
+  optimizar: false,
+  optimizador: { ...PARAMETROS_OPTIMIZADOR, simulacionesMontecarlo: 200 },
+  restricciones: {},
+  umbrales: {},
+  ...extra
+});
+
+describe('ejecutarBacktest', () => {
+  const { partidos_regular } = createSampleData(11);
+  const base = configuracion('base');
+  // En el primero sale exactamente el Core-1 que genera la configuración base; en el segundo, su opuesto
+  const [core] = ejecutarPipeline({ partidosRegular: partidos_regular, ...base }).quinielas;
+  const concursos: ConcursoHistorico[] = [
+    { numero: 1, partidos: partidos_regular, resultados: core.resultados, premios: [{ aciertos: 14, monto: 1000 }, { aciertos: 13, monto: 100 }] },
+    { numero: 2, partidos: partidos_regular, resultados: core.resultados.map(r => (r === 'L' ? 'V' : 'L')) }
+  ];
+
+  it('resume aciertos, tasas y ROI sobre los concursos con premios', () => {
+    const resultado = ejecutarBacktest(concursos, base);
+    const [primero, segundo] = resultado.concursos;
+
+    expect(primero.aciertos).toHaveLength(6);
+    expect(primero.mejorAciertos).toBe(14);
+    expect(segundo.mejorAciertos).toBeLessThan(11);
+    expect(resultado.distribucion.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 12);
+    expect(resultado.tasaConcursos).toEqual({ 11: 0.5, 12: 0.5, 13: 0.5 });
+    expect(resultado.tasaQuinielas[13]).toBe(primero.aciertos.filter(k => k >= 13).length / 12);
+
+    // El ROI solo cuenta el concurso con montos pagados
+    expect(segundo.ganancia).toBeNull();
+    expect(resultado.concursosConPremios).toBe(1);
+    expect(resultado.costo).toBe(6 * 15);
+    const columnas = (k: number) => primero.aciertos.filter(a => a === k).length;
+    expect(resultado.ganancia).toBe(1000 * columnas(14) + 100 * columnas(13));
+    expect(resultado.roi).toBeCloseTo((resultado.ganancia - resultado.costo) / resultado.costo, 12);
+  });
+
+  it('es reproducible y refleja los cambios de configuración', () => {
+    const resultado = ejecutarBacktest(concursos, base);
+    expect(ejecutarBacktest(concursos, configuracion('base')).concursos).toEqual(resultado.concursos);
+
+    const sinAnclas = ejecutarBacktest(concursos, configuracion('sin anclas', { umbrales: { umbralAncla: 0.99 } }));
+    expect(sinAnclas.configuracion.nombre).toBe('sin anclas');
+    expect(sinAnclas.concursos.map(c => c.aciertos)).not.toEqual(resultado.concursos.map(c => c.aciertos));
+  });
+});
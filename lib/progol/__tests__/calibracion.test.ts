@@ -0,0 +1,69 @@
+import { PARAMETROS_CALIBRACION_DEFAULT, ajustarCalibracion, evaluarCalibracion, partidosJugados } from '../calibracion';
+import { crearGeneradorAleatorio } from '../random';
+import type { Partido, PartidoJugado, Resultado } from '../types';
+
+const partido = (prob_local: number, prob_empate: number, prob_visitante: number, extra: Partial<Partido> = {}): Partido => ({
+  local: 'Local',
+  visitante: 'Visitante',
+  prob_local,
+  prob_empate,
+  prob_visitante,
+  ...extra
+});
+
+describe('calibración', () => {
+  it('calcula log-loss, Brier y el diagrama de confiabilidad', () => {
+    const jugados: PartidoJugado[] = [
+      { partido: partido(0.5, 0.3, 0.2), resultado: 'L' },
+      { partido: partido(0.2, 0.3, 0.5), resultado: 'E' }
+    ];
+    const evaluacion = evaluarCalibracion(jugados, null);
+
+    expect(evaluacion.logLoss).toBeCloseTo(-(Math.log(0.5) + Math.log(0.3)) / 2, 12);
+    expect(evaluacion.brier).toBeCloseTo((0.25 + 0.09 + 0.04 + (0.04 + 0.49 + 0.25)) / 2, 12);
+    // Intervalos [0.2, 0.3), [0.3, 0.4) y [0.5, 0.6)
+    expect(evaluacion.confiabilidad).toEqual([
+      { prediccion: 0.2, observada: 0, casos: 2 },
+      { prediccion: 0.3, observada: 0.5, casos: 2 },
+      { prediccion: 0.5, observada: 0.5, casos: 2 }
+    ]);
+    expect(partidosJugados([{ numero: 1, partidos: [partido(0.4, 0.3, 0.3)], resultados: ['V'] }])).toEqual([
+      { partido: partido(0.4, 0.3, 0.3), resultado: 'V' }
+    ]);
+  });
+
+  it('recupera el efecto de la forma y no empeora la pérdida', () => {
+    // Los resultados siguen un k1 real de 0.3 sin efecto de lesiones ni de finales
+    const aleatorio = crearGeneradorAleatorio(4);
+    const jugados: PartidoJugado[] = Array.from({ length: 1500 }, () => {
+      const forma_diferencia = aleatorio() * 4 - 2;
+      const base = partido(0.4, 0.3, 0.3, { forma_diferencia, lesiones_impact: aleatorio() * 2 - 1, es_final: aleatorio() < 0.2 });
+      const factor = 1 + 0.3 * forma_diferencia;
+      const [l, e, v] = [0.4 * factor, 0.3, 0.3 / factor];
+      const u = aleatorio() * (l + e + v);
+      const resultado: Resultado = u < l ? 'L' : u < l + e ? 'E' : 'V';
+      return { partido: base, resultado };
+    });
+
+    for (const metrica of ['logloss', 'brier'] as const) {
+      const resultado = ajustarCalibracion(jugados, metrica);
+      const clave = metrica === 'brier' ? 'brier' : 'logLoss';
+
+      expect(resultado.partidos).toBe(1500);
+      expect(resultado.parametros.calibracion.k1_forma).toBeGreaterThan(0.2);
+      expect(resultado.parametros.calibracion.k1_forma).toBeLessThan(0.4);
+      expect(resultado.parametros.calibracion.k2_lesiones).toBeLessThan(0.1);
+      expect(resultado.ajustada[clave]).toBeLessThanOrEqual(resultado.inicial[clave]);
+      expect(resultado.ajustada[clave]).toBeLessThan(resultado.sinCalibrar[clave]);
+    }
+  });
+
+  it('parte de los parámetros activos y exige partidos', () => {
+    expect(() => ajustarCalibracion([])).toThrow('No hay partidos jugados para calibrar');
+
+    const jugados: PartidoJugado[] = [{ partido: partido(0.5, 0.3, 0.2), resultado: 'L' }];
+    const inicial = { ...PARAMETROS_CALIBRACION_DEFAULT, calibracion: { k1_forma: 0.4, k2_lesiones: 0.3, k3_contexto: 0.2 } };
+    // Sin forma, lesiones ni finales ningún coeficiente cambia la pérdida: se conservan los activos
+    expect(ajustarCalibracion(jugados, 'logloss', inicial).parametros.calibracion).toEqual(inicial.calibracion);
+  });
+});
@@ -0,0 +1,61 @@
+import { MatchClassifier } from '../classifier';
+import type { Partido } from '../types';
+
+const partido = (prob_local: number, prob_empate: number, prob_visitante: number, extra: Partial<Partido> = {}): Partido => ({
+  local: 'Local',
+  visitante: 'Visitante',
+  prob_local,
+  prob_empate,
+  prob_visitante,
+  ...extra
+});
+
+describe('MatchClassifier', () => {
+  const classifier = new MatchClassifier();
+
+  it('clasifica como Ancla un favorito claro', () => {
+    const [clasificado] = classifier.classifyMatches([partido(0.70, 0.18, 0.12)]);
+    expect(clasificado.clasificacion).toBe('Ancla');
+    expect(clasificado.resultadoSugerido).toBe('L');
+  });
+
+  it('clasifica como TendenciaEmpate cuando el empate es el resultado más probable', () => {
+    expect(classifier.clasificarPartido({ prob_local: 0.32, prob_empate: 0.36, prob_visitante: 0.32 })).toBe('TendenciaEmpate');
+  });
+
+  it('clasifica como Divisor un favorito moderado y como Neutro un partido parejo', () => {
+    expect(classifier.clasificarPartido({ prob_local: 0.48, prob_empate: 0.27, prob_visitante: 0.25 })).toBe('Divisor');
+    expect(classifier.clasificarPartido({ prob_local: 0.36, prob_empate: 0.28, prob_visitante: 0.36 })).toBe('Neutro');
+  });
+
+  it('mantiene las probabilidades calibradas normalizadas', () => {
+    const calibrado = classifier.aplicarCalibracionBayesiana(
+      partido(0.45, 0.25, 0.30, { forma_diferencia: 2, lesiones_impact: -1, es_final: true })
+    );
+    expect(calibrado.prob_local + calibrado.prob_empate + calibrado.prob_visitante).toBeCloseTo(1, 10);
+    expect(calibrado.prob_local).toBeGreaterThan(0.45);
+
+    const formaExtrema = new MatchClassifier({ k1_forma: 0.5, k2_lesiones: 0, k3_contexto: 0 })
+      .aplicarCalibracionBayesiana(partido(0.45, 0.25, 0.30, { forma_diferencia: -5 }));
+    expect(formaExtrema.prob_local).toBeGreaterThan(0);
+  });
+
+  it('aplica la Draw-Propensity Rule a partidos muy parejos', () => {
+    const calibrado = classifier.aplicarCalibracionBayesiana(partido(0.30, 0.40, 0.30));
+    expect(calibrado.prob_empate).toBeCloseTo(0.46 / 1.06, 10);
+  });
+
+  it('acepta umbrales propios para clasificar y para la Draw-Propensity Rule', () => {
+    const ajustado = new MatchClassifier(undefined, { umbralAncla: 0.45, drawPropensity: { umbral_diferencia: 0.08, boost_empate: 0 } });
+    expect(ajustado.clasificarPartido({ prob_local: 0.48, prob_empate: 0.27, prob_visitante: 0.25 })).toBe('Ancla');
+    expect(ajustado.aplicarCalibracionBayesiana(partido(0.30, 0.40, 0.30)).prob_empate).toBeCloseTo(0.40, 10);
+    expect(ajustado.umbralEmpate).toBe(classifier.umbralEmpate);
+  });
+
+  it('conserva índice y equipos en el resultado', () => {
+    const clasificados = classifier.classifyMatches([partido(0.5, 0.3, 0.2), partido(0.2, 0.3, 0.5)]);
+    expect(clasificados.map(p => p.id)).toEqual([0, 1]);
+    expect(clasificados[1].resultadoSugerido).toBe('V');
+    expect(clasificados[0].confianza).toBeCloseTo(0.2, 10);
+  });
+});
@@ -0,0 +1,117 @@
+import { analizarPartidosCSV, parsearNumero, separarCampos } from '../csv';
+
+describe('parsearNumero', () => {
+  it('acepta punto o coma decimal y porcentajes', () => {
+    expect(parsearNumero('0.45')).toBe(0.45);
+    expect(parsearNumero('0,45')).toBe(0.45);
+    expect(parsearNumero('45 %')).toBe(0.45);
+    expect(parsearNumero('45,5%')).toBeCloseTo(0.455, 12);
+    expect(parsearNumero('')).toBeNaN();
+    expect(parsearNumero('abc')).toBeNaN();
+  });
+});
+
+describe('separarCampos', () => {
+  it('respeta comillas, comillas escapadas y delimitadores dentro de comillas', () => {
+    const registros = separarCampos('a;"Atlético; Madrid";"dice ""hola"""\n\n# comentario\nb;c;d', ';');
+    expect(registros).toEqual([
+      { linea: 1, campos: ['a', 'Atlético; Madrid', 'dice "hola"'] },
+      { linea: 4, campos: ['b', 'c', 'd'] }
+    ]);
+  });
+});
+
+describe('analizarPartidosCSV', () => {
+  it('asocia columnas por encabezado con alias, en cualquier orden', () => {
+    const csv = [
+      'p_v,home,away,draw,p_l,final',
+      '0.30,"Real Madrid, C.F.",Barcelona,0.25,0.45,sí'
+    ].join('\n');
+
+    const { partidos, errores, columnas } = analizarPartidosCSV(csv);
+
+    expect(errores).toEqual([]);
+    expect(columnas).toMatchObject({ prob_visitante: 0, local: 1, visitante: 2, prob_empate: 3, prob_local: 4 });
+    expect(partidos).toEqual([{
+      local: 'Real Madrid, C.F.',
+      visitante: 'Barcelona',
+      prob_local: 0.45,
+      prob_empate: 0.25,
+      prob_visitante: 0.30,
+      es_final: true,
+      forma_diferencia: 0,
+      lesiones_impact: 0
+    }]);
+  });
+
+  it('lee archivos con punto y coma, coma decimal y porcentajes', () => {
+    const csv = 'Local;Visitante;L;E;V\r\nAmérica;Chivas;45,0;28,0;27,0\r\nPumas;Cruz Azul;40%;30%;30%\r\n';
+    const { partidos, delimitador } = analizarPartidosCSV(csv);
+
+    expect(delimitador).toBe(';');
+    expect(partidos.map(p => p.prob_local)).toEqual([0.45, 0.40]);
+    expect(partidos[0].prob_empate + partidos[0].prob_visitante).toBeCloseTo(0.55, 12);
+  });
+
+  it('lee la popularidad del público cuando el archivo la trae', () => {
+    const csv = [
+      'local,visitante,prob_local,prob_empate,prob_visitante,pop_local,pop_empate,pop_visitante',
+      'A,B,0.5,0.3,0.2,60,25,15',
+      'C,D,0.4,0.3,0.3,,,',
+      'E,F,0.4,0.3,0.3,0.9,0.5,0.1'
+    ].join('\n');
+    const { partidos, filas } = analizarPartidosCSV(csv);
+
+    expect(partidos[0].popularidad).toEqual({ L: 0.6, E: 0.25, V: 0.15 });
+    expect(partidos[1].popularidad).toBeUndefined();
+    expect(filas[2].errores).toEqual(['La popularidad suma 1.500, lejos de 1']);
+  });
+
+  it('marca cada fila inválida en lugar de descartarla', () => {
+    const csv = [
+      'local,visitante,prob_local,prob_empate,prob_visitante',
+      'A,B,0.5,0.3,0.2',
+      'C,,0.5,0.3,0.2',
+      'E,F,0.5,-0.1,0.6',
+      'G,H,0.5,0.5,0.5',
+      'I,J,0.5,0.3',
+      'a,b,0.4,0.3,0.3',
+      'K,L,0.51,0.3,0.2'
+    ].join('\n');
+
+    const { filas, partidos, advertencias } = analizarPartidosCSV(csv);
+
+    expect(filas.map(f => f.linea)).toEqual([2, 3, 4, 5, 6, 7, 8]);
+    expect(filas[1].errores).toEqual(['Falta el equipo visitante']);
+    expect(filas[2].errores).toEqual(['Probabilidad E negativa: -0.1']);
+    expect(filas[3].errores).toEqual(['Las probabilidades suman 1.500, lejos de 1']);
+    expect(filas[4].errores).toEqual(['Falta la probabilidad V']);
+    expect(filas[5].errores).toEqual(['Partido duplicado (ya aparece en la línea 2)']);
+    expect(filas[6].errores).toEqual([]);
+    expect(filas[6].advertencias).toEqual(['Probabilidades normalizadas (sumaban 1.010)']);
+    expect(partidos.map(p => p.local)).toEqual(['A', 'K']);
+    expect(advertencias).toContain('5 fila(s) con errores no se importaron');
+  });
+
+  it('señala los partidos que sobran o faltan en lugar de truncar en silencio', () => {
+    const filas = Array.from({ length: 9 }, (_, i) => `Local ${i},Visitante ${i},0.4,0.3,0.3`);
+    const csv = ['local,visitante,l,e,v', ...filas].join('\n');
+
+    const sobran = analizarPartidosCSV(csv, 7);
+    expect(sobran.partidos).toHaveLength(7);
+    expect(sobran.filas[7].advertencias).toEqual(['Excede los 7 partidos; no se importa']);
+
+    const faltan = analizarPartidosCSV(csv, 14);
+    expect(faltan.errores).toEqual(['Se necesitan 14 partidos válidos; el archivo tiene 9']);
+  });
+
+  it('reporta columnas faltantes y acepta archivos sin encabezado', () => {
+    expect(analizarPartidosCSV('local,visitante,prob_local\nA,B,0.5').errores).toEqual([
+      'Faltan columnas: prob_empate, prob_visitante (o las cuotas cuota_local, cuota_empate, cuota_visitante)'
+    ]);
+
+    const sinEncabezado = analizarPartidosCSV('A,B,0.5,0.3,0.2,TRUE,1,-1\nC,D,0.2,0.3,0.5');
+    expect(sinEncabezado.partidos).toHaveLength(2);
+    expect(sinEncabezado.partidos[0]).toMatchObject({ es_final: true, forma_diferencia: 1, lesiones_impact: -1 });
+  });
+});
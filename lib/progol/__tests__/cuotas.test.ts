@@ -0,0 +1,91 @@
+import { analizarPartidosCSV } from '../csv';
+import { aplicarMetodoMargen, calcularMargen, convertirCuotas, eliminarMargen, parsearCuota } from '../cuotas';
+import type { MetodoMargen } from '../cuotas';
+
+const suma = (probs: number[]) => probs.reduce((a, b) => a + b, 0);
+
+describe('parsearCuota', () => {
+  it('convierte cuotas decimales, fraccionales y americanas', () => {
+    expect(parsearCuota('2.50')).toBe(2.5);
+    expect(parsearCuota('2,50')).toBe(2.5);
+    expect(parsearCuota('3/2')).toBe(2.5);
+    expect(parsearCuota('+150')).toBe(2.5);
+    expect(parsearCuota('-200')).toBe(1.5);
+  });
+
+  it('rechaza cuotas imposibles', () => {
+    expect(parsearCuota('1.00')).toBeNaN();
+    expect(parsearCuota('0.8')).toBeNaN();
+    expect(parsearCuota('+50')).toBeNaN();
+    expect(parsearCuota('abc')).toBeNaN();
+  });
+});
+
+describe('eliminarMargen', () => {
+  const cuotas = [1.8, 3.6, 4.5];
+  const implicitas = cuotas.map(c => 1 / c);
+
+  it('calcula el margen implícito', () => {
+    expect(calcularMargen(cuotas)).toBeCloseTo(1 / 1.8 + 1 / 3.6 + 1 / 4.5 - 1, 12);
+  });
+
+  it.each<MetodoMargen>(['proporcional', 'shin', 'potencia', 'odds_ratio'])('%s produce probabilidades que suman 1', metodo => {
+    const probs = eliminarMargen(cuotas, metodo);
+    expect(suma(probs)).toBeCloseTo(1, 10);
+    probs.forEach((p, i) => expect(p).toBeLessThan(implicitas[i]));
+    expect(probs[0]).toBeGreaterThan(probs[1]);
+    expect(probs[1]).toBeGreaterThan(probs[2]);
+  });
+
+  it('proporcional divide entre la suma de probabilidades implícitas', () => {
+    const total = suma(implicitas);
+    eliminarMargen(cuotas, 'proporcional').forEach((p, i) => expect(p).toBeCloseTo(implicitas[i] / total, 12));
+  });
+
+  it('Shin, potencia y odds-ratio quitan más margen a las sorpresas que al favorito', () => {
+    const proporcional = eliminarMargen(cuotas, 'proporcional');
+    for (const metodo of ['shin', 'potencia', 'odds_ratio'] as MetodoMargen[]) {
+      const probs = eliminarMargen(cuotas, metodo);
+      expect(probs[0]).toBeGreaterThan(proporcional[0]);
+      expect(probs[2]).toBeLessThan(proporcional[2]);
+    }
+  });
+
+  it('deja intactas las cuotas sin margen', () => {
+    eliminarMargen([2, 4, 4], 'shin').forEach((p, i) => expect(p).toBeCloseTo([0.5, 0.25, 0.25][i], 12));
+  });
+});
+
+describe('cuotas en el CSV', () => {
+  const csv = [
+    'home;away;B365H;B365D;B365A',
+    'América;Chivas;1,80;3,60;4,50',
+    'Pumas;Cruz Azul;6/4;9/4;7/4',
+    'Tigres;Monterrey;+120;+230;abc'
+  ].join('\n');
+
+  it('convierte las cuotas y reporta el margen por fila', () => {
+    const importacion = analizarPartidosCSV(csv, undefined, 'shin');
+
+    expect(importacion.usaCuotas).toBe(true);
+    expect(importacion.partidos).toHaveLength(2);
+    expect(importacion.filas[0].margen).toBeCloseTo(calcularMargen([1.8, 3.6, 4.5]), 12);
+    expect(importacion.partidos[0]).toMatchObject({
+      cuotas: [1.8, 3.6, 4.5],
+      ...convertirCuotas([1.8, 3.6, 4.5], 'shin')
+    });
+    expect(importacion.filas[2].errores).toEqual(['Cuota V no válida: "abc"']);
+  });
+
+  it('recalcula las probabilidades al cambiar de método', () => {
+    const { partidos } = analizarPartidosCSV(csv);
+    const [recalculado] = aplicarMetodoMargen(partidos, 'potencia');
+    expect(recalculado.prob_local).toBeCloseTo(eliminarMargen([1.8, 3.6, 4.5], 'potencia')[0], 12);
+  });
+
+  it('pide probabilidades o cuotas completas', () => {
+    expect(analizarPartidosCSV('local,visitante,cuota_local\nA,B,2').errores).toEqual([
+      'Faltan columnas: prob_local, prob_empate, prob_visitante (o las cuotas cuota_local, cuota_empate, cuota_visitante)'
+    ]);
+  });
+});
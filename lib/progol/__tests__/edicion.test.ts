@@ -0,0 +1,77 @@
+import {
+  agregarQuiniela,
+  crearPilaDeshacer,
+  deshacer,
+  duplicarQuiniela,
+  editarSeleccion,
+  eliminarQuiniela,
+  moverQuiniela,
+  registrarCambio,
+  rehacer,
+  siguienteResultado
+} from '../edicion';
+import { PortfolioGenerator } from '../generator';
+import type { ProbabilidadesPartido, Resultado } from '../types';
+
+const partidos: ProbabilidadesPartido[] = Array.from({ length: 14 }, (_, i) => ({
+  prob_local: i % 2 === 0 ? 0.55 : 0.25,
+  prob_empate: 0.25,
+  prob_visitante: i % 2 === 0 ? 0.20 : 0.50
+}));
+
+const generator = new PortfolioGenerator();
+const quinielas = ['LLLLLEEEEVVVVV', 'VVVVVEEEELLLLL'].map((fila, i) =>
+  generator.construirQuiniela(`Core-${i + 1}`, 'Core', fila.split('') as Resultado[], partidos)
+);
+
+describe('edición de quinielas', () => {
+  it('cambia una celda y recalcula la quiniela', () => {
+    expect(siguienteResultado(['L'])).toBe('E');
+    expect(siguienteResultado(['V'])).toBe('L');
+    expect(siguienteResultado(['E', 'V'])).toBe('V');
+
+    const editadas = editarSeleccion(quinielas, 0, 0, ['E'], generator, partidos);
+    expect(editadas[1]).toBe(quinielas[1]);
+    expect(editadas[0].resultados.join('')).toBe('ELLLLEEEEVVVVV');
+    expect(editadas[0].empates).toBe(5);
+    expect(editadas[0].distribucion).toEqual({ L: 4 / 14, E: 5 / 14, V: 5 / 14 });
+    expect(editadas[0].prob_11_plus).not.toBe(quinielas[0].prob_11_plus);
+
+    const doble = editarSeleccion(quinielas, 0, 13, ['L', 'V'], generator, partidos);
+    expect(doble[0].selecciones?.[13]).toEqual(['L', 'V']);
+  });
+
+  it('agrega, duplica, mueve y elimina quinielas con ids únicos', () => {
+    const agregadas = agregarQuiniela(agregarQuiniela(quinielas, generator, partidos), generator, partidos);
+    expect(agregadas.slice(2).map(q => q.id)).toEqual(['Manual-1', 'Manual-2']);
+    expect(agregadas[2].resultados.join('')).toBe('LVLVLVLVLVLVLV');
+
+    const conPar = [{ ...quinielas[0], par_id: 0 }, quinielas[1]];
+    const duplicadas = duplicarQuiniela(duplicarQuiniela(conPar, 0), 0);
+    expect(duplicadas.map(q => q.id)).toEqual(['Core-1', 'Core-1-copia-2', 'Core-1-copia-1', 'Core-2']);
+    expect(duplicadas[1].par_id).toBeUndefined();
+    expect(duplicadas[1].resultados).toEqual(quinielas[0].resultados);
+
+    expect(moverQuiniela(quinielas, 0, 1).map(q => q.id)).toEqual(['Core-2', 'Core-1']);
+    expect(moverQuiniela(quinielas, 0, -1)).toBe(quinielas);
+    expect(eliminarQuiniela(quinielas, 0).map(q => q.id)).toEqual(['Core-2']);
+  });
+
+  it('deshace y rehace cambios; un cambio nuevo descarta lo que se podía rehacer', () => {
+    let pila = registrarCambio(registrarCambio(crearPilaDeshacer<number>(), 1), 2);
+    const atras = deshacer(pila, 3)!;
+    expect(atras.estado).toBe(2);
+    const adelante = rehacer(atras.pila, atras.estado)!;
+    expect(adelante.estado).toBe(3);
+    expect(adelante.pila).toEqual(pila);
+
+    pila = registrarCambio(atras.pila, 2);
+    expect(pila.futuro).toEqual([]);
+    expect(rehacer(pila, 4)).toBeNull();
+    expect(deshacer(crearPilaDeshacer<number>(), 1)).toBeNull();
+
+    for (let i = 0; i < 60; i++) pila = registrarCambio(pila, i);
+    expect(pila.pasado).toHaveLength(50);
+    expect(pila.pasado[0]).toBe(10);
+  });
+});
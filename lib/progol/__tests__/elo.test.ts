@@ -0,0 +1,93 @@
+import { PROGOL_CONFIG } from '../config';
+import {
+  actualizarEloConConcurso,
+  actualizarEloConMarcadores,
+  buscarEquipoElo,
+  completarConElo,
+  crearTablaElo,
+  leerTablaElo,
+  probabilidadesElo,
+  registrarPartidosElo
+} from '../elo';
+import { crearConcurso } from '../historial';
+import type { Partido, Resultado } from '../types';
+
+const partido = (local: string, visitante: string, extra: Partial<Partido> = {}): Partido => ({
+  local,
+  visitante,
+  prob_local: 0.4,
+  prob_empate: 0.3,
+  prob_visitante: 0.3,
+  ...extra
+});
+
+describe('ratings Elo', () => {
+  it('actualiza los ratings con la ventaja de local y separa las ligas', () => {
+    const tabla = registrarPartidosElo(crearTablaElo(), [
+      { local: 'América', visitante: 'Chivas', liga: 'Liga MX', resultado: 'L', fecha: '2024-02-10' },
+      { local: 'Boca', visitante: 'River', liga: 'Argentina', resultado: 'E', fecha: '2024-02-11' }
+    ]);
+
+    // Entre equipos de 1500, el local espera 1 / (1 + 10^(-65/400)) puntos
+    const esperado = 1 / (1 + Math.pow(10, -PROGOL_CONFIG.ELO.VENTAJA_LOCAL / 400));
+    const america = buscarEquipoElo(tabla, 'america', 'Liga MX')!;
+    expect(america.rating).toBeCloseTo(1500 + PROGOL_CONFIG.ELO.K * (1 - esperado), 10);
+    expect(buscarEquipoElo(tabla, 'Chivas')!.rating).toBeCloseTo(1500 - PROGOL_CONFIG.ELO.K * (1 - esperado), 10);
+    // El local que empata pierde puntos
+    expect(buscarEquipoElo(tabla, 'Boca')!.rating).toBeLessThan(1500);
+    expect(buscarEquipoElo(tabla, 'América', 'Argentina')).toBeUndefined();
+    expect(america.historial).toEqual([{ fecha: '2024-02-10', rating: Math.round(america.rating * 10) / 10 }]);
+
+    const probs = probabilidadesElo(1600, 1500);
+    expect(probs.prob_local + probs.prob_empate + probs.prob_visitante).toBeCloseTo(1, 12);
+    expect(probs.prob_local).toBeGreaterThan(probs.prob_visitante);
+    expect(probabilidadesElo(1500, 1500).prob_empate).toBeGreaterThan(probabilidadesElo(1900, 1500).prob_empate);
+  });
+
+  it('suma cada concurso una sola vez', () => {
+    const partidos = Array.from({ length: 14 }, (_, i) => partido(`Local ${i}`, `Visitante ${i}`));
+    const concurso = {
+      ...crearConcurso({ numero: 2250, partidos, partidosRevancha: [], quinielas: [], quinielasRevancha: [], fecha: new Date('2024-09-07T12:00:00Z') }),
+      resultados: new Array(14).fill('L') as Resultado[]
+    };
+
+    const tabla = actualizarEloConConcurso(crearTablaElo(), concurso);
+    expect(tabla.concursosAplicados).toEqual([2250]);
+    expect(Object.keys(tabla.equipos)).toHaveLength(28);
+    expect(buscarEquipoElo(tabla, 'Local 0')!.historial[0]).toMatchObject({ fecha: '2024-09-07', concurso: 2250 });
+    expect(() => actualizarEloConConcurso(tabla, concurso)).toThrow('ya está en los ratings');
+    expect(() => actualizarEloConConcurso(crearTablaElo(), { ...concurso, resultados: new Array(14).fill(null) }))
+      .toThrow('Faltan resultados');
+
+    expect(leerTablaElo(JSON.parse(JSON.stringify(tabla)))).toEqual(tabla);
+    expect(leerTablaElo({ equipos: {}, concursosAplicados: 'x' })).toBeNull();
+  });
+
+  it('llena la forma y las probabilidades de los partidos con rating', () => {
+    // Tigres gana sus últimos 6 partidos y Pumas los pierde
+    const tabla = actualizarEloConMarcadores(crearTablaElo(), Array.from({ length: 6 }, (_, i) => ({
+      liga: 'Liga MX',
+      fecha: `2024-03-0${i + 1}`,
+      local: i % 2 === 0 ? 'Tigres' : 'Pumas',
+      visitante: i % 2 === 0 ? 'Pumas' : 'Tigres',
+      golesLocal: i % 2 === 0 ? 2 : 0,
+      golesVisitante: i % 2 === 0 ? 0 : 1
+    })));
+
+    const { partidos, completados } = completarConElo(
+      tabla,
+      [partido('Tigres', 'Pumas', { cuotas: [2, 3, 4] }), partido('Tigres', 'Toluca')],
+      true
+    );
+    expect(completados).toBe(1);
+    expect(partidos[0].forma_diferencia).toBe(PROGOL_CONFIG.ELO.FORMA_MAXIMA);
+    expect(partidos[0].prob_local).toBeGreaterThan(0.6);
+    expect(partidos[0].cuotas).toBeUndefined();
+    expect(partidos[1]).toEqual(partido('Tigres', 'Toluca'));
+
+    expect(completarConElo(tabla, [partido('Pumas', 'Tigres')]).partidos[0]).toMatchObject({
+      forma_diferencia: -PROGOL_CONFIG.ELO.FORMA_MAXIMA,
+      prob_local: 0.4
+    });
+  });
+});
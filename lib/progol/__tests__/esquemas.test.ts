@@ -0,0 +1,205 @@
+import { createSampleData } from '../sample-data';
+import { PREMIOS_DEFAULT, RESTRICCIONES_DEFAULT } from '../config';
+import {
+  validarConfiguracionBacktest,
+  validarHistorialBacktest,
+  validarRestricciones,
+  validarSolicitudClasificar,
+  validarSolicitudPortafolio,
+  validarSolicitudValidar
+} from '../esquemas';
+
+const { partidos_regular, partidos_revancha } = createSampleData(5);
+
+describe('validarSolicitudClasificar', () => {
+  it('acepta 14 partidos y normaliza las probabilidades', () => {
+    const partidos = partidos_regular.map(p => ({ ...p, prob_local: p.prob_local + 0.01 }));
+    const resultado = validarSolicitudClasificar({ partidos });
+
+    expect(resultado.ok).toBe(true);
+    if (!resultado.ok) return;
+    const [primero] = resultado.datos.partidos;
+    expect(primero.prob_local + primero.prob_empate + primero.prob_visitante).toBeCloseTo(1, 12);
+  });
+
+  it('acepta los 7 partidos de Revancha', () => {
+    expect(validarSolicitudClasificar({ partidos: partidos_revancha }).ok).toBe(true);
+  });
+
+  it('reporta cada campo inválido', () => {
+    const partidos = [...partidos_regular];
+    partidos[2] = { ...partidos[2], local: '', prob_empate: 'alto' as unknown as number };
+
+    const resultado = validarSolicitudClasificar({ partidos });
+
+    expect(resultado).toEqual({
+      ok: false,
+      errores: [
+        { campo: 'partidos[2].local', mensaje: 'debe ser un texto no vacío' },
+        { campo: 'partidos[2].prob_empate', mensaje: 'debe ser un número' }
+      ]
+    });
+  });
+
+  it('rechaza probabilidades que no suman 1 y cuerpos que no son objetos', () => {
+    const partidos = partidos_regular.map((p, i) => i === 0 ? { ...p, prob_local: 0.9 } : p);
+    const resultado = validarSolicitudClasificar({ partidos });
+    expect(resultado.ok).toBe(false);
+    if (!resultado.ok) expect(resultado.errores[0].campo).toBe('partidos[0]');
+
+    expect(validarSolicitudClasificar(null).ok).toBe(false);
+    expect(validarSolicitudClasificar({ partidos: partidos_regular.slice(0, 10) }).ok).toBe(false);
+  });
+});
+
+describe('validarSolicitudPortafolio', () => {
+  it('aplica los valores por defecto de config', () => {
+    const resultado = validarSolicitudPortafolio({ partidos: partidos_regular });
+    expect(resultado.ok).toBe(true);
+    if (!resultado.ok) return;
+    expect(resultado.datos).toMatchObject({ numQuinielas: 20, seed: 42, optimizar: false, partidos_revancha: [] });
+  });
+
+  it('valida los rangos de config y optimizador', () => {
+    const resultado = validarSolicitudPortafolio({
+      partidos: partidos_regular,
+      config: { numQuinielas: 2, seed: 1.5, optimizar: 'si', optimizador: { tasaEnfriamiento: 2 } }
+    });
+
+    expect(resultado.ok).toBe(false);
+    if (resultado.ok) return;
+    expect(resultado.errores.map(e => e.campo)).toEqual([
+      'config.numQuinielas',
+      'config.seed',
+      'config.optimizar',
+      'config.optimizador.tasaEnfriamiento'
+    ]);
+  });
+
+  it('valida la popularidad de los partidos y los premios', () => {
+    const partidos = partidos_regular.map((p, i) => (i === 0 ? { ...p, popularidad: { L: 0.6, E: 0.3, V: 0.3 } } : p));
+    const resultado = validarSolicitudPortafolio({
+      partidos,
+      config: { contrarian: 1, premios: { bolsa: -1, categorias: [{ aciertos: 14, proporcion: 0.7 }, { aciertos: 14, proporcion: 0.4 }] } }
+    });
+
+    expect(resultado.ok).toBe(false);
+    if (resultado.ok) return;
+    expect(resultado.errores.map(e => e.campo)).toEqual([
+      'partidos[0].popularidad',
+      'config.contrarian',
+      'config.premios.bolsa',
+      'config.premios.categorias',
+      'config.premios.categorias'
+    ]);
+
+    const valida = validarSolicitudPortafolio({ partidos: partidos_regular, config: { contrarian: true, premios: { bolsa: 2000000 } } });
+    expect(valida.ok && valida.datos.premios).toEqual({ ...PREMIOS_DEFAULT, bolsa: 2000000 });
+  });
+});
+
+describe('validarRestricciones', () => {
+  it('completa las restricciones parciales con los valores por defecto', () => {
+    const resultado = validarRestricciones({ empatesMax: 7, rangosHistoricos: { E: [0.2, 0.35] }, calibracion: { k1_forma: 0.3 } });
+
+    expect(resultado.ok).toBe(true);
+    if (!resultado.ok) return;
+    expect(resultado.datos).toEqual({
+      ...RESTRICCIONES_DEFAULT,
+      empatesMax: 7,
+      rangosHistoricos: { ...RESTRICCIONES_DEFAULT.rangosHistoricos, E: [0.2, 0.35] },
+      calibracion: { ...RESTRICCIONES_DEFAULT.calibracion, k1_forma: 0.3 }
+    });
+  });
+
+  it('rechaza límites incoherentes', () => {
+    const resultado = validarRestricciones({
+      empatesMin: 6,
+      empatesMax: 4,
+      concentracionGeneral: 0.2,
+      rangosHistoricos: { L: [0.5, 0.4], V: 0.3 }
+    });
+
+    expect(resultado.ok).toBe(false);
+    if (resultado.ok) return;
+    expect(resultado.errores.map(e => e.campo)).toEqual([
+      'restricciones.empatesMin',
+      'restricciones.rangosHistoricos.L',
+      'restricciones.rangosHistoricos.V',
+      'restricciones.concentracionGeneral'
+    ]);
+  });
+
+  it('se acepta dentro de config en la solicitud de portafolio', () => {
+    const resultado = validarSolicitudPortafolio({ partidos: partidos_regular, config: { restricciones: { empatesMin: 'x' } } });
+
+    expect(resultado.ok).toBe(false);
+    if (resultado.ok) return;
+    expect(resultado.errores).toEqual([{ campo: 'config.restricciones.empatesMin', mensaje: 'debe ser un número' }]);
+  });
+});
+
+describe('validarSolicitudValidar', () => {
+  it('acepta quinielas como listas, textos u objetos', () => {
+    const resultado = validarSolicitudValidar({
+      juego: 'revancha',
+      quinielas: [['L', 'E', 'V', 'L', 'E', 'V', 'L'], 'LEV LEVL', { id: 'x', resultados: ['E', 'E', 'E', 'L', 'L', 'V', 'V'] }]
+    });
+
+    expect(resultado.ok).toBe(true);
+    if (resultado.ok) expect(resultado.datos.quinielas).toHaveLength(3);
+  });
+
+  it('acepta dobles y triples y rechaza resultados repetidos', () => {
+    const resultado = validarSolicitudValidar({
+      juego: 'revancha',
+      quinielas: [['L', ['L', 'E'], 'V', 'L', ['L', 'E', 'V'], 'V', 'L'], { selecciones: [['L', 'L'], 'E', 'E', 'L', 'L', 'V', 'V'] }]
+    });
+
+    expect(resultado.ok).toBe(false);
+    if (resultado.ok) return;
+    expect(resultado.errores).toEqual([{ campo: 'quinielas[1]', mensaje: 'cada doble o triple debe tener resultados distintos' }]);
+
+    const valida = validarSolicitudValidar({ juego: 'revancha', quinielas: [['L', ['L', 'E'], 'V', 'L', ['L', 'E', 'V'], 'V', 'L']] });
+    expect(valida.ok && valida.datos.quinielas[0][1]).toEqual(['L', 'E']);
+  });
+
+  it('rechaza resultados desconocidos o de longitud incorrecta', () => {
+    const resultado = validarSolicitudValidar({ quinielas: ['LLLLLLLLLLLLLX', 'LLL'] });
+    expect(resultado.ok).toBe(false);
+    if (resultado.ok) return;
+    expect(resultado.errores).toEqual([
+      { campo: 'quinielas[0]', mensaje: "los resultados deben ser 'L', 'E' o 'V'" },
+      { campo: 'quinielas[1]', mensaje: 'debe tener 14 resultados (tiene 3)' }
+    ]);
+  });
+});
+
+describe('esquemas del backtest', () => {
+  it('lee el historial con resultados como lista o texto', () => {
+    const resultado = validarHistorialBacktest({
+      concursos: [
+        { numero: 2201, partidos: partidos_regular, resultados: 'LLEVLELVLLELVL', premios: [{ aciertos: 14, monto: 1000 }] },
+        { numero: 2202, partidos: partidos_regular, resultados: ['L', 'E'] }
+      ]
+    });
+
+    expect(resultado.ok).toBe(false);
+    if (resultado.ok) return;
+    expect(resultado.errores).toEqual([{ campo: 'concursos[1].resultados', mensaje: 'debe tener los 14 resultados finales' }]);
+
+    const valido = validarHistorialBacktest([{ numero: 2201, partidos: partidos_regular, resultados: 'LLEVLELVLLELVL' }]);
+    expect(valido.ok && valido.datos[0].resultados.join('')).toBe('LLEVLELVLLELVL');
+  });
+
+  it('completa la configuración y valida los umbrales', () => {
+    const resultado = validarConfiguracionBacktest({ umbrales: { umbralDivisorMin: 0.7, drawPropensity: { boost_empate: 2 } } });
+    expect(resultado.ok).toBe(false);
+    if (!resultado.ok) {
+      expect(resultado.errores.map(e => e.campo)).toEqual(['umbrales.umbralDivisorMin', 'umbrales.drawPropensity.boost_empate']);
+    }
+
+    const valida = validarConfiguracionBacktest({ umbrales: { umbralAncla: 0.55 } }, 'ancla55');
+    expect(valida.ok && valida.datos).toMatchObject({ nombre: 'ancla55', numQuinielas: 20, seed: 42, umbrales: { umbralAncla: 0.55, umbralEmpate: 0.3 } });
+  });
+});
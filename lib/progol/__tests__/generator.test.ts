@@ -0,0 +1,95 @@
+import { MatchClassifier } from '../classifier';
+import { PROGOL_CONFIG } from '../config';
+import { PortfolioGenerator } from '../generator';
+import { calcularCorrelacionAciertos } from '../probabilidades';
+import { createSampleData } from '../sample-data';
+import type { PartidoClasificado, Resultado } from '../types';
+
+const partidoClasificado = (prob_empate: number, resultadoSugerido: Resultado = 'L'): PartidoClasificado => ({
+  id: 0,
+  local: 'Local',
+  visitante: 'Visitante',
+  prob_local: (1 - prob_empate) / 2,
+  prob_empate,
+  prob_visitante: (1 - prob_empate) / 2,
+  clasificacion: 'Neutro',
+  resultadoSugerido,
+  confianza: 0
+});
+
+describe('PortfolioGenerator.ajustarEmpates', () => {
+  const generator = new PortfolioGenerator();
+
+  it('agrega empates en los partidos con mayor prob_empate', () => {
+    const partidos = [0.10, 0.35, 0.25, 0.30, 0.15, 0.28, 0.22].map(p => partidoClasificado(p));
+    const quiniela: Resultado[] = ['L', 'L', 'L', 'L', 'L', 'L', 'L'];
+
+    const ajustada = generator.ajustarEmpates(quiniela, partidos);
+
+    expect(ajustada.filter(r => r === 'E')).toHaveLength(4);
+    expect([1, 3, 5, 2].every(i => ajustada[i] === 'E')).toBe(true);
+    expect(quiniela.every(r => r === 'L')).toBe(true);
+  });
+
+  it('ignora los partidos con prob_empate de 20% o menos', () => {
+    const partidos = [0.35, 0.18, 0.10, 0.20].map(p => partidoClasificado(p));
+    const ajustada = generator.ajustarEmpates(['L', 'L', 'L', 'L'], partidos);
+    expect(ajustada).toEqual(['E', 'L', 'L', 'L']);
+  });
+
+  it('quita los empates menos probables cuando sobran', () => {
+    const probs = [0.30, 0.21, 0.33, 0.24, 0.35, 0.27, 0.32, 0.29];
+    const partidos = probs.map(p => partidoClasificado(p, 'V'));
+    const quiniela: Resultado[] = probs.map(() => 'E');
+
+    const ajustada = generator.ajustarEmpates(quiniela, partidos);
+
+    expect(ajustada.filter(r => r === 'E')).toHaveLength(6);
+    expect(ajustada[1]).toBe('V');
+    expect(ajustada[3]).toBe('V');
+  });
+
+  it('respeta el rango de empates de Revancha', () => {
+    const revancha = new PortfolioGenerator(42, 'revancha');
+    const partidos = [0.30, 0.31, 0.32, 0.33, 0.34, 0.35, 0.36].map(p => partidoClasificado(p));
+    const ajustada = revancha.ajustarEmpates(['E', 'E', 'E', 'E', 'E', 'E', 'E'], partidos);
+    expect(ajustada.filter(r => r === 'E')).toHaveLength(3);
+  });
+});
+
+describe('PortfolioGenerator', () => {
+  const { partidos_regular } = createSampleData(7);
+  const clasificados = new MatchClassifier().classifyMatches(partidos_regular);
+
+  const generarPortafolio = (seed: number) => {
+    const generator = new PortfolioGenerator(seed);
+    const core = generator.generateCoreQuinielas(clasificados);
+    return [...core, ...generator.generateSatelliteQuinielas(clasificados, core, 16)];
+  };
+
+  it('genera 4 Core y satélites en pares', () => {
+    const portafolio = generarPortafolio(42);
+    expect(portafolio).toHaveLength(20);
+    expect(portafolio.filter(q => q.tipo === 'Core').map(q => q.id)).toEqual(['Core-1', 'Core-2', 'Core-3', 'Core-4']);
+    expect(portafolio[4].par_id).toBe(0);
+    expect(portafolio[5].par_id).toBe(0);
+    expect(portafolio.every(q => q.resultados.length === 14)).toBe(true);
+  });
+
+  it('acerca cada par de satélites a la correlación objetivo', () => {
+    for (const correlacionTarget of [-0.2, -0.45]) {
+      const generator = new PortfolioGenerator(42, 'regular', { correlacionTarget });
+      const core = generator.generateCoreQuinielas(clasificados);
+      const satelites = generator.generateSatelliteQuinielas(clasificados, core, 8);
+
+      for (let par = 0; par < satelites.length; par += 2) {
+        const correlacion = calcularCorrelacionAciertos(satelites[par].resultados, satelites[par + 1].resultados, clasificados);
+        expect(Math.abs(correlacion - correlacionTarget)).toBeLessThanOrEqual(PROGOL_CONFIG.CORRELACION_TOLERANCIA);
+      }
+    }
+  });
+
+  it('es determinista para la misma semilla', () => {
+    expect(generarPortafolio(123)).toEqual(generarPortafolio(123));
+  });
+});
@@ -0,0 +1,128 @@
+import { ajustarModeloGoles, ajustarModelosGoles, analizarMarcadoresCSV, aplicarPredicciones, predecirPartido, predecirPartidos } from '../goles';
+import { crearGeneradorAleatorio } from '../random';
+import type { MarcadorHistorico, Partido } from '../types';
+
+// Liga sintética: goles de Poisson con ataque/defensa conocidos y ventaja de local 1.3
+const FUERZAS: [string, number, number][] = [
+  ['Tigres', 1.5, 0.7],
+  ['Monterrey', 1.3, 0.8],
+  ['América', 1.2, 0.9],
+  ['Toluca', 0.9, 1.1],
+  ['Necaxa', 0.7, 1.2],
+  ['Querétaro', 0.6, 1.4]
+];
+
+const aleatorio = crearGeneradorAleatorio(11);
+const poisson = (media: number) => {
+  const limite = Math.exp(-media);
+  let k = 0;
+  let p = aleatorio();
+  while (p > limite) {
+    k++;
+    p *= aleatorio();
+  }
+  return k;
+};
+
+const marcadores: MarcadorHistorico[] = [];
+for (let temporada = 0; temporada < 8; temporada++) {
+  for (const [local, ataqueLocal, defensaLocal] of FUERZAS) {
+    for (const [visitante, ataqueVisitante, defensaVisitante] of FUERZAS) {
+      if (local === visitante) continue;
+      marcadores.push({
+        liga: 'Liga MX',
+        fecha: null,
+        local,
+        visitante,
+        golesLocal: poisson(1.3 * ataqueLocal * defensaVisitante),
+        golesVisitante: poisson(ataqueVisitante * defensaLocal)
+      });
+    }
+  }
+}
+
+const partido = (local: string, visitante: string): Partido => ({
+  local,
+  visitante,
+  prob_local: 0.4,
+  prob_empate: 0.3,
+  prob_visitante: 0.3,
+  cuotas: [2.3, 3.1, 3.2],
+  margen: 0.05
+});
+
+describe('modelo de goles', () => {
+  it('lee marcadores de football-data.co.uk y en columna marcador', () => {
+    const csv = [
+      'Div,Date,HomeTeam,AwayTeam,FTHG,FTAG',
+      'SP1,18/08/23,Almeria,Vallecano,0,2',
+      'SP1,19/08/2023,Sevilla,Valencia,,',
+      'SP1,32/08/23,Sociedad,Girona,1,1'
+    ].join('\n');
+
+    expect(analizarMarcadoresCSV(csv)).toEqual({
+      marcadores: [{ liga: 'SP1', fecha: '2023-08-18', local: 'Almeria', visitante: 'Vallecano', golesLocal: 0, golesVisitante: 2 }],
+      errores: ['Línea 3: marcador inválido', 'Línea 4: fecha inválida "32/08/23"']
+    });
+    expect(analizarMarcadoresCSV('local;visitante;marcador\nAmérica;Chivas;2 - 1').marcadores).toEqual([
+      { liga: 'General', fecha: null, local: 'América', visitante: 'Chivas', golesLocal: 2, golesVisitante: 1 }
+    ]);
+    expect(analizarMarcadoresCSV('local,visitante\nA,B').errores).toHaveLength(1);
+  });
+
+  it('recupera la ventaja de local y el orden de fuerzas', () => {
+    const modelo = ajustarModeloGoles(marcadores, 'Liga MX');
+
+    expect(modelo.partidos).toBe(240);
+    expect(modelo.ventajaLocal).toBeGreaterThan(1.1);
+    expect(modelo.ventajaLocal).toBeLessThan(1.5);
+    expect(Math.abs(modelo.rho)).toBeLessThanOrEqual(0.3);
+    const porAtaque = Object.values(modelo.equipos).sort((a, b) => b.ataque - a.ataque).map(e => e.nombre);
+    expect(porAtaque[0]).toBe('Tigres');
+    expect(porAtaque[porAtaque.length - 1]).toBe('Querétaro');
+
+    const prediccion = predecirPartido(modelo, 'tigres', 'QUERETARO')!;
+    expect(prediccion.prob_local + prediccion.prob_empate + prediccion.prob_visitante).toBeCloseTo(1, 12);
+    expect(prediccion.marcadores.flat().reduce((a, b) => a + b, 0)).toBeCloseTo(1, 12);
+    expect(prediccion.prob_local).toBeGreaterThan(0.6);
+    expect(prediccion.golesEsperadosLocal).toBeGreaterThan(prediccion.golesEsperadosVisitante);
+    const [x, y] = prediccion.marcadorProbable;
+    expect(prediccion.marcadores[x][y]).toBe(Math.max(...prediccion.marcadores.flat()));
+  });
+
+  it('pronostica con la liga que conoce a ambos equipos y sustituye las probabilidades', () => {
+    const otros: MarcadorHistorico[] = [
+      { liga: 'SP1', fecha: '2024-01-01', local: 'Sevilla', visitante: 'Betis', golesLocal: 1, golesVisitante: 1 }
+    ];
+    const modelos = ajustarModelosGoles([...otros, ...marcadores]);
+    expect(modelos.map(m => m.liga)).toEqual(['SP1', 'Liga MX']);
+
+    const partidos = [partido('Sevilla', 'Betis'), partido('Toluca', 'América'), partido('Sevilla', 'Tigres')];
+    const predicciones = predecirPartidos(modelos, partidos);
+    expect(predicciones.map(p => p?.liga ?? null)).toEqual(['SP1', 'Liga MX', null]);
+
+    const aplicados = aplicarPredicciones(partidos, predicciones);
+    expect(aplicados[1].prob_local).toBe(predicciones[1]!.prob_local);
+    expect(aplicados[1].cuotas).toBeUndefined();
+    expect(aplicados[2]).toBe(partidos[2]);
+  });
+
+  it('usa primero el modelo de la liga del partido cuando dos ligas comparten equipos', () => {
+    // En la otra liga el visitante gana siempre
+    const otra: MarcadorHistorico[] = Array.from({ length: 6 }, () => [
+      { liga: 'Expansión', fecha: null, local: 'Toluca', visitante: 'América', golesLocal: 0, golesVisitante: 3 },
+      { liga: 'Expansión', fecha: null, local: 'América', visitante: 'Toluca', golesLocal: 0, golesVisitante: 3 }
+    ]).flat();
+    const modelos = ajustarModelosGoles([...otra, ...marcadores]);
+    expect(modelos[0].liga).toBe('Expansión');
+
+    const [sinLiga, conLiga, ligaSinModelo] = predecirPartidos(modelos, [
+      partido('Toluca', 'América'),
+      { ...partido('Toluca', 'América'), liga: 'liga mx' },
+      { ...partido('Toluca', 'América'), liga: 'Premier' }
+    ]);
+    expect(sinLiga?.liga).toBe('Expansión');
+    expect(conLiga?.liga).toBe('Liga MX');
+    expect(ligaSinModelo?.liga).toBe('Expansión');
+  });
+});
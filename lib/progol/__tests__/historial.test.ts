@@ -0,0 +1,97 @@
+import { generarJSONPortafolio } from '../exportar';
+import { calificarConcurso, concursoDesdeExportacion, contarColumnasPorAciertos, crearConcurso, leerConcurso, resumirHistorial } from '../historial';
+import { createSampleData } from '../sample-data';
+import type { Quiniela, Resultado } from '../types';
+
+const { partidos_regular, partidos_revancha } = createSampleData(2);
+const reales: Resultado[] = ['L', 'L', 'E', 'V', 'L', 'E', 'L', 'V', 'L', 'L', 'E', 'L', 'V', 'L'];
+
+const quiniela = (id: string, tipo: Quiniela['tipo'], resultados: Resultado[], selecciones?: Resultado[][]): Quiniela => ({
+  id,
+  tipo,
+  resultados,
+  empates: resultados.filter(r => r === 'E').length,
+  distribucion: { L: 0, E: 0, V: 0 },
+  ...(selecciones ? { selecciones } : {})
+});
+
+describe('historial de concursos', () => {
+  // Core acierta 14; el satélite falla los dos primeros; el múltiple tiene un doble en el primero
+  const core = quiniela('Core-1', 'Core', reales);
+  const satelite = quiniela('Sat-1A', 'Satelite', reales.map((r, i) => (i < 2 ? 'V' : r)));
+  const multiples = reales.map((r, i): Resultado[] => (i === 0 ? ['V', 'L'] : [r]));
+  const multiple = quiniela('Sat-1B', 'Satelite', multiples.map(s => s[0]), multiples);
+  const revancha = quiniela('R-Core-1', 'Core', ['L', 'E', 'V', 'L', 'E', 'V', 'L']);
+
+  const concurso = {
+    ...crearConcurso({
+      numero: 1250,
+      partidos: partidos_regular,
+      partidosRevancha: partidos_revancha,
+      quinielas: [core, satelite, multiple],
+      quinielasRevancha: [revancha],
+      precioBoleto: 15,
+      precioRevancha: 10
+    }),
+    premios: [{ aciertos: 14, monto: 1000000 }, { aciertos: 13, monto: 20000 }, { aciertos: 12, monto: 500 }],
+    premiosRevancha: [{ aciertos: 7, monto: 30000 }]
+  };
+
+  it('cuenta las columnas de un boleto múltiple por aciertos', () => {
+    expect(contarColumnasPorAciertos(multiple, reales)).toEqual([...new Array(13).fill(0), 1, 1]);
+    expect(contarColumnasPorAciertos(satelite, reales)[12]).toBe(1);
+  });
+
+  it('no califica un juego hasta tener todos sus resultados', () => {
+    const sinResultados = calificarConcurso(concurso);
+    expect(sinResultados).toMatchObject({ completo: false, quinielas: [], costo: 0, ganancia: 0 });
+
+    const soloRegular = calificarConcurso({ ...concurso, resultados: reales });
+    expect(soloRegular.completo).toBe(false);
+    expect(soloRegular.quinielas.map(q => q.juego)).toEqual(['regular', 'regular', 'regular']);
+  });
+
+  it('califica aciertos, categoría y ganancia frente al costo por grupo', () => {
+    const calificacion = calificarConcurso({ ...concurso, resultados: reales, resultadosRevancha: ['L', 'E', 'V', 'L', 'E', 'V', 'V'] });
+
+    expect(calificacion.completo).toBe(true);
+    expect(calificacion.quinielas.map(q => [q.aciertos, q.categoria, q.ganancia, q.costo])).toEqual([
+      [14, 14, 1000000, 15],
+      [12, 12, 500, 15],
+      [14, 14, 1020000, 30],
+      [6, null, 0, 10]
+    ]);
+    expect(calificacion.grupos).toEqual([
+      { grupo: 'Core', boletos: 1, premiados: 1, aciertosPromedio: 14, costo: 15, ganancia: 1000000 },
+      { grupo: 'Satelite', boletos: 2, premiados: 2, aciertosPromedio: 13, costo: 45, ganancia: 1020500 },
+      { grupo: 'Revancha', boletos: 1, premiados: 0, aciertosPromedio: 6, costo: 10, ganancia: 0 }
+    ]);
+
+    const resumen = resumirHistorial([calificacion, calificacion, calificarConcurso(concurso)]);
+    expect(resumen.concursos).toBe(2);
+    expect(resumen.costo).toBe(140);
+    expect(resumen.grupos[0]).toMatchObject({ grupo: 'Core', boletos: 2, ganancia: 2000000 });
+  });
+
+  it('registra el portafolio de un JSON exportado y valida lo guardado', () => {
+    const json = generarJSONPortafolio({
+      partidos: partidos_regular,
+      quinielas: [core, satelite],
+      validacion: null,
+      partidosRevancha: partidos_revancha,
+      quinielasRevancha: [revancha],
+      validacionRevancha: null,
+      seed: 1,
+      configuracion: { precioBoleto: 20 },
+      optimizador: {}
+    });
+    const importado = concursoDesdeExportacion(json, 1251);
+
+    expect(importado).toMatchObject({ numero: 1251, precioBoleto: 20, precioRevancha: 10 });
+    expect(importado.quinielas.map(q => q.id)).toEqual(['Core-1', 'Sat-1A']);
+    expect(importado.resultadosRevancha).toHaveLength(7);
+    expect(leerConcurso(JSON.parse(JSON.stringify(importado)))).toEqual(importado);
+    expect(leerConcurso({ ...importado, resultados: ['X'] })).toBeNull();
+    expect(() => concursoDesdeExportacion('{"partidos": []}', 1)).toThrow('14 partidos');
+  });
+});
@@ -0,0 +1,89 @@
+import { PARAMETROS_OPTIMIZADOR, RESTRICCIONES_DEFAULT, VERSION_MOTOR } from '../config';
+import { calcularCostos, generarJSONPortafolio, generarTextoProgol } from '../exportar';
+import { analizarJSONPortafolio, analizarTextoProgol } from '../importar';
+import { ejecutarPipeline, reconstruirPortafolio } from '../pipeline';
+import { createSampleData } from '../sample-data';
+import type { DatosExportacion } from '../exportar';
+
+describe('importación de portafolios', () => {
+  const { partidos_regular, partidos_revancha } = createSampleData(5);
+  const optimizador = { ...PARAMETROS_OPTIMIZADOR, iteracionesOptimizador: 100, simulacionesMontecarlo: 500 };
+  const restricciones = { ...RESTRICCIONES_DEFAULT, empatesMax: 6 };
+  const generado = ejecutarPipeline({
+    partidosRegular: partidos_regular,
+    partidosRevancha: partidos_revancha,
+    numQuinielas: 10,
+    numQuinielasRevancha: 4,
+    seed: 21,
+    optimizador,
+    restricciones,
+    presupuesto: 400
+  });
+  const datos: DatosExportacion = {
+    partidos: partidos_regular,
+    quinielas: generado.quinielas,
+    validacion: generado.validacion,
+    partidosRevancha: partidos_revancha,
+    quinielasRevancha: generado.quinielasRevancha,
+    validacionRevancha: generado.validacionRevancha,
+    seed: 21,
+    configuracion: { numQuinielas: 10, seed: 21, metodoMargen: 'shin', ...restricciones },
+    optimizador
+  };
+
+  it('reparte el presupuesto con una quiniela de Revancha por boleto', () => {
+    expect(generado.quinielasRevancha).toHaveLength(Math.min(4, generado.quinielas.length));
+    expect(calcularCostos(datos).total).toBeLessThanOrEqual(400);
+  });
+
+  it('reconstruye el portafolio del JSON exportado con su configuración', () => {
+    const importado = analizarJSONPortafolio(generarJSONPortafolio(datos));
+    expect(importado).toMatchObject({ formato: 'json', version: VERSION_MOTOR, seed: 21, optimizador, advertencias: [] });
+    expect(importado.parametros).toEqual({ numQuinielas: 10, seed: 21, metodoMargen: 'shin' });
+    expect(importado.restricciones?.empatesMax).toBe(6);
+
+    const reconstruido = reconstruirPortafolio(importado, { seed: 21, optimizador, restricciones: importado.restricciones! });
+    expect(reconstruido.quinielas).toEqual(generado.quinielas);
+    expect(reconstruido.validacion).toEqual(generado.validacion);
+    expect(reconstruido.quinielasRevancha).toEqual(generado.quinielasRevancha);
+    expect(reconstruido.validacionRevancha?.es_valido).toBe(generado.validacionRevancha?.es_valido);
+
+    // Sin presupuesto quedan los satélites, con los pares que les asignó el generador
+    const conSatelites = ejecutarPipeline({ partidosRegular: partidos_regular, numQuinielas: 10, seed: 21, optimizador, restricciones });
+    expect(conSatelites.quinielas.some(q => typeof q.par_id === 'number')).toBe(true);
+    const importadoSatelites = analizarJSONPortafolio(generarJSONPortafolio({ ...datos, quinielas: conSatelites.quinielas }));
+    expect(reconstruirPortafolio(importadoSatelites, { seed: 21, optimizador, restricciones }).quinielas).toEqual(conSatelites.quinielas);
+  });
+
+  it('revisa la versión y la forma del JSON', () => {
+    const json = JSON.parse(generarJSONPortafolio(datos));
+    const conVersion = (version: string | undefined) =>
+      JSON.stringify({ ...json, metadata: { ...json.metadata, version_motor: version } });
+
+    expect(() => analizarJSONPortafolio(conVersion('2.0.0'))).toThrow('versión 2.0.0');
+    expect(analizarJSONPortafolio(conVersion('1.0.0')).advertencias).toHaveLength(1);
+    expect(analizarJSONPortafolio(conVersion(undefined)).advertencias[0]).toContain('no indica la versión');
+    expect(() => analizarJSONPortafolio('{"partidos": []')).toThrow('no es un JSON válido');
+    expect(() => analizarJSONPortafolio(JSON.stringify({ ...json, quinielas: [{ resultados: ['L'] }] })))
+      .toThrow('La quiniela 1 del juego regular');
+  });
+
+  it('lee el texto de boletos editado a mano contra los partidos cargados', () => {
+    const lineas = generarTextoProgol(datos).split('\n');
+    const primera = lineas.findIndex(l => l.startsWith('Q- 1'));
+    // Se cambia el primer partido de Q-1 a un doble L/E en 1/X/2
+    lineas[primera] = lineas[primera].replace(/: \S+/, ': 1X');
+    const importado = analizarTextoProgol(lineas.join('\n'), partidos_regular, partidos_revancha);
+
+    expect(importado.quinielas).toHaveLength(generado.quinielas.length);
+    expect(importado.quinielas[0].selecciones[0]).toEqual(['L', 'E']);
+    expect(importado.quinielas[1].selecciones.map(s => s[0])).toEqual(generado.quinielas[1].resultados);
+    expect(importado.quinielasRevancha.map(q => q.selecciones.flat())).toEqual(generado.quinielasRevancha.map(q => q.resultados));
+
+    const otrosPartidos = partidos_regular.map((p, i) => (i === 2 ? { ...p, local: 'Otro' } : p));
+    expect(() => analizarTextoProgol(lineas.join('\n'), otrosPartidos, partidos_revancha)).toThrow('El partido 3');
+    expect(() => analizarTextoProgol(lineas.join('\n'), [], [])).toThrow('carga primero');
+    lineas[primera] = lineas[primera].replace(/: \S+/, ': LL');
+    expect(() => analizarTextoProgol(lineas.join('\n'), partidos_regular, partidos_revancha)).toThrow(`Línea ${primera + 1}`);
+  });
+});
@@ -0,0 +1,92 @@
+import { MatchClassifier } from '../classifier';
+import { PARAMETROS_OPTIMIZADOR } from '../config';
+import { PortfolioGenerator } from '../generator';
+import { contarCombinaciones, pesosSeleccion, seleccionesDe } from '../multiples';
+import { PortfolioOptimizer } from '../optimizer';
+import { calcularCorrelacionAciertos, calcularDistribucionAciertos, calcularDistribucionPortafolio } from '../probabilidades';
+import { createSampleData } from '../sample-data';
+import type { ProbabilidadesPartido, Resultado } from '../types';
+
+describe('boletos múltiples', () => {
+  const partidos: ProbabilidadesPartido[] = Array.from({ length: 14 }, (_, i) => ({
+    prob_local: 0.45 - (i % 4) * 0.05,
+    prob_empate: 0.30,
+    prob_visitante: 0.25 + (i % 4) * 0.05
+  }));
+  const generator = new PortfolioGenerator();
+  const selecciones: Resultado[][] = partidos.map((_, i) => (i === 0 ? ['L', 'E'] : i === 1 ? ['L', 'E', 'V'] : ['L']));
+
+  it('cuenta columnas y reparte el peso de cada selección', () => {
+    expect(contarCombinaciones(selecciones)).toBe(6);
+    expect(contarCombinaciones(['L', ['E', 'V']])).toBe(2);
+    expect(pesosSeleccion([['L', 'E'], 'V'])).toEqual([{ L: 0.5, E: 0.5, V: 0 }, { L: 0, E: 0, V: 1 }]);
+    expect(seleccionesDe({ resultados: ['L', 'V'] })).toEqual([['L'], ['V']]);
+  });
+
+  it('suma la probabilidad de los resultados jugados en cada partido', () => {
+    const quiniela = generator.construirQuinielaMultiple('Q-1', 'Satelite', selecciones, partidos);
+    const probs = generator.calcularProbsAcierto(selecciones, partidos);
+
+    expect(probs[0]).toBeCloseTo(0.75, 12);
+    expect(probs[1]).toBeCloseTo(1, 12);
+    expect(quiniela.selecciones).toEqual(selecciones);
+    expect(quiniela.resultados.slice(0, 2)).toEqual(['L', 'L']);
+    expect(quiniela.empates).toBeCloseTo(0.5 + 1 / 3, 12);
+    expect(quiniela.prob_11_plus).toBeGreaterThan(generator.construirQuiniela('Q-2', 'Satelite', selecciones.map(s => s[0]), partidos).prob_11_plus!);
+    expect(generator.construirQuinielaMultiple('Q-3', 'Core', selecciones.map(s => [s[0]]), partidos).selecciones).toBeUndefined();
+  });
+
+  it('la mejor columna de un boleto múltiple sigue la Poisson-binomial de sus selecciones', () => {
+    const { distribucion, metodo } = calcularDistribucionPortafolio([selecciones], partidos, 1000);
+    const esperada = calcularDistribucionAciertos(generator.calcularProbsAcierto(selecciones, partidos));
+
+    expect(metodo).toBe('exacto');
+    distribucion.forEach((p, k) => expect(p).toBeCloseTo(esperada[k], 12));
+  });
+
+  it('correlaciona con los resultados que comparten las selecciones', () => {
+    const sencilla = selecciones.map(s => s[0]);
+    const otra = sencilla.map((r, i) => (i < 4 ? 'V' : r));
+    // Un triple acierta siempre: ese partido deja de aportar a la varianza y la covarianza
+    const conTriple = (quiniela: Resultado[]) => quiniela.map((r, i): Resultado[] => (i === 0 ? ['L', 'E', 'V'] : [r]));
+
+    expect(calcularCorrelacionAciertos(selecciones, selecciones, partidos)).toBeCloseTo(1, 12);
+    expect(calcularCorrelacionAciertos(conTriple(sencilla), conTriple(otra), partidos))
+      .toBeCloseTo(calcularCorrelacionAciertos(sencilla.slice(1), otra.slice(1), partidos.slice(1)), 12);
+  });
+});
+
+describe('PortfolioOptimizer.distribuirPresupuesto', () => {
+  const { partidos_regular } = createSampleData(3);
+  const clasificados = new MatchClassifier().classifyMatches(partidos_regular);
+  const generator = new PortfolioGenerator(5);
+  const core = generator.generateCoreQuinielas(clasificados);
+  const quinielas = [...core, ...generator.generateSatelliteQuinielas(clasificados, core, 16)];
+  const repartir = (presupuesto: number) =>
+    new PortfolioOptimizer(PARAMETROS_OPTIMIZADOR, new PortfolioGenerator(5)).distribuirPresupuesto(quinielas, clasificados, presupuesto);
+
+  it('no gasta más del presupuesto y elige la alternativa más probable', () => {
+    const reparto = repartir(450);
+    const columnas = reparto.quinielas.reduce((acc, q) => acc + contarCombinaciones(seleccionesDe(q)), 0);
+
+    expect(reparto.costo).toBe(columnas * 15);
+    expect(reparto.costo).toBeLessThanOrEqual(450);
+    expect(reparto.alternativas.every(a => a.costo <= 450)).toBe(true);
+    expect(reparto.alternativas.find(a => a.numBoletos === reparto.quinielas.length)!.probEstimada)
+      .toBe(Math.max(...reparto.alternativas.map(a => a.probEstimada)));
+    expect(reparto.quinielas.map(q => q.id)).toEqual(quinielas.slice(0, reparto.quinielas.length).map(q => q.id));
+    expect(repartir(450)).toEqual(reparto);
+  });
+
+  it('mantiene los empates de cada boleto dentro del rango', () => {
+    const { empatesMin, empatesMax } = generator.reglas;
+    for (const quiniela of repartir(900).quinielas) {
+      expect(quiniela.empates).toBeGreaterThanOrEqual(empatesMin);
+      expect(quiniela.empates).toBeLessThanOrEqual(empatesMax);
+    }
+  });
+
+  it('rechaza un presupuesto menor al precio de un boleto', () => {
+    expect(() => repartir(10)).toThrow('no alcanza para un boleto');
+  });
+});
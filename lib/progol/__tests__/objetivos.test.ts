@@ -0,0 +1,116 @@
+import { RESTRICCIONES_DEFAULT } from '../config';
+import { PortfolioGenerator } from '../generator';
+import { analizarHistorialResultados, calcularObjetivosHistoricos, restriccionesDeObjetivos, usaObjetivos } from '../objetivos';
+import { PortfolioValidator } from '../validator';
+import type { ProbabilidadesPartido, Resultado, ResultadosConcurso } from '../types';
+
+// 100 concursos semanales: los primeros 50 con 6 L, 4 E y 4 V; los siguientes con 5 L, 5 E y 4 V
+const historial: ResultadosConcurso[] = Array.from({ length: 100 }, (_, i) => ({
+  numero: 1000 + i,
+  fecha: new Date(Date.UTC(2020, 0, 4 + 7 * i)).toISOString().slice(0, 10),
+  resultados: (i < 50 ? 'LLLLLLEEEEVVVV' : 'LLLLLEEEEEVVVV').split('') as Resultado[]
+}));
+
+describe('objetivos históricos', () => {
+  it('lee historiales en CSV y JSON y reporta las filas inválidas', () => {
+    const csv = [
+      'Concurso;Fecha;Resultados',
+      '2201;14/09/2024;1X21X21X21X211',
+      '2200;2024-09-07;LEVLEVLEVLEVLL',
+      '2202;31/02/2024;LEVLEVLEVLEVLL',
+      '2203;;LEVLEV',
+      '2200;;LLLLLLLLLLLLLL'
+    ].join('\n');
+    const importacion = analizarHistorialResultados(csv);
+
+    expect(importacion.concursos).toEqual([
+      { numero: 2200, fecha: '2024-09-07', resultados: 'LEVLEVLEVLEVLL'.split('') },
+      { numero: 2201, fecha: '2024-09-14', resultados: 'LEVLEVLEVLEVLL'.split('') }
+    ]);
+    expect(importacion.errores).toEqual([
+      'Línea 4: fecha inválida "31/02/2024" (usa AAAA-MM-DD o DD/MM/AAAA)',
+      'Línea 5: se esperaban 14 resultados L/E/V (o 1/X/2)',
+      'Línea 6: el concurso 2200 está repetido'
+    ]);
+
+    const json = analizarHistorialResultados(JSON.stringify({ concursos: [{ numero: 7, resultados: 'EEEEEEEEEEEEEE' }] }));
+    expect(json).toEqual({ concursos: [{ numero: 7, fecha: null, resultados: new Array(14).fill('E') }], errores: [] });
+    expect(analizarHistorialResultados('numero,local\n1,América').errores).toEqual([
+      'El historial necesita las columnas concurso y resultados'
+    ]);
+  });
+
+  it('acepta las mismas fechas que los marcadores, también con año de dos dígitos', () => {
+    const csv = [
+      'concurso,fecha,resultados',
+      '2301,18/08/23,LEVLEVLEVLEVLL',
+      '2302,25.08.2023,LEVLEVLEVLEVLL',
+      '1901,04-09-99,LEVLEVLEVLEVLL',
+      '2303,2023-9-1,LEVLEVLEVLEVLL',
+      '2304,31/09/23,LEVLEVLEVLEVLL',
+      '2305,18/08/3,LEVLEVLEVLEVLL'
+    ].join('\n');
+    const importacion = analizarHistorialResultados(csv);
+
+    expect(importacion.concursos.map(c => [c.numero, c.fecha])).toEqual([
+      [1901, '1999-09-04'],
+      [2301, '2023-08-18'],
+      [2302, '2023-08-25'],
+      [2303, '2023-09-01']
+    ]);
+    expect(importacion.errores).toEqual([
+      'Línea 6: fecha inválida "31/09/23" (usa AAAA-MM-DD o DD/MM/AAAA)',
+      'Línea 7: fecha inválida "18/08/3" (usa AAAA-MM-DD o DD/MM/AAAA)'
+    ]);
+  });
+
+  it('calcula la distribución, los rangos por bloque y los empates', () => {
+    const objetivos = calcularObjetivosHistoricos(historial, 'resultados.csv');
+
+    expect(objetivos).toMatchObject({
+      fuente: 'resultados.csv',
+      ventanaAnios: null,
+      concursos: 100,
+      numeroDesde: 1000,
+      numeroHasta: 1099,
+      desde: '2020-01-04',
+      hasta: '2021-11-27',
+      empatesPromedio: 4.5,
+      empatesMin: 4,
+      empatesMax: 5
+    });
+    expect(objetivos.distribucion.L).toBeCloseTo(11 / 28, 12);
+    expect(objetivos.distribucion.E).toBeCloseTo(9 / 28, 12);
+    expect(objetivos.rangosHistoricos).toEqual({ L: [0.357, 0.429], E: [0.286, 0.357], V: [0.286, 0.286] });
+
+    // Último año: del 2020-11-28 en adelante, un solo bloque, así que el rango es de ±2 errores estándar
+    const ventana = calcularObjetivosHistoricos(historial, 'resultados.csv', 1);
+    expect(ventana).toMatchObject({ ventanaAnios: 1, concursos: 53, numeroDesde: 1047, desde: '2020-11-28' });
+    const [min, max] = ventana.rangosHistoricos.V;
+    expect(min).toBeLessThan(4 / 14);
+    expect(max).toBeGreaterThan(4 / 14);
+
+    expect(() => calcularObjetivosHistoricos(historial.map(c => ({ ...c, fecha: null })), 'x', 2))
+      .toThrow('El historial no tiene fechas para aplicar una ventana');
+  });
+
+  it('el validador usa los rangos recalculados', () => {
+    const objetivos = calcularObjetivosHistoricos(historial, 'resultados.csv');
+    const restricciones = { ...RESTRICCIONES_DEFAULT, ...restriccionesDeObjetivos(objetivos) };
+    expect(usaObjetivos(restricciones, objetivos)).toBe(true);
+    expect(usaObjetivos({ ...restricciones, empatesMax: 6 }, objetivos)).toBe(false);
+
+    // Rotaciones con 5 L, 4 E y 5 V: válidas con los rangos por defecto, pero con V arriba del 28.6%
+    const partidos: ProbabilidadesPartido[] = new Array(14).fill({ prob_local: 0.4, prob_empate: 0.3, prob_visitante: 0.3 });
+    const generator = new PortfolioGenerator();
+    const quinielas = Array.from({ length: 14 }, (_, i) => {
+      const fila = 'LLLLLEEEEVVVVV'.slice(i) + 'LLLLLEEEEVVVVV'.slice(0, i);
+      return generator.construirQuiniela(`Q-${i + 1}`, 'Satelite', fila.split('') as Resultado[], partidos);
+    });
+
+    expect(new PortfolioValidator(500).validatePortfolio(quinielas).errores).toEqual([]);
+    const validacion = new PortfolioValidator(500, 'regular', 42, restricciones).validatePortfolio(quinielas);
+    expect(validacion.es_valido).toBe(false);
+    expect(validacion.errores.some(e => e.startsWith('Distribución V'))).toBe(true);
+  });
+});
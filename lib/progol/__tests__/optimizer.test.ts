@@ -0,0 +1,65 @@
+import { MatchClassifier } from '../classifier';
+import { PARAMETROS_OPTIMIZADOR, RESTRICCIONES_DEFAULT } from '../config';
+import { PortfolioGenerator } from '../generator';
+import { PortfolioOptimizer } from '../optimizer';
+import { createSampleData } from '../sample-data';
+import type { Resultado, RestriccionesPortafolio } from '../types';
+
+// Sin límites de empates, concentración ni distribución: el score es solo el Pr del portafolio
+const sinRestricciones: RestriccionesPortafolio = {
+  ...RESTRICCIONES_DEFAULT,
+  empatesMin: 0,
+  empatesMax: 14,
+  concentracionGeneral: 1,
+  concentracionInicial: 1,
+  rangosHistoricos: { L: [0, 1], E: [0, 1], V: [0, 1] }
+};
+
+describe('PortfolioOptimizer', () => {
+  const { partidos_regular } = createSampleData(3);
+  const clasificados = new MatchClassifier().classifyMatches(partidos_regular);
+  const generator = new PortfolioGenerator(5, 'regular', sinRestricciones);
+  const favorita = clasificados.map((p): Resultado =>
+    p.prob_local >= p.prob_empate && p.prob_local >= p.prob_visitante ? 'L' : p.prob_visitante >= p.prob_empate ? 'V' : 'E'
+  );
+  const crearOptimizador = () =>
+    new PortfolioOptimizer({ ...PARAMETROS_OPTIMIZADOR, iteracionesOptimizador: 300 }, new PortfolioGenerator(5, 'regular', sinRestricciones));
+
+  it('no premia repetir quinielas, como sí lo hacía la fórmula de boletos independientes', () => {
+    const optimizador = crearOptimizador();
+    const escenarios = optimizador.crearEscenarios(clasificados);
+    // La segunda quiniela cambia los tres partidos menos claros por su segundo resultado
+    const dudosos = clasificados
+      .map((p, i) => ({ i, margen: Math.max(p.prob_local, p.prob_empate, p.prob_visitante) - p.prob_empate }))
+      .sort((a, b) => a.margen - b.margen)
+      .slice(0, 3)
+      .map(d => d.i);
+    const distinta = favorita.map((r, i): Resultado => (dudosos.includes(i) ? (r === 'E' ? 'L' : 'E') : r));
+
+    const repetidas = [favorita, [...favorita]];
+    const diversas = [favorita, distinta];
+    const independientes = (portafolio: Resultado[][]) =>
+      1 - portafolio.reduce((acc, q) => acc * (1 - generator.calcularProbPremio(q, clasificados)), 1);
+
+    expect(independientes(repetidas)).toBeGreaterThan(independientes(diversas));
+    expect(optimizador.evaluarPortafolio(repetidas, escenarios)).toBe(optimizador.evaluarPortafolio([favorita], escenarios));
+    expect(optimizador.evaluarPortafolio(diversas, escenarios)).toBeGreaterThan(optimizador.evaluarPortafolio(repetidas, escenarios));
+  });
+
+  it('separa dos quinielas iguales al optimizar', () => {
+    const iniciales = ['Sat-1A', 'Sat-1B'].map(id => generator.construirQuiniela(id, 'Satelite', favorita, clasificados));
+    const resultado = crearOptimizador().optimizar(iniciales, clasificados);
+
+    expect(resultado.mejorScore).toBeGreaterThan(resultado.scoreInicial);
+    expect(resultado.quinielas[0].resultados).not.toEqual(resultado.quinielas[1].resultados);
+    expect(crearOptimizador().optimizar(iniciales, clasificados)).toEqual(resultado);
+  });
+
+  it('no pone el mismo doble en dos boletos iguales', () => {
+    const selecciones = crearOptimizador().ampliarSelecciones([favorita.map(r => [r]), favorita.map(r => [r])], clasificados, 4);
+    const dobles = selecciones.map(q => q.findIndex(s => s.length > 1));
+
+    expect(dobles.every(i => i >= 0)).toBe(true);
+    expect(dobles[0]).not.toBe(dobles[1]);
+  });
+});
@@ -0,0 +1,137 @@
+import { PARAMETROS_OPTIMIZADOR, PRESETS_PREDEFINIDOS, PROGOL_CONFIG } from '../config';
+import { calcularCostos, generarCSVPortafolio, generarJSONPortafolio, generarTextoProgol } from '../exportar';
+import { calcularObjetivosHistoricos } from '../objetivos';
+import { ejecutarPipeline, ejecutarPipelineRevancha } from '../pipeline';
+import { createSampleData } from '../sample-data';
+import type { Resultado } from '../types';
+
+describe('ejecutarPipeline', () => {
+  const { partidos_regular, partidos_revancha } = createSampleData(3);
+  const optimizador = { ...PARAMETROS_OPTIMIZADOR, iteracionesOptimizador: 200 };
+
+  const ejecutar = () => ejecutarPipeline({
+    partidosRegular: partidos_regular,
+    partidosRevancha: partidos_revancha,
+    numQuinielas: 12,
+    numQuinielasRevancha: 6,
+    seed: 9,
+    optimizar: true,
+    optimizador
+  });
+
+  it('genera y valida ambos portafolios de forma reproducible', () => {
+    const resultado = ejecutar();
+
+    expect(resultado.quinielas).toHaveLength(12);
+    expect(resultado.quinielasRevancha).toHaveLength(6);
+    expect(resultado.validacionRevancha).not.toBeNull();
+    expect(resultado.optimizacion?.historial).toHaveLength(200);
+    expect(resultado.validacion.metricas.correlaciones_pares).toHaveLength(4);
+    expect(ejecutar().quinielas).toEqual(resultado.quinielas);
+  });
+
+  it('genera una quiniela de Revancha por boleto y solo la optimiza si se pide', () => {
+    const tres = ejecutarPipelineRevancha(partidos_revancha, 3, 9, optimizador, {}, {}, false);
+    expect(tres.quinielas.map(q => q.tipo)).toEqual(['Core', 'Core', 'Core']);
+
+    const sinOptimizar = ejecutarPipelineRevancha(partidos_revancha, 5, 9, optimizador, {}, {}, false);
+    const optimizadas = ejecutarPipelineRevancha(partidos_revancha, 5, 9, optimizador);
+    expect(sinOptimizar.quinielas).toHaveLength(5);
+    expect(sinOptimizar.quinielas.slice(0, 3)).toEqual(tres.quinielas);
+    expect(optimizadas.quinielas).toHaveLength(5);
+    expect(optimizadas.quinielas).not.toEqual(sinOptimizar.quinielas);
+
+    const sinOptimizarRegular = ejecutarPipeline({
+      partidosRegular: partidos_regular,
+      partidosRevancha: partidos_revancha,
+      numQuinielas: 5,
+      numQuinielasRevancha: 10,
+      seed: 9,
+      optimizador
+    });
+    expect(sinOptimizarRegular.quinielasRevancha).toEqual(sinOptimizar.quinielas);
+  });
+
+  it('paga la Revancha con el mismo presupuesto que los boletos regulares', () => {
+    for (const presupuesto of [100, 400, 1000]) {
+      const resultado = ejecutarPipeline({
+        partidosRegular: partidos_regular,
+        partidosRevancha: partidos_revancha,
+        numQuinielas: 12,
+        seed: 9,
+        optimizador,
+        presupuesto
+      });
+      const costos = calcularCostos({ quinielas: resultado.quinielas, quinielasRevancha: resultado.quinielasRevancha });
+
+      expect(resultado.quinielasRevancha).toHaveLength(resultado.quinielas.length);
+      expect(costos.revancha).toBeGreaterThan(0);
+      expect(costos.total).toBeLessThanOrEqual(presupuesto);
+      expect(resultado.presupuesto!.costo).toBe(costos.total);
+    }
+  });
+
+  it('las restricciones cambian el portafolio y su validación', () => {
+    const conservador = PRESETS_PREDEFINIDOS.find(p => p.nombre === 'conservador')!.restricciones;
+    const resultado = ejecutarPipeline({
+      partidosRegular: partidos_regular,
+      numQuinielas: 12,
+      seed: 9,
+      optimizar: true,
+      optimizador,
+      restricciones: conservador
+    });
+
+    expect(resultado.quinielas).not.toEqual(ejecutar().quinielas);
+    expect(resultado.quinielas.every(q => q.empates <= conservador.empatesMax!)).toBe(true);
+    expect(resultado.partidosClasificados).not.toEqual(ejecutar().partidosClasificados);
+  });
+
+  it('rechaza menos de 14 partidos regulares', () => {
+    expect(() => ejecutarPipeline({
+      partidosRegular: partidos_regular.slice(0, 10),
+      numQuinielas: 10,
+      seed: 1,
+      optimizador
+    })).toThrow('Se necesitan 14 partidos regulares');
+  });
+
+  it('produce los tres formatos de exportación', () => {
+    const resultado = ejecutar();
+    const datos = {
+      partidos: partidos_regular,
+      quinielas: resultado.quinielas,
+      validacion: resultado.validacion,
+      partidosRevancha: partidos_revancha,
+      quinielasRevancha: resultado.quinielasRevancha,
+      validacionRevancha: resultado.validacionRevancha,
+      seed: 9,
+      configuracion: {},
+      optimizador,
+      fecha: new Date('2024-01-01T00:00:00Z')
+    };
+
+    const filasCSV = generarCSVPortafolio(datos).split('\n');
+    expect(filasCSV).toHaveLength(13);
+    expect(filasCSV[1].split(',').pop()).toBe('25');
+    expect(filasCSV[12].split(',').pop()).toBe('15');
+
+    const json = JSON.parse(generarJSONPortafolio(datos));
+    expect(json.metadata.costos).toEqual({ sin_revancha: 180, revancha: 60, total: 240 });
+    expect(json.quinielas_revancha).toHaveLength(6);
+    expect(json.metadata.distribucion_historica).toEqual(PROGOL_CONFIG.DISTRIBUCION_HISTORICA);
+    expect(json.metadata.objetivos_historicos).toEqual({ fuente: 'PROGOL_CONFIG', desde: null, hasta: null, concursos: null });
+
+    // Con objetivos de un historial importado, el JSON dice de qué datos salen
+    const objetivos = calcularObjetivosHistoricos([
+      { numero: 2200, fecha: '2024-09-07', resultados: 'LLLLLLEEEEEVVV'.split('') as Resultado[] },
+      { numero: 2201, fecha: '2024-09-14', resultados: 'LLLLLEEEEEVVVV'.split('') as Resultado[] }
+    ], 'resultados.csv');
+    const metadata = JSON.parse(generarJSONPortafolio({ ...datos, objetivos })).metadata;
+    expect(metadata.distribucion_historica).toEqual(objetivos.distribucion);
+    expect(metadata.empates_promedio_historico).toBe(5);
+    expect(metadata.objetivos_historicos).toEqual({ fuente: 'resultados.csv', desde: '2024-09-07', hasta: '2024-09-14', concursos: 2 });
+
+    expect(generarTextoProgol(datos)).toContain('Costo total: $240 MXN');
+  });
+});
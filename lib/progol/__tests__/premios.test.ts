@@ -0,0 +1,87 @@
+import { MatchClassifier } from '../classifier';
+import { PREMIOS_DEFAULT } from '../config';
+import { PortfolioGenerator } from '../generator';
+import { calcularValorPortafolio, calcularValorQuiniela, fraccionCompartida } from '../premios';
+import { createSampleData } from '../sample-data';
+import type { DistribucionResultados, ParametrosPremios, ProbabilidadesPartido, Resultado, Seleccion } from '../types';
+
+const RESULTADOS: Resultado[] = ['L', 'E', 'V'];
+
+/** Todas las listas de `n` resultados, con su índice en base 3. */
+const todas = (n: number): Resultado[][] =>
+  Array.from({ length: 3 ** n }, (_, x) => Array.from({ length: n }, (_, i) => RESULTADOS[Math.floor(x / 3 ** i) % 3]));
+
+describe('premios y valor esperado', () => {
+  const partidos: (ProbabilidadesPartido & { popularidad: DistribucionResultados })[] = [
+    { prob_local: 0.5, prob_empate: 0.3, prob_visitante: 0.2, popularidad: { L: 0.7, E: 0.2, V: 0.1 } },
+    { prob_local: 0.4, prob_empate: 0.3, prob_visitante: 0.3, popularidad: { L: 0.4, E: 0.3, V: 0.3 } },
+    { prob_local: 0.2, prob_empate: 0.3, prob_visitante: 0.5, popularidad: { L: 0.3, E: 0.1, V: 0.6 } },
+    { prob_local: 0.6, prob_empate: 0.25, prob_visitante: 0.15, popularidad: { L: 0.8, E: 0.15, V: 0.05 } }
+  ];
+  const premios: ParametrosPremios = {
+    bolsa: 1000,
+    columnasPublico: 40,
+    categorias: [{ aciertos: 4, proporcion: 0.6 }, { aciertos: 3, proporcion: 0.3 }]
+  };
+
+  it('reparte el premio entre los ganadores esperados del público', () => {
+    expect(fraccionCompartida(0, 0.3)).toBeCloseTo(1, 12);
+    expect(fraccionCompartida(1000, 0)).toBe(1);
+    expect(fraccionCompartida(1, 0.5)).toBeCloseTo(0.5 + 0.5 / 2, 12);
+    expect(fraccionCompartida(1e6, 1e-3)).toBeCloseTo(1 / 1000, 5);
+  });
+
+  it('coincide con la enumeración de resultados y columnas del público', () => {
+    const selecciones: Seleccion[] = [['L', 'E'], 'E', 'V', 'L'];
+    const escenarios = todas(4);
+    let esperado = 0;
+
+    for (const real of escenarios) {
+      const prob = real.reduce((acc, r, i) => acc * { L: partidos[i].prob_local, E: partidos[i].prob_empate, V: partidos[i].prob_visitante }[r], 1);
+      // P(una columna del público tenga k aciertos)
+      const publico = [0, 0, 0, 0, 0];
+      for (const columna of escenarios) {
+        const aciertos = columna.filter((r, i) => r === real[i]).length;
+        publico[aciertos] += columna.reduce((acc, r, i) => acc * partidos[i].popularidad[r], 1);
+      }
+      for (const columna of [['L', 'E', 'V', 'L'], ['E', 'E', 'V', 'L']]) {
+        const aciertos = columna.filter((r, i) => r === real[i]).length;
+        const categoria = premios.categorias.find(c => c.aciertos === aciertos);
+        if (categoria) esperado += prob * premios.bolsa * categoria.proporcion * fraccionCompartida(premios.columnasPublico, publico[aciertos]);
+      }
+    }
+
+    const valor = calcularValorQuiniela(selecciones, partidos, premios);
+    expect(valor.valorEsperado).toBeCloseTo(esperado, 10);
+    expect(valor.probPremio).toBeGreaterThan(0);
+    expect(valor.coganadoresEsperados).toBeGreaterThan(0);
+  });
+
+  it('el modo contrarian sube el valor esperado sin perder más Pr[≥11] de lo permitido', () => {
+    const { partidos_regular } = createSampleData(3);
+    // El público carga el empate hacia el favorito
+    const conPopularidad = partidos_regular.map(p => {
+      const favorito = p.prob_local >= p.prob_visitante ? 'L' : 'V';
+      const popularidad = { L: p.prob_local, E: p.prob_empate * 0.7, V: p.prob_visitante };
+      popularidad[favorito] += p.prob_empate * 0.3;
+      return { ...p, popularidad };
+    });
+    const clasificados = new MatchClassifier().classifyMatches(conPopularidad);
+    const generator = new PortfolioGenerator(5);
+    const core = generator.generateCoreQuinielas(clasificados);
+    const quinielas = [...core, ...generator.generateSatelliteQuinielas(clasificados, core, 6)];
+    const contrarian = new PortfolioGenerator(5).aplicarModoContrarian(quinielas, clasificados, PREMIOS_DEFAULT, 0.1);
+
+    const antes = calcularValorPortafolio(quinielas, clasificados, PREMIOS_DEFAULT, 15);
+    const despues = calcularValorPortafolio(contrarian, clasificados, PREMIOS_DEFAULT, 15);
+    expect(despues.valorEsperado).toBeGreaterThan(antes.valorEsperado);
+    expect(despues.costo).toBe(quinielas.length * 15);
+
+    contrarian.forEach((quiniela, i) => {
+      expect(quiniela.id).toBe(quinielas[i].id);
+      expect(quiniela.prob_11_plus!).toBeGreaterThanOrEqual(0.9 * quinielas[i].prob_11_plus! - 1e-12);
+      expect(quiniela.empates).toBeGreaterThanOrEqual(generator.reglas.empatesMin);
+      expect(quiniela.empates).toBeLessThanOrEqual(generator.reglas.empatesMax);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  calcularCorrelacionAciertos,
+  calcularDistribucionAciertos,
+  calcularDistribucionPortafolio,
+  calcularMatrizCorrelacion,
+  calcularMomentosAciertos,
+  probabilidadAlMenos
+} from '../probabilidades';
+import { crearGeneradorAleatorio } from '../random';
+import type { ProbabilidadesPartido, Resultado } from '../types';
+
+describe('calcularDistribucionAciertos', () => {
+  it('coincide con la enumeración de todos los escenarios', () => {
+    const probs = [0.5, 0.2, 0.7, 0.35];
+    const esperado = new Array(probs.length + 1).fill(0);
+
+    for (let mascara = 0; mascara < 1 << probs.length; mascara++) {
+      let prob = 1;
+      let aciertos = 0;
+      probs.forEach((p, i) => {
+        const acierta = (mascara >> i) & 1;
+        prob *= acierta ? p : 1 - p;
+        aciertos += acierta;
+      });
+      esperado[aciertos] += prob;
+    }
+
+    calcularDistribucionAciertos(probs).forEach((p, k) => expect(p).toBeCloseTo(esperado[k], 12));
+  });
+
+  it('reduce a la binomial cuando todas las probabilidades son iguales', () => {
+    const distribucion = calcularDistribucionAciertos([0.5, 0.5, 0.5]);
+    expect(distribucion).toEqual([0.125, 0.375, 0.375, 0.125]);
+    expect(probabilidadAlMenos(distribucion, 2)).toBe(0.5);
+  });
+
+  it('tiene media Σp y varianza Σp(1 − p)', () => {
+    const probs = [0.5, 0.2, 0.7, 0.35];
+    const { media, desviacion } = calcularMomentosAciertos(calcularDistribucionAciertos(probs));
+
+    expect(media).toBeCloseTo(1.75, 12);
+    expect(desviacion).toBeCloseTo(Math.sqrt(probs.reduce((acc, p) => acc + p * (1 - p), 0)), 12);
+  });
+});
+
+describe('calcularDistribucionPortafolio', () => {
+  const partidos: ProbabilidadesPartido[] = [
+    { prob_local: 0.5, prob_empate: 0.3, prob_visitante: 0.2 },
+    { prob_local: 0.4, prob_empate: 0.3, prob_visitante: 0.3 },
+    { prob_local: 0.2, prob_empate: 0.3, prob_visitante: 0.5 }
+  ];
+
+  it('equivale a la Poisson-binomial con una sola quiniela', () => {
+    const { distribucion, metodo } = calcularDistribucionPortafolio([['L', 'E', 'V']], partidos, 1000);
+    expect(metodo).toBe('exacto');
+    calcularDistribucionAciertos([0.5, 0.3, 0.5]).forEach((p, k) => expect(distribucion[k]).toBeCloseTo(p, 12));
+  });
+
+  it('cubre todos los resultados de un partido cuando las quinielas lo triplican', () => {
+    const quinielas: Resultado[][] = [['L', 'E', 'V'], ['E', 'E', 'V'], ['V', 'E', 'V']];
+    const { distribucion } = calcularDistribucionPortafolio(quinielas, partidos, 1000);
+    expect(probabilidadAlMenos(distribucion, 3)).toBeCloseTo(0.3 * 0.5, 12);
+  });
+
+  it('estima por Monte Carlo cuando hay demasiados escenarios', () => {
+    const muchos: ProbabilidadesPartido[] = Array(13).fill({ prob_local: 0.4, prob_empate: 0.3, prob_visitante: 0.3 });
+    const quinielas: Resultado[][] = [muchos.map(() => 'L'), muchos.map(() => 'E'), muchos.map(() => 'V')];
+
+    const { distribucion, metodo } = calcularDistribucionPortafolio(quinielas, muchos, 2000, crearGeneradorAleatorio(1));
+
+    expect(metodo).toBe('montecarlo');
+    expect(distribucion.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 9);
+  });
+});
+
+describe('calcularCorrelacionAciertos', () => {
+  const partidos: ProbabilidadesPartido[] = [
+    { prob_local: 0.5, prob_empate: 0.3, prob_visitante: 0.2 },
+    { prob_local: 0.25, prob_empate: 0.35, prob_visitante: 0.4 },
+    { prob_local: 0.6, prob_empate: 0.25, prob_visitante: 0.15 }
+  ];
+  const resultados: Resultado[] = ['L', 'E', 'V'];
+
+  it('coincide con la enumeración de todos los escenarios', () => {
+    const a: Resultado[] = ['L', 'V', 'L'];
+    const b: Resultado[] = ['E', 'V', 'L'];
+    let [sumaA, sumaB, sumaAB, sumaA2, sumaB2] = [0, 0, 0, 0, 0];
+
+    for (let escenario = 0; escenario < 27; escenario++) {
+      const reales = [0, 1, 2].map(i => resultados[Math.floor(escenario / 3 ** i) % 3]);
+      const prob = reales.reduce((acc, r, i) =>
+        acc * (r === 'L' ? partidos[i].prob_local : r === 'E' ? partidos[i].prob_empate : partidos[i].prob_visitante), 1);
+      const aciertosA = reales.filter((r, i) => r === a[i]).length;
+      const aciertosB = reales.filter((r, i) => r === b[i]).length;
+      sumaA += prob * aciertosA;
+      sumaB += prob * aciertosB;
+      sumaAB += prob * aciertosA * aciertosB;
+      sumaA2 += prob * aciertosA ** 2;
+      sumaB2 += prob * aciertosB ** 2;
+    }
+    const esperado = (sumaAB - sumaA * sumaB) / Math.sqrt((sumaA2 - sumaA ** 2) * (sumaB2 - sumaB ** 2));
+
+    expect(calcularCorrelacionAciertos(a, b, partidos)).toBeCloseTo(esperado, 12);
+  });
+
+  it('arma una matriz simétrica con unos en la diagonal', () => {
+    const matriz = calcularMatrizCorrelacion([['L', 'E', 'L'], ['V', 'L', 'E'], ['L', 'E', 'V']], partidos);
+
+    expect(matriz.map((fila, i) => fila[i])).toEqual([1, 1, 1]);
+    expect(matriz[0][1]).toBeCloseTo(matriz[1][0], 12);
+    expect(matriz[0][1]).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,92 @@
+import { PARAMETROS_OPTIMIZADOR, PREMIOS_DEFAULT, PROGOL_CONFIG, RESTRICCIONES_DEFAULT } from '../config';
+import { calcularObjetivosHistoricos } from '../objetivos';
+import { createSampleData } from '../sample-data';
+import {
+  actualizarSesion,
+  crearSesion,
+  duplicarSesion,
+  estadoSinDatos,
+  leerSesion,
+  ordenarSesiones
+} from '../sesiones';
+import type { EstadoSesion } from '../sesiones';
+import type { Resultado } from '../types';
+
+const muestra = createSampleData(7);
+const estado: EstadoSesion = {
+  numeroConcurso: 2251,
+  partidosRegular: muestra.partidos_regular,
+  partidosRevancha: muestra.partidos_revancha,
+  partidosClasificados: [],
+  partidosRevanchaClasificados: [],
+  quinielasCore: [],
+  quinielasSatelites: [],
+  quinielasFinales: [{ id: 'Core-1', tipo: 'Core', resultados: new Array(14).fill('L'), empates: 0, distribucion: { L: 14, E: 0, V: 0 } }],
+  quinielasRevancha: [],
+  validacion: null,
+  validacionRevancha: null,
+  config: { numQuinielas: 20, numQuinielasRevancha: 10, seed: 42, metodoMargen: 'shin', presupuesto: 300 },
+  optimizerConfig: PARAMETROS_OPTIMIZADOR,
+  restricciones: RESTRICCIONES_DEFAULT,
+  drawPropensity: PROGOL_CONFIG.DRAW_PROPENSITY,
+  premios: PREMIOS_DEFAULT,
+  objetivosHistoricos: null
+};
+
+describe('sesiones', () => {
+  it('crea, actualiza y ordena sesiones por último guardado', () => {
+    const martes = crearSesion('  ', estado, new Date('2024-09-03T10:00:00Z'));
+    expect(martes.nombre).toBe('Concurso 2251');
+    expect(martes.creada).toBe('2024-09-03T10:00:00.000Z');
+
+    const otra = crearSesion('Concurso 2252', { ...estado, numeroConcurso: 2252 }, new Date('2024-09-04T10:00:00Z'));
+    const viernes = actualizarSesion(martes, { ...estado, quinielasFinales: [] }, new Date('2024-09-06T18:00:00Z'));
+    expect(viernes.id).toBe(martes.id);
+    expect(viernes.creada).toBe(martes.creada);
+    expect(viernes.estado.quinielasFinales).toEqual([]);
+    expect(ordenarSesiones([otra, viernes]).map(s => s.id)).toEqual([viernes.id, otra.id]);
+  });
+
+  it('duplica con nombre libre y vacía conservando la configuración', () => {
+    const original = crearSesion('Concurso 2251', estado);
+    const copia = duplicarSesion(original, [original]);
+    expect(copia.id).not.toBe(original.id);
+    expect(copia.nombre).toBe('Concurso 2251 (copia)');
+    expect(duplicarSesion(original, [original, copia]).nombre).toBe('Concurso 2251 (copia 2)');
+    expect(copia.estado).toEqual(original.estado);
+
+    const vacio = estadoSinDatos(estado, 2252);
+    expect(vacio.numeroConcurso).toBe(2252);
+    expect(vacio.partidosRegular).toEqual([]);
+    expect(vacio.quinielasFinales).toEqual([]);
+    expect(vacio.config).toBe(estado.config);
+    expect(vacio.restricciones).toBe(estado.restricciones);
+  });
+
+  it('lee sesiones guardadas y descarta las dañadas', () => {
+    const sesion = crearSesion('Concurso 2251', estado);
+    expect(leerSesion(JSON.parse(JSON.stringify(sesion)))).toEqual(sesion);
+
+    expect(leerSesion(null)).toBeNull();
+    expect(leerSesion({ ...sesion, nombre: 3 })).toBeNull();
+    expect(leerSesion({ ...sesion, estado: { ...estado, partidosRegular: 'x' } })).toBeNull();
+    expect(leerSesion({ ...sesion, estado: { ...estado, config: { ...estado.config, metodoMargen: 'otro' } } })).toBeNull();
+    expect(leerSesion({ ...sesion, estado: { ...estado, restricciones: { ...estado.restricciones, empatesMin: -1 } } })).toBeNull();
+    const sinProbabilidad = estado.partidosRegular.map((p, i) => (i === 3 ? { ...p, prob_empate: 'x' } : p));
+    expect(leerSesion({ ...sesion, estado: { ...estado, partidosRegular: sinProbabilidad } })).toBeNull();
+    expect(leerSesion({ ...sesion, estado: { ...estado, partidosRevancha: [null] } })).toBeNull();
+  });
+
+  it('conserva los objetivos históricos y lee sesiones guardadas sin ellos', () => {
+    const objetivos = calcularObjetivosHistoricos([
+      { numero: 2250, fecha: '2024-08-31', resultados: 'LLLLLLEEEEEVVV'.split('') as Resultado[] }
+    ], 'resultados.csv');
+    const sesion = crearSesion('Concurso 2251', { ...estado, objetivosHistoricos: objetivos });
+    expect(leerSesion(JSON.parse(JSON.stringify(sesion)))?.estado.objetivosHistoricos).toEqual(objetivos);
+    expect(estadoSinDatos(sesion.estado).objetivosHistoricos).toBe(objetivos);
+
+    const { objetivosHistoricos, ...anterior } = estado;
+    expect(leerSesion({ ...sesion, estado: anterior })?.estado.objetivosHistoricos).toBeNull();
+    expect(leerSesion({ ...sesion, estado: { ...estado, objetivosHistoricos: { fuente: 'x' } } })).toBeNull();
+  });
+});
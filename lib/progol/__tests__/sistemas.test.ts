@@ -0,0 +1,86 @@
+import { MatchClassifier } from '../classifier';
+import { PortfolioGenerator } from '../generator';
+import { createSampleData } from '../sample-data';
+import { calcularCobertura, coberturasPorDefecto, generarSistemaReducido } from '../sistemas';
+import type { Cobertura } from '../types';
+
+const distancia = (a: number[], b: number[]) => a.filter((d, i) => d !== b[i]).length;
+
+const todosLosPuntos = (tamanos: number[]): number[][] =>
+  tamanos.reduce<number[][]>((puntos, tamano) =>
+    puntos.flatMap(p => Array.from({ length: tamano }, (_, d) => [...p, d])), [[]]);
+
+describe('calcularCobertura', () => {
+  it.each([
+    [[3, 3, 3, 3], 1, 9],
+    [[2, 2, 2, 2, 2, 2, 2], 1, 16],
+    [[2, 2, 2], 1, 2]
+  ])('cubre %j con radio %i usando %i puntos', (tamanos, radio, esperado) => {
+    const cobertura = calcularCobertura(tamanos, radio);
+
+    expect(cobertura).toHaveLength(esperado);
+    for (const punto of todosLosPuntos(tamanos)) {
+      expect(cobertura.some(c => distancia(c, punto) <= radio)).toBe(true);
+    }
+  });
+
+  it('con radio 0 devuelve el desarrollo completo', () => {
+    expect(calcularCobertura([2, 3], 0)).toHaveLength(6);
+  });
+});
+
+describe('generarSistemaReducido', () => {
+  const { partidos_regular } = createSampleData(4);
+  const clasificados = new MatchClassifier().classifyMatches(partidos_regular);
+
+  it('juega los fijos al resultado sugerido y reporta costo y cota', () => {
+    const coberturas: Cobertura[] = clasificados.map((_, i) => (i < 4 ? 'triple' : i < 7 ? 'doble' : 'fijo'));
+    const sistema = generarSistemaReducido(clasificados, coberturas, { aciertos: 13, si: 14 });
+
+    expect(sistema.combinaciones).toBe(81 * 8);
+    expect(sistema.quinielas.length).toBeGreaterThanOrEqual(sistema.cotaInferior);
+    expect(sistema.quinielas.length).toBeLessThan(sistema.combinaciones);
+    expect(sistema.costo).toBe(sistema.quinielas.length * 15);
+    expect(sistema.costoDesarrolloCompleto).toBe(648 * 15);
+    expect(sistema.quinielas.every(q => q.tipo === 'Sistema' && q.prob_11_plus !== undefined)).toBe(true);
+    for (const quiniela of sistema.quinielas) {
+      quiniela.resultados.forEach((r, i) => expect(sistema.opciones[i]).toContain(r));
+    }
+    expect(sistema.quinielas.every(q => q.resultados.slice(7).join('') === clasificados.slice(7).map(p => p.resultadoSugerido).join(''))).toBe(true);
+  });
+
+  it('por defecto varía los partidos Divisor y TendenciaEmpate', () => {
+    const coberturas = coberturasPorDefecto(clasificados);
+    clasificados.forEach((p, i) => {
+      const variable = p.clasificacion === 'Divisor' || p.clasificacion === 'TendenciaEmpate';
+      expect(coberturas[i]).toBe(variable ? 'doble' : 'fijo');
+    });
+  });
+
+  it('un doble nunca repite el sugerido cuando dos resultados empatan en probabilidad', () => {
+    const empatados = clasificados.map(p => ({ ...p, prob_local: 0.36, prob_empate: 0.28, prob_visitante: 0.36, resultadoSugerido: 'V' as const }));
+    const sistema = generarSistemaReducido(empatados, empatados.map((_, i) => (i < 3 ? 'doble' : 'fijo')), { aciertos: 14, si: 14 });
+
+    expect(sistema.opciones.slice(0, 3)).toEqual([['V', 'L'], ['V', 'L'], ['V', 'L']]);
+    expect(sistema.quinielas).toHaveLength(8);
+  });
+
+  it('rechaza garantías imposibles y desarrollos demasiado grandes', () => {
+    expect(() => generarSistemaReducido(clasificados, [], { aciertos: 15, si: 14 })).toThrow('Garantía inválida');
+    expect(() => generarSistemaReducido(clasificados, clasificados.map(() => 'triple'), { aciertos: 13, si: 14 }))
+      .toThrow('el máximo es 59049');
+  });
+
+  it('usa los prefijos y precios de Revancha', () => {
+    const revancha = generarSistemaReducido(
+      clasificados.slice(0, 7),
+      ['doble', 'doble', 'doble', 'fijo', 'fijo', 'fijo', 'fijo'],
+      { aciertos: 6, si: 7 },
+      new PortfolioGenerator(42, 'revancha')
+    );
+
+    expect(revancha.quinielas).toHaveLength(2);
+    expect(revancha.quinielas[0].id).toBe('Rev-Sis-1');
+    expect(revancha.costo).toBe(20);
+  });
+});
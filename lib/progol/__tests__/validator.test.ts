@@ -0,0 +1,136 @@
+import { PortfolioGenerator } from '../generator';
+import { PortfolioValidator } from '../validator';
+import type { ProbabilidadesPartido, Resultado } from '../types';
+
+const partidos: ProbabilidadesPartido[] = Array.from({ length: 14 }, (_, i) => ({
+  prob_local: 0.40 + (i % 3) * 0.05,
+  prob_empate: 0.30,
+  prob_visitante: 0.30 - (i % 3) * 0.05
+}));
+
+const generator = new PortfolioGenerator();
+const crearPortafolio = (filas: string[]) =>
+  filas.map((fila, i) =>
+    generator.construirQuiniela(`Q-${i + 1}`, 'Satelite', fila.split('') as Resultado[], partidos)
+  );
+
+// Rotaciones de una quiniela con 5 L, 4 E y 5 V: cada partido recibe la misma mezcla de resultados
+const BASE = 'LLLLLEEEEVVVVV';
+const rotaciones = Array.from({ length: 14 }, (_, i) => BASE.slice(i) + BASE.slice(0, i));
+
+describe('PortfolioValidator', () => {
+  const validator = new PortfolioValidator(2000);
+
+  it('acepta un portafolio balanceado', () => {
+    const validacion = validator.validatePortfolio(crearPortafolio(rotaciones));
+
+    expect(validacion.es_valido).toBe(true);
+    expect(validacion.errores).toEqual([]);
+    expect(validacion.warnings).toEqual([]);
+    expect(validacion.metricas.distribucion_global).toEqual({ L: 5 / 14, E: 4 / 14, V: 5 / 14 });
+    expect(validacion.metricas.empates_rango).toEqual([4, 4]);
+    expect(validacion.metricas.costo_total).toBe(14 * 15);
+  });
+
+  it('rechaza un portafolio vacío', () => {
+    const validacion = validator.validatePortfolio([]);
+    expect(validacion.es_valido).toBe(false);
+    expect(validacion.errores).toEqual(['No hay quinielas en el portafolio']);
+  });
+
+  it('advierte de una quiniela aislada fuera del rango de empates', () => {
+    const filas = [...rotaciones];
+    filas[0] = 'LLLLLLEEVVVVVV';
+
+    const validacion = validator.validatePortfolio(crearPortafolio(filas));
+
+    expect(validacion.warnings).toContain('Q-1: 2 empates (mínimo 4)');
+    expect(validacion.errores).toEqual([]);
+    expect(validacion.metricas.quinielas_fuera_empates).toEqual([0]);
+  });
+
+  it('marca error cuando más del 10% de las quinielas rompen el rango de empates', () => {
+    const filas = [...rotaciones];
+    filas[0] = 'LLLLLLEEVVVVVV';
+    filas[1] = 'LLLLLLLEVVVVVV';
+
+    const validacion = validator.validatePortfolio(crearPortafolio(filas));
+
+    expect(validacion.es_valido).toBe(false);
+    expect(validacion.errores[0]).toMatch(/^Muchas quinielas fuera del rango de empates/);
+  });
+
+  it('aplica el límite de concentración más estricto a los partidos iniciales', () => {
+    // 13 de 20 quinielas (65%) con 'L' en el partido 1: pasa el 60% inicial, no el 70% general
+    const filas = Array.from({ length: 20 }, (_, i) => {
+      const rotacion = rotaciones[i % 14];
+      return (i < 13 ? 'L' : 'V') + rotacion.slice(1);
+    });
+
+    const validacion = validator.validatePortfolio(crearPortafolio(filas));
+
+    expect(validacion.warnings).toContain("Partido 1: 65% en 'L' (límite: 60%)");
+    expect(validacion.metricas.concentraciones_excedidas).toEqual([{ partido: 0, resultado: 'L', proporcion: 0.65, limite: 0.6 }]);
+  });
+
+  it('respeta las restricciones configuradas', () => {
+    const filas = Array.from({ length: 20 }, (_, i) => {
+      const rotacion = rotaciones[i % 14];
+      return (i < 13 ? 'L' : 'V') + rotacion.slice(1);
+    });
+    const flexible = new PortfolioValidator(2000, 'regular', 42, { partidosIniciales: 0, empatesMin: 5 });
+
+    const validacion = flexible.validatePortfolio(crearPortafolio(filas));
+
+    expect(validacion.warnings.some(w => w.startsWith('Partido 1'))).toBe(false);
+    expect(validacion.errores[0]).toMatch(/^Muchas quinielas fuera del rango de empates/);
+  });
+
+  it('marca error con más de tres partidos sobreconcentrados', () => {
+    const validacion = validator.validatePortfolio(crearPortafolio(Array(10).fill(BASE)));
+    expect(validacion.es_valido).toBe(false);
+    expect(validacion.errores.some(e => e.startsWith('Múltiples violaciones de concentración'))).toBe(true);
+  });
+
+  it('calcula la probabilidad del portafolio sobre resultados compartidos', () => {
+    const quinielas = crearPortafolio([BASE, 'LLLLLEEEEVVVLL', 'ELLLLEEEVVVVVV']);
+    const { metricas } = validator.validatePortfolio(quinielas, partidos);
+    const probs = quinielas.map(q => q.prob_11_plus || 0);
+
+    expect(metricas.metodo_prob_portafolio).toBe('exacto');
+    expect(metricas.ganadores_esperados).toBeCloseTo(probs.reduce((a, b) => a + b, 0), 12);
+    expect(metricas.prob_portafolio_11_plus).toBeGreaterThanOrEqual(Math.max(...probs));
+    expect(metricas.prob_portafolio_11_plus).toBeLessThanOrEqual(metricas.ganadores_esperados || 0);
+  });
+
+  it('cuenta los boletos múltiples como el promedio de sus columnas', () => {
+    const selecciones = BASE.split('').map((r, i): Resultado[] => (i === 0 ? ['L', 'E'] : i === 13 ? ['L', 'E', 'V'] : [r as Resultado]));
+    const multiple = generator.construirQuinielaMultiple('Q-M', 'Satelite', selecciones, partidos);
+    const quinielas = [...crearPortafolio(rotaciones.slice(1)), multiple];
+
+    const { metricas } = validator.validatePortfolio(quinielas, partidos);
+
+    expect(metricas.columnas_totales).toBe(13 + 6);
+    expect(metricas.boletos_multiples).toBe(1);
+    expect(metricas.costo_total).toBe(19 * 15);
+    expect(metricas.empates_rango![1]).toBeCloseTo(4 + 0.5 + 1 / 3, 12);
+    const { L, E, V } = metricas.distribucion_global!;
+    expect(L + E + V).toBeCloseTo(1, 12);
+    expect(metricas.prob_portafolio_11_plus).toBeGreaterThanOrEqual(multiple.prob_11_plus!);
+  });
+
+  it('usa las reglas de Revancha', () => {
+    const revancha = new PortfolioValidator(2000, 'revancha');
+    const filas = ['LLLEVVV', 'LLEVVVL', 'LEVVVLL', 'EVVVLLL', 'VVVLLLE', 'VVLLLEV', 'VLLLEVV'];
+    const generatorRevancha = new PortfolioGenerator(42, 'revancha');
+    const quinielas = filas.map((f, i) =>
+      generatorRevancha.construirQuiniela(`Rev-${i + 1}`, 'Satelite', f.split('') as Resultado[], partidos.slice(0, 7))
+    );
+
+    const validacion = revancha.validatePortfolio(quinielas, partidos.slice(0, 7));
+
+    expect(validacion.metricas.costo_total).toBe(7 * 10);
+    expect(validacion.metricas.prob_7_promedio).toBeGreaterThan(0);
+    expect(validacion.metricas.prob_portafolio_7).toBeDefined();
+  });
+});
@@ -0,0 +1,87 @@
+import { RESTRICCIONES_DEFAULT } from './config';
+import { calificarConcurso, crearConcurso } from './historial';
+import { ejecutarPipeline } from './pipeline';
+import type { BacktestConcurso, ConcursoHistorico, ConfiguracionBacktest, ResultadoBacktest } from './types';
+
+// ==================== BACKTESTING ====================
+
+const tasas = (valores: number[]): Record<11 | 12 | 13, number> => {
+  const total = Math.max(valores.length, 1);
+  return {
+    11: valores.filter(v => v >= 11).length / total,
+    12: valores.filter(v => v >= 12).length / total,
+    13: valores.filter(v => v >= 13).length / total
+  };
+};
+
+/**
+ * Genera y valida el portafolio de un concurso pasado con la configuración dada (Clasificar,
+ * Core, Satélites, Validar) y lo califica contra los resultados reales.
+ */
+export const evaluarConcurso = (concurso: ConcursoHistorico, configuracion: ConfiguracionBacktest): BacktestConcurso => {
+  const { quinielas, validacion } = ejecutarPipeline({
+    partidosRegular: concurso.partidos,
+    numQuinielas: configuracion.numQuinielas,
+    seed: configuracion.seed,
+    optimizar: configuracion.optimizar,
+    optimizador: configuracion.optimizador,
+    restricciones: configuracion.restricciones,
+    umbrales: configuracion.umbrales
+  });
+
+  const jugado = crearConcurso({
+    numero: concurso.numero,
+    partidos: concurso.partidos,
+    partidosRevancha: [],
+    quinielas,
+    quinielasRevancha: [],
+    precioBoleto: configuracion.restricciones.precioBoleto ?? RESTRICCIONES_DEFAULT.precioBoleto
+  });
+  const calificacion = calificarConcurso({
+    ...jugado,
+    resultados: concurso.resultados,
+    premios: concurso.premios || jugado.premios
+  });
+  const aciertos = calificacion.quinielas.map(q => q.aciertos);
+
+  return {
+    numero: concurso.numero,
+    aciertos,
+    mejorAciertos: Math.max(...aciertos),
+    valido: validacion.es_valido,
+    probPortafolio11: validacion.metricas.prob_portafolio_11_plus || 0,
+    costo: calificacion.costo,
+    ganancia: concurso.premios ? calificacion.ganancia : null
+  };
+};
+
+/**
+ * Corre la metodología sobre cada concurso pasado y resume cómo le fue: distribución de
+ * aciertos, tasas de ≥11/≥12/≥13 por quiniela y por concurso, y ROI con los premios pagados.
+ * Con la misma semilla, dos configuraciones se comparan sobre los mismos concursos.
+ */
+export const ejecutarBacktest = (concursos: ConcursoHistorico[], configuracion: ConfiguracionBacktest): ResultadoBacktest => {
+  const evaluados = concursos.map(concurso => evaluarConcurso(concurso, configuracion));
+  const aciertos = evaluados.flatMap(c => c.aciertos);
+
+  const distribucion: number[] = new Array(15).fill(0);
+  aciertos.forEach(k => distribucion[k]++);
+
+  const conPremios = evaluados.filter(c => c.ganancia !== null);
+  const costo = conPremios.reduce((acc, c) => acc + c.costo, 0);
+  const ganancia = conPremios.reduce((acc, c) => acc + (c.ganancia || 0), 0);
+
+  return {
+    configuracion,
+    concursos: evaluados,
+    distribucion: distribucion.map(n => n / Math.max(aciertos.length, 1)),
+    tasaQuinielas: tasas(aciertos),
+    tasaConcursos: tasas(evaluados.map(c => c.mejorAciertos)),
+    probPortafolio11Media: evaluados.reduce((acc, c) => acc + c.probPortafolio11, 0) / Math.max(evaluados.length, 1),
+    portafoliosValidos: evaluados.filter(c => c.valido).length,
+    concursosConPremios: conPremios.length,
+    costo,
+    ganancia,
+    roi: costo > 0 ? (ganancia - costo) / costo : null
+  };
+};
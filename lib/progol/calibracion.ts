@@ -0,0 +1,145 @@
+import { MatchClassifier } from './classifier';
+import { PROGOL_CONFIG } from './config';
+import type {
+  ConcursoHistorico,
+  EvaluacionCalibracion,
+  MetricaCalibracion,
+  ParametrosCalibracion,
+  PartidoJugado,
+  ProbabilidadesPartido,
+  PuntoConfiabilidad,
+  Resultado,
+  ResultadoCalibracion
+} from './types';
+
+// ==================== AJUSTE DE LA CALIBRACIÓN ====================
+
+const RESULTADOS: Resultado[] = ['L', 'E', 'V'];
+const INTERVALOS_CONFIABILIDAD = 10;
+const PROB_MINIMA = 1e-12;
+
+/** Rango de búsqueda de cada parámetro: el de los controles de la pestaña Configuración. */
+export const RANGOS_CALIBRACION = {
+  k1_forma: [0, 0.5],
+  k2_lesiones: [0, 0.5],
+  k3_contexto: [0, 0.5],
+  umbral_diferencia: [0, 0.2],
+  boost_empate: [0, 0.15]
+} as const;
+
+type ParametroAjustable = keyof typeof RANGOS_CALIBRACION;
+
+// Puntos por parámetro en cada ronda y rondas de refinamiento de la búsqueda por coordenadas
+const PUNTOS_BUSQUEDA = 9;
+const RONDAS_BUSQUEDA = 6;
+
+export const PARAMETROS_CALIBRACION_DEFAULT: ParametrosCalibracion = {
+  calibracion: PROGOL_CONFIG.CALIBRACION,
+  drawPropensity: PROGOL_CONFIG.DRAW_PROPENSITY
+};
+
+const probabilidadDe = (probs: ProbabilidadesPartido, resultado: Resultado) =>
+  resultado === 'L' ? probs.prob_local : resultado === 'E' ? probs.prob_empate : probs.prob_visitante;
+
+/** Los 14 partidos de cada concurso pasado con su resultado real. */
+export const partidosJugados = (concursos: ConcursoHistorico[]): PartidoJugado[] =>
+  concursos.flatMap(concurso => concurso.partidos.map((partido, i) => ({ partido, resultado: concurso.resultados[i] })));
+
+/**
+ * Log-loss, Brier y diagrama de confiabilidad de las probabilidades de cada partido. Con
+ * `parametros` se evalúan tras `aplicarCalibracionBayesiana`; con null, tal como llegan.
+ */
+export const evaluarCalibracion = (
+  jugados: PartidoJugado[],
+  parametros: ParametrosCalibracion | null
+): EvaluacionCalibracion => {
+  const classifier = parametros ?
+    new MatchClassifier(parametros.calibracion, { drawPropensity: parametros.drawPropensity }) :
+    null;
+
+  let logLoss = 0;
+  let brier = 0;
+  const intervalos = Array.from({ length: INTERVALOS_CONFIABILIDAD }, () => ({ prediccion: 0, aciertos: 0, casos: 0 }));
+
+  for (const { partido, resultado } of jugados) {
+    const probs = classifier ? classifier.aplicarCalibracionBayesiana(partido) : partido;
+    logLoss -= Math.log(Math.max(probabilidadDe(probs, resultado), PROB_MINIMA));
+
+    for (const r of RESULTADOS) {
+      const p = probabilidadDe(probs, r);
+      const observado = r === resultado ? 1 : 0;
+      brier += (p - observado) ** 2;
+
+      const intervalo = intervalos[Math.min(Math.floor(p * INTERVALOS_CONFIABILIDAD), INTERVALOS_CONFIABILIDAD - 1)];
+      intervalo.prediccion += p;
+      intervalo.aciertos += observado;
+      intervalo.casos++;
+    }
+  }
+
+  const total = Math.max(jugados.length, 1);
+  const confiabilidad: PuntoConfiabilidad[] = intervalos
+    .filter(i => i.casos > 0)
+    .map(i => ({ prediccion: i.prediccion / i.casos, observada: i.aciertos / i.casos, casos: i.casos }));
+
+  return { logLoss: logLoss / total, brier: brier / total, confiabilidad };
+};
+
+const leerParametro = (parametros: ParametrosCalibracion, clave: ParametroAjustable) =>
+  clave === 'umbral_diferencia' || clave === 'boost_empate' ? parametros.drawPropensity[clave] : parametros.calibracion[clave];
+
+const conParametro = (parametros: ParametrosCalibracion, clave: ParametroAjustable, valor: number): ParametrosCalibracion =>
+  clave === 'umbral_diferencia' || clave === 'boost_empate' ?
+    { ...parametros, drawPropensity: { ...parametros.drawPropensity, [clave]: valor } } :
+    { ...parametros, calibracion: { ...parametros.calibracion, [clave]: valor } };
+
+/**
+ * Ajusta k1, k2, k3 y la Draw-Propensity Rule a los partidos jugados minimizando log-loss o
+ * Brier. La regla de empate tiene un umbral, así que la pérdida no es derivable: se busca por
+ * coordenadas sobre una rejilla que se estrecha en cada ronda, dentro de `RANGOS_CALIBRACION`.
+ */
+export const ajustarCalibracion = (
+  jugados: PartidoJugado[],
+  metrica: MetricaCalibracion = 'logloss',
+  inicial: ParametrosCalibracion = PARAMETROS_CALIBRACION_DEFAULT
+): ResultadoCalibracion => {
+  if (jugados.length === 0) throw new Error('No hay partidos jugados para calibrar');
+
+  const perdida = (parametros: ParametrosCalibracion) => {
+    const evaluacion = evaluarCalibracion(jugados, parametros);
+    return metrica === 'brier' ? evaluacion.brier : evaluacion.logLoss;
+  };
+
+  const claves = Object.keys(RANGOS_CALIBRACION) as ParametroAjustable[];
+  let parametros = inicial;
+  let mejor = perdida(parametros);
+  const pasos = claves.map(clave => (RANGOS_CALIBRACION[clave][1] - RANGOS_CALIBRACION[clave][0]) / (PUNTOS_BUSQUEDA - 1));
+
+  for (let ronda = 0; ronda < RONDAS_BUSQUEDA; ronda++) {
+    claves.forEach((clave, j) => {
+      const [min, max] = RANGOS_CALIBRACION[clave];
+      const centro = ronda === 0 ? (min + max) / 2 : leerParametro(parametros, clave);
+      const mitad = Math.floor(PUNTOS_BUSQUEDA / 2);
+
+      for (let i = -mitad; i <= mitad; i++) {
+        const valor = Math.round(Math.min(max, Math.max(min, centro + i * pasos[j])) * 1e4) / 1e4;
+        const candidato = conParametro(parametros, clave, valor);
+        const valorPerdida = perdida(candidato);
+        if (valorPerdida < mejor - 1e-12) {
+          mejor = valorPerdida;
+          parametros = candidato;
+        }
+      }
+      pasos[j] /= 3;
+    });
+  }
+
+  return {
+    metrica,
+    partidos: jugados.length,
+    parametros,
+    sinCalibrar: evaluarCalibracion(jugados, null),
+    inicial: evaluarCalibracion(jugados, inicial),
+    ajustada: evaluarCalibracion(jugados, parametros)
+  };
+};
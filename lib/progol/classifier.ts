@@ -0,0 +1,116 @@
+import { PROGOL_CONFIG, UMBRALES_CLASIFICACION } from './config';
+import type {
+  Clasificacion,
+  CoeficientesCalibracion,
+  Partido,
+  PartidoClasificado,
+  ProbabilidadesPartido,
+  Resultado,
+  UmbralesClasificacion
+} from './types';
+
+/**
+ * Calibra las probabilidades de cada partido (forma, lesiones, finales y Draw-Propensity)
+ * y lo clasifica como Ancla, Divisor, TendenciaEmpate o Neutro.
+ */
+export class MatchClassifier {
+  // Propiedades de la clase declaradas
+  umbralAncla: number;
+  umbralDivisorMin: number;
+  umbralDivisorMax: number;
+  umbralEmpate: number;
+  drawPropensity: UmbralesClasificacion['drawPropensity'];
+  calibracion: CoeficientesCalibracion;
+
+  constructor(
+    calibracion: CoeficientesCalibracion = PROGOL_CONFIG.CALIBRACION,
+    umbrales: Partial<UmbralesClasificacion> = {}
+  ) {
+    const { umbralAncla, umbralDivisorMin, umbralDivisorMax, umbralEmpate, drawPropensity } = {
+      ...UMBRALES_CLASIFICACION,
+      ...umbrales
+    };
+    this.calibracion = calibracion;
+    this.umbralAncla = umbralAncla;
+    this.umbralDivisorMin = umbralDivisorMin;
+    this.umbralDivisorMax = umbralDivisorMax;
+    this.umbralEmpate = umbralEmpate;
+    this.drawPropensity = drawPropensity;
+  }
+
+  classifyMatches(partidos: Partido[]): PartidoClasificado[] {
+    return partidos.map((partido, i) => {
+      const partidoCalirado = this.aplicarCalibracionBayesiana(partido);
+      const clasificacion = this.clasificarPartido(partidoCalirado);
+
+      return {
+        id: i,
+        local: partido.local,
+        visitante: partido.visitante,
+        ...partidoCalirado,
+        clasificacion,
+        resultadoSugerido: this.getResultadoSugerido(partidoCalirado),
+        confianza: this.calcularConfianza(partidoCalirado),
+        ...(partido.popularidad ? { popularidad: partido.popularidad } : {})
+      };
+    });
+  }
+
+  aplicarCalibracionBayesiana(partido: Partido): ProbabilidadesPartido {
+    const { k1_forma, k2_lesiones, k3_contexto } = this.calibracion;
+
+    const deltaForma = partido.forma_diferencia || 0;
+    const lesionesImpact = partido.lesiones_impact || 0;
+    const contexto = partido.es_final ? 1.0 : 0.0;
+
+    // Acotado por abajo para que una forma muy negativa no deje probabilidades negativas
+    const factorAjuste = Math.max(1 + k1_forma * deltaForma + k2_lesiones * lesionesImpact + k3_contexto * contexto, 0.1);
+
+    let probLocal = partido.prob_local * factorAjuste;
+    let probEmpate = partido.prob_empate;
+    let probVisitante = partido.prob_visitante / factorAjuste;
+
+    // Aplicar Draw-Propensity Rule
+    if (Math.abs(probLocal - probVisitante) < this.drawPropensity.umbral_diferencia &&
+        probEmpate > Math.max(probLocal, probVisitante)) {
+      probEmpate = Math.min(probEmpate + this.drawPropensity.boost_empate, 0.95);
+    }
+
+    // Renormalizar
+    const total = probLocal + probEmpate + probVisitante;
+
+    return {
+      prob_local: probLocal / total,
+      prob_empate: probEmpate / total,
+      prob_visitante: probVisitante / total
+    };
+  }
+
+  clasificarPartido(partido: ProbabilidadesPartido): Clasificacion {
+    const probs = [partido.prob_local, partido.prob_empate, partido.prob_visitante];
+    const maxProb = Math.max(...probs);
+
+    if (maxProb > this.umbralAncla) return 'Ancla';
+    if (partido.prob_empate > this.umbralEmpate &&
+        partido.prob_empate >= Math.max(partido.prob_local, partido.prob_visitante)) {
+      return 'TendenciaEmpate';
+    }
+    if (maxProb >= this.umbralDivisorMin && maxProb < this.umbralDivisorMax) return 'Divisor';
+    return 'Neutro';
+  }
+
+  getResultadoSugerido(partido: ProbabilidadesPartido): Resultado {
+    const probs: Record<Resultado, number> = {
+      L: partido.prob_local,
+      E: partido.prob_empate,
+      V: partido.prob_visitante
+    };
+    return (Object.keys(probs) as Resultado[]).reduce((a, b) => probs[a] > probs[b] ? a : b);
+  }
+
+  calcularConfianza(partido: ProbabilidadesPartido) {
+    const probs = [partido.prob_local, partido.prob_empate, partido.prob_visitante];
+    probs.sort((a, b) => b - a);
+    return probs[0] - probs[1];
+  }
+}
@@ -0,0 +1,263 @@
+import type {
+  Juego,
+  ParametrosOptimizador,
+  ParametrosPremios,
+  ReglasJuego,
+  RestriccionesPortafolio,
+  UmbralesClasificacion
+} from './types';
+
+// ==================== CONFIGURACIÓN Y CONSTANTES ====================
+
+/** Se escribe en las exportaciones: misma versión + mismos datos + misma semilla = mismas quinielas. */
+export const VERSION_MOTOR = '1.1.0';
+
+export const PROGOL_CONFIG = {
+  // Distribución histórica de Progol (1,497+ concursos); `calcularObjetivosHistoricos` la
+  // recalcula con un historial de resultados importado
+  DISTRIBUCION_HISTORICA: { L: 0.38, E: 0.29, V: 0.33 },
+  RANGOS_HISTORICOS: {
+    L: [0.35, 0.41] as [number, number],
+    E: [0.25, 0.33] as [number, number],
+    V: [0.30, 0.36] as [number, number]
+  },
+  EMPATES_PROMEDIO: 4.33,
+  EMPATES_MIN: 4,
+  EMPATES_MAX: 6,
+  CONCENTRACION_MAX_GENERAL: 0.70,
+  CONCENTRACION_MAX_INICIAL: 0.60,
+  PARTIDOS_INICIALES: 3,
+
+  // Anticorrelación entre los satélites de cada par
+  CORRELACION_TARGET: -0.35,
+  CORRELACION_TOLERANCIA: 0.05,
+  INTENTOS_CORRELACION: 100,
+
+  // Objetivos recalculados: concursos por bloque para los rangos L/E/V y ventana móvil por defecto
+  OBJETIVOS: {
+    CONCURSOS_POR_BLOQUE: 50,
+    VENTANA_ANIOS: 2
+  },
+
+  // Modelo de goles de Dixon-Coles: los partidos pierden la mitad de su peso en ~1 año
+  // (decaimiento por día), marcadores de 0 a MAX_GOLES y partidos ficticios de un equipo
+  // promedio que estabilizan a los equipos con pocos datos
+  MODELO_GOLES: {
+    DECAIMIENTO: 0.0019,
+    MAX_GOLES: 10,
+    PARTIDOS_PREVIOS: 2,
+    ITERACIONES: 200
+  },
+
+  // Ratings Elo: ventaja de local en puntos, probabilidad de empate entre equipos parejos que
+  // se reduce con la diferencia, y forma como el cambio de rating en los últimos partidos
+  ELO: {
+    RATING_INICIAL: 1500,
+    K: 20,
+    VENTAJA_LOCAL: 65,
+    EMPATE_BASE: 0.28,
+    EMPATE_DISPERSION: 400,
+    PARTIDOS_FORMA: 5,
+    PUNTOS_POR_FORMA: 25,
+    FORMA_MAXIMA: 3,
+    HISTORIAL_MAXIMO: 200
+  },
+
+  // Revancha: 7 partidos adicionales que se juegan sobre el mismo boleto
+  REVANCHA: {
+    NUM_PARTIDOS: 7,
+    DISTRIBUCION_HISTORICA: { L: 0.40, E: 0.28, V: 0.32 },
+    RANGOS_HISTORICOS: {
+      L: [0.35, 0.45] as [number, number],
+      E: [0.22, 0.34] as [number, number],
+      V: [0.27, 0.37] as [number, number]
+    },
+    EMPATES_PROMEDIO: 1.96,
+    EMPATES_MIN: 1,
+    EMPATES_MAX: 3,
+    ACIERTOS_PREMIO: 7
+  },
+
+  // Costos por boleto (MXN)
+  PRECIO_BOLETO: 15,
+  PRECIO_REVANCHA: 10,
+
+  // Premios: bolsa estimada (MXN), columnas del público y reparto por aciertos exactos
+  PREMIOS: {
+    BOLSA: 5000000,
+    COLUMNAS_PUBLICO: 700000,
+    CATEGORIAS: [
+      { aciertos: 14, proporcion: 0.60 },
+      { aciertos: 13, proporcion: 0.25 },
+      { aciertos: 12, proporcion: 0.15 }
+    ]
+  },
+  // Modo contrarian: pérdida relativa máxima de Pr[≥11] por quiniela
+  CONTRARIAN_PERDIDA_MAX: 0.10,
+
+  // Calibración Bayesiana
+  CALIBRACION: {
+    k1_forma: 0.15,
+    k2_lesiones: 0.10,
+    k3_contexto: 0.20
+  },
+
+  // Draw-Propensity Rule
+  DRAW_PROPENSITY: {
+    umbral_diferencia: 0.08,
+    boost_empate: 0.06
+  }
+};
+
+export const OPTIMIZER_CONFIG = {
+  CONSTRUCCIONES_GRASP: 5,     // Portafolios construidos antes del recocido
+  ALFA_RCL: 0.3,               // Amplitud de la lista restringida de candidatos
+  ITERACIONES_POR_TEMPERATURA: 100,
+  PESO_PENALIZACION: 0.1,      // Costo por unidad de violación de restricciones
+  SIMULACIONES_OPTIMIZADOR: 2000, // Resultados compartidos con que se puntúa cada portafolio
+  // Fracciones del máximo de boletos sencillos que se prueban al repartir el presupuesto
+  FRACCIONES_PRESUPUESTO: [1, 0.85, 0.7, 0.55, 0.4, 0.3, 0.2, 0.1],
+  SIMULACIONES_PRESUPUESTO: 5000 // Monte Carlo con que se compara cada reparto
+};
+
+/** Valores iniciales de los controles del optimizador en la pestaña Configuración. */
+export const PARAMETROS_OPTIMIZADOR: ParametrosOptimizador = {
+  iteracionesOptimizador: 2000,
+  temperaturaInicial: 0.05,
+  tasaEnfriamiento: 0.92,
+  simulacionesMontecarlo: 1000
+};
+
+// Valores históricos de `PROGOL_CONFIG`; los presets no tocan los precios
+const RESTRICCIONES_ESTANDAR: Omit<RestriccionesPortafolio, 'precioBoleto' | 'precioRevancha'> = {
+  empatesMin: PROGOL_CONFIG.EMPATES_MIN,
+  empatesMax: PROGOL_CONFIG.EMPATES_MAX,
+  concentracionGeneral: PROGOL_CONFIG.CONCENTRACION_MAX_GENERAL,
+  concentracionInicial: PROGOL_CONFIG.CONCENTRACION_MAX_INICIAL,
+  partidosIniciales: PROGOL_CONFIG.PARTIDOS_INICIALES,
+  rangosHistoricos: PROGOL_CONFIG.RANGOS_HISTORICOS,
+  correlacionTarget: PROGOL_CONFIG.CORRELACION_TARGET,
+  calibracion: PROGOL_CONFIG.CALIBRACION
+};
+
+/** Umbrales por defecto de `MatchClassifier`; el backtest permite variarlos. */
+export const UMBRALES_CLASIFICACION: UmbralesClasificacion = {
+  umbralAncla: 0.60,
+  umbralDivisorMin: 0.40,
+  umbralDivisorMax: 0.60,
+  umbralEmpate: 0.30,
+  drawPropensity: PROGOL_CONFIG.DRAW_PROPENSITY
+};
+
+/** Valores iniciales de la tarjeta de Premios: los estimados de `PROGOL_CONFIG.PREMIOS`. */
+export const PREMIOS_DEFAULT: ParametrosPremios = {
+  bolsa: PROGOL_CONFIG.PREMIOS.BOLSA,
+  columnasPublico: PROGOL_CONFIG.PREMIOS.COLUMNAS_PUBLICO,
+  categorias: PROGOL_CONFIG.PREMIOS.CATEGORIAS
+};
+
+/** Restricciones del juego regular con los valores históricos y precios de `PROGOL_CONFIG`. */
+export const RESTRICCIONES_DEFAULT: RestriccionesPortafolio = {
+  ...RESTRICCIONES_ESTANDAR,
+  precioBoleto: PROGOL_CONFIG.PRECIO_BOLETO,
+  precioRevancha: PROGOL_CONFIG.PRECIO_REVANCHA
+};
+
+/**
+ * Preset de restricciones con nombre; los guardados por el usuario usan la misma forma. Al
+ * aplicarlo, los campos que omite (en los predefinidos, los precios) conservan su valor.
+ */
+export interface PresetRestricciones {
+  nombre: string;
+  restricciones: Partial<RestriccionesPortafolio>;
+}
+
+export const PRESETS_PREDEFINIDOS: PresetRestricciones[] = [
+  { nombre: 'estandar', restricciones: RESTRICCIONES_ESTANDAR },
+  {
+    // Menos concentración y empates cerca del promedio histórico: portafolio más diversificado
+    nombre: 'conservador',
+    restricciones: {
+      empatesMin: 4,
+      empatesMax: 5,
+      concentracionGeneral: 0.65,
+      concentracionInicial: 0.55,
+      partidosIniciales: 4,
+      rangosHistoricos: { L: [0.36, 0.40], E: [0.26, 0.32], V: [0.31, 0.35] },
+      correlacionTarget: -0.45,
+      calibracion: { k1_forma: 0.10, k2_lesiones: 0.05, k3_contexto: 0.15 }
+    }
+  },
+  {
+    // Admite más carga en los favoritos y más sorpresas, con ajustes de forma más marcados
+    nombre: 'agresivo',
+    restricciones: {
+      empatesMin: 3,
+      empatesMax: 7,
+      concentracionGeneral: 0.80,
+      concentracionInicial: 0.70,
+      partidosIniciales: 2,
+      rangosHistoricos: { L: [0.32, 0.46], E: [0.20, 0.36], V: [0.26, 0.40] },
+      correlacionTarget: -0.25,
+      calibracion: { k1_forma: 0.20, k2_lesiones: 0.15, k3_contexto: 0.25 }
+    }
+  }
+];
+
+/**
+ * Reglas aplicables a cada juego del boleto: regular (14 partidos) o Revancha (7 partidos).
+ * Las `restricciones` sustituyen a los valores por defecto: en el regular, todas; en
+ * Revancha solo la concentración, la correlación de los pares y su precio, porque sus
+ * rangos L/E/V y de empates son propios.
+ */
+export const obtenerReglasJuego = (
+  juego: Juego = 'regular',
+  restricciones: Partial<RestriccionesPortafolio> = {}
+): ReglasJuego => {
+  const {
+    empatesMin,
+    empatesMax,
+    concentracionGeneral,
+    concentracionInicial,
+    partidosIniciales,
+    rangosHistoricos,
+    correlacionTarget,
+    precioBoleto,
+    precioRevancha
+  } = { ...RESTRICCIONES_DEFAULT, ...restricciones };
+  const comunes = {
+    concentracionMaxGeneral: concentracionGeneral,
+    concentracionMaxInicial: concentracionInicial,
+    partidosIniciales,
+    correlacionTarget
+  };
+
+  if (juego === 'revancha') {
+    const { REVANCHA } = PROGOL_CONFIG;
+    return {
+      juego,
+      prefijoId: 'Rev-',
+      numPartidos: REVANCHA.NUM_PARTIDOS,
+      rangosHistoricos: REVANCHA.RANGOS_HISTORICOS,
+      empatesMin: REVANCHA.EMPATES_MIN,
+      empatesMax: REVANCHA.EMPATES_MAX,
+      ...comunes,
+      aciertosPremio: REVANCHA.ACIERTOS_PREMIO,
+      sufijoProb: '7',
+      precioBoleto: precioRevancha
+    };
+  }
+
+  return {
+    juego: 'regular',
+    prefijoId: '',
+    numPartidos: 14,
+    rangosHistoricos,
+    empatesMin,
+    empatesMax,
+    ...comunes,
+    aciertosPremio: 11,
+    sufijoProb: '11_plus',
+    precioBoleto
+  };
+};
@@ -0,0 +1,394 @@
+import { convertirCuotas, parsearCuota } from './cuotas';
+import type { MetodoMargen } from './cuotas';
+import type { Cuotas1X2, DistribucionResultados, Partido } from './types';
+
+// ==================== IMPORTACIÓN CSV ====================
+
+export type CampoCSV =
+  | 'local' | 'visitante'
+  | 'prob_local' | 'prob_empate' | 'prob_visitante'
+  | 'cuota_local' | 'cuota_empate' | 'cuota_visitante'
+  | 'pop_local' | 'pop_empate' | 'pop_visitante'
+  | 'es_final' | 'forma_diferencia' | 'lesiones_impact' | 'liga';
+export type Delimitador = ',' | ';' | '\t';
+
+/** Encabezados aceptados por campo, ya normalizados (minúsculas, sin acentos, `_` en vez de espacios). */
+export const ALIAS_COLUMNAS: Record<CampoCSV, string[]> = {
+  local: ['local', 'home', 'home_team', 'equipo_local', 'casa'],
+  visitante: ['visitante', 'away', 'away_team', 'equipo_visitante', 'visita', 'visitor'],
+  prob_local: ['prob_local', 'p_l', 'pl', 'l', 'p_home', 'prob_home', 'home_prob', '1'],
+  prob_empate: ['prob_empate', 'p_e', 'pe', 'e', 'empate', 'p_draw', 'prob_draw', 'draw', 'x'],
+  prob_visitante: ['prob_visitante', 'p_v', 'pv', 'v', 'p_away', 'prob_away', 'away_prob', '2'],
+  // Cuotas 1X2 en formato decimal, fraccional o americano (B365H/D/A como en football-data.co.uk)
+  cuota_local: ['cuota_local', 'momio_local', 'odds_local', 'odds_home', 'home_odds', 'o_l', 'odds_1', 'cuota_1', 'b365h', 'avgh'],
+  cuota_empate: ['cuota_empate', 'momio_empate', 'odds_empate', 'odds_draw', 'draw_odds', 'o_e', 'odds_x', 'cuota_x', 'b365d', 'avgd'],
+  cuota_visitante: ['cuota_visitante', 'momio_visitante', 'odds_visitante', 'odds_away', 'away_odds', 'o_v', 'odds_2', 'cuota_2', 'b365a', 'avga'],
+  // Proporción del público que juega cada resultado (opcional)
+  pop_local: ['pop_local', 'popularidad_local', 'publico_local', 'public_home', 'pop_1'],
+  pop_empate: ['pop_empate', 'popularidad_empate', 'publico_empate', 'public_draw', 'pop_x'],
+  pop_visitante: ['pop_visitante', 'popularidad_visitante', 'publico_visitante', 'public_away', 'pop_2'],
+  es_final: ['es_final', 'final', 'is_final'],
+  forma_diferencia: ['forma_diferencia', 'forma', 'form', 'form_diff'],
+  lesiones_impact: ['lesiones_impact', 'lesiones', 'injuries'],
+  liga: ['liga', 'league', 'div', 'division', 'competicion', 'torneo']
+};
+
+const CAMPOS_PROBABILIDAD: CampoCSV[] = ['prob_local', 'prob_empate', 'prob_visitante'];
+const CAMPOS_CUOTA: CampoCSV[] = ['cuota_local', 'cuota_empate', 'cuota_visitante'];
+const CAMPOS_POPULARIDAD: CampoCSV[] = ['pop_local', 'pop_empate', 'pop_visitante'];
+// Orden de columnas de los CSV anteriores, que se usa si el encabezado no es reconocible
+const ORDEN_POSICIONAL: CampoCSV[] = [
+  'local', 'visitante', 'prob_local', 'prob_empate', 'prob_visitante', 'es_final', 'forma_diferencia', 'lesiones_impact'
+];
+/** Tolerancia de la suma de probabilidades antes de normalizarlas. */
+const TOLERANCIA_SUMA = 0.05;
+/** Por encima de este margen las cuotas probablemente están mal capturadas. */
+const MARGEN_MAXIMO = 0.25;
+
+export interface FilaImportada {
+  /** Línea del archivo (empezando en 1), para ubicar el error. */
+  linea: number;
+  local: string;
+  visitante: string;
+  probs: [number, number, number];
+  /** Margen implícito de la casa, si la fila trae cuotas. */
+  margen?: number;
+  /** Partido normalizado, o null si la fila tiene errores. */
+  partido: Partido | null;
+  errores: string[];
+  advertencias: string[];
+}
+
+export interface ImportacionCSV {
+  delimitador: Delimitador;
+  /** Índice de columna de cada campo reconocido. */
+  columnas: Partial<Record<CampoCSV, number>>;
+  /** Las probabilidades salen de cuotas (sin margen) en lugar de columnas de probabilidad. */
+  usaCuotas: boolean;
+  filas: FilaImportada[];
+  /** Partidos válidos en orden, hasta `numPartidos` si se indicó. */
+  partidos: Partido[];
+  /** Problemas del archivo completo (encabezado, columnas faltantes, número de partidos). */
+  errores: string[];
+  advertencias: string[];
+}
+
+/** Encabezado en minúsculas, sin acentos y con `_` en vez de espacios, guiones o puntos. */
+export const normalizarEncabezado = (texto: string) =>
+  texto
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\s\-.]+/g, '_');
+
+/** Nombre de equipo comparable: "Atlético  Madrid" y "atletico madrid" son el mismo. */
+export const normalizarEquipo = (texto: string) => normalizarEncabezado(texto).replace(/_/g, ' ');
+
+/** Separa las líneas en campos respetando comillas dobles (`""` dentro de comillas es una comilla). */
+export const separarCampos = (texto: string, delimitador: Delimitador) => {
+  const registros: { linea: number; campos: string[] }[] = [];
+  let campos: string[] = [];
+  let campo = '';
+  let entreComillas = false;
+  let linea = 1;
+  let lineaRegistro = 1;
+
+  const cerrarRegistro = () => {
+    campos.push(campo);
+    registros.push({ linea: lineaRegistro, campos });
+    campos = [];
+    campo = '';
+  };
+
+  for (let i = 0; i < texto.length; i++) {
+    const c = texto[i];
+
+    if (entreComillas) {
+      if (c === '"' && texto[i + 1] === '"') {
+        campo += '"';
+        i++;
+      } else if (c === '"') {
+        entreComillas = false;
+      } else {
+        if (c === '\n') linea++;
+        campo += c;
+      }
+    } else if (c === '"' && campo.trim() === '') {
+      campo = '';
+      entreComillas = true;
+    } else if (c === delimitador) {
+      campos.push(campo);
+      campo = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && texto[i + 1] === '\n') i++;
+      cerrarRegistro();
+      linea++;
+      lineaRegistro = linea;
+    } else {
+      campo += c;
+    }
+  }
+  if (campo !== '' || campos.length > 0) cerrarRegistro();
+
+  return registros
+    .map(r => ({ ...r, campos: r.campos.map(c => c.trim()) }))
+    .filter(r => r.campos.some(c => c !== '') && !r.campos[0].startsWith('#'));
+};
+
+/** Elige el delimitador más frecuente (fuera de comillas) en la primera línea con datos. */
+export const detectarDelimitador = (texto: string): Delimitador => {
+  const primeraLinea = texto.split(/\r?\n/).find(l => l.trim() && !l.trim().startsWith('#')) || '';
+  const sinComillas = primeraLinea.replace(/"[^"]*"/g, '');
+  const candidatos: Delimitador[] = [',', ';', '\t'];
+  return candidatos.reduce((mejor, d) =>
+    sinComillas.split(d).length > sinComillas.split(mejor).length ? d : mejor
+  );
+};
+
+/** Lee números con punto o coma decimal y porcentajes ("45%", "45,5 %"). */
+export const parsearNumero = (texto: string) => {
+  let limpio = texto.replace(/\s/g, '');
+  const porcentaje = limpio.endsWith('%');
+  if (porcentaje) limpio = limpio.slice(0, -1);
+  if (limpio.includes(',') && !limpio.includes('.')) limpio = limpio.replace(',', '.');
+  if (limpio === '' || !/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(limpio)) return NaN;
+  const valor = parseFloat(limpio);
+  return porcentaje ? valor / 100 : valor;
+};
+
+/**
+ * Lee fechas AAAA-MM-DD o DD/MM/AAAA (también con año de dos dígitos, como en football-data.co.uk)
+ * y las devuelve en ISO; null si el texto no es una fecha del calendario.
+ */
+export const parsearFecha = (texto: string) => {
+  const iso = texto.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const dma = texto.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  const partes = iso ? [iso[1], iso[2], iso[3]] : dma ? [dma[3], dma[2], dma[1]] : null;
+  if (!partes) return null;
+
+  const [mes, dia] = [Number(partes[1]), Number(partes[2])];
+  let anio = Number(partes[0]);
+  if (partes[0].length === 2) anio += anio < 50 ? 2000 : 1900;
+  const fecha = new Date(Date.UTC(anio, mes - 1, dia));
+  if (fecha.getUTCMonth() !== mes - 1 || fecha.getUTCDate() !== dia) return null;
+  return fecha.toISOString().slice(0, 10);
+};
+
+const parsearBooleano = (texto: string) => ['true', '1', 'si', 'sí', 'yes', 'x', 'verdadero'].includes(texto.trim().toLowerCase());
+
+const mapearColumnas = (encabezado: string[]) => {
+  const columnas: Partial<Record<CampoCSV, number>> = {};
+  encabezado.forEach((texto, i) => {
+    const normalizado = normalizarEncabezado(texto);
+    const campo = (Object.keys(ALIAS_COLUMNAS) as CampoCSV[]).find(c => ALIAS_COLUMNAS[c].includes(normalizado));
+    if (campo && columnas[campo] === undefined) columnas[campo] = i;
+  });
+  return columnas;
+};
+
+/**
+ * Lee un CSV de partidos asociando columnas por encabezado (con alias como `home`, `p_l` o
+ * `draw`), con comillas, delimitador `,`, `;` o tabulador y coma decimal. Cada fila se
+ * revisa por separado: valores faltantes, probabilidades negativas, sumas lejos de 1 y
+ * partidos repetidos quedan marcados en `filas` en lugar de descartarse en silencio.
+ * Las probabilidades pueden venir en porcentaje; las válidas se normalizan para sumar 1.
+ * Si en lugar de probabilidades el archivo trae cuotas 1X2, se convierten quitando el
+ * margen de la casa con `metodoMargen`. Las columnas `pop_local/empate/visitante` (opcionales)
+ * dan la proporción del público que juega cada resultado.
+ */
+export const analizarPartidosCSV = (
+  csv: string,
+  numPartidos?: number,
+  metodoMargen: MetodoMargen = 'proporcional'
+): ImportacionCSV => {
+  const delimitador = detectarDelimitador(csv);
+  const registros = separarCampos(csv.replace(/^\uFEFF/, ''), delimitador);
+  const resultado: ImportacionCSV = {
+    delimitador,
+    columnas: {},
+    usaCuotas: false,
+    filas: [],
+    partidos: [],
+    errores: [],
+    advertencias: []
+  };
+
+  if (registros.length === 0) {
+    resultado.errores.push('El archivo está vacío');
+    return resultado;
+  }
+
+  const [encabezado] = registros;
+  let datos = registros.slice(1);
+  let columnas = mapearColumnas(encabezado.campos);
+  const faltanProbabilidades = CAMPOS_PROBABILIDAD.some(c => columnas[c] === undefined);
+  const usaCuotas = faltanProbabilidades && CAMPOS_CUOTA.every(c => columnas[c] !== undefined);
+  const faltantes = (['local', 'visitante'] as CampoCSV[]).filter(c => columnas[c] === undefined);
+  if (faltanProbabilidades && !usaCuotas) {
+    faltantes.push(...CAMPOS_PROBABILIDAD.filter(c => columnas[c] === undefined));
+  }
+
+  const sinEncabezado = encabezado.campos.slice(2, 5).every(c => !Number.isNaN(parsearNumero(c)));
+
+  if (faltantes.length > 0 && (sinEncabezado || Object.keys(columnas).length === 0)) {
+    columnas = Object.fromEntries(ORDEN_POSICIONAL.map((campo, i) => [campo, i]));
+    // Sin encabezado: la primera línea ya trae probabilidades
+    if (sinEncabezado) {
+      datos = registros;
+      resultado.advertencias.push(`Archivo sin encabezado; se asume el orden ${ORDEN_POSICIONAL.join(', ')}`);
+    } else {
+      resultado.advertencias.push(`Encabezado no reconocido; se asume el orden ${ORDEN_POSICIONAL.join(', ')}`);
+    }
+  } else if (faltantes.length > 0) {
+    resultado.columnas = columnas;
+    const alternativa = faltanProbabilidades ? ` (o las cuotas ${CAMPOS_CUOTA.join(', ')})` : '';
+    resultado.errores.push(`Faltan columnas: ${faltantes.join(', ')}${alternativa}`);
+    return resultado;
+  }
+  resultado.columnas = columnas;
+  resultado.usaCuotas = usaCuotas;
+
+  const vistos = new Map<string, number>();
+  const valor = (campos: string[], campo: CampoCSV) => {
+    const indice = columnas[campo];
+    return indice === undefined ? '' : campos[indice] ?? '';
+  };
+
+  for (const { linea, campos } of datos) {
+    const errores: string[] = [];
+    const advertencias: string[] = [];
+    const local = valor(campos, 'local');
+    const visitante = valor(campos, 'visitante');
+
+    if (!local) errores.push('Falta el equipo local');
+    if (!visitante) errores.push('Falta el equipo visitante');
+
+    const nombres = ['L', 'E', 'V'];
+    let probs: [number, number, number] = [NaN, NaN, NaN];
+    let cuotas: Cuotas1X2 | undefined;
+    let margen: number | undefined;
+
+    if (usaCuotas) {
+      const leidas = CAMPOS_CUOTA.map((campo, i) => {
+        const texto = valor(campos, campo);
+        const cuota = parsearCuota(texto);
+        if (texto === '') errores.push(`Falta la cuota ${nombres[i]}`);
+        else if (Number.isNaN(cuota)) errores.push(`Cuota ${nombres[i]} no válida: "${texto}"`);
+        return cuota;
+      }) as Cuotas1X2;
+
+      if (leidas.every(Number.isFinite)) {
+        const convertidas = convertirCuotas(leidas, metodoMargen);
+        cuotas = leidas;
+        margen = convertidas.margen;
+        probs = [convertidas.prob_local, convertidas.prob_empate, convertidas.prob_visitante];
+        if (margen < 0 || margen > MARGEN_MAXIMO) {
+          advertencias.push(`Margen inusual: ${(margen * 100).toFixed(1)}%`);
+        }
+      }
+    } else {
+      probs = CAMPOS_PROBABILIDAD.map((campo, i) => {
+        const texto = valor(campos, campo);
+        const numero = parsearNumero(texto);
+        if (texto === '') errores.push(`Falta la probabilidad ${nombres[i]}`);
+        else if (Number.isNaN(numero)) errores.push(`Probabilidad ${nombres[i]} no numérica: "${texto}"`);
+        else if (numero < 0) errores.push(`Probabilidad ${nombres[i]} negativa: ${texto}`);
+        return numero;
+      }) as [number, number, number];
+
+      if (probs.every(p => Number.isFinite(p) && p >= 0)) {
+        let suma = probs[0] + probs[1] + probs[2];
+        // Probabilidades en porcentaje sin el signo: 45, 28, 27
+        if (Math.abs(suma - 100) <= TOLERANCIA_SUMA * 100) {
+          probs = probs.map(p => p / 100) as [number, number, number];
+          suma /= 100;
+        }
+        if (Math.abs(suma - 1) > TOLERANCIA_SUMA) {
+          errores.push(`Las probabilidades suman ${suma.toFixed(3)}, lejos de 1`);
+        } else if (Math.abs(suma - 1) > 1e-6) {
+          advertencias.push(`Probabilidades normalizadas (sumaban ${suma.toFixed(3)})`);
+        }
+      }
+    }
+
+    // Popularidad del público: opcional por fila, con las mismas reglas que las probabilidades
+    let popularidad: DistribucionResultados | undefined;
+    const textosPopularidad = CAMPOS_POPULARIDAD.map(campo => valor(campos, campo));
+    if (textosPopularidad.some(texto => texto !== '')) {
+      let pops = textosPopularidad.map(parsearNumero);
+      const erroresPop = pops.map((pop, i) =>
+        Number.isFinite(pop) && pop >= 0 ? null : `Popularidad ${nombres[i]} no válida: "${textosPopularidad[i]}"`
+      ).filter((error): error is string => error !== null);
+      let suma = pops[0] + pops[1] + pops[2];
+      if (erroresPop.length === 0 && Math.abs(suma - 100) <= TOLERANCIA_SUMA * 100) {
+        pops = pops.map(p => p / 100);
+        suma /= 100;
+      }
+      if (erroresPop.length > 0) errores.push(...erroresPop);
+      else if (Math.abs(suma - 1) > TOLERANCIA_SUMA) errores.push(`La popularidad suma ${suma.toFixed(3)}, lejos de 1`);
+      else popularidad = { L: pops[0] / suma, E: pops[1] / suma, V: pops[2] / suma };
+    }
+
+    const ajustes = (['forma_diferencia', 'lesiones_impact'] as const).map(campo => {
+      const texto = valor(campos, campo);
+      if (texto === '') return 0;
+      const numero = parsearNumero(texto);
+      if (Number.isNaN(numero)) {
+        errores.push(`${campo} no numérico: "${texto}"`);
+        return 0;
+      }
+      return Math.trunc(numero);
+    });
+
+    if (local && visitante) {
+      const clave = `${normalizarEquipo(local)}|${normalizarEquipo(visitante)}`;
+      const lineaPrevia = vistos.get(clave);
+      if (lineaPrevia !== undefined) {
+        errores.push(`Partido duplicado (ya aparece en la línea ${lineaPrevia})`);
+      } else {
+        vistos.set(clave, linea);
+      }
+    }
+
+    const liga = valor(campos, 'liga');
+    let partido: Partido | null = null;
+    if (errores.length === 0) {
+      const suma = probs[0] + probs[1] + probs[2];
+      partido = {
+        local,
+        visitante,
+        prob_local: probs[0] / suma,
+        prob_empate: probs[1] / suma,
+        prob_visitante: probs[2] / suma,
+        es_final: parsearBooleano(valor(campos, 'es_final')),
+        forma_diferencia: ajustes[0],
+        lesiones_impact: ajustes[1],
+        ...(cuotas ? { cuotas, margen } : {}),
+        ...(popularidad ? { popularidad } : {}),
+        ...(liga ? { liga } : {})
+      };
+
+      if (numPartidos !== undefined && resultado.partidos.length >= numPartidos) {
+        advertencias.push(`Excede los ${numPartidos} partidos; no se importa`);
+      } else {
+        resultado.partidos.push(partido);
+      }
+    }
+
+    resultado.filas.push({ linea, local, visitante, probs, margen, partido, errores, advertencias });
+  }
+
+  const invalidas = resultado.filas.filter(f => f.errores.length > 0).length;
+  if (invalidas > 0) {
+    resultado.advertencias.push(`${invalidas} fila(s) con errores no se importaron`);
+  }
+  if (numPartidos !== undefined && resultado.partidos.length < numPartidos) {
+    resultado.errores.push(`Se necesitan ${numPartidos} partidos válidos; el archivo tiene ${resultado.partidos.length}`);
+  }
+
+  return resultado;
+};
+
+/** Partidos válidos del CSV, sin el reporte por fila. */
+export const parsearPartidosCSV = (csv: string): Partido[] => analizarPartidosCSV(csv).partidos;
@@ -0,0 +1,122 @@
+import type { Cuotas1X2, Partido, ProbabilidadesPartido } from './types';
+
+// ==================== CUOTAS DE CASAS DE APUESTAS ====================
+
+export type FormatoCuota = 'decimal' | 'fraccional' | 'americana';
+
+/** Método para repartir el margen (overround) de la casa entre los tres resultados. */
+export type MetodoMargen = 'proporcional' | 'shin' | 'potencia' | 'odds_ratio';
+
+export const METODOS_MARGEN: { id: MetodoMargen; nombre: string }[] = [
+  { id: 'proporcional', nombre: 'Proporcional' },
+  { id: 'shin', nombre: 'Shin' },
+  { id: 'potencia', nombre: 'Potencia' },
+  { id: 'odds_ratio', nombre: 'Odds-ratio' }
+];
+
+export const detectarFormatoCuota = (texto: string): FormatoCuota => {
+  const limpio = texto.trim();
+  if (/^\d+(\.\d+)?\s*\/\s*\d+(\.\d+)?$/.test(limpio)) return 'fraccional';
+  if (/^[+-]\d{3,}(\.\d+)?$/.test(limpio)) return 'americana';
+  return 'decimal';
+};
+
+/**
+ * Convierte una cuota a formato decimal: "2.50" o "2,50" (decimal), "3/2" (fraccional),
+ * "+150" / "-200" (americana). Devuelve NaN si no es una cuota válida (decimal > 1).
+ */
+export const parsearCuota = (texto: string, formato: FormatoCuota = detectarFormatoCuota(texto)) => {
+  const limpio = texto.trim().replace(/\s/g, '');
+  let decimal = NaN;
+
+  if (formato === 'fraccional') {
+    const [numerador, denominador] = limpio.split('/').map(Number);
+    if (denominador > 0) decimal = 1 + numerador / denominador;
+  } else if (formato === 'americana') {
+    const americana = Number(limpio);
+    if (americana >= 100) decimal = 1 + americana / 100;
+    else if (americana <= -100) decimal = 1 + 100 / -americana;
+  } else {
+    const normalizado = limpio.includes(',') && !limpio.includes('.') ? limpio.replace(',', '.') : limpio;
+    if (/^\d+(\.\d+)?$/.test(normalizado)) decimal = Number(normalizado);
+  }
+
+  return decimal > 1 && Number.isFinite(decimal) ? decimal : NaN;
+};
+
+/** Margen implícito de la casa: Σ 1/cuota − 1 (0.05 = 5% de overround). */
+export const calcularMargen = (cuotas: number[]) => cuotas.reduce((acc, cuota) => acc + 1 / cuota, 0) - 1;
+
+/** Busca por bisección el parámetro en [min, max] donde `suma` (decreciente) vale 1. */
+const resolverSuma = (suma: (parametro: number) => number, min: number, max: number) => {
+  let bajo = min;
+  let alto = max;
+  for (let i = 0; i < 200; i++) {
+    const medio = (bajo + alto) / 2;
+    if (suma(medio) > 1) bajo = medio;
+    else alto = medio;
+  }
+  return (bajo + alto) / 2;
+};
+
+/**
+ * Probabilidades sin margen a partir de cuotas decimales.
+ *
+ * - proporcional: divide cada probabilidad implícita entre su suma.
+ * - shin: modelo de Shin con proporción z de apostadores informados; castiga más a los
+ *   resultados poco probables (corrige el sesgo favorito-sorpresa).
+ * - potencia: p_i = π_i^k, con k tal que las probabilidades sumen 1.
+ * - odds_ratio: p_i / (1 − p_i) = (π_i / (1 − π_i)) / c, con c tal que sumen 1.
+ */
+export const eliminarMargen = (cuotas: number[], metodo: MetodoMargen = 'proporcional') => {
+  const implicitas = cuotas.map(cuota => 1 / cuota);
+  const total = implicitas.reduce((a, b) => a + b, 0);
+  const proporcional = implicitas.map(p => p / total);
+
+  // Sin margen (o con margen negativo) los métodos no proporcionales no están definidos
+  if (total <= 1 || metodo === 'proporcional') return proporcional;
+
+  if (metodo === 'shin') {
+    const probsShin = (z: number) => implicitas.map(p =>
+      (Math.sqrt(z * z + 4 * (1 - z) * p * p / total) - z) / (2 * (1 - z))
+    );
+    const z = resolverSuma(z => probsShin(z).reduce((a, b) => a + b, 0), 0, 0.99);
+    return normalizar(probsShin(z));
+  }
+
+  if (metodo === 'potencia') {
+    const k = resolverSuma(k => implicitas.reduce((acc, p) => acc + Math.pow(p, k), 0), 1, 50);
+    return normalizar(implicitas.map(p => Math.pow(p, k)));
+  }
+
+  const probsOddsRatio = (c: number) => implicitas.map(p => p / (c + p - c * p));
+  const c = resolverSuma(c => probsOddsRatio(c).reduce((a, b) => a + b, 0), 1, 1000);
+  return normalizar(probsOddsRatio(c));
+};
+
+// Absorbe el error residual de la bisección para que la suma sea exactamente 1
+const normalizar = (probs: number[]) => {
+  const total = probs.reduce((a, b) => a + b, 0);
+  return probs.map(p => p / total);
+};
+
+/** Probabilidades 1X2 sin margen y el margen implícito de las cuotas. */
+export const convertirCuotas = (
+  cuotas: Cuotas1X2,
+  metodo: MetodoMargen = 'proporcional'
+): ProbabilidadesPartido & { margen: number } => {
+  const [probLocal, probEmpate, probVisitante] = eliminarMargen(cuotas, metodo);
+  return {
+    prob_local: probLocal,
+    prob_empate: probEmpate,
+    prob_visitante: probVisitante,
+    margen: calcularMargen(cuotas)
+  };
+};
+
+/** Recalcula con otro método las probabilidades de los partidos importados desde cuotas. */
+export const aplicarMetodoMargen = <T extends Partido>(partidos: T[], metodo: MetodoMargen): T[] =>
+  partidos.map(partido => {
+    if (!partido.cuotas) return partido;
+    return { ...partido, ...convertirCuotas(partido.cuotas, metodo) };
+  });
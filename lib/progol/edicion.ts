@@ -0,0 +1,101 @@
+import type { PortfolioGenerator } from './generator';
+import { seleccionesDe } from './multiples';
+import type { ProbabilidadesPartido, Quiniela, Resultado } from './types';
+
+// ==================== EDICIÓN DE QUINIELAS ====================
+
+/** Cambios que se pueden deshacer; los más antiguos se descartan. */
+const MAX_DESHACER = 50;
+const CICLO: Record<Resultado, Resultado> = { L: 'E', E: 'V', V: 'L' };
+
+/** L → E → V → L; en un doble o triple parte de su primer resultado. */
+export const siguienteResultado = (seleccion: Resultado[]): Resultado => CICLO[seleccion[0]];
+
+/**
+ * Cambia la selección de un partido y rearma la quiniela: empates, distribución y
+ * probabilidades de premio salen de las mismas funciones que al generarla.
+ */
+export const editarSeleccion = (
+  quinielas: Quiniela[],
+  indice: number,
+  partido: number,
+  seleccion: Resultado[],
+  generator: PortfolioGenerator,
+  partidosClasificados: ProbabilidadesPartido[]
+): Quiniela[] => quinielas.map((quiniela, i) => {
+  if (i !== indice) return quiniela;
+  const selecciones = seleccionesDe(quiniela).map((s, j) => (j === partido ? seleccion : s));
+  return generator.construirQuinielaMultiple(quiniela.id, quiniela.tipo, selecciones, partidosClasificados, quiniela.par_id);
+});
+
+// Primer `${prefijo}n` que no usa ninguna quiniela del portafolio
+const idLibre = (quinielas: Quiniela[], prefijo: string) => {
+  const usados = new Set(quinielas.map(q => q.id));
+  let n = 1;
+  while (usados.has(`${prefijo}${n}`)) n++;
+  return `${prefijo}${n}`;
+};
+
+/** Agrega al final una quiniela con el resultado más probable de cada partido. */
+export const agregarQuiniela = (
+  quinielas: Quiniela[],
+  generator: PortfolioGenerator,
+  partidosClasificados: ProbabilidadesPartido[]
+): Quiniela[] => {
+  const resultados = partidosClasificados.map(p => {
+    const probs: [Resultado, number][] = [['L', p.prob_local], ['E', p.prob_empate], ['V', p.prob_visitante]];
+    return probs.reduce((mejor, actual) => (actual[1] > mejor[1] ? actual : mejor))[0];
+  });
+  const id = idLibre(quinielas, `${generator.reglas.prefijoId}Manual-`);
+  return [...quinielas, generator.construirQuiniela(id, 'Satelite', resultados, partidosClasificados)];
+};
+
+/** Copia la quiniela justo debajo de la original; la copia ya no forma par con nadie. */
+export const duplicarQuiniela = (quinielas: Quiniela[], indice: number): Quiniela[] => {
+  const { par_id, ...original } = quinielas[indice];
+  const copia: Quiniela = { ...original, id: idLibre(quinielas, `${original.id}-copia-`) };
+  return [...quinielas.slice(0, indice + 1), copia, ...quinielas.slice(indice + 1)];
+};
+
+export const eliminarQuiniela = (quinielas: Quiniela[], indice: number): Quiniela[] =>
+  quinielas.filter((_, i) => i !== indice);
+
+/** Mueve la quiniela una posición arriba (-1) o abajo (+1); en los extremos no cambia nada. */
+export const moverQuiniela = (quinielas: Quiniela[], indice: number, direccion: -1 | 1): Quiniela[] => {
+  const destino = indice + direccion;
+  if (destino < 0 || destino >= quinielas.length) return quinielas;
+  const resultado = [...quinielas];
+  [resultado[indice], resultado[destino]] = [resultado[destino], resultado[indice]];
+  return resultado;
+};
+
+/** Estados anteriores y posteriores al actual para deshacer y rehacer. */
+export interface PilaDeshacer<T> {
+  pasado: T[];
+  futuro: T[];
+}
+
+export const crearPilaDeshacer = <T>(): PilaDeshacer<T> => ({ pasado: [], futuro: [] });
+
+/** Guarda el estado previo a un cambio; un cambio nuevo descarta lo que se podía rehacer. */
+export const registrarCambio = <T>(pila: PilaDeshacer<T>, anterior: T): PilaDeshacer<T> => ({
+  pasado: [...pila.pasado, anterior].slice(-MAX_DESHACER),
+  futuro: []
+});
+
+/** Estado al que se vuelve y la pila resultante, o null si no hay nada que deshacer. */
+export const deshacer = <T>(pila: PilaDeshacer<T>, actual: T): { estado: T; pila: PilaDeshacer<T> } | null => {
+  if (pila.pasado.length === 0) return null;
+  return {
+    estado: pila.pasado[pila.pasado.length - 1],
+    pila: { pasado: pila.pasado.slice(0, -1), futuro: [actual, ...pila.futuro] }
+  };
+};
+
+export const rehacer = <T>(pila: PilaDeshacer<T>, actual: T): { estado: T; pila: PilaDeshacer<T> } | null => {
+  if (pila.futuro.length === 0) return null;
+  return {
+    estado: pila.futuro[0],
+    pila: { pasado: [...pila.pasado, actual], futuro: pila.futuro.slice(1) }
+  };
+};
@@ -0,0 +1,206 @@
+import { PROGOL_CONFIG } from './config';
+import { normalizarEquipo } from './csv';
+import type {
+  Concurso,
+  EquipoElo,
+  MarcadorHistorico,
+  Partido,
+  ProbabilidadesPartido,
+  Resultado,
+  TablaElo
+} from './types';
+
+// ==================== RATINGS ELO ====================
+
+const LIGA_POR_DEFECTO = 'General';
+const PUNTOS: Record<Resultado, number> = { L: 1, E: 0.5, V: 0 };
+
+/** Partido con resultado que mueve los ratings. */
+export interface PartidoElo {
+  local: string;
+  visitante: string;
+  liga?: string;
+  resultado: Resultado;
+  /** Fecha ISO (AAAA-MM-DD). */
+  fecha: string;
+  concurso?: number;
+}
+
+export const crearTablaElo = (): TablaElo => ({ equipos: {}, concursosAplicados: [] });
+
+const claveEquipo = (liga: string, nombre: string) => `${normalizarEquipo(liga)}|${normalizarEquipo(nombre)}`;
+
+/**
+ * Equipo de la tabla. Con liga se busca solo en ella; sin liga, en cualquiera (la primera
+ * en la que aparezca el nombre).
+ */
+export const buscarEquipoElo = (tabla: TablaElo, nombre: string, liga?: string): EquipoElo | undefined => {
+  if (liga) return tabla.equipos[claveEquipo(liga, nombre)];
+  const buscado = normalizarEquipo(nombre);
+  return Object.values(tabla.equipos).find(e => normalizarEquipo(e.nombre) === buscado);
+};
+
+/** Puntos esperados del local (1 gana, 0.5 empata) con la ventaja de local incluida. */
+const esperadoLocal = (ratingLocal: number, ratingVisitante: number) =>
+  1 / (1 + Math.pow(10, -(ratingLocal + PROGOL_CONFIG.ELO.VENTAJA_LOCAL - ratingVisitante) / 400));
+
+/**
+ * Probabilidades L/E/V a partir de los ratings: el empate vale `EMPATE_BASE` entre equipos
+ * parejos y baja con la diferencia; el resto se reparte para que los puntos esperados del
+ * local coincidan con la fórmula de Elo.
+ */
+export const probabilidadesElo = (ratingLocal: number, ratingVisitante: number): ProbabilidadesPartido => {
+  const { EMPATE_BASE, EMPATE_DISPERSION, VENTAJA_LOCAL } = PROGOL_CONFIG.ELO;
+  const esperado = esperadoLocal(ratingLocal, ratingVisitante);
+  const diferencia = (ratingLocal + VENTAJA_LOCAL - ratingVisitante) / EMPATE_DISPERSION;
+  const empate = Math.min(EMPATE_BASE * Math.exp(-diferencia * diferencia), 2 * Math.min(esperado, 1 - esperado));
+  return {
+    prob_local: esperado - empate / 2,
+    prob_empate: empate,
+    prob_visitante: 1 - esperado - empate / 2
+  };
+};
+
+const obtenerEquipo = (equipos: Record<string, EquipoElo>, nombre: string, liga: string | undefined) => {
+  const existente = liga ?
+    equipos[claveEquipo(liga, nombre)] :
+    Object.values(equipos).find(e => normalizarEquipo(e.nombre) === normalizarEquipo(nombre));
+  if (existente) return existente;
+
+  const nuevo: EquipoElo = {
+    nombre,
+    liga: liga || LIGA_POR_DEFECTO,
+    rating: PROGOL_CONFIG.ELO.RATING_INICIAL,
+    partidos: 0,
+    historial: []
+  };
+  equipos[claveEquipo(nuevo.liga, nombre)] = nuevo;
+  return nuevo;
+};
+
+/**
+ * Suma los partidos a los ratings en orden de fecha: cada equipo gana o pierde K × (puntos −
+ * puntos esperados). Devuelve una tabla nueva; la original no cambia.
+ */
+export const registrarPartidosElo = (tabla: TablaElo, partidos: PartidoElo[]): TablaElo => {
+  const { K, HISTORIAL_MAXIMO } = PROGOL_CONFIG.ELO;
+  const equipos: Record<string, EquipoElo> = Object.fromEntries(
+    Object.entries(tabla.equipos).map(([clave, e]) => [clave, { ...e, historial: [...e.historial] }])
+  );
+
+  const ordenados = [...partidos].sort((a, b) => a.fecha.localeCompare(b.fecha));
+  for (const partido of ordenados) {
+    const local = obtenerEquipo(equipos, partido.local, partido.liga);
+    // Sin liga, el visitante se busca en la del local
+    const visitante = obtenerEquipo(equipos, partido.visitante, partido.liga || local.liga);
+    const cambio = K * (PUNTOS[partido.resultado] - esperadoLocal(local.rating, visitante.rating));
+
+    for (const [equipo, delta] of [[local, cambio], [visitante, -cambio]] as const) {
+      equipo.rating += delta;
+      equipo.partidos++;
+      equipo.historial.push({
+        fecha: partido.fecha,
+        rating: Math.round(equipo.rating * 10) / 10,
+        ...(partido.concurso !== undefined ? { concurso: partido.concurso } : {})
+      });
+      if (equipo.historial.length > HISTORIAL_MAXIMO) equipo.historial.shift();
+    }
+  }
+
+  return { equipos, concursosAplicados: tabla.concursosAplicados };
+};
+
+/**
+ * Suma los resultados capturados de un concurso (regular y Revancha). Lanza un error si el
+ * concurso ya se aplicó o si aún le faltan resultados del juego regular.
+ */
+export const actualizarEloConConcurso = (tabla: TablaElo, concurso: Concurso): TablaElo => {
+  if (tabla.concursosAplicados.includes(concurso.numero)) {
+    throw new Error(`El concurso ${concurso.numero} ya está en los ratings`);
+  }
+  if (concurso.resultados.some(r => r === null)) {
+    throw new Error(`Faltan resultados del concurso ${concurso.numero}`);
+  }
+
+  const fecha = concurso.fecha.slice(0, 10);
+  const jugados = (partidos: Partido[], resultados: (Resultado | null)[]) =>
+    partidos.flatMap((partido, i) => {
+      const resultado = resultados[i];
+      return resultado ? [{ local: partido.local, visitante: partido.visitante, liga: partido.liga, resultado, fecha, concurso: concurso.numero }] : [];
+    });
+
+  const actualizada = registrarPartidosElo(tabla, [
+    ...jugados(concurso.partidos, concurso.resultados),
+    ...jugados(concurso.partidosRevancha, concurso.resultadosRevancha)
+  ]);
+  return { ...actualizada, concursosAplicados: [...tabla.concursosAplicados, concurso.numero] };
+};
+
+/** Suma marcadores pasados (el mismo CSV del modelo de goles) para arrancar los ratings. */
+export const actualizarEloConMarcadores = (tabla: TablaElo, marcadores: MarcadorHistorico[]): TablaElo =>
+  registrarPartidosElo(tabla, marcadores.filter(m => m.fecha !== null).map(m => ({
+    local: m.local,
+    visitante: m.visitante,
+    liga: m.liga,
+    resultado: m.golesLocal > m.golesVisitante ? 'L' : m.golesLocal === m.golesVisitante ? 'E' : 'V',
+    fecha: m.fecha as string
+  })));
+
+/** Puntos ganados o perdidos en los últimos `PARTIDOS_FORMA` partidos. */
+export const formaElo = (equipo: EquipoElo) => {
+  const { PARTIDOS_FORMA, RATING_INICIAL } = PROGOL_CONFIG.ELO;
+  const { historial } = equipo;
+  const anterior = historial.length > PARTIDOS_FORMA ? historial[historial.length - 1 - PARTIDOS_FORMA].rating : RATING_INICIAL;
+  return equipo.rating - anterior;
+};
+
+export interface CompletadoElo {
+  partidos: Partido[];
+  /** Partidos en los que ambos equipos tienen rating. */
+  completados: number;
+}
+
+/**
+ * Llena `forma_diferencia` con la forma reciente de cada equipo (un punto por
+ * `PUNTOS_POR_FORMA` de rating ganados en sus últimos partidos, hasta ±`FORMA_MAXIMA`) y,
+ * si se pide, sustituye las probabilidades por las del Elo. Los partidos con algún equipo
+ * sin rating no cambian.
+ */
+export const completarConElo = (tabla: TablaElo, partidos: Partido[], usarProbabilidades = false): CompletadoElo => {
+  const { PUNTOS_POR_FORMA, FORMA_MAXIMA } = PROGOL_CONFIG.ELO;
+  let completados = 0;
+
+  const resultado = partidos.map(partido => {
+    const local = buscarEquipoElo(tabla, partido.local, partido.liga);
+    const visitante = buscarEquipoElo(tabla, partido.visitante, partido.liga || local?.liga);
+    if (!local || !visitante) return partido;
+    completados++;
+
+    const diferencia = Math.round((formaElo(local) - formaElo(visitante)) / PUNTOS_POR_FORMA);
+    return {
+      ...partido,
+      forma_diferencia: Math.max(-FORMA_MAXIMA, Math.min(FORMA_MAXIMA, diferencia)),
+      ...(usarProbabilidades ? { ...probabilidadesElo(local.rating, visitante.rating), cuotas: undefined, margen: undefined } : {})
+    };
+  });
+
+  return { partidos: resultado, completados };
+};
+
+/** Tabla leída del almacenamiento del navegador, o null si no tiene la forma esperada. */
+export const leerTablaElo = (valor: unknown): TablaElo | null => {
+  if (typeof valor !== 'object' || valor === null) return null;
+  const tabla = valor as TablaElo;
+  if (!Array.isArray(tabla.concursosAplicados) || !tabla.concursosAplicados.every(Number.isInteger)) return null;
+  if (typeof tabla.equipos !== 'object' || tabla.equipos === null) return null;
+
+  const valido = Object.values(tabla.equipos).every(e =>
+    typeof e?.nombre === 'string' &&
+    typeof e.liga === 'string' &&
+    Number.isFinite(e.rating) &&
+    Number.isInteger(e.partidos) &&
+    Array.isArray(e.historial) &&
+    e.historial.every(p => typeof p?.fecha === 'string' && Number.isFinite(p.rating))
+  );
+  return valido ? tabla : null;
+};
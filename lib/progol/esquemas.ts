@@ -0,0 +1,582 @@
+import { PARAMETROS_OPTIMIZADOR, PREMIOS_DEFAULT, RESTRICCIONES_DEFAULT, UMBRALES_CLASIFICACION } from './config';
+import type {
+  ConcursoHistorico,
+  ConfiguracionBacktest,
+  DistribucionResultados,
+  Juego,
+  ParametrosOptimizador,
+  ParametrosPremios,
+  Partido,
+  PremioPagado,
+  Resultado,
+  RestriccionesPortafolio,
+  UmbralesClasificacion
+} from './types';
+
+// ==================== ESQUEMAS DE SOLICITUDES ====================
+
+/** Error de validación ligado al campo del cuerpo que lo provocó (p. ej. `partidos[3].prob_local`). */
+export interface ErrorCampo {
+  campo: string;
+  mensaje: string;
+}
+
+export type ResultadoEsquema<T> = { ok: true; datos: T } | { ok: false; errores: ErrorCampo[] };
+
+export interface SolicitudClasificar {
+  partidos: Partido[];
+}
+
+export interface SolicitudPortafolio {
+  partidos: Partido[];
+  partidos_revancha: Partido[];
+  numQuinielas: number;
+  numQuinielasRevancha: number;
+  seed: number;
+  optimizar: boolean;
+  optimizador: ParametrosOptimizador;
+  restricciones: RestriccionesPortafolio;
+  /** Presupuesto en MXN a repartir entre boletos sencillos y múltiples; null para no repartir. */
+  presupuesto: number | null;
+  premios: ParametrosPremios;
+  /** Aplica el modo contrarian del generador al portafolio regular. */
+  contrarian: boolean;
+}
+
+export interface SolicitudValidar {
+  /** Selección de cada partido: un resultado, o dos o tres en un boleto múltiple. */
+  quinielas: Resultado[][][];
+  juego: Juego;
+  partidos: Partido[];
+  seed: number;
+  simulacionesMontecarlo: number;
+  restricciones: RestriccionesPortafolio;
+}
+
+const RESULTADOS: Resultado[] = ['L', 'E', 'V'];
+const MAX_QUINIELAS = 500;
+
+const esObjeto = (valor: unknown): valor is Record<string, unknown> =>
+  typeof valor === 'object' && valor !== null && !Array.isArray(valor);
+
+const validarNumero = (
+  valor: unknown,
+  campo: string,
+  errores: ErrorCampo[],
+  { min, max, entero = false }: { min: number; max: number; entero?: boolean }
+) => {
+  if (typeof valor !== 'number' || !Number.isFinite(valor)) {
+    errores.push({ campo, mensaje: 'debe ser un número' });
+    return NaN;
+  }
+  if (entero && !Number.isInteger(valor)) {
+    errores.push({ campo, mensaje: 'debe ser un entero' });
+  } else if (valor < min || valor > max) {
+    errores.push({ campo, mensaje: `debe estar entre ${min} y ${max}` });
+  }
+  return valor;
+};
+
+const validarOpcional = <T>(valor: unknown, porDefecto: T, validar: (valor: unknown) => T) =>
+  valor === undefined ? porDefecto : validar(valor);
+
+const validarPartido = (valor: unknown, campo: string, errores: ErrorCampo[]): Partido | null => {
+  if (!esObjeto(valor)) {
+    errores.push({ campo, mensaje: 'debe ser un objeto' });
+    return null;
+  }
+
+  const erroresPrevios = errores.length;
+  for (const equipo of ['local', 'visitante'] as const) {
+    if (typeof valor[equipo] !== 'string' || !(valor[equipo] as string).trim()) {
+      errores.push({ campo: `${campo}.${equipo}`, mensaje: 'debe ser un texto no vacío' });
+    }
+  }
+
+  const probs = (['prob_local', 'prob_empate', 'prob_visitante'] as const).map(prob =>
+    validarNumero(valor[prob], `${campo}.${prob}`, errores, { min: 0, max: 1 })
+  );
+  const total = probs.reduce((a, b) => a + b, 0);
+  if (probs.every(Number.isFinite) && Math.abs(total - 1) > 0.02) {
+    errores.push({ campo, mensaje: `las probabilidades deben sumar 1 (suman ${total.toFixed(3)})` });
+  }
+
+  if (valor.es_final !== undefined && typeof valor.es_final !== 'boolean') {
+    errores.push({ campo: `${campo}.es_final`, mensaje: 'debe ser booleano' });
+  }
+  for (const ajuste of ['forma_diferencia', 'lesiones_impact'] as const) {
+    if (valor[ajuste] !== undefined) {
+      validarNumero(valor[ajuste], `${campo}.${ajuste}`, errores, { min: -10, max: 10 });
+    }
+  }
+
+  let popularidad: DistribucionResultados | undefined;
+  if (valor.popularidad !== undefined) {
+    const campoPopularidad = `${campo}.popularidad`;
+    if (!esObjeto(valor.popularidad)) {
+      errores.push({ campo: campoPopularidad, mensaje: 'debe ser un objeto { L, E, V }' });
+    } else {
+      const crudos = valor.popularidad;
+      const pops = RESULTADOS.map(r => validarNumero(crudos[r], `${campoPopularidad}.${r}`, errores, { min: 0, max: 1 }));
+      const suma = pops.reduce((a, b) => a + b, 0);
+      if (pops.every(Number.isFinite) && Math.abs(suma - 1) > 0.02) {
+        errores.push({ campo: campoPopularidad, mensaje: `debe sumar 1 (suma ${suma.toFixed(3)})` });
+      }
+      popularidad = { L: pops[0] / suma, E: pops[1] / suma, V: pops[2] / suma };
+    }
+  }
+
+  if (errores.length > erroresPrevios) return null;
+
+  return {
+    local: valor.local as string,
+    visitante: valor.visitante as string,
+    prob_local: probs[0] / total,
+    prob_empate: probs[1] / total,
+    prob_visitante: probs[2] / total,
+    es_final: (valor.es_final as boolean | undefined) || false,
+    forma_diferencia: (valor.forma_diferencia as number | undefined) || 0,
+    lesiones_impact: (valor.lesiones_impact as number | undefined) || 0,
+    ...(popularidad ? { popularidad } : {})
+  };
+};
+
+const validarPartidos = (valor: unknown, campo: string, errores: ErrorCampo[], numPartidos: number) => {
+  if (!Array.isArray(valor)) {
+    errores.push({ campo, mensaje: `debe ser una lista de ${numPartidos} partidos` });
+    return [];
+  }
+  if (valor.length !== numPartidos) {
+    errores.push({ campo, mensaje: `debe tener ${numPartidos} partidos (tiene ${valor.length})` });
+  }
+  return valor
+    .slice(0, numPartidos)
+    .map((partido, i) => validarPartido(partido, `${campo}[${i}]`, errores))
+    .filter((partido): partido is Partido => partido !== null);
+};
+
+/** Restricciones parciales: las omitidas toman el valor de `RESTRICCIONES_DEFAULT`. */
+const leerRestricciones = (valor: unknown, campo: string, errores: ErrorCampo[]): RestriccionesPortafolio => {
+  const base = RESTRICCIONES_DEFAULT;
+  if (valor === undefined) return base;
+  if (!esObjeto(valor)) {
+    errores.push({ campo, mensaje: 'debe ser un objeto' });
+    return base;
+  }
+
+  const numero = (clave: string, porDefecto: number, limites: { min: number; max: number; entero?: boolean }) =>
+    validarOpcional(valor[clave], porDefecto, v => validarNumero(v, `${campo}.${clave}`, errores, limites));
+
+  const empatesMin = numero('empatesMin', base.empatesMin, { min: 0, max: 14, entero: true });
+  const empatesMax = numero('empatesMax', base.empatesMax, { min: 0, max: 14, entero: true });
+  if (empatesMin > empatesMax) {
+    errores.push({ campo: `${campo}.empatesMin`, mensaje: 'no puede ser mayor que empatesMax' });
+  }
+
+  const rangosHistoricos = { ...base.rangosHistoricos };
+  if (valor.rangosHistoricos !== undefined) {
+    const rangos = valor.rangosHistoricos;
+    if (!esObjeto(rangos)) {
+      errores.push({ campo: `${campo}.rangosHistoricos`, mensaje: 'debe ser un objeto con L, E y V' });
+    } else {
+      for (const resultado of RESULTADOS) {
+        if (rangos[resultado] === undefined) continue;
+        const rango = rangos[resultado];
+        const campoRango = `${campo}.rangosHistoricos.${resultado}`;
+        if (!Array.isArray(rango) || rango.length !== 2) {
+          errores.push({ campo: campoRango, mensaje: 'debe ser [mínimo, máximo]' });
+          continue;
+        }
+        const [min, max] = rango.map(v => validarNumero(v, campoRango, errores, { min: 0, max: 1 }));
+        if (min > max) errores.push({ campo: campoRango, mensaje: 'el mínimo no puede superar al máximo' });
+        rangosHistoricos[resultado] = [min, max];
+      }
+    }
+  }
+
+  const calibracion = { ...base.calibracion };
+  if (valor.calibracion !== undefined) {
+    const coeficientes = valor.calibracion;
+    if (!esObjeto(coeficientes)) {
+      errores.push({ campo: `${campo}.calibracion`, mensaje: 'debe ser un objeto con k1_forma, k2_lesiones y k3_contexto' });
+    } else {
+      for (const k of ['k1_forma', 'k2_lesiones', 'k3_contexto'] as const) {
+        calibracion[k] = validarOpcional(coeficientes[k], calibracion[k], v =>
+          validarNumero(v, `${campo}.calibracion.${k}`, errores, { min: 0, max: 1 })
+        );
+      }
+    }
+  }
+
+  return {
+    empatesMin,
+    empatesMax,
+    // Por debajo de 1/3 ningún partido podría repartirse entre L, E y V sin violar el límite
+    concentracionGeneral: numero('concentracionGeneral', base.concentracionGeneral, { min: 0.34, max: 1 }),
+    concentracionInicial: numero('concentracionInicial', base.concentracionInicial, { min: 0.34, max: 1 }),
+    partidosIniciales: numero('partidosIniciales', base.partidosIniciales, { min: 0, max: 14, entero: true }),
+    rangosHistoricos,
+    correlacionTarget: numero('correlacionTarget', base.correlacionTarget, { min: -1, max: 1 }),
+    calibracion,
+    precioBoleto: numero('precioBoleto', base.precioBoleto, { min: 1, max: 1000 }),
+    precioRevancha: numero('precioRevancha', base.precioRevancha, { min: 1, max: 1000 })
+  };
+};
+
+/** Parámetros de premios parciales: los omitidos toman el valor de `PREMIOS_DEFAULT`. */
+const leerPremios = (valor: unknown, campo: string, errores: ErrorCampo[]): ParametrosPremios => {
+  if (valor === undefined) return PREMIOS_DEFAULT;
+  if (!esObjeto(valor)) {
+    errores.push({ campo, mensaje: 'debe ser un objeto' });
+    return PREMIOS_DEFAULT;
+  }
+
+  const bolsa = validarOpcional(valor.bolsa, PREMIOS_DEFAULT.bolsa, v =>
+    validarNumero(v, `${campo}.bolsa`, errores, { min: 0, max: 1e10 })
+  );
+  const columnasPublico = validarOpcional(valor.columnasPublico, PREMIOS_DEFAULT.columnasPublico, v =>
+    validarNumero(v, `${campo}.columnasPublico`, errores, { min: 0, max: 1e9, entero: true })
+  );
+
+  let categorias = PREMIOS_DEFAULT.categorias;
+  if (valor.categorias !== undefined) {
+    if (!Array.isArray(valor.categorias) || valor.categorias.length === 0) {
+      errores.push({ campo: `${campo}.categorias`, mensaje: 'debe ser una lista de { aciertos, proporcion }' });
+    } else {
+      categorias = valor.categorias.map((categoria: unknown, i) => {
+        const campoCategoria = `${campo}.categorias[${i}]`;
+        if (!esObjeto(categoria)) {
+          errores.push({ campo: campoCategoria, mensaje: 'debe ser un objeto { aciertos, proporcion }' });
+          return { aciertos: NaN, proporcion: NaN };
+        }
+        return {
+          aciertos: validarNumero(categoria.aciertos, `${campoCategoria}.aciertos`, errores, { min: 1, max: 14, entero: true }),
+          proporcion: validarNumero(categoria.proporcion, `${campoCategoria}.proporcion`, errores, { min: 0, max: 1 })
+        };
+      });
+      if (new Set(categorias.map(c => c.aciertos)).size < categorias.length) {
+        errores.push({ campo: `${campo}.categorias`, mensaje: 'no debe repetir aciertos' });
+      }
+      const total = categorias.reduce((acc, c) => acc + c.proporcion, 0);
+      if (total > 1 + 1e-9) {
+        errores.push({ campo: `${campo}.categorias`, mensaje: `las proporciones no deben sumar más de 1 (suman ${total.toFixed(3)})` });
+      }
+    }
+  }
+
+  return { bolsa, columnasPublico, categorias };
+};
+
+/** Hiperparámetros del optimizador parciales: los omitidos toman `PARAMETROS_OPTIMIZADOR`. */
+const leerOptimizador = (valor: unknown, campo: string, errores: ErrorCampo[]): ParametrosOptimizador => {
+  const optimizador = { ...PARAMETROS_OPTIMIZADOR };
+  if (valor === undefined) return optimizador;
+  if (!esObjeto(valor)) {
+    errores.push({ campo, mensaje: 'debe ser un objeto' });
+    return optimizador;
+  }
+
+  optimizador.iteracionesOptimizador = validarOpcional(valor.iteracionesOptimizador, optimizador.iteracionesOptimizador, v =>
+    validarNumero(v, `${campo}.iteracionesOptimizador`, errores, { min: 0, max: 50000, entero: true })
+  );
+  optimizador.temperaturaInicial = validarOpcional(valor.temperaturaInicial, optimizador.temperaturaInicial, v =>
+    validarNumero(v, `${campo}.temperaturaInicial`, errores, { min: 0.0001, max: 1 })
+  );
+  optimizador.tasaEnfriamiento = validarOpcional(valor.tasaEnfriamiento, optimizador.tasaEnfriamiento, v =>
+    validarNumero(v, `${campo}.tasaEnfriamiento`, errores, { min: 0.5, max: 0.999 })
+  );
+  optimizador.simulacionesMontecarlo = validarOpcional(valor.simulacionesMontecarlo, optimizador.simulacionesMontecarlo, v =>
+    validarNumero(v, `${campo}.simulacionesMontecarlo`, errores, { min: 100, max: 100000, entero: true })
+  );
+  return optimizador;
+};
+
+/** Umbrales de clasificación parciales: los omitidos toman el valor de `UMBRALES_CLASIFICACION`. */
+const leerUmbrales = (valor: unknown, campo: string, errores: ErrorCampo[]): UmbralesClasificacion => {
+  const base = UMBRALES_CLASIFICACION;
+  if (valor === undefined) return base;
+  if (!esObjeto(valor)) {
+    errores.push({ campo, mensaje: 'debe ser un objeto' });
+    return base;
+  }
+
+  const umbral = (clave: Exclude<keyof UmbralesClasificacion, 'drawPropensity'>) =>
+    validarOpcional(valor[clave], base[clave], v => validarNumero(v, `${campo}.${clave}`, errores, { min: 0, max: 1 }));
+  const umbralDivisorMin = umbral('umbralDivisorMin');
+  const umbralDivisorMax = umbral('umbralDivisorMax');
+  if (umbralDivisorMin > umbralDivisorMax) {
+    errores.push({ campo: `${campo}.umbralDivisorMin`, mensaje: 'no puede ser mayor que umbralDivisorMax' });
+  }
+
+  const drawPropensity = { ...base.drawPropensity };
+  if (valor.drawPropensity !== undefined) {
+    const regla = valor.drawPropensity;
+    if (!esObjeto(regla)) {
+      errores.push({ campo: `${campo}.drawPropensity`, mensaje: 'debe ser un objeto con umbral_diferencia y boost_empate' });
+    } else {
+      for (const clave of ['umbral_diferencia', 'boost_empate'] as const) {
+        drawPropensity[clave] = validarOpcional(regla[clave], drawPropensity[clave], v =>
+          validarNumero(v, `${campo}.drawPropensity.${clave}`, errores, { min: 0, max: 1 })
+        );
+      }
+    }
+  }
+
+  return {
+    umbralAncla: umbral('umbralAncla'),
+    umbralDivisorMin,
+    umbralDivisorMax,
+    umbralEmpate: umbral('umbralEmpate'),
+    drawPropensity
+  };
+};
+
+/**
+ * Restricciones de Configuración (p. ej. un preset guardado o el archivo de `--restricciones`
+ * del CLI). Se completan con `RESTRICCIONES_DEFAULT`.
+ */
+export const validarRestricciones = (valor: unknown): ResultadoEsquema<RestriccionesPortafolio> => {
+  const errores: ErrorCampo[] = [];
+  const restricciones = leerRestricciones(valor, 'restricciones', errores);
+  return errores.length > 0 ? { ok: false, errores } : { ok: true, datos: restricciones };
+};
+
+/** Cuerpo de `POST /api/classify`: `{ partidos }` con 14 partidos regulares o 7 de Revancha. */
+export const validarSolicitudClasificar = (body: unknown): ResultadoEsquema<SolicitudClasificar> => {
+  if (!esObjeto(body)) return { ok: false, errores: [{ campo: '', mensaje: 'el cuerpo debe ser un objeto JSON' }] };
+
+  const errores: ErrorCampo[] = [];
+  const numPartidos = Array.isArray(body.partidos) && body.partidos.length === 7 ? 7 : 14;
+  const partidos = validarPartidos(body.partidos, 'partidos', errores, numPartidos);
+
+  return errores.length > 0 ? { ok: false, errores } : { ok: true, datos: { partidos } };
+};
+
+/**
+ * Cuerpo de `POST /api/portfolio`: `{ partidos, partidos_revancha?, config? }`, donde
+ * `config` admite numQuinielas, numQuinielasRevancha, seed, optimizar, optimizador, restricciones,
+ * presupuesto, premios y contrarian.
+ */
+export const validarSolicitudPortafolio = (body: unknown): ResultadoEsquema<SolicitudPortafolio> => {
+  if (!esObjeto(body)) return { ok: false, errores: [{ campo: '', mensaje: 'el cuerpo debe ser un objeto JSON' }] };
+
+  const errores: ErrorCampo[] = [];
+  const partidos = validarPartidos(body.partidos, 'partidos', errores, 14);
+  const partidosRevancha = body.partidos_revancha === undefined ?
+    [] :
+    validarPartidos(body.partidos_revancha, 'partidos_revancha', errores, 7);
+
+  const config = body.config === undefined ? {} : body.config;
+  if (!esObjeto(config)) {
+    errores.push({ campo: 'config', mensaje: 'debe ser un objeto' });
+    return { ok: false, errores };
+  }
+
+  const numQuinielas = validarOpcional(config.numQuinielas, 20, v =>
+    validarNumero(v, 'config.numQuinielas', errores, { min: 4, max: MAX_QUINIELAS, entero: true })
+  );
+  const numQuinielasRevancha = validarOpcional(config.numQuinielasRevancha, 10, v =>
+    validarNumero(v, 'config.numQuinielasRevancha', errores, { min: 4, max: MAX_QUINIELAS, entero: true })
+  );
+  const seed = validarOpcional(config.seed, 42, v =>
+    validarNumero(v, 'config.seed', errores, { min: 0, max: 2 ** 32 - 1, entero: true })
+  );
+  for (const opcion of ['optimizar', 'contrarian'] as const) {
+    if (config[opcion] !== undefined && typeof config[opcion] !== 'boolean') {
+      errores.push({ campo: `config.${opcion}`, mensaje: 'debe ser booleano' });
+    }
+  }
+
+  const optimizador = leerOptimizador(config.optimizador, 'config.optimizador', errores);
+
+  const restricciones = leerRestricciones(config.restricciones, 'config.restricciones', errores);
+  // El presupuesto tiene que alcanzar al menos para un boleto, con su Revancha si se juega
+  const precioMinimo = restricciones.precioBoleto + (partidosRevancha.length > 0 ? restricciones.precioRevancha : 0);
+  const presupuesto = validarOpcional<number | null>(config.presupuesto, null, v =>
+    validarNumero(v, 'config.presupuesto', errores, { min: precioMinimo, max: 1000000 })
+  );
+  const premios = leerPremios(config.premios, 'config.premios', errores);
+
+  if (errores.length > 0) return { ok: false, errores };
+
+  return {
+    ok: true,
+    datos: {
+      partidos,
+      partidos_revancha: partidosRevancha,
+      numQuinielas,
+      numQuinielasRevancha,
+      seed,
+      optimizar: (config.optimizar as boolean | undefined) || false,
+      optimizador,
+      restricciones,
+      presupuesto,
+      premios,
+      contrarian: (config.contrarian as boolean | undefined) || false
+    }
+  };
+};
+
+/**
+ * Cuerpo de `POST /api/validate`: `{ quinielas, juego?, partidos?, seed?, simulacionesMontecarlo?, restricciones? }`.
+ * Cada quiniela puede ser una lista de resultados, un texto como "LEVL..." o un objeto con
+ * `resultados` o `selecciones`. En las listas, un doble o triple es una lista de resultados
+ * distintos (`['L', ['L', 'E'], ...]`). Con `partidos` se calculan además las probabilidades de premio.
+ */
+export const validarSolicitudValidar = (body: unknown): ResultadoEsquema<SolicitudValidar> => {
+  if (!esObjeto(body)) return { ok: false, errores: [{ campo: '', mensaje: 'el cuerpo debe ser un objeto JSON' }] };
+
+  const errores: ErrorCampo[] = [];
+  const juego = validarOpcional<Juego>(body.juego, 'regular', v => {
+    if (v !== 'regular' && v !== 'revancha') errores.push({ campo: 'juego', mensaje: "debe ser 'regular' o 'revancha'" });
+    return v as Juego;
+  });
+  const numPartidos = juego === 'revancha' ? 7 : 14;
+
+  const quinielas: Resultado[][][] = [];
+  if (!Array.isArray(body.quinielas) || body.quinielas.length === 0) {
+    errores.push({ campo: 'quinielas', mensaje: 'debe ser una lista no vacía' });
+  } else if (body.quinielas.length > MAX_QUINIELAS) {
+    errores.push({ campo: 'quinielas', mensaje: `admite a lo más ${MAX_QUINIELAS} quinielas` });
+  } else {
+    body.quinielas.forEach((quiniela: unknown, i: number) => {
+      const campo = `quinielas[${i}]`;
+      const crudos = typeof quiniela === 'string' ? quiniela.replace(/[\s,]/g, '').split('') :
+        Array.isArray(quiniela) ? quiniela :
+        esObjeto(quiniela) && Array.isArray(quiniela.selecciones) ? quiniela.selecciones :
+        esObjeto(quiniela) && Array.isArray(quiniela.resultados) ? quiniela.resultados : null;
+      const selecciones: unknown[][] = (crudos || []).map((s: unknown) => (Array.isArray(s) ? s : [s]));
+
+      if (crudos === null) {
+        errores.push({ campo, mensaje: 'debe ser una lista de resultados, un texto o un objeto con resultados' });
+      } else if (crudos.length !== numPartidos) {
+        errores.push({ campo, mensaje: `debe tener ${numPartidos} resultados (tiene ${crudos.length})` });
+      } else if (!selecciones.every(s => s.every(r => RESULTADOS.includes(r as Resultado)))) {
+        errores.push({ campo, mensaje: "los resultados deben ser 'L', 'E' o 'V'" });
+      } else if (!selecciones.every(s => s.length > 0 && new Set(s).size === s.length)) {
+        errores.push({ campo, mensaje: 'cada doble o triple debe tener resultados distintos' });
+      } else {
+        quinielas.push(selecciones as Resultado[][]);
+      }
+    });
+  }
+
+  const partidos = body.partidos === undefined ? [] : validarPartidos(body.partidos, 'partidos', errores, numPartidos);
+  const seed = validarOpcional(body.seed, 42, v =>
+    validarNumero(v, 'seed', errores, { min: 0, max: 2 ** 32 - 1, entero: true })
+  );
+  const simulacionesMontecarlo = validarOpcional(body.simulacionesMontecarlo, PARAMETROS_OPTIMIZADOR.simulacionesMontecarlo, v =>
+    validarNumero(v, 'simulacionesMontecarlo', errores, { min: 100, max: 100000, entero: true })
+  );
+
+  const restricciones = leerRestricciones(body.restricciones, 'restricciones', errores);
+
+  if (errores.length > 0) return { ok: false, errores };
+
+  return { ok: true, datos: { quinielas, juego, partidos, seed, simulacionesMontecarlo, restricciones } };
+};
+
+const leerResultados = (valor: unknown, campo: string, errores: ErrorCampo[]): Resultado[] => {
+  const resultados = typeof valor === 'string' ? valor.replace(/[\s,]/g, '').split('') : valor;
+  if (!Array.isArray(resultados) || resultados.length !== 14) {
+    errores.push({ campo, mensaje: 'debe tener los 14 resultados finales' });
+    return [];
+  }
+  if (!resultados.every(r => RESULTADOS.includes(r as Resultado))) {
+    errores.push({ campo, mensaje: "los resultados deben ser 'L', 'E' o 'V'" });
+    return [];
+  }
+  return resultados as Resultado[];
+};
+
+const leerPremiosPagados = (valor: unknown, campo: string, errores: ErrorCampo[]): PremioPagado[] | undefined => {
+  if (valor === undefined) return undefined;
+  if (!Array.isArray(valor)) {
+    errores.push({ campo, mensaje: 'debe ser una lista de { aciertos, monto }' });
+    return undefined;
+  }
+  return valor.map((premio: unknown, i) => {
+    const campoPremio = `${campo}[${i}]`;
+    if (!esObjeto(premio)) {
+      errores.push({ campo: campoPremio, mensaje: 'debe ser un objeto { aciertos, monto }' });
+      return { aciertos: NaN, monto: NaN };
+    }
+    return {
+      aciertos: validarNumero(premio.aciertos, `${campoPremio}.aciertos`, errores, { min: 1, max: 14, entero: true }),
+      monto: validarNumero(premio.monto, `${campoPremio}.monto`, errores, { min: 0, max: 1e10 })
+    };
+  });
+};
+
+/**
+ * Archivo de concursos pasados para el backtest: una lista (o `{ concursos }`) de
+ * `{ numero, partidos, resultados, premios? }`. Los resultados pueden ser una lista o un texto "LEV...".
+ */
+export const validarHistorialBacktest = (body: unknown): ResultadoEsquema<ConcursoHistorico[]> => {
+  const lista = esObjeto(body) ? body.concursos : body;
+  if (!Array.isArray(lista) || lista.length === 0) {
+    return { ok: false, errores: [{ campo: 'concursos', mensaje: 'debe ser una lista no vacía de concursos' }] };
+  }
+
+  const errores: ErrorCampo[] = [];
+  const concursos = lista.map((concurso: unknown, i): ConcursoHistorico => {
+    const campo = `concursos[${i}]`;
+    if (!esObjeto(concurso)) {
+      errores.push({ campo, mensaje: 'debe ser un objeto' });
+      return { numero: NaN, partidos: [], resultados: [] };
+    }
+    const premios = leerPremiosPagados(concurso.premios, `${campo}.premios`, errores);
+    return {
+      numero: validarNumero(concurso.numero, `${campo}.numero`, errores, { min: 1, max: 1e6, entero: true }),
+      partidos: validarPartidos(concurso.partidos, `${campo}.partidos`, errores, 14),
+      resultados: leerResultados(concurso.resultados, `${campo}.resultados`, errores),
+      ...(premios ? { premios } : {})
+    };
+  });
+
+  return errores.length > 0 ? { ok: false, errores } : { ok: true, datos: concursos };
+};
+
+/**
+ * Configuración de backtest: `{ nombre?, numQuinielas?, seed?, optimizar?, optimizador?,
+ * restricciones?, umbrales? }`, con los mismos valores por defecto que `POST /api/portfolio`.
+ */
+export const validarConfiguracionBacktest = (
+  valor: unknown,
+  nombrePorDefecto = 'config'
+): ResultadoEsquema<ConfiguracionBacktest> => {
+  if (!esObjeto(valor)) return { ok: false, errores: [{ campo: '', mensaje: 'la configuración debe ser un objeto JSON' }] };
+
+  const errores: ErrorCampo[] = [];
+  const nombre = validarOpcional(valor.nombre, nombrePorDefecto, v => {
+    if (typeof v !== 'string' || !v.trim()) errores.push({ campo: 'nombre', mensaje: 'debe ser un texto no vacío' });
+    return v as string;
+  });
+  const numQuinielas = validarOpcional(valor.numQuinielas, 20, v =>
+    validarNumero(v, 'numQuinielas', errores, { min: 4, max: MAX_QUINIELAS, entero: true })
+  );
+  const seed = validarOpcional(valor.seed, 42, v =>
+    validarNumero(v, 'seed', errores, { min: 0, max: 2 ** 32 - 1, entero: true })
+  );
+  if (valor.optimizar !== undefined && typeof valor.optimizar !== 'boolean') {
+    errores.push({ campo: 'optimizar', mensaje: 'debe ser booleano' });
+  }
+  const optimizador = leerOptimizador(valor.optimizador, 'optimizador', errores);
+  const restricciones = leerRestricciones(valor.restricciones, 'restricciones', errores);
+  const umbrales = leerUmbrales(valor.umbrales, 'umbrales', errores);
+
+  if (errores.length > 0) return { ok: false, errores };
+
+  return {
+    ok: true,
+    datos: {
+      nombre,
+      numQuinielas,
+      seed,
+      optimizar: (valor.optimizar as boolean | undefined) || false,
+      optimizador,
+      restricciones,
+      umbrales
+    }
+  };
+};
@@ -0,0 +1,169 @@
+import { PROGOL_CONFIG, VERSION_MOTOR } from './config';
+import { contarCombinaciones, seleccionesDe } from './multiples';
+import type { ObjetivosHistoricos, Partido, Quiniela, ResultadoValidacion } from './types';
+
+// ==================== EXPORTACIÓN ====================
+
+/** Todo lo que se escribe en los archivos exportados (pestaña Exportar y CLI). */
+export interface DatosExportacion {
+  partidos: Partido[];
+  quinielas: Quiniela[];
+  validacion: ResultadoValidacion | null;
+  partidosRevancha: Partido[];
+  quinielasRevancha: Quiniela[];
+  validacionRevancha: ResultadoValidacion | null;
+  seed: number;
+  /** Parámetros con los que se generó el portafolio; se copian tal cual al JSON. */
+  configuracion: object;
+  optimizador: object;
+  /** Precios de Configuración; por defecto los de `PROGOL_CONFIG`. */
+  precioBoleto?: number;
+  precioRevancha?: number;
+  /** Objetivos históricos aplicados a las restricciones; sin ellos se usan los de `PROGOL_CONFIG`. */
+  objetivos?: ObjetivosHistoricos | null;
+  fecha?: Date;
+}
+
+export interface CostosPortafolio {
+  /** Boletos que juegan también Revancha: el boleto Q-i lleva la quiniela de Revancha i. */
+  numConRevancha: number;
+  /** Columnas regulares pagadas: los boletos múltiples pagan una por combinación. */
+  columnas: number;
+  sinRevancha: number;
+  revancha: number;
+  total: number;
+}
+
+const leerPrecios = (datos: Pick<DatosExportacion, 'precioBoleto' | 'precioRevancha'>) => ({
+  precioBoleto: datos.precioBoleto ?? PROGOL_CONFIG.PRECIO_BOLETO,
+  precioRevancha: datos.precioRevancha ?? PROGOL_CONFIG.PRECIO_REVANCHA
+});
+
+// "L E V" en sencillas; los dobles y triples se escriben juntos: "L LE V"
+const formatearSelecciones = (quiniela: Quiniela) => seleccionesDe(quiniela).map(s => s.join(''));
+
+// Los boletos múltiples promedian los empates de sus columnas
+const formatearEmpates = (empates: number) => (Number.isInteger(empates) ? String(empates) : empates.toFixed(1));
+
+export const calcularCostos = (
+  datos: Pick<DatosExportacion, 'quinielas' | 'quinielasRevancha' | 'precioBoleto' | 'precioRevancha'>
+): CostosPortafolio => {
+  const { precioBoleto, precioRevancha } = leerPrecios(datos);
+  const numConRevancha = Math.min(datos.quinielasRevancha.length, datos.quinielas.length);
+  const columnas = datos.quinielas.reduce((acc, q) => acc + contarCombinaciones(seleccionesDe(q)), 0);
+  const sinRevancha = columnas * precioBoleto;
+  const revancha = numConRevancha * precioRevancha;
+  return { numConRevancha, columnas, sinRevancha, revancha, total: sinRevancha + revancha };
+};
+
+/** Una fila por boleto: resultados, probabilidades de premio, Revancha y costo. */
+export const generarCSVPortafolio = (datos: DatosExportacion) => {
+  const { quinielas, quinielasRevancha } = datos;
+  const { numConRevancha } = calcularCostos(datos);
+  const { precioBoleto, precioRevancha } = leerPrecios(datos);
+
+  const headers = [
+    'Quiniela', 'Tipo', ...Array.from({length: 14}, (_, i) => `P${i+1}`), 'Empates', 'Prob_11_Plus', 'Prob_12_Plus', 'Prob_13_Plus', 'Prob_14',
+    ...Array.from({length: 7}, (_, i) => `R${i+1}`), 'Empates_Revancha', 'Prob_Revancha_7', 'Costo'
+  ];
+  const rows = quinielas.map((q, i) => {
+    const rev = i < numConRevancha ? quinielasRevancha[i] : null;
+    return [
+      `Q-${i+1}`,
+      q.tipo,
+      ...formatearSelecciones(q),
+      formatearEmpates(q.empates),
+      ((q.prob_11_plus || 0) * 100).toFixed(2),
+      ((q.prob_12_plus || 0) * 100).toFixed(3),
+      ((q.prob_13_plus || 0) * 100).toFixed(4),
+      ((q.prob_14 || 0) * 100).toFixed(5),
+      ...(rev ? rev.resultados : Array(7).fill('')),
+      rev ? rev.empates : '',
+      rev ? ((rev.prob_7 || 0) * 100).toFixed(3) : '',
+      contarCombinaciones(seleccionesDe(q)) * precioBoleto + (rev ? precioRevancha : 0)
+    ];
+  });
+
+  return [headers, ...rows].map(row => row.join(',')).join('\n');
+};
+
+/** Exportación completa: metadatos para reproducir el portafolio, partidos, quinielas y validación. */
+export const generarJSONPortafolio = (datos: DatosExportacion) => {
+  const costos = calcularCostos(datos);
+  const { objetivos } = datos;
+
+  const exportData = {
+    metadata: {
+      fecha_generacion: (datos.fecha || new Date()).toISOString(),
+      total_quinielas: datos.quinielas.length,
+      metodologia: 'Core + Satélites GRASP-Annealing',
+      distribucion_historica: objetivos?.distribucion ?? PROGOL_CONFIG.DISTRIBUCION_HISTORICA,
+      empates_promedio_historico: objetivos?.empatesPromedio ?? PROGOL_CONFIG.EMPATES_PROMEDIO,
+      // De qué datos salen la distribución y los empates de arriba
+      objetivos_historicos: objetivos ?
+        { fuente: objetivos.fuente, desde: objetivos.desde, hasta: objetivos.hasta, concursos: objetivos.concursos } :
+        { fuente: 'PROGOL_CONFIG', desde: null, hasta: null, concursos: null },
+      total_quinielas_revancha: costos.numConRevancha,
+      distribucion_historica_revancha: PROGOL_CONFIG.REVANCHA.DISTRIBUCION_HISTORICA,
+      seed: datos.seed,
+      version_motor: VERSION_MOTOR,
+      configuracion: datos.configuracion,
+      optimizador: datos.optimizador,
+      costos: {
+        sin_revancha: costos.sinRevancha,
+        revancha: costos.revancha,
+        total: costos.total
+      }
+    },
+    partidos: datos.partidos,
+    quinielas: datos.quinielas,
+    validacion: datos.validacion,
+    partidos_revancha: datos.partidosRevancha,
+    quinielas_revancha: datos.quinielasRevancha.slice(0, costos.numConRevancha),
+    validacion_revancha: datos.validacionRevancha
+  };
+
+  return JSON.stringify(exportData, null, 2);
+};
+
+/** Formato de texto para llenar los boletos a mano. */
+export const generarTextoProgol = (datos: DatosExportacion) => {
+  const { partidos, quinielas, partidosRevancha, quinielasRevancha } = datos;
+  const { numConRevancha, columnas, total } = calcularCostos(datos);
+  const { precioBoleto, precioRevancha } = leerPrecios(datos);
+
+  const lines = [
+    'PROGOL OPTIMIZER - QUINIELAS GENERADAS',
+    '='.repeat(50),
+    `Fecha: ${(datos.fecha || new Date()).toLocaleString()}`,
+    `Total de quinielas: ${quinielas.length}`,
+    `Metodología: Core + Satélites GRASP-Annealing`,
+    '',
+    'PARTIDOS:',
+    ...partidos.map((p, i) => `${String(i+1).padStart(2)}. ${p.local} vs ${p.visitante}`),
+    ...(numConRevancha > 0 ? [
+      '',
+      'PARTIDOS REVANCHA:',
+      ...partidosRevancha.slice(0, 7).map((p, i) => `${String(i+1).padStart(2)}. ${p.local} vs ${p.visitante}`)
+    ] : []),
+    '',
+    'QUINIELAS:',
+    ...quinielas.map((q, i) => {
+      const resultados = formatearSelecciones(q).join(' ');
+      const prob = ((q.prob_11_plus || 0) * 100).toFixed(1);
+      const revancha = i < numConRevancha ? ` | Rev: ${quinielasRevancha[i].resultados.join(' ')}` : '';
+      return `Q-${String(i+1).padStart(2)} (${q.tipo.padStart(8)}): ${resultados} | E:${formatearEmpates(q.empates)} | Pr:${prob}%${revancha}`;
+    }),
+    '',
+    ...(columnas === quinielas.length ? [
+      `Boletos sin Revancha: ${quinielas.length - numConRevancha} x $${precioBoleto}`,
+      `Boletos con Revancha: ${numConRevancha} x $${precioBoleto + precioRevancha}`
+    ] : [
+      `Columnas regulares: ${columnas} x $${precioBoleto} (${quinielas.length} boletos, dobles y triples incluidos)`,
+      `Complementos Revancha: ${numConRevancha} x $${precioRevancha}`
+    ]),
+    `Costo total: $${total} MXN`
+  ];
+
+  return lines.join('\n');
+};
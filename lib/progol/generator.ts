@@ -0,0 +1,501 @@
+import { obtenerReglasJuego, PREMIOS_DEFAULT, PROGOL_CONFIG } from './config';
+import { contarCombinaciones, normalizarSeleccion, pesosSeleccion } from './multiples';
+import { calcularValorQuiniela } from './premios';
+import { calcularCorrelacionAciertos, calcularDistribucionAciertos, probabilidadAlMenos } from './probabilidades';
+import { crearGeneradorAleatorio } from './random';
+import type {
+  DistribucionResultados,
+  Juego,
+  ParametrosPremios,
+  PartidoClasificado,
+  ProbabilidadesPartido,
+  ProbabilidadesQuiniela,
+  Quiniela,
+  ReglasJuego,
+  RestriccionesPortafolio,
+  Resultado,
+  Seleccion,
+  TipoQuiniela
+} from './types';
+
+/**
+ * Genera el portafolio Core + Satélites a partir de partidos clasificados. Toda la
+ * aleatoriedad sale del generador sembrado con `seed`, de modo que los mismos partidos y
+ * la misma semilla producen las mismas quinielas.
+ */
+export class PortfolioGenerator {
+  seed: number;
+  random: () => number;
+  reglas: ReglasJuego;
+
+  constructor(seed = 42, juego: Juego = 'regular', restricciones: Partial<RestriccionesPortafolio> = {}) {
+    this.seed = seed;
+    this.random = crearGeneradorAleatorio(seed);
+    this.reglas = obtenerReglasJuego(juego, restricciones);
+  }
+
+  generateCoreQuinielas(partidosClasificados: PartidoClasificado[]): Quiniela[] {
+    const coreQuinielas: Quiniela[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      let quiniela = this.crearQuinielaBase(partidosClasificados);
+
+      if (i > 0) {
+        quiniela = this.aplicarVariacion(quiniela, partidosClasificados, i);
+      }
+
+      quiniela = this.ajustarEmpates(quiniela, partidosClasificados);
+
+      coreQuinielas.push(
+        this.construirQuiniela(`${this.reglas.prefijoId}Core-${i + 1}`, 'Core', quiniela, partidosClasificados)
+      );
+    }
+
+    return coreQuinielas;
+  }
+
+  crearQuinielaBase(partidosClasificados: PartidoClasificado[]) {
+    const quiniela: Resultado[] = [];
+    let empatesActuales = 0;
+
+    for (const partido of partidosClasificados) {
+      let resultado: Resultado;
+
+      if (partido.clasificacion === 'Ancla') {
+        resultado = partido.resultadoSugerido;
+      } else if (partido.clasificacion === 'TendenciaEmpate' && empatesActuales < this.reglas.empatesMax) {
+        resultado = 'E';
+        empatesActuales++;
+      } else {
+        resultado = partido.resultadoSugerido;
+      }
+
+      if (resultado === 'E') empatesActuales++;
+      quiniela.push(resultado);
+    }
+
+    return quiniela;
+  }
+
+  generateSatelliteQuinielas(partidosClasificados: PartidoClasificado[], quinielasCore: Quiniela[], numSatelites: number) {
+    const satelites: Quiniela[] = [];
+    const numPares = Math.floor(numSatelites / 2);
+
+    const partidosDivisor = partidosClasificados
+      .map((p, i) => ({ ...p, index: i }))
+      .filter(p => p.clasificacion === 'Divisor');
+
+    for (let par = 0; par < numPares; par++) {
+      const [satA, satB] = this.crearParSatelites(
+        partidosClasificados,
+        partidosDivisor,
+        par
+      );
+      satelites.push(satA, satB);
+    }
+
+    // Si número impar, crear uno adicional
+    if (numSatelites % 2 === 1) {
+      const satExtra = this.crearSateliteIndividual(partidosClasificados, satelites.length);
+      satelites.push(satExtra);
+    }
+
+    return satelites;
+  }
+
+  /**
+   * Par de satélites que se reparten el riesgo: B invierte el partido Divisor principal y
+   * una parte de los demás partidos no Ancla. Cada intento invierte más partidos; el par cuya
+   * correlación de aciertos queda más cerca de `reglas.correlacionTarget` se refina después
+   * partido a partido.
+   */
+  crearParSatelites(
+    partidosClasificados: PartidoClasificado[],
+    partidosDivisor: (PartidoClasificado & { index: number })[],
+    parId: number
+  ): [Quiniela, Quiniela] {
+    const partidoPrincipal = partidosDivisor[parId % partidosDivisor.length]?.index || 0;
+    const { INTENTOS_CORRELACION, CORRELACION_TOLERANCIA } = PROGOL_CONFIG;
+
+    let mejor: { resultados: [Resultado[], Resultado[]]; distancia: number } | null = null;
+    for (let intento = 0; intento < INTENTOS_CORRELACION; intento++) {
+      const probVariacion = 0.3 + 0.7 * intento / INTENTOS_CORRELACION;
+      const resultados = this.variarPar(partidosClasificados, partidoPrincipal, probVariacion);
+      const correlacion = calcularCorrelacionAciertos(resultados[0], resultados[1], partidosClasificados);
+      const distancia = Math.abs(correlacion - this.reglas.correlacionTarget);
+
+      if (!mejor || distancia < mejor.distancia) mejor = { resultados, distancia };
+      if (distancia <= CORRELACION_TOLERANCIA) break;
+    }
+
+    const [quinielaA, quinielaB] = mejor!.distancia > CORRELACION_TOLERANCIA ?
+      this.refinarCorrelacion(mejor!.resultados, partidosClasificados) :
+      mejor!.resultados;
+
+    const satA = this.construirQuiniela(
+      `${this.reglas.prefijoId}Sat-${parId * 2 + 1}A`,
+      'Satelite',
+      quinielaA,
+      partidosClasificados,
+      parId
+    );
+
+    const satB = this.construirQuiniela(
+      `${this.reglas.prefijoId}Sat-${parId * 2 + 1}B`,
+      'Satelite',
+      quinielaB,
+      partidosClasificados,
+      parId
+    );
+
+    return [satA, satB];
+  }
+
+  /**
+   * Búsqueda local sobre los partidos no Ancla: prueba cada resultado alternativo en A y en B
+   * y acepta el cambio que más acerca la correlación al objetivo sin salir del rango de
+   * empates, hasta entrar en la tolerancia o no encontrar mejoras.
+   */
+  refinarCorrelacion(
+    [inicialA, inicialB]: [Resultado[], Resultado[]],
+    partidosClasificados: PartidoClasificado[]
+  ): [Resultado[], Resultado[]] {
+    const par: [Resultado[], Resultado[]] = [[...inicialA], [...inicialB]];
+    const distancia = () =>
+      Math.abs(calcularCorrelacionAciertos(par[0], par[1], partidosClasificados) - this.reglas.correlacionTarget);
+    const empatesEnRango = (quiniela: Resultado[]) => {
+      const empates = quiniela.filter(r => r === 'E').length;
+      return empates >= this.reglas.empatesMin && empates <= this.reglas.empatesMax;
+    };
+
+    let distanciaActual = distancia();
+    while (distanciaActual > PROGOL_CONFIG.CORRELACION_TOLERANCIA) {
+      let mejorCambio: { lado: number; idx: number; resultado: Resultado; distancia: number } | null = null;
+
+      partidosClasificados.forEach((partido, idx) => {
+        if (partido.clasificacion === 'Ancla') return;
+        for (const lado of [0, 1]) {
+          const anterior = par[lado][idx];
+          for (const resultado of ['L', 'E', 'V'] as Resultado[]) {
+            if (resultado === anterior) continue;
+            par[lado][idx] = resultado;
+            const nueva = distancia();
+            if (empatesEnRango(par[lado]) && nueva < (mejorCambio?.distancia ?? distanciaActual)) {
+              mejorCambio = { lado, idx, resultado, distancia: nueva };
+            }
+            par[lado][idx] = anterior;
+          }
+        }
+      });
+
+      if (!mejorCambio) break;
+      const { lado, idx, resultado, distancia: nuevaDistancia } = mejorCambio;
+      par[lado][idx] = resultado;
+      distanciaActual = nuevaDistancia;
+    }
+
+    return par;
+  }
+
+  /** Resultados de un par candidato, ya ajustados al rango de empates. */
+  variarPar(
+    partidosClasificados: PartidoClasificado[],
+    partidoPrincipal: number,
+    probVariacion: number
+  ): [Resultado[], Resultado[]] {
+    const quinielaA: Resultado[] = [];
+    const quinielaB: Resultado[] = [];
+
+    for (let i = 0; i < partidosClasificados.length; i++) {
+      const partido = partidosClasificados[i];
+
+      if (i === partidoPrincipal) {
+        // Anticorrelación en este partido
+        quinielaA.push(partido.resultadoSugerido);
+        quinielaB.push(this.getResultadoAlternativo(partido));
+      } else if (partido.clasificacion === 'Ancla') {
+        const resultado = partido.resultadoSugerido;
+        quinielaA.push(resultado);
+        quinielaB.push(resultado);
+      } else {
+        // Variación aleatoria
+        if (this.random() < probVariacion) {
+          quinielaA.push(partido.resultadoSugerido);
+          quinielaB.push(this.getResultadoAlternativo(partido));
+        } else {
+          const resultado = partido.resultadoSugerido;
+          quinielaA.push(resultado);
+          quinielaB.push(resultado);
+        }
+      }
+    }
+
+    return [
+      this.ajustarEmpates(quinielaA, partidosClasificados),
+      this.ajustarEmpates(quinielaB, partidosClasificados)
+    ];
+  }
+
+  crearSateliteIndividual(partidosClasificados: PartidoClasificado[], sateliteId: number) {
+    let quiniela = this.crearQuinielaBase(partidosClasificados);
+
+    // Aplicar variación aleatoria
+    for (let i = 0; i < partidosClasificados.length; i++) {
+      const partido = partidosClasificados[i];
+      if (partido.clasificacion !== 'Ancla' && this.random() < 0.4) {
+        quiniela[i] = this.getResultadoAlternativo(partido);
+      }
+    }
+
+    quiniela = this.ajustarEmpates(quiniela, partidosClasificados);
+
+    return this.construirQuiniela(
+      `${this.reglas.prefijoId}Sat-${sateliteId + 1}`,
+      'Satelite',
+      quiniela,
+      partidosClasificados,
+      null
+    );
+  }
+
+  /**
+   * Modo contrarian: en cada quiniela sencilla cambia, uno a uno, los resultados de partidos no
+   * Ancla que más suben el valor esperado (los que el público juega menos de lo que valen),
+   * mientras Pr[premio] no caiga más de `perdidaMaxima` respecto a la original y los empates
+   * sigan en rango. Los boletos múltiples se dejan como están.
+   */
+  aplicarModoContrarian(
+    quinielas: Quiniela[],
+    partidosClasificados: PartidoClasificado[],
+    premios: ParametrosPremios = PREMIOS_DEFAULT,
+    perdidaMaxima = PROGOL_CONFIG.CONTRARIAN_PERDIDA_MAX
+  ): Quiniela[] {
+    const valorDe = (resultados: Resultado[]) =>
+      calcularValorQuiniela(resultados, partidosClasificados, premios).valorEsperado;
+
+    return quinielas.map(quiniela => {
+      if (quiniela.selecciones) return quiniela;
+
+      const resultados = [...quiniela.resultados];
+      const probMinima = (1 - perdidaMaxima) * this.calcularProbPremio(resultados, partidosClasificados);
+      let valorActual = valorDe(resultados);
+
+      for (;;) {
+        let mejorCambio: { idx: number; resultado: Resultado; valor: number } | null = null;
+
+        partidosClasificados.forEach((partido, idx) => {
+          if (partido.clasificacion === 'Ancla') return;
+          const anterior = resultados[idx];
+          for (const resultado of ['L', 'E', 'V'] as Resultado[]) {
+            if (resultado === anterior) continue;
+            resultados[idx] = resultado;
+            const empates = resultados.filter(r => r === 'E').length;
+            if (
+              empates >= this.reglas.empatesMin &&
+              empates <= this.reglas.empatesMax &&
+              this.calcularProbPremio(resultados, partidosClasificados) >= probMinima
+            ) {
+              const valor = valorDe(resultados);
+              if (valor > (mejorCambio?.valor ?? valorActual)) mejorCambio = { idx, resultado, valor };
+            }
+            resultados[idx] = anterior;
+          }
+        });
+
+        if (!mejorCambio) break;
+        const { idx, resultado, valor } = mejorCambio;
+        resultados[idx] = resultado;
+        valorActual = valor;
+      }
+
+      return this.construirQuiniela(quiniela.id, quiniela.tipo, resultados, partidosClasificados, quiniela.par_id);
+    });
+  }
+
+  /** Arma el objeto Quiniela con empates, probabilidades de premio y distribución L/E/V. */
+  construirQuiniela(
+    id: string,
+    tipo: TipoQuiniela,
+    resultados: Resultado[],
+    partidosClasificados: ProbabilidadesPartido[],
+    parId?: number | null
+  ): Quiniela {
+    return {
+      id,
+      tipo,
+      resultados,
+      empates: resultados.filter(r => r === 'E').length,
+      ...this.calcularProbabilidades(resultados, partidosClasificados),
+      distribucion: this.calcularDistribucion(resultados),
+      ...(parId !== undefined ? { par_id: parId } : {})
+    };
+  }
+
+  /**
+   * Boleto múltiple: `resultados` toma el primer resultado de cada selección y las
+   * probabilidades de premio cuentan como acierto cualquiera de los resultados jugados.
+   */
+  construirQuinielaMultiple(
+    id: string,
+    tipo: TipoQuiniela,
+    selecciones: Resultado[][],
+    partidosClasificados: ProbabilidadesPartido[],
+    parId?: number | null
+  ): Quiniela {
+    const quiniela = this.construirQuiniela(id, tipo, selecciones.map(s => s[0]), partidosClasificados, parId);
+    if (contarCombinaciones(selecciones) === 1) return quiniela;
+
+    return {
+      ...quiniela,
+      selecciones,
+      empates: pesosSeleccion(selecciones).reduce((acc, pesos) => acc + pesos.E, 0),
+      ...this.calcularProbabilidades(selecciones, partidosClasificados),
+      distribucion: this.calcularDistribucion(selecciones)
+    };
+  }
+
+  getResultadoAlternativo(partido: ProbabilidadesPartido): Resultado {
+    const probs: { resultado: Resultado; prob: number }[] = [
+      { resultado: 'L', prob: partido.prob_local },
+      { resultado: 'E', prob: partido.prob_empate },
+      { resultado: 'V', prob: partido.prob_visitante }
+    ];
+
+    probs.sort((a, b) => b.prob - a.prob);
+    return probs[1].resultado; // Segunda opción más probable
+  }
+
+  /**
+   * Lleva la quiniela al rango de empates del juego: agrega empates en los partidos con mayor
+   * prob_empate (> 20%) o los quita de los partidos con menor prob_empate.
+   */
+  ajustarEmpates(quiniela: Resultado[], partidosClasificados: PartidoClasificado[]) {
+    const empatesActuales = quiniela.filter(r => r === 'E').length;
+    const quinielaAjustada = [...quiniela];
+
+    if (empatesActuales < this.reglas.empatesMin) {
+      // Necesitamos más empates
+      const empatesNecesarios = this.reglas.empatesMin - empatesActuales;
+      const candidatos: { index: number; prob: number }[] = [];
+
+      for (let i = 0; i < quinielaAjustada.length; i++) {
+        if (quinielaAjustada[i] !== 'E' && partidosClasificados[i].prob_empate > 0.20) {
+          candidatos.push({ index: i, prob: partidosClasificados[i].prob_empate });
+        }
+      }
+
+      candidatos.sort((a, b) => b.prob - a.prob);
+
+      for (let i = 0; i < Math.min(empatesNecesarios, candidatos.length); i++) {
+        quinielaAjustada[candidatos[i].index] = 'E';
+      }
+    } else if (empatesActuales > this.reglas.empatesMax) {
+      // Demasiados empates
+      const empatesExceso = empatesActuales - this.reglas.empatesMax;
+      const candidatosEmpate: { index: number; prob: number }[] = [];
+
+      for (let i = 0; i < quinielaAjustada.length; i++) {
+        if (quinielaAjustada[i] === 'E') {
+          candidatosEmpate.push({ index: i, prob: partidosClasificados[i].prob_empate });
+        }
+      }
+
+      candidatosEmpate.sort((a, b) => a.prob - b.prob);
+
+      for (let i = 0; i < Math.min(empatesExceso, candidatosEmpate.length); i++) {
+        const idx = candidatosEmpate[i].index;
+        quinielaAjustada[idx] = partidosClasificados[idx].resultadoSugerido;
+      }
+    }
+
+    return quinielaAjustada;
+  }
+
+  aplicarVariacion(quiniela: Resultado[], partidosClasificados: PartidoClasificado[], variacion: number) {
+    const quinielaVariada = [...quiniela];
+    const candidatos: number[] = [];
+
+    for (let i = 0; i < partidosClasificados.length; i++) {
+      if (partidosClasificados[i].clasificacion !== 'Ancla') {
+        candidatos.push(i);
+      }
+    }
+
+    const numCambios = Math.min(2 + variacion, candidatos.length);
+    const indicesCambio = this.shuffleArray(candidatos).slice(0, numCambios);
+
+    for (const idx of indicesCambio) {
+      quinielaVariada[idx] = this.getResultadoAlternativo(partidosClasificados[idx]);
+    }
+
+    return quinielaVariada;
+  }
+
+  shuffleArray<T>(array: T[]) {
+    const shuffled = [...array];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  /** Probabilidad de acertar cada partido; en un doble o triple, la suma de sus resultados. */
+  calcularProbsAcierto(quiniela: Seleccion[], partidosClasificados: ProbabilidadesPartido[]) {
+    return quiniela.map((seleccion, i) => {
+      const partido = partidosClasificados[i];
+      return normalizarSeleccion(seleccion).reduce((acc, resultado) => {
+        if (resultado === 'L') return acc + partido.prob_local;
+        if (resultado === 'E') return acc + partido.prob_empate;
+        return acc + partido.prob_visitante;
+      }, 0);
+    });
+  }
+
+  /** Pr[≥11] en el juego regular, Pr[7] en Revancha. */
+  calcularProbPremio(quiniela: Seleccion[], partidosClasificados: ProbabilidadesPartido[]) {
+    const distribucion = calcularDistribucionAciertos(this.calcularProbsAcierto(quiniela, partidosClasificados));
+    return probabilidadAlMenos(distribucion, this.reglas.aciertosPremio);
+  }
+
+  calcularProbabilidades(quiniela: Seleccion[], partidosClasificados: ProbabilidadesPartido[]): ProbabilidadesQuiniela {
+    const distribucion = calcularDistribucionAciertos(this.calcularProbsAcierto(quiniela, partidosClasificados));
+
+    if (this.reglas.juego === 'revancha') {
+      return { prob_7: probabilidadAlMenos(distribucion, 7) };
+    }
+
+    return {
+      prob_11_plus: probabilidadAlMenos(distribucion, 11),
+      prob_12_plus: probabilidadAlMenos(distribucion, 12),
+      prob_13_plus: probabilidadAlMenos(distribucion, 13),
+      prob_14: probabilidadAlMenos(distribucion, 14)
+    };
+  }
+
+  /** Verificación cruzada por Monte Carlo del cálculo exacto. */
+  simularProbPremio(quiniela: Seleccion[], partidosClasificados: ProbabilidadesPartido[], numSimulaciones: number) {
+    const probsAcierto = this.calcularProbsAcierto(quiniela, partidosClasificados);
+    let aciertosPremio = 0;
+
+    for (let sim = 0; sim < numSimulaciones; sim++) {
+      let aciertos = 0;
+      for (const prob of probsAcierto) {
+        if (this.random() < prob) aciertos++;
+      }
+      if (aciertos >= this.reglas.aciertosPremio) aciertosPremio++;
+    }
+
+    return aciertosPremio / numSimulaciones;
+  }
+
+  calcularDistribucion(quiniela: Seleccion[]): DistribucionResultados {
+    const total = quiniela.length;
+    const pesos = pesosSeleccion(quiniela);
+    return {
+      L: pesos.reduce((acc, p) => acc + p.L, 0) / total,
+      E: pesos.reduce((acc, p) => acc + p.E, 0) / total,
+      V: pesos.reduce((acc, p) => acc + p.V, 0) / total
+    };
+  }
+}
@@ -0,0 +1,291 @@
+import { PROGOL_CONFIG } from './config';
+import { detectarDelimitador, normalizarEncabezado, normalizarEquipo, parsearFecha, parsearNumero, separarCampos } from './csv';
+import type { FuerzaEquipo, MarcadorHistorico, ModeloGoles, Partido, PrediccionGoles } from './types';
+
+// ==================== MODELO DE GOLES (DIXON-COLES) ====================
+
+const LIGA_POR_DEFECTO = 'General';
+
+// Encabezados de football-data.co.uk (Div, HomeTeam, FTHG...) y equivalentes en español
+const ALIAS_MARCADORES = {
+  liga: ['liga', 'league', 'div', 'division', 'competicion', 'torneo'],
+  fecha: ['fecha', 'date'],
+  local: ['local', 'home', 'hometeam', 'home_team', 'equipo_local'],
+  visitante: ['visitante', 'away', 'awayteam', 'away_team', 'equipo_visitante', 'visita'],
+  golesLocal: ['goles_local', 'gl', 'fthg', 'hg', 'home_goals', 'home_score'],
+  golesVisitante: ['goles_visitante', 'gv', 'ftag', 'ag', 'away_goals', 'away_score'],
+  marcador: ['marcador', 'score', 'resultado', 'ft']
+};
+
+export interface ImportacionMarcadores {
+  marcadores: MarcadorHistorico[];
+  errores: string[];
+}
+
+const leerGoles = (texto: string) => {
+  const goles = parsearNumero(texto);
+  return Number.isInteger(goles) && goles >= 0 ? goles : NaN;
+};
+
+/**
+ * Lee un CSV de marcadores pasados: liga (opcional), fecha (opcional), local, visitante y los
+ * goles de cada uno en dos columnas o en una columna `marcador` ("2-1"). Acepta los archivos
+ * de football-data.co.uk tal cual. Las filas inválidas se reportan en `errores`.
+ */
+export const analizarMarcadoresCSV = (texto: string): ImportacionMarcadores => {
+  const contenido = texto.replace(/^\uFEFF/, '');
+  const [encabezado, ...filas] = separarCampos(contenido, detectarDelimitador(contenido));
+  const columnas = (encabezado?.campos || []).map(normalizarEncabezado);
+  const indice = (campo: keyof typeof ALIAS_MARCADORES) => columnas.findIndex(c => ALIAS_MARCADORES[campo].includes(c));
+  const [liga, fecha, local, visitante, golesLocal, golesVisitante, marcador] =
+    (Object.keys(ALIAS_MARCADORES) as (keyof typeof ALIAS_MARCADORES)[]).map(indice);
+
+  const conGoles = (golesLocal >= 0 && golesVisitante >= 0) || marcador >= 0;
+  if (local < 0 || visitante < 0 || !conGoles) {
+    return { marcadores: [], errores: ['El archivo necesita las columnas local, visitante y goles_local/goles_visitante (o marcador)'] };
+  }
+
+  const importacion: ImportacionMarcadores = { marcadores: [], errores: [] };
+  for (const { linea, campos } of filas) {
+    const valor = (i: number) => (i < 0 ? '' : campos[i] ?? '');
+    const [goles1, goles2] = golesLocal >= 0 && golesVisitante >= 0 ?
+      [leerGoles(valor(golesLocal)), leerGoles(valor(golesVisitante))] :
+      valor(marcador).split(/\s*[-:]\s*/).map(leerGoles);
+    const textoFecha = valor(fecha);
+    const fechaISO = textoFecha ? parsearFecha(textoFecha) : null;
+
+    if (!valor(local) || !valor(visitante)) {
+      importacion.errores.push(`Línea ${linea}: faltan los equipos`);
+    } else if (!Number.isFinite(goles1) || !Number.isFinite(goles2)) {
+      // Partidos sin jugar o suspendidos traen los goles vacíos
+      importacion.errores.push(`Línea ${linea}: marcador inválido`);
+    } else if (textoFecha && !fechaISO) {
+      importacion.errores.push(`Línea ${linea}: fecha inválida "${textoFecha}"`);
+    } else {
+      importacion.marcadores.push({
+        liga: valor(liga) || LIGA_POR_DEFECTO,
+        fecha: fechaISO,
+        local: valor(local),
+        visitante: valor(visitante),
+        golesLocal: goles1,
+        golesVisitante: goles2
+      });
+    }
+  }
+  return importacion;
+};
+
+const factorial = (n: number) => {
+  let resultado = 1;
+  for (let i = 2; i <= n; i++) resultado *= i;
+  return resultado;
+};
+
+const poisson = (k: number, media: number) => Math.exp(-media) * Math.pow(media, k) / factorial(k);
+
+/** Corrección de Dixon-Coles a los marcadores bajos; fuera de 0-0, 1-0, 0-1 y 1-1 vale 1. */
+const tau = (x: number, y: number, lambda: number, mu: number, rho: number) => {
+  if (x === 0 && y === 0) return 1 - lambda * mu * rho;
+  if (x === 0 && y === 1) return 1 + lambda * rho;
+  if (x === 1 && y === 0) return 1 + mu * rho;
+  if (x === 1 && y === 1) return 1 - rho;
+  return 1;
+};
+
+const diasEntre = (desde: string, hasta: string) =>
+  (Date.parse(`${hasta}T00:00:00Z`) - Date.parse(`${desde}T00:00:00Z`)) / 86400000;
+
+/**
+ * Ajusta el modelo de Dixon-Coles de una liga: ataque y defensa por equipo, ventaja de local
+ * y la dependencia `rho` de los marcadores bajos. Los partidos pesan menos cuanto más viejos
+ * son (`decaimiento` por día, contado desde el más reciente). Ataque, defensa y ventaja de
+ * local se ajustan por máxima verosimilitud de Poisson con actualizaciones de punto fijo;
+ * `rho` se busca después sobre la verosimilitud completa, con lo demás fijo.
+ */
+export const ajustarModeloGoles = (
+  marcadores: MarcadorHistorico[],
+  liga: string,
+  decaimiento: number = PROGOL_CONFIG.MODELO_GOLES.DECAIMIENTO
+): ModeloGoles => {
+  const partidos = marcadores.filter(m => m.liga === liga);
+  if (partidos.length === 0) throw new Error(`No hay marcadores de la liga ${liga}`);
+
+  const fechas = partidos.map(m => m.fecha).filter((f): f is string => f !== null).sort();
+  const hasta = fechas[fechas.length - 1] ?? null;
+  const pesos = partidos.map(m => (m.fecha && hasta ? Math.exp(-decaimiento * diasEntre(m.fecha, hasta)) : 1));
+
+  const equipos: Record<string, FuerzaEquipo> = {};
+  const claves = partidos.map(m => {
+    const [local, visitante] = [normalizarEquipo(m.local), normalizarEquipo(m.visitante)];
+    equipos[local] ??= { nombre: m.local, ataque: 1, defensa: 1, partidos: 0 };
+    equipos[visitante] ??= { nombre: m.visitante, ataque: 1, defensa: 1, partidos: 0 };
+    equipos[local].partidos++;
+    equipos[visitante].partidos++;
+    return [local, visitante];
+  });
+
+  const pesoTotal = pesos.reduce((a, b) => a + b, 0);
+  const golesLocal = partidos.reduce((acc, m, i) => acc + pesos[i] * m.golesLocal, 0);
+  const golesVisitante = partidos.reduce((acc, m, i) => acc + pesos[i] * m.golesVisitante, 0);
+  // Goles de un equipo promedio en un partido: el peso de los partidos previos de cada equipo
+  const previo = PROGOL_CONFIG.MODELO_GOLES.PARTIDOS_PREVIOS * Math.max((golesLocal + golesVisitante) / (2 * pesoTotal), 0.1);
+  let ventajaLocal = golesVisitante > 0 ? Math.max(golesLocal / golesVisitante, 0.1) : 1;
+
+  for (let iteracion = 0; iteracion < PROGOL_CONFIG.MODELO_GOLES.ITERACIONES; iteracion++) {
+    const anotados: Record<string, [number, number]> = {};
+    const recibidos: Record<string, [number, number]> = {};
+    for (const clave of Object.keys(equipos)) {
+      anotados[clave] = [previo, previo];
+      recibidos[clave] = [previo, previo];
+    }
+    partidos.forEach((m, i) => {
+      const [local, visitante] = claves[i];
+      const w = pesos[i];
+      anotados[local][0] += w * m.golesLocal;
+      anotados[local][1] += w * equipos[visitante].defensa * ventajaLocal;
+      anotados[visitante][0] += w * m.golesVisitante;
+      anotados[visitante][1] += w * equipos[local].defensa;
+      recibidos[local][0] += w * m.golesVisitante;
+      recibidos[local][1] += w * equipos[visitante].ataque;
+      recibidos[visitante][0] += w * m.golesLocal;
+      recibidos[visitante][1] += w * equipos[local].ataque * ventajaLocal;
+    });
+
+    let cambio = 0;
+    for (const [clave, equipo] of Object.entries(equipos)) {
+      const ataque = anotados[clave][0] / anotados[clave][1];
+      const defensa = recibidos[clave][0] / recibidos[clave][1];
+      cambio = Math.max(cambio, Math.abs(ataque - equipo.ataque), Math.abs(defensa - equipo.defensa));
+      equipo.ataque = ataque;
+      equipo.defensa = defensa;
+    }
+    // Ataque promedio 1: el producto ataque × defensa de cada partido no cambia
+    const listaEquipos = Object.values(equipos);
+    const ataqueMedio = listaEquipos.reduce((acc, e) => acc + e.ataque, 0) / listaEquipos.length;
+    for (const equipo of listaEquipos) {
+      equipo.ataque /= ataqueMedio;
+      equipo.defensa *= ataqueMedio;
+    }
+
+    const esperadosLocal = partidos.reduce((acc, _, i) => acc + pesos[i] * equipos[claves[i][0]].ataque * equipos[claves[i][1]].defensa, 0);
+    const nuevaVentaja = golesLocal > 0 ? golesLocal / esperadosLocal : ventajaLocal;
+    cambio = Math.max(cambio, Math.abs(nuevaVentaja - ventajaLocal));
+    ventajaLocal = nuevaVentaja;
+    if (cambio < 1e-7) break;
+  }
+
+  const medias = partidos.map((_, i) => {
+    const [local, visitante] = claves[i];
+    return [
+      equipos[local].ataque * equipos[visitante].defensa * ventajaLocal,
+      equipos[visitante].ataque * equipos[local].defensa
+    ];
+  });
+  const verosimilitud = (rho: number) => partidos.reduce((acc, m, i) => {
+    const [lambda, mu] = medias[i];
+    const correccion = tau(m.golesLocal, m.golesVisitante, lambda, mu, rho);
+    if (correccion <= 0) return -Infinity;
+    return acc + pesos[i] * (
+      Math.log(poisson(m.golesLocal, lambda)) + Math.log(poisson(m.golesVisitante, mu)) + Math.log(correccion)
+    );
+  }, 0);
+
+  let rho = 0;
+  let mejor = verosimilitud(0);
+  for (let candidato = -0.3; candidato <= 0.3 + 1e-9; candidato += 0.005) {
+    const valor = verosimilitud(candidato);
+    if (valor > mejor) {
+      mejor = valor;
+      rho = Math.round(candidato * 1000) / 1000;
+    }
+  }
+
+  return {
+    liga,
+    equipos,
+    ventajaLocal,
+    rho,
+    partidos: partidos.length,
+    desde: fechas[0] ?? null,
+    hasta,
+    logVerosimilitud: mejor
+  };
+};
+
+/** Un modelo por liga, en el orden en que aparecen las ligas en los marcadores. */
+export const ajustarModelosGoles = (marcadores: MarcadorHistorico[], decaimiento?: number): ModeloGoles[] =>
+  Array.from(new Set(marcadores.map(m => m.liga))).map(liga => ajustarModeloGoles(marcadores, liga, decaimiento));
+
+/**
+ * Probabilidades 1X2 y matriz de marcadores del partido con el modelo de su liga, o null si
+ * alguno de los equipos no aparece en los marcadores.
+ */
+export const predecirPartido = (modelo: ModeloGoles, local: string, visitante: string): PrediccionGoles | null => {
+  const equipoLocal = modelo.equipos[normalizarEquipo(local)];
+  const equipoVisitante = modelo.equipos[normalizarEquipo(visitante)];
+  if (!equipoLocal || !equipoVisitante) return null;
+
+  const lambda = equipoLocal.ataque * equipoVisitante.defensa * modelo.ventajaLocal;
+  const mu = equipoVisitante.ataque * equipoLocal.defensa;
+  const rango = Array.from({ length: PROGOL_CONFIG.MODELO_GOLES.MAX_GOLES + 1 }, (_, k) => k);
+  const crudos = rango.map(x => rango.map(y => Math.max(tau(x, y, lambda, mu, modelo.rho), 0) * poisson(x, lambda) * poisson(y, mu)));
+  // Se reparte entre los marcadores de la matriz lo que queda fuera de MAX_GOLES
+  const total = crudos.flat().reduce((a, b) => a + b, 0);
+  const marcadores = crudos.map(fila => fila.map(p => p / total));
+
+  let [prob_local, prob_empate, prob_visitante] = [0, 0, 0];
+  let marcadorProbable: [number, number] = [0, 0];
+  marcadores.forEach((fila, x) => fila.forEach((p, y) => {
+    if (x > y) prob_local += p;
+    else if (x === y) prob_empate += p;
+    else prob_visitante += p;
+    if (p > marcadores[marcadorProbable[0]][marcadorProbable[1]]) marcadorProbable = [x, y];
+  }));
+
+  return {
+    liga: modelo.liga,
+    prob_local,
+    prob_empate,
+    prob_visitante,
+    golesEsperadosLocal: lambda,
+    golesEsperadosVisitante: mu,
+    marcadores,
+    marcadorProbable
+  };
+};
+
+/**
+ * Pronóstico de cada partido con el primer modelo que conoce a ambos equipos. Si el partido
+ * trae liga, se prueba primero el modelo de esa liga: dos ligas pueden tener equipos con el
+ * mismo nombre.
+ */
+export const predecirPartidos = (modelos: ModeloGoles[], partidos: Partido[]): (PrediccionGoles | null)[] =>
+  partidos.map(partido => {
+    const liga = partido.liga ? normalizarEquipo(partido.liga) : null;
+    const enOrden = liga ?
+      [...modelos.filter(m => normalizarEquipo(m.liga) === liga), ...modelos.filter(m => normalizarEquipo(m.liga) !== liga)] :
+      modelos;
+    for (const modelo of enOrden) {
+      const prediccion = predecirPartido(modelo, partido.local, partido.visitante);
+      if (prediccion) return prediccion;
+    }
+    return null;
+  });
+
+/**
+ * Sustituye las probabilidades de los partidos con pronóstico por las del modelo. Se quitan
+ * las cuotas para que cambiar el método de margen no las vuelva a sobrescribir.
+ */
+export const aplicarPredicciones = (partidos: Partido[], predicciones: (PrediccionGoles | null)[]): Partido[] =>
+  partidos.map((partido, i) => {
+    const prediccion = predicciones[i];
+    if (!prediccion) return partido;
+    return {
+      ...partido,
+      prob_local: prediccion.prob_local,
+      prob_empate: prediccion.prob_empate,
+      prob_visitante: prediccion.prob_visitante,
+      cuotas: undefined,
+      margen: undefined
+    };
+  });
@@ -0,0 +1,221 @@
+import { PROGOL_CONFIG } from './config';
+import { contarCombinaciones, seleccionesDe } from './multiples';
+import type {
+  CalificacionConcurso,
+  CalificacionQuiniela,
+  Concurso,
+  Juego,
+  Partido,
+  PremioPagado,
+  Quiniela,
+  Resultado,
+  ResumenGrupo
+} from './types';
+
+// ==================== HISTORIAL DE CONCURSOS ====================
+
+const RESULTADOS: Resultado[] = ['L', 'E', 'V'];
+const ORDEN_GRUPOS: ResumenGrupo['grupo'][] = ['Core', 'Satelite', 'Sistema', 'Revancha'];
+
+export interface DatosConcurso {
+  numero: number;
+  partidos: Partido[];
+  partidosRevancha: Partido[];
+  quinielas: Quiniela[];
+  quinielasRevancha: Quiniela[];
+  precioBoleto?: number;
+  precioRevancha?: number;
+  fecha?: Date;
+}
+
+/** Desempeño acumulado de varios concursos calificados. */
+export interface ResumenHistorial {
+  concursos: number;
+  grupos: ResumenGrupo[];
+  costo: number;
+  ganancia: number;
+}
+
+/**
+ * Concurso nuevo con el portafolio jugado y los resultados por capturar. Las categorías de
+ * premio empiezan en 0: el monto por columna se conoce hasta que se publican los resultados.
+ */
+export const crearConcurso = (datos: DatosConcurso): Concurso => {
+  // Como en la exportación, el boleto Q-i lleva la quiniela de Revancha i
+  const quinielasRevancha = datos.quinielasRevancha.slice(0, datos.quinielas.length);
+  return {
+    numero: datos.numero,
+    fecha: (datos.fecha || new Date()).toISOString(),
+    partidos: datos.partidos.slice(0, 14),
+    partidosRevancha: quinielasRevancha.length > 0 ? datos.partidosRevancha.slice(0, 7) : [],
+    quinielas: datos.quinielas,
+    quinielasRevancha,
+    precioBoleto: datos.precioBoleto ?? PROGOL_CONFIG.PRECIO_BOLETO,
+    precioRevancha: datos.precioRevancha ?? PROGOL_CONFIG.PRECIO_REVANCHA,
+    resultados: new Array(14).fill(null),
+    resultadosRevancha: new Array(quinielasRevancha.length > 0 ? 7 : 0).fill(null),
+    premios: PROGOL_CONFIG.PREMIOS.CATEGORIAS.map(c => ({ aciertos: c.aciertos, monto: 0 })),
+    premiosRevancha: quinielasRevancha.length > 0 ? [{ aciertos: 7, monto: 0 }] : []
+  };
+};
+
+/**
+ * Concurso a partir del JSON de la pestaña Exportar (o de `progol generate`). Lanza un error
+ * si el archivo no tiene los 14 partidos y las quinielas.
+ */
+export const concursoDesdeExportacion = (texto: string, numero: number): Concurso => {
+  let datos: Record<string, unknown>;
+  try {
+    datos = JSON.parse(texto);
+  } catch (error) {
+    throw new Error(`El archivo no es un JSON válido: ${(error as Error).message}`);
+  }
+
+  const partidos = datos.partidos as Partido[] | undefined;
+  const quinielas = datos.quinielas as Quiniela[] | undefined;
+  if (!Array.isArray(partidos) || partidos.length < 14) {
+    throw new Error('El JSON no tiene los 14 partidos regulares');
+  }
+  if (!Array.isArray(quinielas) || quinielas.length === 0 || !quinielas.every(q => Array.isArray(q?.resultados))) {
+    throw new Error('El JSON no tiene quinielas');
+  }
+
+  const metadata = (datos.metadata || {}) as { fecha_generacion?: string; configuracion?: Record<string, unknown> };
+  const configuracion = metadata.configuracion || {};
+  const fecha = metadata.fecha_generacion ? new Date(metadata.fecha_generacion) : undefined;
+
+  return crearConcurso({
+    numero,
+    partidos,
+    partidosRevancha: (datos.partidos_revancha as Partido[] | undefined) || [],
+    quinielas,
+    quinielasRevancha: (datos.quinielas_revancha as Quiniela[] | undefined) || [],
+    precioBoleto: typeof configuracion.precioBoleto === 'number' ? configuracion.precioBoleto : undefined,
+    precioRevancha: typeof configuracion.precioRevancha === 'number' ? configuracion.precioRevancha : undefined,
+    fecha: fecha && !Number.isNaN(fecha.getTime()) ? fecha : undefined
+  });
+};
+
+/** Columnas del boleto con k aciertos: un boleto múltiple juega una columna por combinación. */
+export const contarColumnasPorAciertos = (quiniela: Quiniela, resultados: Resultado[]) => {
+  let columnas = [1];
+  seleccionesDe(quiniela).forEach((seleccion, i) => {
+    const acierta = seleccion.includes(resultados[i]) ? 1 : 0;
+    const fallan = seleccion.length - acierta;
+    const siguientes: number[] = new Array(columnas.length + 1).fill(0);
+    columnas.forEach((n, k) => {
+      siguientes[k] += n * fallan;
+      siguientes[k + 1] += n * acierta;
+    });
+    columnas = siguientes;
+  });
+  return columnas;
+};
+
+const calificarQuiniela = (
+  quiniela: Quiniela,
+  juego: Juego,
+  resultados: Resultado[],
+  premios: PremioPagado[],
+  costo: number
+): CalificacionQuiniela => {
+  const columnas = contarColumnasPorAciertos(quiniela, resultados);
+  const aciertos = columnas.reduce((mejor, n, k) => (n > 0 ? k : mejor), 0);
+  const cobradas = premios.filter(p => (columnas[p.aciertos] || 0) > 0);
+
+  return {
+    id: quiniela.id,
+    tipo: quiniela.tipo,
+    juego,
+    aciertos,
+    categoria: cobradas.length > 0 ? Math.max(...cobradas.map(p => p.aciertos)) : null,
+    ganancia: cobradas.reduce((acc, p) => acc + columnas[p.aciertos] * p.monto, 0),
+    costo
+  };
+};
+
+const resultadosCompletos = (resultados: (Resultado | null)[]): resultados is Resultado[] =>
+  resultados.length > 0 && resultados.every(r => r !== null);
+
+const agruparCalificaciones = (quinielas: CalificacionQuiniela[]): ResumenGrupo[] =>
+  ORDEN_GRUPOS.map(grupo => {
+    const delGrupo = quinielas.filter(q => (q.juego === 'revancha' ? 'Revancha' : q.tipo) === grupo);
+    return {
+      grupo,
+      boletos: delGrupo.length,
+      premiados: delGrupo.filter(q => q.categoria !== null).length,
+      aciertosPromedio: delGrupo.length > 0 ? delGrupo.reduce((acc, q) => acc + q.aciertos, 0) / delGrupo.length : 0,
+      costo: delGrupo.reduce((acc, q) => acc + q.costo, 0),
+      ganancia: delGrupo.reduce((acc, q) => acc + q.ganancia, 0)
+    };
+  }).filter(g => g.boletos > 0);
+
+/**
+ * Califica cada boleto contra los resultados capturados: aciertos de su mejor columna,
+ * categoría alcanzada y ganancia frente a su costo. Cada juego se califica solo cuando
+ * tiene todos sus resultados; Revancha se cobra aparte del boleto regular.
+ */
+export const calificarConcurso = (concurso: Concurso): CalificacionConcurso => {
+  const quinielas: CalificacionQuiniela[] = [];
+  const { resultados, resultadosRevancha } = concurso;
+
+  if (resultadosCompletos(resultados)) {
+    for (const quiniela of concurso.quinielas) {
+      const costo = contarCombinaciones(seleccionesDe(quiniela)) * concurso.precioBoleto;
+      quinielas.push(calificarQuiniela(quiniela, 'regular', resultados, concurso.premios, costo));
+    }
+  }
+  if (resultadosCompletos(resultadosRevancha)) {
+    for (const quiniela of concurso.quinielasRevancha) {
+      quinielas.push(calificarQuiniela(quiniela, 'revancha', resultadosRevancha, concurso.premiosRevancha, concurso.precioRevancha));
+    }
+  }
+
+  const grupos = agruparCalificaciones(quinielas);
+  return {
+    numero: concurso.numero,
+    completo: resultadosCompletos(resultados) && (concurso.quinielasRevancha.length === 0 || resultadosCompletos(resultadosRevancha)),
+    quinielas,
+    grupos,
+    costo: grupos.reduce((acc, g) => acc + g.costo, 0),
+    ganancia: grupos.reduce((acc, g) => acc + g.ganancia, 0)
+  };
+};
+
+/** Suma el desempeño de los concursos que ya tienen resultados. */
+export const resumirHistorial = (calificaciones: CalificacionConcurso[]): ResumenHistorial => {
+  const conResultados = calificaciones.filter(c => c.quinielas.length > 0);
+  const grupos = agruparCalificaciones(conResultados.flatMap(c => c.quinielas));
+  return {
+    concursos: conResultados.length,
+    grupos,
+    costo: grupos.reduce((acc, g) => acc + g.costo, 0),
+    ganancia: grupos.reduce((acc, g) => acc + g.ganancia, 0)
+  };
+};
+
+const esListaResultados = (valor: unknown, longitud: number) =>
+  Array.isArray(valor) && valor.length === longitud && valor.every(r => r === null || RESULTADOS.includes(r));
+
+const esListaPremios = (valor: unknown) =>
+  Array.isArray(valor) && valor.every(p => typeof p?.aciertos === 'number' && typeof p?.monto === 'number');
+
+/** Concurso leído del almacenamiento del navegador, o null si no tiene la forma esperada. */
+export const leerConcurso = (valor: unknown): Concurso | null => {
+  if (typeof valor !== 'object' || valor === null) return null;
+  const concurso = valor as Concurso;
+  const valido =
+    Number.isInteger(concurso.numero) &&
+    typeof concurso.fecha === 'string' &&
+    Array.isArray(concurso.partidos) && concurso.partidos.length === 14 &&
+    Array.isArray(concurso.partidosRevancha) &&
+    Array.isArray(concurso.quinielas) && concurso.quinielas.every(q => Array.isArray(q?.resultados)) &&
+    Array.isArray(concurso.quinielasRevancha) &&
+    typeof concurso.precioBoleto === 'number' &&
+    typeof concurso.precioRevancha === 'number' &&
+    esListaResultados(concurso.resultados, 14) &&
+    esListaResultados(concurso.resultadosRevancha, concurso.quinielasRevancha.length > 0 ? 7 : 0) &&
+    esListaPremios(concurso.premios) &&
+    esListaPremios(concurso.premiosRevancha);
+  return valido ? concurso : null;
+};
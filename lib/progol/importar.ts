@@ -0,0 +1,290 @@
+import { VERSION_MOTOR } from './config';
+import { METODOS_MARGEN } from './cuotas';
+import { normalizarEquipo } from './csv';
+import { validarRestricciones } from './esquemas';
+import type { ParametrosGeneracion } from './sesiones';
+import type {
+  ParametrosOptimizador,
+  Partido,
+  Resultado,
+  RestriccionesPortafolio,
+  TipoQuiniela
+} from './types';
+
+// ==================== IMPORTACIÓN DE PORTAFOLIOS ====================
+
+const SIMBOLOS: Record<string, Resultado> = { L: 'L', E: 'E', V: 'V', '1': 'L', X: 'E', '2': 'V' };
+const TIPOS: TipoQuiniela[] = ['Core', 'Satelite', 'Sistema'];
+
+/** Quiniela leída de un archivo: solo sus selecciones; las probabilidades se recalculan. */
+export interface QuinielaImportada {
+  id: string;
+  tipo: TipoQuiniela;
+  /** Un resultado por partido, o dos o tres en un boleto múltiple. */
+  selecciones: Resultado[][];
+  /** Par de satélites del JSON; el texto para llenar boletos no lo trae. */
+  par_id?: number | null;
+}
+
+/** Portafolio leído del JSON de Exportar o del texto para llenar boletos. */
+export interface PortafolioImportado {
+  formato: 'json' | 'texto';
+  /** Versión del motor que escribió el archivo; el texto no la lleva. */
+  version: string | null;
+  partidos: Partido[];
+  partidosRevancha: Partido[];
+  quinielas: QuinielaImportada[];
+  quinielasRevancha: QuinielaImportada[];
+  seed: number | null;
+  /** Configuración con la que se generó; solo los campos que se reconocen. */
+  parametros: Partial<ParametrosGeneracion>;
+  restricciones: RestriccionesPortafolio | null;
+  optimizador: ParametrosOptimizador | null;
+  advertencias: string[];
+}
+
+const esObjeto = (valor: unknown): valor is Record<string, unknown> =>
+  typeof valor === 'object' && valor !== null && !Array.isArray(valor);
+const esNumero = (valor: unknown): valor is number => typeof valor === 'number' && Number.isFinite(valor);
+
+/** Partido con equipos y probabilidades no negativas; lo usan la importación y las sesiones. */
+export const esPartido = (valor: unknown): valor is Partido =>
+  esObjeto(valor) &&
+  typeof valor.local === 'string' &&
+  typeof valor.visitante === 'string' &&
+  [valor.prob_local, valor.prob_empate, valor.prob_visitante].every(p => esNumero(p) && p >= 0);
+
+/** Selección a partir de "L", "LE" o ['L', 'E']; null si tiene símbolos inválidos o repetidos. */
+const leerSeleccion = (valor: unknown): Resultado[] | null => {
+  const simbolos = Array.isArray(valor) ? valor.map(v => String(v).toUpperCase()) :
+    typeof valor === 'string' ? valor.toUpperCase().split('') : [];
+  if (simbolos.length === 0 || simbolos.length > 3 || !simbolos.every(s => s in SIMBOLOS)) return null;
+  const seleccion = simbolos.map(s => SIMBOLOS[s]);
+  return new Set(seleccion).size === seleccion.length ? seleccion : null;
+};
+
+const leerSelecciones = (valores: unknown[], numPartidos: number): Resultado[][] | null => {
+  if (valores.length !== numPartidos) return null;
+  const selecciones = valores.map(leerSeleccion);
+  return selecciones.every((s): s is Resultado[] => s !== null) ? selecciones : null;
+};
+
+const leerTipo = (valor: unknown): TipoQuiniela | null => {
+  const texto = normalizarEquipo(String(valor ?? ''));
+  return TIPOS.find(t => normalizarEquipo(t) === texto) ?? null;
+};
+
+/**
+ * Lanza un error si el archivo es de otra versión mayor del motor; una versión menor distinta
+ * solo se advierte, porque las probabilidades y la validación se recalculan al importar.
+ */
+const revisarVersion = (version: unknown, advertencias: string[]): string | null => {
+  if (typeof version !== 'string') {
+    advertencias.push('El archivo no indica la versión del motor; se asume compatible');
+    return null;
+  }
+  const [mayor] = version.split('.');
+  if (mayor !== VERSION_MOTOR.split('.')[0]) {
+    throw new Error(`El archivo es de la versión ${version} del motor y esta aplicación usa la ${VERSION_MOTOR}`);
+  }
+  if (version !== VERSION_MOTOR) {
+    advertencias.push(`El archivo es de la versión ${version} del motor (esta es la ${VERSION_MOTOR})`);
+  }
+  return version;
+};
+
+const leerPartidos = (valor: unknown, campo: string, numPartidos: number, opcional: boolean): Partido[] => {
+  if ((valor === undefined || (Array.isArray(valor) && valor.length === 0)) && opcional) return [];
+  if (!Array.isArray(valor) || valor.length < numPartidos) {
+    throw new Error(`El JSON no tiene los ${numPartidos} partidos ${campo}`);
+  }
+  return valor.slice(0, numPartidos).map((partido, i) => {
+    if (!esPartido(partido)) throw new Error(`El partido ${i + 1} ${campo} no tiene equipos y probabilidades`);
+    return partido;
+  });
+};
+
+const leerQuinielas = (valor: unknown, campo: string, numPartidos: number): QuinielaImportada[] => {
+  if (valor === undefined) return [];
+  if (!Array.isArray(valor)) throw new Error(`Las quinielas ${campo} deben ser una lista`);
+  return valor.map((quiniela, i) => {
+    const crudas = esObjeto(quiniela) ? quiniela.selecciones ?? quiniela.resultados : undefined;
+    const selecciones = Array.isArray(crudas) ? leerSelecciones(crudas, numPartidos) : null;
+    if (!selecciones) {
+      throw new Error(`La quiniela ${i + 1} ${campo} debe tener ${numPartidos} resultados L/E/V`);
+    }
+    const { id, tipo, par_id: parId } = quiniela as Record<string, unknown>;
+    return {
+      id: typeof id === 'string' ? id : `Q-${i + 1}`,
+      tipo: leerTipo(tipo) ?? 'Satelite',
+      selecciones,
+      ...(esNumero(parId) || parId === null ? { par_id: parId } : {})
+    };
+  });
+};
+
+/** Campos de `metadata.configuracion`: los de Configuración y las restricciones. */
+const leerConfiguracion = (configuracion: unknown, advertencias: string[]) => {
+  if (!esObjeto(configuracion)) return { parametros: {}, restricciones: null };
+
+  const parametros: Partial<ParametrosGeneracion> = {};
+  for (const campo of ['numQuinielas', 'numQuinielasRevancha', 'seed', 'presupuesto'] as const) {
+    if (esNumero(configuracion[campo])) parametros[campo] = configuracion[campo] as number;
+  }
+  const metodo = METODOS_MARGEN.find(m => m.id === configuracion.metodoMargen);
+  if (metodo) parametros.metodoMargen = metodo.id;
+
+  const resultado = validarRestricciones(configuracion);
+  if (!resultado.ok) {
+    advertencias.push(`Restricciones del archivo ignoradas: ${resultado.errores.map(e => `${e.campo} ${e.mensaje}`).join('; ')}`);
+  }
+  return { parametros, restricciones: resultado.ok ? resultado.datos : null };
+};
+
+const leerOptimizador = (valor: unknown): ParametrosOptimizador | null => {
+  if (!esObjeto(valor)) return null;
+  const campos = ['iteracionesOptimizador', 'temperaturaInicial', 'tasaEnfriamiento', 'simulacionesMontecarlo'] as const;
+  return campos.every(c => esNumero(valor[c])) ? (valor as unknown as ParametrosOptimizador) : null;
+};
+
+/**
+ * Lee el JSON de la pestaña Exportar (o de `progol generate`): partidos, quinielas (con sus
+ * dobles y triples), semilla y configuración. Lanza un error si el archivo no tiene la forma
+ * esperada o es de otra versión mayor del motor.
+ */
+export const analizarJSONPortafolio = (texto: string): PortafolioImportado => {
+  let datos: unknown;
+  try {
+    datos = JSON.parse(texto.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new Error(`El archivo no es un JSON válido: ${(error as Error).message}`);
+  }
+  if (!esObjeto(datos)) throw new Error('El JSON debe ser un objeto con metadata, partidos y quinielas');
+
+  const advertencias: string[] = [];
+  const metadata = esObjeto(datos.metadata) ? datos.metadata : {};
+  const version = revisarVersion(metadata.version_motor, advertencias);
+
+  const partidos = leerPartidos(datos.partidos, 'del juego regular', 14, false);
+  const quinielas = leerQuinielas(datos.quinielas, 'del juego regular', 14);
+  if (quinielas.length === 0) throw new Error('El JSON no tiene quinielas');
+
+  const quinielasRevancha = leerQuinielas(datos.quinielas_revancha, 'de Revancha', 7);
+  const partidosRevancha = leerPartidos(datos.partidos_revancha, 'de Revancha', 7, quinielasRevancha.length === 0);
+
+  return {
+    formato: 'json',
+    version,
+    partidos,
+    partidosRevancha,
+    quinielas,
+    quinielasRevancha,
+    seed: esNumero(metadata.seed) ? metadata.seed : null,
+    ...leerConfiguracion(metadata.configuracion, advertencias),
+    optimizador: leerOptimizador(metadata.optimizador),
+    advertencias
+  };
+};
+
+const PARTIDO_TEXTO = /^\s*(\d+)\.\s+(.+?)\s+vs\.?\s+(.+?)\s*$/i;
+const QUINIELA_TEXTO = /^\s*Q-\s*(\d+)\s*(?:\(\s*([^)]*?)\s*\))?\s*:\s*(.*)$/i;
+
+/** Revisa que los partidos del texto sean los cargados, en el mismo orden. */
+const compararPartidos = (leidos: [string, string][], cargados: Partido[], numPartidos: number, juego: string) => {
+  if (cargados.length < numPartidos) {
+    throw new Error(`El texto no trae probabilidades: carga primero los ${numPartidos} partidos ${juego}`);
+  }
+  leidos.slice(0, numPartidos).forEach(([local, visitante], i) => {
+    const partido = cargados[i];
+    if (normalizarEquipo(local) !== normalizarEquipo(partido.local) ||
+        normalizarEquipo(visitante) !== normalizarEquipo(partido.visitante)) {
+      throw new Error(
+        `El partido ${i + 1} ${juego} en el texto (${local} vs ${visitante}) no es el cargado (${partido.local} vs ${partido.visitante})`
+      );
+    }
+  });
+};
+
+/**
+ * Lee el texto para llenar boletos (`generarTextoProgol`), también editado a mano. El texto no
+ * trae probabilidades, así que sus partidos deben ser los ya cargados (`partidos` y
+ * `partidosRevancha`); las quinielas pueden escribirse con L/E/V o 1/X/2 y los dobles juntos
+ * ("LE"). Lanza un error con la línea del problema.
+ */
+export const analizarTextoProgol = (
+  texto: string,
+  partidos: Partido[],
+  partidosRevancha: Partido[] = []
+): PortafolioImportado => {
+  const leidos: Record<'regular' | 'revancha', [string, string][]> = { regular: [], revancha: [] };
+  const quinielas: QuinielaImportada[] = [];
+  const quinielasRevancha: QuinielaImportada[] = [];
+  let seccion: 'regular' | 'revancha' | null = null;
+
+  texto.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((linea, i) => {
+    const encabezado = linea.trim().toUpperCase();
+    if (encabezado === 'PARTIDOS:') {
+      seccion = 'regular';
+      return;
+    }
+    if (encabezado === 'PARTIDOS REVANCHA:') {
+      seccion = 'revancha';
+      return;
+    }
+    if (encabezado === 'QUINIELAS:') {
+      seccion = null;
+      return;
+    }
+
+    if (seccion === 'regular' || seccion === 'revancha') {
+      const partido = linea.match(PARTIDO_TEXTO);
+      if (partido) leidos[seccion].push([partido[2], partido[3]]);
+      return;
+    }
+
+    // Las líneas Q- se aceptan también sin encabezados, como en un archivo escrito a mano
+    const quiniela = linea.match(QUINIELA_TEXTO);
+    if (!quiniela) return;
+    const [regular, ...extras] = quiniela[3].split('|');
+    const id = `Q-${parseInt(quiniela[1])}`;
+    const tipo = quiniela[2] === undefined ? 'Satelite' : leerTipo(quiniela[2]);
+    const selecciones = leerSelecciones(regular.trim().split(/\s+/), 14);
+    if (!tipo) throw new Error(`Línea ${i + 1}: tipo de quiniela inválido "${quiniela[2]}" (Core, Satelite o Sistema)`);
+    if (!selecciones) throw new Error(`Línea ${i + 1}: se esperaban 14 selecciones L/E/V separadas por espacios`);
+    quinielas.push({ id, tipo, selecciones });
+
+    const revancha = extras.map(e => e.trim()).find(e => /^rev:/i.test(e));
+    if (revancha) {
+      // El boleto Q-i lleva la quiniela de Revancha i, así que solo los primeros pueden llevarla
+      if (quinielasRevancha.length !== quinielas.length - 1) {
+        throw new Error(`Línea ${i + 1}: solo los primeros boletos pueden llevar Revancha, sin saltarse ninguno`);
+      }
+      const seleccionesRevancha = leerSelecciones(revancha.slice(4).trim().split(/\s+/), 7);
+      if (!seleccionesRevancha || seleccionesRevancha.some(s => s.length > 1)) {
+        throw new Error(`Línea ${i + 1}: Revancha debe tener 7 resultados sencillos`);
+      }
+      quinielasRevancha.push({ id: `Rev-${quinielasRevancha.length + 1}`, tipo, selecciones: seleccionesRevancha });
+    }
+  });
+
+  if (quinielas.length === 0) throw new Error('El texto no tiene quinielas (líneas "Q-1 (Core): L E V ...")');
+  compararPartidos(leidos.regular, partidos, 14, 'del juego regular');
+  if (quinielasRevancha.length > 0) {
+    compararPartidos(leidos.revancha, partidosRevancha, 7, 'de Revancha');
+  }
+
+  return {
+    formato: 'texto',
+    version: null,
+    partidos: partidos.slice(0, 14),
+    partidosRevancha: quinielasRevancha.length > 0 ? partidosRevancha.slice(0, 7) : [],
+    quinielas,
+    quinielasRevancha,
+    seed: null,
+    parametros: {},
+    restricciones: null,
+    optimizador: null,
+    advertencias: leidos.regular.length === 0 ?
+      ['El texto no lista los partidos; se usan los cargados en orden'] : []
+  };
+};
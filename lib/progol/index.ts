@@ -0,0 +1,173 @@
+/**
+ * Motor de Progol Optimizer: metodología Core + Satélites.
+ *
+ * Flujo típico:
+ *
+ * ```ts
+ * import { MatchClassifier, PortfolioGenerator, PortfolioValidator } from '@/lib/progol';
+ *
+ * const clasificados = new MatchClassifier().classifyMatches(partidos);
+ * const generator = new PortfolioGenerator(seed);
+ * const core = generator.generateCoreQuinielas(clasificados);
+ * const satelites = generator.generateSatelliteQuinielas(clasificados, core, 16);
+ * const validacion = new PortfolioValidator().validatePortfolio([...core, ...satelites], clasificados);
+ * ```
+ *
+ * `PortfolioOptimizer` refina opcionalmente el portafolio con GRASP-Annealing antes de validar.
+ * `generarSistemaReducido` es la alternativa clásica: dobles y triples con una garantía de aciertos.
+ * `PortfolioOptimizer.distribuirPresupuesto` reparte un presupuesto entre boletos sencillos y múltiples.
+ * `calcularValorPortafolio` estima el pago esperado con la popularidad del público y la bolsa;
+ * `PortfolioGenerator.aplicarModoContrarian` lo sube a cambio de un poco de Pr[≥11].
+ * `crearConcurso` y `calificarConcurso` registran lo jugado y lo califican contra los resultados reales;
+ * `ejecutarBacktest` repite la metodología sobre concursos pasados para comparar configuraciones, y
+ * `ajustarCalibracion` ajusta con ellos los coeficientes de la calibración bayesiana.
+ * `calcularObjetivosHistoricos` recalcula los rangos L/E/V y los límites de empates con un
+ * historial de resultados importado (`analizarHistorialResultados`).
+ * `ajustarModelosGoles` ajusta un modelo de Dixon-Coles por liga con marcadores pasados y
+ * `predecirPartidos` da con él las probabilidades 1X2 de los partidos cargados.
+ * `actualizarEloConConcurso` lleva un rating Elo por equipo con los resultados de cada concurso
+ * y `completarConElo` llena con él la forma y las probabilidades base de partidos nuevos.
+ * `crearSesion` y `leerSesion` guardan y recuperan el trabajo de la página por concurso.
+ * `analizarJSONPortafolio` y `analizarTextoProgol` leen de vuelta los archivos exportados y
+ * `reconstruirPortafolio` los vuelve a clasificar y validar.
+ * `editarSeleccion` y las demás funciones de `edicion` cambian el portafolio a mano; junto con
+ * `registrarCambio`, `deshacer` y `rehacer` llevan el historial de cambios de la tabla.
+ * Para Revancha se pasa `'revancha'` como juego a `PortfolioGenerator` y `PortfolioValidator`;
+ * las restricciones de Configuración (`RestriccionesPortafolio`) son su tercer y cuarto argumento.
+ */
+
+export { MatchClassifier } from './classifier';
+export { PortfolioGenerator } from './generator';
+export { PortfolioOptimizer } from './optimizer';
+export { PortfolioValidator } from './validator';
+export { createSampleData } from './sample-data';
+export { ALIAS_COLUMNAS, analizarPartidosCSV, parsearPartidosCSV } from './csv';
+export type { CampoCSV, FilaImportada, ImportacionCSV } from './csv';
+export {
+  METODOS_MARGEN,
+  aplicarMetodoMargen,
+  calcularMargen,
+  convertirCuotas,
+  eliminarMargen,
+  parsearCuota
+} from './cuotas';
+export type { FormatoCuota, MetodoMargen } from './cuotas';
+export { calcularCostos, generarCSVPortafolio, generarJSONPortafolio, generarTextoProgol } from './exportar';
+export type { CostosPortafolio, DatosExportacion } from './exportar';
+export { analizarJSONPortafolio, analizarTextoProgol } from './importar';
+export type { PortafolioImportado, QuinielaImportada } from './importar';
+export {
+  agregarQuiniela,
+  crearPilaDeshacer,
+  deshacer,
+  duplicarQuiniela,
+  editarSeleccion,
+  eliminarQuiniela,
+  moverQuiniela,
+  registrarCambio,
+  rehacer,
+  siguienteResultado
+} from './edicion';
+export type { PilaDeshacer } from './edicion';
+export { ejecutarPipeline, ejecutarPipelineRevancha, reconstruirPortafolio } from './pipeline';
+export {
+  calificarConcurso,
+  concursoDesdeExportacion,
+  contarColumnasPorAciertos,
+  crearConcurso,
+  leerConcurso,
+  resumirHistorial
+} from './historial';
+export type { DatosConcurso, ResumenHistorial } from './historial';
+export { contarCombinaciones, normalizarSeleccion, pesosSeleccion, seleccionesDe } from './multiples';
+export { calcularValorPortafolio, calcularValorQuiniela, fraccionCompartida, popularidadDe } from './premios';
+export {
+  MAX_COMBINACIONES_SISTEMA,
+  calcularCobertura,
+  coberturasPorDefecto,
+  generarSistemaReducido
+} from './sistemas';
+export type { OpcionesPipeline, OpcionesReconstruccion, ResultadoPipeline } from './pipeline';
+export { ejecutarBacktest, evaluarConcurso } from './backtest';
+export {
+  PARAMETROS_CALIBRACION_DEFAULT,
+  RANGOS_CALIBRACION,
+  ajustarCalibracion,
+  evaluarCalibracion,
+  partidosJugados
+} from './calibracion';
+export {
+  actualizarEloConConcurso,
+  actualizarEloConMarcadores,
+  buscarEquipoElo,
+  completarConElo,
+  crearTablaElo,
+  formaElo,
+  leerTablaElo,
+  probabilidadesElo,
+  registrarPartidosElo
+} from './elo';
+export type { CompletadoElo, PartidoElo } from './elo';
+export {
+  ajustarModeloGoles,
+  ajustarModelosGoles,
+  analizarMarcadoresCSV,
+  aplicarPredicciones,
+  predecirPartido,
+  predecirPartidos
+} from './goles';
+export type { ImportacionMarcadores } from './goles';
+export {
+  analizarHistorialResultados,
+  calcularObjetivosHistoricos,
+  restriccionesDeObjetivos,
+  usaObjetivos
+} from './objetivos';
+export type { ImportacionHistorial } from './objetivos';
+export {
+  actualizarSesion,
+  crearSesion,
+  duplicarSesion,
+  estadoSinDatos,
+  leerSesion,
+  ordenarSesiones
+} from './sesiones';
+export type { EstadoSesion, ParametrosGeneracion, Sesion } from './sesiones';
+export {
+  validarConfiguracionBacktest,
+  validarHistorialBacktest,
+  validarRestricciones,
+  validarSolicitudClasificar,
+  validarSolicitudPortafolio,
+  validarSolicitudValidar
+} from './esquemas';
+export type {
+  ErrorCampo,
+  ResultadoEsquema,
+  SolicitudClasificar,
+  SolicitudPortafolio,
+  SolicitudValidar
+} from './esquemas';
+export {
+  OPTIMIZER_CONFIG,
+  PARAMETROS_OPTIMIZADOR,
+  PREMIOS_DEFAULT,
+  PRESETS_PREDEFINIDOS,
+  PROGOL_CONFIG,
+  RESTRICCIONES_DEFAULT,
+  UMBRALES_CLASIFICACION,
+  VERSION_MOTOR,
+  obtenerReglasJuego
+} from './config';
+export type { PresetRestricciones } from './config';
+export { crearGeneradorAleatorio } from './random';
+export {
+  LIMITE_ESCENARIOS_EXACTOS,
+  calcularCorrelacionAciertos,
+  calcularDistribucionAciertos,
+  calcularDistribucionPortafolio,
+  calcularMatrizCorrelacion,
+  calcularMomentosAciertos,
+  probabilidadAlMenos
+} from './probabilidades';
+export type * from './types';
@@ -0,0 +1,28 @@
+import type { Quiniela, Resultado, Seleccion } from './types';
+
+// ==================== BOLETOS MÚLTIPLES ====================
+
+export const normalizarSeleccion = (seleccion: Seleccion): Resultado[] =>
+  Array.isArray(seleccion) ? seleccion : [seleccion];
+
+/** Selección de cada partido: la de un boleto múltiple o el resultado único de una sencilla. */
+export const seleccionesDe = (quiniela: Pick<Quiniela, 'resultados' | 'selecciones'>): Resultado[][] =>
+  quiniela.selecciones || quiniela.resultados.map(r => [r]);
+
+/** Columnas que paga el boleto: 2 por cada doble y 3 por cada triple. */
+export const contarCombinaciones = (selecciones: Seleccion[]) =>
+  selecciones.reduce<number>((acc, s) => acc * normalizarSeleccion(s).length, 1);
+
+/**
+ * Peso de cada resultado en cada partido: 1 para el resultado de una sencilla y 1/k para
+ * cada uno de los k resultados de un doble o triple, que es la proporción de columnas del
+ * boleto que lo juegan. Así las reglas de distribución, empates y concentración cuentan un
+ * boleto múltiple como el promedio de sus columnas.
+ */
+export const pesosSeleccion = (selecciones: Seleccion[]): Record<Resultado, number>[] =>
+  selecciones.map(seleccion => {
+    const resultados = normalizarSeleccion(seleccion);
+    const pesos: Record<Resultado, number> = { L: 0, E: 0, V: 0 };
+    for (const resultado of resultados) pesos[resultado] += 1 / resultados.length;
+    return pesos;
+  });
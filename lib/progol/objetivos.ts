@@ -0,0 +1,208 @@
+import { PROGOL_CONFIG } from './config';
+import { detectarDelimitador, normalizarEncabezado, parsearFecha, separarCampos } from './csv';
+import type { ObjetivosHistoricos, RestriccionesPortafolio, Resultado, ResultadosConcurso } from './types';
+
+// ==================== OBJETIVOS HISTÓRICOS ====================
+
+const RESULTADOS: Resultado[] = ['L', 'E', 'V'];
+// Notación L/E/V o la de las boletas impresas: 1 local, X empate, 2 visitante
+const SIMBOLOS: Record<string, Resultado> = { L: 'L', E: 'E', V: 'V', '1': 'L', X: 'E', '2': 'V' };
+
+const ALIAS_HISTORIAL = {
+  numero: ['concurso', 'numero', 'num', 'no', 'sorteo', 'jornada'],
+  fecha: ['fecha', 'date', 'fecha_concurso'],
+  resultados: ['resultados', 'resultado', 'results', 'ganadora', 'quiniela_ganadora']
+};
+
+export interface ImportacionHistorial {
+  /** Concursos válidos ordenados por número. */
+  concursos: ResultadosConcurso[];
+  errores: string[];
+}
+
+const leerResultados = (valor: unknown): Resultado[] | null => {
+  const simbolos = Array.isArray(valor) ?
+    valor.map(v => String(v).toUpperCase()) :
+    typeof valor === 'string' ? valor.toUpperCase().replace(/[\s,;|/-]/g, '').split('') : [];
+  if (simbolos.length !== 14 || !simbolos.every(s => s in SIMBOLOS)) return null;
+  return simbolos.map(s => SIMBOLOS[s]);
+};
+
+/**
+ * Fecha en ISO; null si viene vacía y undefined si no es una fecha. Acepta los formatos de
+ * `parsearFecha`, como los CSV de marcadores: también DD/MM/AA y separadores con punto o guion.
+ */
+const leerFecha = (valor: unknown): string | null | undefined => {
+  if (valor === undefined || valor === null || valor === '') return null;
+  return (typeof valor === 'string' && parsearFecha(valor)) || undefined;
+};
+
+const agregarConcurso = (
+  importacion: ImportacionHistorial,
+  ubicacion: string,
+  datos: { numero: unknown; fecha: unknown; resultados: unknown }
+) => {
+  const numero = Number(datos.numero);
+  const resultados = leerResultados(datos.resultados);
+  const fecha = leerFecha(datos.fecha);
+
+  if (!Number.isInteger(numero) || numero < 1) {
+    importacion.errores.push(`${ubicacion}: número de concurso inválido`);
+  } else if (!resultados) {
+    importacion.errores.push(`${ubicacion}: se esperaban 14 resultados L/E/V (o 1/X/2)`);
+  } else if (fecha === undefined) {
+    importacion.errores.push(`${ubicacion}: fecha inválida "${datos.fecha}" (usa AAAA-MM-DD o DD/MM/AAAA)`);
+  } else if (importacion.concursos.some(c => c.numero === numero)) {
+    importacion.errores.push(`${ubicacion}: el concurso ${numero} está repetido`);
+  } else {
+    importacion.concursos.push({ numero, fecha, resultados });
+  }
+};
+
+/**
+ * Lee un historial de resultados: un CSV con columnas concurso, fecha (opcional) y resultados
+ * ("LEVL..." o "1X21..."), o un JSON con una lista de `{ numero, fecha?, resultados }` como el
+ * del backtest. Las filas inválidas se reportan en `errores` y se omiten.
+ */
+export const analizarHistorialResultados = (texto: string): ImportacionHistorial => {
+  const importacion: ImportacionHistorial = { concursos: [], errores: [] };
+  const contenido = texto.replace(/^\uFEFF/, '').trim();
+
+  if (contenido.startsWith('[') || contenido.startsWith('{')) {
+    let datos: unknown;
+    try {
+      datos = JSON.parse(contenido);
+    } catch (error) {
+      return { concursos: [], errores: [`El archivo no es un JSON válido: ${(error as Error).message}`] };
+    }
+    const lista = Array.isArray(datos) ? datos : (datos as { concursos?: unknown }).concursos;
+    if (!Array.isArray(lista)) return { concursos: [], errores: ['El JSON debe ser una lista de concursos'] };
+
+    lista.forEach((concurso, i) => agregarConcurso(importacion, `concursos[${i}]`, {
+      numero: concurso?.numero,
+      fecha: concurso?.fecha,
+      resultados: concurso?.resultados
+    }));
+  } else {
+    const [encabezado, ...filas] = separarCampos(contenido, detectarDelimitador(contenido));
+    const columnas = (encabezado?.campos || []).map(normalizarEncabezado);
+    const indice = (campo: keyof typeof ALIAS_HISTORIAL) => columnas.findIndex(c => ALIAS_HISTORIAL[campo].includes(c));
+    const [numero, fecha, resultados] = [indice('numero'), indice('fecha'), indice('resultados')];
+    if (numero < 0 || resultados < 0) {
+      return { concursos: [], errores: ['El historial necesita las columnas concurso y resultados'] };
+    }
+
+    for (const fila of filas) {
+      agregarConcurso(importacion, `Línea ${fila.linea}`, {
+        numero: fila.campos[numero],
+        fecha: fecha < 0 ? null : fila.campos[fecha],
+        resultados: fila.campos[resultados]
+      });
+    }
+  }
+
+  importacion.concursos.sort((a, b) => a.numero - b.numero);
+  return importacion;
+};
+
+const redondear = (valor: number) => Math.round(Math.min(Math.max(valor, 0), 1) * 1000) / 1000;
+
+const cuantil = (ordenados: number[], q: number) => {
+  const posicion = (ordenados.length - 1) * q;
+  const abajo = Math.floor(posicion);
+  const arriba = Math.ceil(posicion);
+  return ordenados[abajo] + (ordenados[arriba] - ordenados[abajo]) * (posicion - abajo);
+};
+
+const proporciones = (concursos: ResultadosConcurso[]) => {
+  const total = concursos.length * 14;
+  const conteo = (r: Resultado) => concursos.reduce((acc, c) => acc + c.resultados.filter(x => x === r).length, 0);
+  return { L: conteo('L') / total, E: conteo('E') / total, V: conteo('V') / total };
+};
+
+/**
+ * Objetivos del juego regular a partir de los resultados reales: la distribución L/E/V de
+ * todos los partidos; como rango de cada resultado, el mínimo y el máximo de su proporción en
+ * bloques consecutivos de `PROGOL_CONFIG.OBJETIVOS.CONCURSOS_POR_BLOQUE` concursos (con menos
+ * de dos bloques, ±2 errores estándar); y como límites de empates por quiniela, el primer y el
+ * tercer cuartil de los empates por concurso. Con `ventanaAnios` solo cuentan los concursos de
+ * esos últimos años antes del más reciente.
+ */
+export const calcularObjetivosHistoricos = (
+  concursos: ResultadosConcurso[],
+  fuente: string,
+  ventanaAnios: number | null = null
+): ObjetivosHistoricos => {
+  let seleccion = [...concursos].sort((a, b) => a.numero - b.numero);
+
+  if (ventanaAnios !== null) {
+    const fechas = seleccion.map(c => c.fecha).filter((f): f is string => f !== null).sort();
+    if (fechas.length === 0) throw new Error('El historial no tiene fechas para aplicar una ventana');
+    const limite = new Date(`${fechas[fechas.length - 1]}T00:00:00Z`);
+    limite.setUTCFullYear(limite.getUTCFullYear() - ventanaAnios);
+    const desde = limite.toISOString().slice(0, 10);
+    seleccion = seleccion.filter(c => c.fecha !== null && c.fecha > desde);
+  }
+  if (seleccion.length === 0) throw new Error('No hay concursos para calcular los objetivos');
+
+  const distribucion = proporciones(seleccion);
+
+  const { CONCURSOS_POR_BLOQUE } = PROGOL_CONFIG.OBJETIVOS;
+  const bloques: ResultadosConcurso[][] = [];
+  for (let i = 0; i < seleccion.length; i += CONCURSOS_POR_BLOQUE) {
+    const bloque = seleccion.slice(i, i + CONCURSOS_POR_BLOQUE);
+    // Un último bloque corto se une al anterior para no ensanchar el rango por puro ruido
+    if (bloques.length > 0 && bloque.length < CONCURSOS_POR_BLOQUE / 2) {
+      bloques[bloques.length - 1].push(...bloque);
+    } else {
+      bloques.push(bloque);
+    }
+  }
+  const porBloque = bloques.map(proporciones);
+
+  const rangosHistoricos = {} as Record<Resultado, [number, number]>;
+  for (const resultado of RESULTADOS) {
+    const p = distribucion[resultado];
+    const valores = porBloque.map(b => b[resultado]);
+    const errorEstandar = Math.sqrt((p * (1 - p)) / (seleccion.length * 14));
+    rangosHistoricos[resultado] = porBloque.length >= 2 ?
+      [redondear(Math.min(...valores)), redondear(Math.max(...valores))] :
+      [redondear(p - 2 * errorEstandar), redondear(p + 2 * errorEstandar)];
+  }
+
+  const empates = seleccion.map(c => c.resultados.filter(r => r === 'E').length).sort((a, b) => a - b);
+  const fechas = seleccion.map(c => c.fecha).filter((f): f is string => f !== null).sort();
+
+  return {
+    fuente,
+    ventanaAnios,
+    concursos: seleccion.length,
+    numeroDesde: seleccion[0].numero,
+    numeroHasta: seleccion[seleccion.length - 1].numero,
+    desde: fechas[0] ?? null,
+    hasta: fechas[fechas.length - 1] ?? null,
+    distribucion,
+    rangosHistoricos,
+    empatesPromedio: empates.reduce((a, b) => a + b, 0) / empates.length,
+    empatesMin: Math.floor(cuantil(empates, 0.25)),
+    empatesMax: Math.ceil(cuantil(empates, 0.75))
+  };
+};
+
+/** Restricciones que aplican los objetivos: las que revisan el validador y el optimizador. */
+export const restriccionesDeObjetivos = (
+  objetivos: ObjetivosHistoricos
+): Pick<RestriccionesPortafolio, 'rangosHistoricos' | 'empatesMin' | 'empatesMax'> => ({
+  rangosHistoricos: objetivos.rangosHistoricos,
+  empatesMin: objetivos.empatesMin,
+  empatesMax: objetivos.empatesMax
+});
+
+/** Las restricciones siguen siendo las de los objetivos (no se cambiaron a mano ni con un preset). */
+export const usaObjetivos = (restricciones: RestriccionesPortafolio, objetivos: ObjetivosHistoricos) =>
+  restricciones.empatesMin === objetivos.empatesMin &&
+  restricciones.empatesMax === objetivos.empatesMax &&
+  RESULTADOS.every(r =>
+    restricciones.rangosHistoricos[r][0] === objetivos.rangosHistoricos[r][0] &&
+    restricciones.rangosHistoricos[r][1] === objetivos.rangosHistoricos[r][1]
+  );
@@ -0,0 +1,411 @@
+import { OPTIMIZER_CONFIG } from './config';
+import { PortfolioGenerator } from './generator';
+import { contarCombinaciones, pesosSeleccion } from './multiples';
+import { calcularDistribucionPortafolio, probabilidadAlMenos } from './probabilidades';
+import { crearGeneradorAleatorio } from './random';
+import type {
+  AlternativaPresupuesto,
+  ParametrosOptimizador,
+  PartidoClasificado,
+  ProbabilidadesPartido,
+  Quiniela,
+  Resultado,
+  ResultadoOptimizacion,
+  ResultadoPresupuesto
+} from './types';
+
+const RESULTADOS: Resultado[] = ['L', 'E', 'V'];
+
+/**
+ * Resultados simulados que comparten todas las quinielas del portafolio, con los aciertos de
+ * cada una por escenario. El Pr del portafolio cuenta una sola vez los escenarios en que
+ * premian varias quinielas, así que dos boletos casi iguales valen casi lo mismo que uno; los
+ * cambios de una selección se aplican sin volver a recorrer todo el portafolio.
+ */
+class EscenariosCompartidos {
+  private resultados: Resultado[][];
+  private aciertos: number[][] = [];
+  private premiadas: number[] = [];
+  private conPremio = 0;
+
+  constructor(
+    partidos: ProbabilidadesPartido[],
+    numEscenarios: number,
+    random: () => number,
+    private aciertosPremio: number
+  ) {
+    this.resultados = Array.from({ length: numEscenarios }, () => partidos.map((p): Resultado => {
+      const u = random();
+      if (u < p.prob_local) return 'L';
+      if (u < p.prob_local + p.prob_empate) return 'E';
+      return 'V';
+    }));
+  }
+
+  cargar(portafolio: Resultado[][][]) {
+    this.aciertos = this.resultados.map(escenario =>
+      portafolio.map(q => q.reduce((acc, seleccion, i) => acc + (seleccion.includes(escenario[i]) ? 1 : 0), 0))
+    );
+    this.premiadas = this.aciertos.map(fila => fila.filter(a => a >= this.aciertosPremio).length);
+    this.conPremio = this.premiadas.filter(n => n > 0).length;
+  }
+
+  /** Pr[≥ aciertosPremio] del portafolio: fracción de escenarios en que premia alguna quiniela. */
+  probPortafolio() {
+    return this.conPremio / this.resultados.length;
+  }
+
+  cambiar(q: number, partido: number, anterior: Resultado[], nueva: Resultado[]) {
+    this.resultados.forEach((escenario, s) => {
+      const delta = (nueva.includes(escenario[partido]) ? 1 : 0) - (anterior.includes(escenario[partido]) ? 1 : 0);
+      if (delta === 0) return;
+      const antes = this.aciertos[s][q] >= this.aciertosPremio;
+      this.aciertos[s][q] += delta;
+      const despues = this.aciertos[s][q] >= this.aciertosPremio;
+      if (antes === despues) return;
+      if (this.premiadas[s] === 0) this.conPremio++;
+      this.premiadas[s] += despues ? 1 : -1;
+      if (this.premiadas[s] === 0) this.conPremio--;
+    });
+  }
+
+  /** Cuánto sube el Pr del portafolio si la quiniela q añade `resultado` en el partido. */
+  gananciaAmpliacion(q: number, partido: number, resultado: Resultado) {
+    const nuevos = this.resultados.filter((escenario, s) =>
+      escenario[partido] === resultado && this.premiadas[s] === 0 && this.aciertos[s][q] === this.aciertosPremio - 1
+    ).length;
+    return nuevos / this.resultados.length;
+  }
+}
+
+/**
+ * Optimizador GRASP-Annealing: parte del portafolio Core + Satélites, construye variantes
+ * voraces aleatorizadas (GRASP) y refina la mejor con recocido simulado sobre cambios de un
+ * resultado. Maximiza el Pr[≥11] del portafolio sobre resultados compartidos, simulados una
+ * vez con la semilla del generador, penalizando las violaciones a las reglas de
+ * `PortfolioValidator`.
+ */
+export class PortfolioOptimizer {
+  iteraciones: number;
+  temperaturaInicial: number;
+  tasaEnfriamiento: number;
+  generator: PortfolioGenerator;
+
+  constructor(
+    config: Pick<ParametrosOptimizador, 'iteracionesOptimizador' | 'temperaturaInicial' | 'tasaEnfriamiento'>,
+    generator = new PortfolioGenerator()
+  ) {
+    this.iteraciones = config.iteracionesOptimizador;
+    this.temperaturaInicial = config.temperaturaInicial;
+    this.tasaEnfriamiento = config.tasaEnfriamiento;
+    this.generator = generator;
+  }
+
+  optimizar(quinielasIniciales: Quiniela[], partidosClasificados: PartidoClasificado[]): ResultadoOptimizacion {
+    const escenarios = this.crearEscenarios(partidosClasificados);
+    const inicial = quinielasIniciales.map(q => [...q.resultados]);
+    const scoreInicial = this.evaluarPortafolio(inicial, escenarios);
+
+    // Fase 1: construcción GRASP, partiendo del portafolio Core + Satélites
+    let actual = inicial;
+    let scoreActual = scoreInicial;
+
+    for (let c = 0; c < OPTIMIZER_CONFIG.CONSTRUCCIONES_GRASP; c++) {
+      const construido = this.construirGRASP(quinielasIniciales, partidosClasificados);
+      const score = this.evaluarPortafolio(construido, escenarios);
+      if (score > scoreActual) {
+        actual = construido;
+        scoreActual = score;
+      }
+    }
+
+    // Fase 2: recocido simulado sobre cambios de un resultado
+    const random = this.generator.random;
+    escenarios.cargar(actual.map(q => q.map(r => [r])));
+    let mejor = actual.map(q => [...q]);
+    let mejorScore = scoreActual;
+    let temperatura = this.temperaturaInicial;
+    const historial: number[] = [];
+
+    for (let iter = 0; iter < this.iteraciones; iter++) {
+      const q = Math.floor(random() * actual.length);
+      const partidoIdx = Math.floor(random() * partidosClasificados.length);
+      const anterior = actual[q][partidoIdx];
+      const opciones = RESULTADOS.filter(r => r !== anterior);
+      const nuevo = opciones[Math.floor(random() * opciones.length)];
+
+      actual[q][partidoIdx] = nuevo;
+      escenarios.cambiar(q, partidoIdx, [anterior], [nuevo]);
+      const scoreNuevo = this.combinarScore(escenarios.probPortafolio(), this.calcularPenalizacion(actual));
+      const delta = scoreNuevo - scoreActual;
+
+      if (delta >= 0 || random() < Math.exp(delta / temperatura)) {
+        scoreActual = scoreNuevo;
+        if (scoreActual > mejorScore) {
+          mejorScore = scoreActual;
+          mejor = actual.map(quiniela => [...quiniela]);
+        }
+      } else {
+        actual[q][partidoIdx] = anterior;
+        escenarios.cambiar(q, partidoIdx, [nuevo], [anterior]);
+      }
+
+      if ((iter + 1) % OPTIMIZER_CONFIG.ITERACIONES_POR_TEMPERATURA === 0) {
+        temperatura *= this.tasaEnfriamiento;
+      }
+
+      historial.push(mejorScore);
+    }
+
+    const quinielas = quinielasIniciales.map((original, i) => ({
+      ...original,
+      resultados: mejor[i],
+      empates: mejor[i].filter(r => r === 'E').length,
+      ...this.generator.calcularProbabilidades(mejor[i], partidosClasificados),
+      distribucion: this.generator.calcularDistribucion(mejor[i])
+    }));
+
+    return {
+      quinielas,
+      historial,
+      scoreInicial,
+      mejorScore,
+      penalizacionFinal: this.calcularPenalizacion(mejor)
+    };
+  }
+
+  construirGRASP(quinielasIniciales: Quiniela[], partidosClasificados: PartidoClasificado[]) {
+    const numQuinielas = quinielasIniciales.length;
+    const portafolio: Resultado[][] = [];
+
+    for (let q = 0; q < numQuinielas; q++) {
+      // Las Core son el ancla del portafolio: se conservan tal cual
+      if (quinielasIniciales[q].tipo === 'Core') {
+        portafolio.push([...quinielasIniciales[q].resultados]);
+        continue;
+      }
+
+      const quiniela: Resultado[] = [];
+
+      for (let i = 0; i < partidosClasificados.length; i++) {
+        const partido = partidosClasificados[i];
+        const limite = this.limiteConcentracion(i);
+
+        // Valor voraz: probabilidad del resultado menos el exceso de concentración que provocaría
+        const candidatos = RESULTADOS.map(resultado => {
+          const repeticiones = portafolio.filter(p => p[i] === resultado).length + 1;
+          const exceso = Math.max(0, repeticiones / numQuinielas - limite);
+          return { resultado, valor: this.probResultado(partido, resultado) - exceso };
+        });
+
+        const valores = candidatos.map(c => c.valor);
+        const maxValor = Math.max(...valores);
+        const minValor = Math.min(...valores);
+        const corte = maxValor - OPTIMIZER_CONFIG.ALFA_RCL * (maxValor - minValor);
+        const rcl = candidatos.filter(c => c.valor >= corte);
+
+        quiniela.push(rcl[Math.floor(this.generator.random() * rcl.length)].resultado);
+      }
+
+      portafolio.push(this.generator.ajustarEmpates(quiniela, partidosClasificados));
+    }
+
+    return portafolio;
+  }
+
+  /** Escenarios con que se puntúan los portafolios; salen del generador, así que dependen de la semilla. */
+  crearEscenarios(partidosClasificados: PartidoClasificado[]) {
+    return new EscenariosCompartidos(
+      partidosClasificados,
+      OPTIMIZER_CONFIG.SIMULACIONES_OPTIMIZADOR,
+      crearGeneradorAleatorio(Math.floor(this.generator.random() * 2 ** 32)),
+      this.generator.reglas.aciertosPremio
+    );
+  }
+
+  evaluarPortafolio(portafolio: Resultado[][], escenarios: EscenariosCompartidos) {
+    escenarios.cargar(portafolio.map(q => q.map(r => [r])));
+    return this.combinarScore(escenarios.probPortafolio(), this.calcularPenalizacion(portafolio));
+  }
+
+  combinarScore(probPortafolio: number, penalizacion: number) {
+    return probPortafolio - OPTIMIZER_CONFIG.PESO_PENALIZACION * penalizacion;
+  }
+
+  /** Mide cuánto se aleja el portafolio de las reglas de PortfolioValidator. */
+  calcularPenalizacion(portafolio: Resultado[][]) {
+    const numQuinielas = portafolio.length;
+    const numPartidos = portafolio[0]?.length || 0;
+    const { empatesMin, empatesMax, rangosHistoricos } = this.generator.reglas;
+    let penalizacion = 0;
+
+    // Empates por quiniela
+    for (const quiniela of portafolio) {
+      const empates = quiniela.filter(r => r === 'E').length;
+      penalizacion += Math.max(0, empatesMin - empates);
+      penalizacion += Math.max(0, empates - empatesMax);
+    }
+
+    // Distribución global L/E/V, en número de predicciones fuera de rango
+    const totalPredicciones = numQuinielas * numPartidos;
+    for (const resultado of RESULTADOS) {
+      const [minVal, maxVal] = rangosHistoricos[resultado];
+      const conteo = portafolio.reduce((acc, q) => acc + q.filter(r => r === resultado).length, 0);
+      const proporcion = conteo / totalPredicciones;
+      penalizacion += (Math.max(0, minVal - proporcion) + Math.max(0, proporcion - maxVal)) * totalPredicciones;
+    }
+
+    // Concentración por partido, en número de quinielas por encima del límite
+    for (let i = 0; i < numPartidos; i++) {
+      const limite = this.limiteConcentracion(i);
+      for (const resultado of RESULTADOS) {
+        const conteo = portafolio.filter(q => q[i] === resultado).length;
+        penalizacion += Math.max(0, conteo - limite * numQuinielas);
+      }
+    }
+
+    return penalizacion;
+  }
+
+  /**
+   * Reparte el presupuesto (MXN) entre boletos sencillos y múltiples. Prueba varios números
+   * de boletos, tomando las primeras quinielas del portafolio (Core primero); con lo que
+   * sobra, convierte de forma voraz partidos en dobles o triples, eligiendo en cada paso el
+   * que más sube el Pr del portafolio por peso gastado. Las alternativas se comparan con el
+   * Pr sobre resultados compartidos, simulado con los mismos escenarios para todas; las
+   * reglas de distribución y concentración las revisa después `PortfolioValidator`.
+   * Si se juegan `revancha.quinielas` quinielas de Revancha, una por boleto como máximo, su
+   * costo se aparta del presupuesto antes de repartir las columnas.
+   */
+  distribuirPresupuesto(
+    quinielas: Quiniela[],
+    partidosClasificados: PartidoClasificado[],
+    presupuesto: number,
+    revancha: { quinielas: number; precio: number } = { quinielas: 0, precio: 0 }
+  ): ResultadoPresupuesto {
+    const { precioBoleto, aciertosPremio } = this.generator.reglas;
+    const costoRevancha = (numBoletos: number) => Math.min(revancha.quinielas, numBoletos) * revancha.precio;
+    const columnasPara = (numBoletos: number) => Math.floor((presupuesto - costoRevancha(numBoletos)) / precioBoleto);
+    let maxBoletos = quinielas.length;
+    while (maxBoletos > 0 && columnasPara(maxBoletos) < maxBoletos) maxBoletos--;
+    if (maxBoletos < 1) {
+      const precioMinimo = precioBoleto + (revancha.quinielas > 0 ? revancha.precio : 0);
+      throw new Error(`El presupuesto de $${presupuesto} no alcanza para un boleto de $${precioMinimo}`);
+    }
+
+    const candidatosBoletos = Array.from(new Set(
+      OPTIMIZER_CONFIG.FRACCIONES_PRESUPUESTO.map(f => Math.max(1, Math.round(maxBoletos * f)))
+    ));
+
+    let mejor: { selecciones: Resultado[][][]; alternativa: AlternativaPresupuesto } | null = null;
+    const alternativas: AlternativaPresupuesto[] = [];
+    const semillaEscenarios = Math.floor(this.generator.random() * 2 ** 32);
+
+    for (const numBoletos of candidatosBoletos) {
+      const selecciones = this.ampliarSelecciones(
+        quinielas.slice(0, numBoletos).map(q => q.resultados.map(r => [r])),
+        partidosClasificados,
+        columnasPara(numBoletos)
+      );
+      const columnas = selecciones.reduce((acc, s) => acc + contarCombinaciones(s), 0);
+      const { distribucion } = calcularDistribucionPortafolio(
+        selecciones,
+        partidosClasificados,
+        OPTIMIZER_CONFIG.SIMULACIONES_PRESUPUESTO,
+        crearGeneradorAleatorio(semillaEscenarios)
+      );
+      const alternativa: AlternativaPresupuesto = {
+        numBoletos,
+        boletosMultiples: selecciones.filter(s => contarCombinaciones(s) > 1).length,
+        columnas,
+        costo: columnas * precioBoleto + costoRevancha(numBoletos),
+        probEstimada: probabilidadAlMenos(distribucion, aciertosPremio)
+      };
+      alternativas.push(alternativa);
+      if (!mejor || alternativa.probEstimada > mejor.alternativa.probEstimada) {
+        mejor = { selecciones, alternativa };
+      }
+    }
+
+    const elegida = mejor!;
+    return {
+      quinielas: elegida.selecciones.map((selecciones, i) => {
+        const original = quinielas[i];
+        return this.generator.construirQuinielaMultiple(original.id, original.tipo, selecciones, partidosClasificados, original.par_id);
+      }),
+      presupuesto,
+      costo: elegida.alternativa.costo,
+      alternativas
+    };
+  }
+
+  /**
+   * Convierte partidos en dobles o triples mientras quepan en `columnasDisponibles`. Cada
+   * ampliación añade el resultado más probable aún no jugado en ese partido que mantenga los
+   * empates de la quiniela dentro del rango; entre ellas gana la que más sube el Pr del
+   * portafolio sobre resultados compartidos por columna gastada.
+   */
+  ampliarSelecciones(
+    portafolio: Resultado[][][],
+    partidosClasificados: PartidoClasificado[],
+    columnasDisponibles: number
+  ) {
+    const { empatesMin, empatesMax } = this.generator.reglas;
+    const selecciones = portafolio.map(q => q.map(s => [...s]));
+    const escenarios = this.crearEscenarios(partidosClasificados);
+    escenarios.cargar(selecciones);
+    let columnas = selecciones.reduce((acc, s) => acc + contarCombinaciones(s), 0);
+
+    for (;;) {
+      let mejor: { q: number; partido: number; resultado: Resultado; costo: number; valor: number } | null = null;
+
+      selecciones.forEach((quiniela, q) => {
+        const combinaciones = contarCombinaciones(quiniela);
+        quiniela.forEach((seleccion, i) => {
+          if (seleccion.length === RESULTADOS.length) return;
+          // Columnas extra: pasar de k a k + 1 resultados multiplica el boleto por (k + 1) / k
+          const costo = combinaciones / seleccion.length;
+          if (columnas + costo > columnasDisponibles) return;
+
+          const partido = partidosClasificados[i];
+          const resultado = RESULTADOS
+            .filter(r => !seleccion.includes(r))
+            .sort((a, b) => this.probResultado(partido, b) - this.probResultado(partido, a))
+            .find(r => {
+              quiniela[i] = [...seleccion, r];
+              const empates = pesosSeleccion(quiniela).reduce((acc, pesos) => acc + pesos.E, 0);
+              quiniela[i] = seleccion;
+              return empates >= empatesMin && empates <= empatesMax;
+            });
+          if (!resultado) return;
+
+          const ganancia = escenarios.gananciaAmpliacion(q, i, resultado);
+          const valor = ganancia / costo;
+          if (ganancia > 0 && (!mejor || valor > mejor.valor)) {
+            mejor = { q, partido: i, resultado, costo, valor };
+          }
+        });
+      });
+
+      if (!mejor) break;
+      const { q, partido, resultado, costo } = mejor;
+      const anterior = selecciones[q][partido];
+      selecciones[q][partido] = [...anterior, resultado];
+      escenarios.cambiar(q, partido, anterior, selecciones[q][partido]);
+      columnas += costo;
+    }
+
+    return selecciones;
+  }
+
+  limiteConcentracion(partidoIdx: number) {
+    const { partidosIniciales, concentracionMaxInicial, concentracionMaxGeneral } = this.generator.reglas;
+    return partidoIdx < partidosIniciales ? concentracionMaxInicial : concentracionMaxGeneral;
+  }
+
+  probResultado(partido: ProbabilidadesPartido, resultado: Resultado) {
+    if (resultado === 'L') return partido.prob_local;
+    if (resultado === 'E') return partido.prob_empate;
+    return partido.prob_visitante;
+  }
+}
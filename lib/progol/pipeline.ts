@@ -0,0 +1,230 @@
+import { MatchClassifier } from './classifier';
+import { PREMIOS_DEFAULT, RESTRICCIONES_DEFAULT } from './config';
+import { PortfolioGenerator } from './generator';
+import type { PortafolioImportado, QuinielaImportada } from './importar';
+import { PortfolioOptimizer } from './optimizer';
+import { calcularValorPortafolio } from './premios';
+import { PortfolioValidator } from './validator';
+import type {
+  Juego,
+  ParametrosOptimizador,
+  ParametrosPremios,
+  Partido,
+  PartidoClasificado,
+  Quiniela,
+  ResultadoOptimizacion,
+  ResultadoPresupuesto,
+  ResultadoValidacion,
+  RestriccionesPortafolio,
+  UmbralesClasificacion,
+  ValorPortafolio
+} from './types';
+
+// ==================== PIPELINE COMPLETO ====================
+
+export interface OpcionesPipeline {
+  partidosRegular: Partido[];
+  partidosRevancha?: Partido[];
+  numQuinielas: number;
+  numQuinielasRevancha?: number;
+  seed: number;
+  /** Refina el portafolio regular con GRASP-Annealing antes de validar. */
+  optimizar?: boolean;
+  optimizador: ParametrosOptimizador;
+  /** Restricciones de Configuración; las omitidas toman el valor de `RESTRICCIONES_DEFAULT`. */
+  restricciones?: Partial<RestriccionesPortafolio>;
+  /**
+   * Presupuesto en MXN del juego regular: tras optimizar se reparte entre boletos sencillos
+   * y múltiples (`PortfolioOptimizer.distribuirPresupuesto`).
+   */
+  presupuesto?: number | null;
+  /** Bolsa, columnas del público y reparto por categoría; por omisión `PREMIOS_DEFAULT`. */
+  premios?: ParametrosPremios;
+  /** Tras optimizar, cambia resultados hacia los poco jugados por el público (modo contrarian). */
+  contrarian?: boolean;
+  /** Umbrales de clasificación de ambos juegos; los omitidos toman `UMBRALES_CLASIFICACION`. */
+  umbrales?: Partial<UmbralesClasificacion>;
+}
+
+export interface ResultadoPipeline {
+  partidosClasificados: PartidoClasificado[];
+  quinielas: Quiniela[];
+  validacion: ResultadoValidacion;
+  optimizacion: ResultadoOptimizacion | null;
+  presupuesto: ResultadoPresupuesto | null;
+  /** Valor esperado del portafolio regular con los premios indicados. */
+  valor: ValorPortafolio;
+  partidosRevanchaClasificados: PartidoClasificado[];
+  quinielasRevancha: Quiniela[];
+  validacionRevancha: ResultadoValidacion | null;
+}
+
+/**
+ * Ejecuta sin interfaz los mismos pasos que la pestaña Generación:
+ * - clasificar los partidos y generar Core y Satélites;
+ * - optimizar, si se pide con `optimizar`;
+ * - aplicar el modo contrarian, si se pide con `contrarian`;
+ * - repartir `presupuesto`, si se da, apartando antes el costo de la Revancha;
+ * - validar y calcular el valor esperado;
+ * - si hay partidos de Revancha, armar una quiniela por boleto regular, optimizada solo
+ *   con `optimizar`.
+ */
+export const ejecutarPipeline = (opciones: OpcionesPipeline): ResultadoPipeline => {
+  const { partidosRegular, seed, optimizador, restricciones = {}, premios = PREMIOS_DEFAULT } = opciones;
+  if (partidosRegular.length < 14) {
+    throw new Error(`Se necesitan 14 partidos regulares; se recibieron ${partidosRegular.length}`);
+  }
+
+  const classifier = new MatchClassifier(restricciones.calibracion, opciones.umbrales);
+  const partidosClasificados = classifier.classifyMatches(partidosRegular.slice(0, 14));
+
+  const generator = new PortfolioGenerator(seed, 'regular', restricciones);
+  const core = generator.generateCoreQuinielas(partidosClasificados);
+  const satelites = generator.generateSatelliteQuinielas(partidosClasificados, core, opciones.numQuinielas - 4);
+  let quinielas = [...core, ...satelites];
+
+  let optimizacion: ResultadoOptimizacion | null = null;
+  if (opciones.optimizar) {
+    const optimizer = new PortfolioOptimizer(optimizador, new PortfolioGenerator(seed, 'regular', restricciones));
+    optimizacion = optimizer.optimizar(quinielas, partidosClasificados);
+    quinielas = optimizacion.quinielas;
+  }
+
+  if (opciones.contrarian) {
+    quinielas = new PortfolioGenerator(seed, 'regular', restricciones).aplicarModoContrarian(quinielas, partidosClasificados, premios);
+  }
+
+  const partidosRevancha = opciones.partidosRevancha || [];
+  // Revancha se juega como complemento de un boleto regular
+  const revanchaPedidas = partidosRevancha.length > 0 ? opciones.numQuinielasRevancha ?? opciones.numQuinielas : 0;
+
+  let presupuesto: ResultadoPresupuesto | null = null;
+  if (opciones.presupuesto) {
+    const optimizer = new PortfolioOptimizer(optimizador, new PortfolioGenerator(seed, 'regular', restricciones));
+    presupuesto = optimizer.distribuirPresupuesto(quinielas, partidosClasificados, opciones.presupuesto, {
+      quinielas: revanchaPedidas,
+      precio: restricciones.precioRevancha ?? RESTRICCIONES_DEFAULT.precioRevancha
+    });
+    quinielas = presupuesto.quinielas;
+  }
+
+  const validator = new PortfolioValidator(optimizador.simulacionesMontecarlo, 'regular', seed, restricciones);
+  const validacion = validator.validatePortfolio(quinielas, partidosClasificados);
+  const precioBoleto = restricciones.precioBoleto ?? RESTRICCIONES_DEFAULT.precioBoleto;
+  const valor = calcularValorPortafolio(quinielas, partidosClasificados, premios, precioBoleto);
+
+  if (partidosRevancha.length === 0) {
+    return {
+      partidosClasificados,
+      quinielas,
+      validacion,
+      optimizacion,
+      presupuesto,
+      valor,
+      partidosRevanchaClasificados: [],
+      quinielasRevancha: [],
+      validacionRevancha: null
+    };
+  }
+  if (partidosRevancha.length < 7) {
+    throw new Error(`Se necesitan 7 partidos de Revancha; se recibieron ${partidosRevancha.length}`);
+  }
+
+  const revancha = ejecutarPipelineRevancha(
+    partidosRevancha,
+    Math.min(revanchaPedidas, quinielas.length),
+    seed,
+    optimizador,
+    restricciones,
+    opciones.umbrales,
+    opciones.optimizar ?? false
+  );
+
+  return {
+    partidosClasificados,
+    quinielas,
+    validacion,
+    optimizacion,
+    presupuesto,
+    valor,
+    partidosRevanchaClasificados: revancha.partidosClasificados,
+    quinielasRevancha: revancha.quinielas,
+    validacionRevancha: revancha.validacion
+  };
+};
+
+/**
+ * Portafolio de Revancha con exactamente `numQuinielas` quinielas, una por boleto regular que
+ * la juega: clasifica los 7 partidos, genera Core + Satélites (solo parte de las Core si son
+ * menos de 4) y, con `optimizar`, las optimiza para que cumplan los rangos y empates de Revancha.
+ */
+export const ejecutarPipelineRevancha = (
+  partidosRevancha: Partido[],
+  numQuinielas: number,
+  seed: number,
+  optimizador: ParametrosOptimizador,
+  restricciones: Partial<RestriccionesPortafolio> = {},
+  umbrales: Partial<UmbralesClasificacion> = {},
+  optimizar = true
+) => {
+  if (numQuinielas < 1) throw new Error('Revancha necesita al menos un boleto regular');
+  const partidosClasificados = new MatchClassifier(restricciones.calibracion, umbrales).classifyMatches(partidosRevancha.slice(0, 7));
+
+  const generator = new PortfolioGenerator(seed, 'revancha', restricciones);
+  const core = generator.generateCoreQuinielas(partidosClasificados).slice(0, numQuinielas);
+  const satelites = generator.generateSatelliteQuinielas(partidosClasificados, core, numQuinielas - core.length);
+  const generadas = [...core, ...satelites];
+  const quinielas = optimizar ?
+    new PortfolioOptimizer(optimizador, generator).optimizar(generadas, partidosClasificados).quinielas :
+    generadas;
+
+  const validator = new PortfolioValidator(optimizador.simulacionesMontecarlo, 'revancha', seed, restricciones);
+
+  return {
+    partidosClasificados,
+    quinielas,
+    validacion: validator.validatePortfolio(quinielas, partidosClasificados)
+  };
+};
+
+export interface OpcionesReconstruccion {
+  seed: number;
+  optimizador: ParametrosOptimizador;
+  restricciones?: Partial<RestriccionesPortafolio>;
+  umbrales?: Partial<UmbralesClasificacion>;
+}
+
+/**
+ * Portafolio importado listo para revisarse o extenderse: clasifica sus partidos, recalcula
+ * empates y probabilidades de premio de cada quiniela y lo valida con las restricciones actuales.
+ */
+export const reconstruirPortafolio = (importado: PortafolioImportado, opciones: OpcionesReconstruccion) => {
+  const { seed, optimizador, restricciones = {}, umbrales = {} } = opciones;
+  const classifier = new MatchClassifier(restricciones.calibracion, umbrales);
+
+  const reconstruir = (partidos: Partido[], quinielas: QuinielaImportada[], juego: Juego) => {
+    const partidosClasificados = classifier.classifyMatches(partidos);
+    const generator = new PortfolioGenerator(seed, juego, restricciones);
+    const construidas = quinielas.map(q => generator.construirQuinielaMultiple(q.id, q.tipo, q.selecciones, partidosClasificados, q.par_id));
+    const validator = new PortfolioValidator(optimizador.simulacionesMontecarlo, juego, seed, restricciones);
+    return {
+      partidosClasificados,
+      quinielas: construidas,
+      validacion: construidas.length > 0 ? validator.validatePortfolio(construidas, partidosClasificados) : null
+    };
+  };
+
+  const regular = reconstruir(importado.partidos, importado.quinielas, 'regular');
+  const revancha = importado.partidosRevancha.length > 0 ?
+    reconstruir(importado.partidosRevancha, importado.quinielasRevancha, 'revancha') :
+    { partidosClasificados: [], quinielas: [], validacion: null };
+
+  return {
+    partidosClasificados: regular.partidosClasificados,
+    quinielas: regular.quinielas,
+    validacion: regular.validacion,
+    partidosRevanchaClasificados: revancha.partidosClasificados,
+    quinielasRevancha: revancha.quinielas,
+    validacionRevancha: revancha.validacion
+  };
+};
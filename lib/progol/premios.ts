@@ -0,0 +1,143 @@
+import { PREMIOS_DEFAULT } from './config';
+import { contarCombinaciones, seleccionesDe } from './multiples';
+import type {
+  DistribucionResultados,
+  ParametrosPremios,
+  ProbabilidadesPartido,
+  Quiniela,
+  Resultado,
+  Seleccion,
+  ValorPortafolio,
+  ValorQuiniela
+} from './types';
+
+// ==================== PREMIOS Y VALOR ESPERADO ====================
+
+const RESULTADOS: Resultado[] = ['L', 'E', 'V'];
+
+type PartidoConPopularidad = ProbabilidadesPartido & { popularidad?: DistribucionResultados };
+
+/**
+ * Proporción del público que juega cada resultado, normalizada para sumar 1 (se puede capturar
+ * en porcentaje); sin estimación, las probabilidades del partido.
+ */
+export const popularidadDe = (partido: PartidoConPopularidad): DistribucionResultados => {
+  const { L, E, V } = partido.popularidad || { L: partido.prob_local, E: partido.prob_empate, V: partido.prob_visitante };
+  const total = L + E + V;
+  return total > 0 ? { L: L / total, E: E / total, V: V / total } : { L: 1 / 3, E: 1 / 3, V: 1 / 3 };
+};
+
+/**
+ * E[1 / (1 + W)] con W ~ Binomial(n, q): la fracción de un premio que toca a una columna
+ * cuando cada una de las `n` columnas del público lo gana con probabilidad `q`.
+ */
+export const fraccionCompartida = (n: number, q: number) => {
+  const x = (n + 1) * q;
+  if (x < 1e-9) return 1 - (n * q) / 2;
+  return -Math.expm1((n + 1) * Math.log1p(-Math.min(q, 1 - 1e-15))) / x;
+};
+
+/**
+ * Valor esperado de un boleto (sencillo o múltiple). Recorre los resultados reales en los
+ * que la mejor columna del boleto queda a lo más a `fallos` de 14 (donde `fallos` alcanza la
+ * categoría más baja); en cada escenario calcula, a la vez:
+ *
+ * - cuántas columnas del boleto tienen k fallos (polinomio por partido: 1 forma de acertar y
+ *   |selección| − 1 de fallar si el resultado está en la selección; |selección| si no), y
+ * - la probabilidad de que una columna del público tenga k fallos (Poisson-binomial con la
+ *   popularidad del resultado real).
+ *
+ * Cada columna premiada cobra `bolsa · proporción · E[1/(1 + W)]`, con W los ganadores del
+ * público de su categoría. No se descuentan los premios que comparten columnas propias.
+ */
+export const calcularValorQuiniela = (
+  selecciones: Seleccion[],
+  partidos: PartidoConPopularidad[],
+  premios: ParametrosPremios = PREMIOS_DEFAULT
+): Omit<ValorQuiniela, 'id'> => {
+  const numPartidos = partidos.length;
+  const categorias = premios.categorias.filter(c => c.aciertos <= numPartidos && c.proporcion > 0);
+  if (categorias.length === 0) return { valorEsperado: 0, probPremio: 0, coganadoresEsperados: 0 };
+
+  const maxFallos = numPartidos - Math.min(...categorias.map(c => c.aciertos));
+  const bolsaPorFallos = new Array(maxFallos + 1).fill(0);
+  for (const categoria of categorias) bolsaPorFallos[numPartidos - categoria.aciertos] += premios.bolsa * categoria.proporcion;
+
+  const jugadas = selecciones.map(s => (Array.isArray(s) ? s : [s]));
+  const probs = partidos.map(p => ({ L: p.prob_local, E: p.prob_empate, V: p.prob_visitante }));
+  const popularidades = partidos.map(popularidadDe);
+  const n = premios.columnasPublico;
+
+  let valorEsperado = 0;
+  let probPremio = 0;
+  let coganadores = 0;
+  let columnasPremiadas = 0;
+
+  // columnas[k]: columnas del boleto con k fallos; publico[k]: P(columna del público con k fallos)
+  const recorrer = (i: number, fallosMejor: number, prob: number, columnas: number[], publico: number[]) => {
+    if (prob === 0) return;
+    if (i === numPartidos) {
+      let pago = 0;
+      let premiadas = 0;
+      let compartidas = 0;
+      for (let k = 0; k <= maxFallos; k++) {
+        if (columnas[k] === 0 || bolsaPorFallos[k] === 0) continue;
+        pago += columnas[k] * bolsaPorFallos[k] * fraccionCompartida(n, publico[k]);
+        premiadas += columnas[k];
+        compartidas += columnas[k] * n * publico[k];
+      }
+      if (premiadas === 0) return;
+      valorEsperado += prob * pago;
+      probPremio += prob;
+      coganadores += prob * compartidas;
+      columnasPremiadas += prob * premiadas;
+      return;
+    }
+
+    const seleccion = jugadas[i];
+    for (const real of RESULTADOS) {
+      const acierta = seleccion.includes(real);
+      if (!acierta && fallosMejor === maxFallos) continue;
+
+      const formasFallar = acierta ? seleccion.length - 1 : seleccion.length;
+      const formasAcertar = acierta ? 1 : 0;
+      const siguientes = columnas.map((c, k) => c * formasAcertar + (k > 0 ? columnas[k - 1] * formasFallar : 0));
+      const pop = popularidades[i][real];
+      const publicoSiguiente = publico.map((p, k) => p * pop + (k > 0 ? publico[k - 1] * (1 - pop) : 0));
+
+      recorrer(i + 1, fallosMejor + (acierta ? 0 : 1), prob * probs[i][real], siguientes, publicoSiguiente);
+    }
+  };
+
+  const inicial = new Array(maxFallos + 1).fill(0);
+  inicial[0] = 1;
+  recorrer(0, 0, 1, inicial, [...inicial]);
+
+  return {
+    valorEsperado,
+    probPremio,
+    coganadoresEsperados: columnasPremiadas > 0 ? coganadores / columnasPremiadas : 0
+  };
+};
+
+/**
+ * Valor esperado de cada boleto y del portafolio (la suma, por linealidad), con el retorno
+ * por peso apostado al precio de columna `precioBoleto`.
+ */
+export const calcularValorPortafolio = (
+  quinielas: Quiniela[],
+  partidos: PartidoConPopularidad[],
+  premios: ParametrosPremios,
+  precioBoleto: number
+): ValorPortafolio => {
+  const valores = quinielas.map(q => ({ id: q.id, ...calcularValorQuiniela(seleccionesDe(q), partidos, premios) }));
+  const valorEsperado = valores.reduce((acc, v) => acc + v.valorEsperado, 0);
+  const costo = quinielas.reduce((acc, q) => acc + contarCombinaciones(seleccionesDe(q)), 0) * precioBoleto;
+
+  return {
+    quinielas: valores,
+    valorEsperado,
+    costo,
+    retorno: costo > 0 ? valorEsperado / costo : 0
+  };
+};
@@ -0,0 +1,153 @@
+import { normalizarSeleccion } from './multiples';
+import type { DistribucionPortafolio, ProbabilidadesPartido, Resultado, Seleccion } from './types';
+
+/** Distribución exacta del número de aciertos (Poisson-binomial): resultado[k] = P(k aciertos). */
+export const calcularDistribucionAciertos = (probsAcierto: number[]) => {
+  let distribucion = [1];
+
+  for (const p of probsAcierto) {
+    const siguiente: number[] = new Array(distribucion.length + 1).fill(0);
+    for (let k = 0; k < distribucion.length; k++) {
+      siguiente[k] += distribucion[k] * (1 - p);
+      siguiente[k + 1] += distribucion[k] * p;
+    }
+    distribucion = siguiente;
+  }
+
+  return distribucion;
+};
+
+/** P(aciertos ≥ k) a partir de una distribución de aciertos. */
+export const probabilidadAlMenos = (distribucion: number[], aciertos: number) =>
+  distribucion.slice(Math.max(aciertos, 0)).reduce((a, b) => a + b, 0);
+
+/** Aciertos esperados y su desviación estándar a partir de una distribución de aciertos. */
+export const calcularMomentosAciertos = (distribucion: number[]) => {
+  const media = distribucion.reduce((acc, p, k) => acc + k * p, 0);
+  const varianza = distribucion.reduce((acc, p, k) => acc + (k - media) ** 2 * p, 0);
+  return { media, desviacion: Math.sqrt(varianza) };
+};
+
+/**
+ * Correlación de Pearson entre el número de aciertos de dos quinielas. Los partidos son
+ * independientes, así que la covarianza se suma partido a partido: P(ambas aciertan) − p_a·p_b,
+ * que vale p(1 − p) cuando eligen el mismo resultado y −p_a·p_b cuando eligen resultados
+ * distintos. Con dobles y triples, P(ambas aciertan) es la probabilidad de los resultados
+ * que comparten sus selecciones.
+ */
+export const calcularCorrelacionAciertos = (
+  a: Seleccion[],
+  b: Seleccion[],
+  partidos: ProbabilidadesPartido[]
+) => {
+  let covarianza = 0;
+  let varianzaA = 0;
+  let varianzaB = 0;
+
+  partidos.forEach((partido, i) => {
+    const probs: Record<Resultado, number> = { L: partido.prob_local, E: partido.prob_empate, V: partido.prob_visitante };
+    const seleccionA = normalizarSeleccion(a[i]);
+    const seleccionB = normalizarSeleccion(b[i]);
+    const pA = seleccionA.reduce((acc, r) => acc + probs[r], 0);
+    const pB = seleccionB.reduce((acc, r) => acc + probs[r], 0);
+    const pAmbas = seleccionA.filter(r => seleccionB.includes(r)).reduce((acc, r) => acc + probs[r], 0);
+    covarianza += pAmbas - pA * pB;
+    varianzaA += pA * (1 - pA);
+    varianzaB += pB * (1 - pB);
+  });
+
+  const denominador = Math.sqrt(varianzaA * varianzaB);
+  return denominador > 0 ? covarianza / denominador : 0;
+};
+
+/** Matriz simétrica de correlaciones de aciertos entre todas las quinielas del portafolio. */
+export const calcularMatrizCorrelacion = (quinielas: Seleccion[][], partidos: ProbabilidadesPartido[]) =>
+  quinielas.map((a, i) => quinielas.map((b, j) => (i === j ? 1 : calcularCorrelacionAciertos(a, b, partidos))));
+
+/** Más allá de este número de escenarios se estima por Monte Carlo en lugar de enumerar. */
+export const LIMITE_ESCENARIOS_EXACTOS = 531441; // 3^12
+
+/**
+ * Distribución del mejor número de aciertos del portafolio, considerando que todas las
+ * quinielas apuestan sobre los mismos resultados reales. Los partidos donde todas coinciden
+ * se resuelven con la Poisson-binomial; solo se enumeran los partidos donde divergen. En los
+ * boletos múltiples, una quiniela acierta el partido si su selección incluye el resultado.
+ */
+export const calcularDistribucionPortafolio = (
+  quinielas: Seleccion[][],
+  partidos: ProbabilidadesPartido[],
+  numSimulaciones: number,
+  random: () => number = Math.random
+): DistribucionPortafolio => {
+  const numPartidos = partidos.length;
+  const probsPartido: Record<Resultado, number>[] = partidos.map(p => ({ L: p.prob_local, E: p.prob_empate, V: p.prob_visitante }));
+  const selecciones = quinielas.map(q => q.map(normalizarSeleccion));
+  const clave = (seleccion: Resultado[]) => [...seleccion].sort().join('');
+
+  const comunes: number[] = [];
+  const divergentes: { idx: number; escenarios: { prob: number; resultado: Resultado | null }[] }[] = [];
+
+  for (let i = 0; i < numPartidos; i++) {
+    const elegidos = Array.from(new Set(selecciones.flatMap(q => q[i])));
+    if (new Set(selecciones.map(q => clave(q[i]))).size === 1) {
+      comunes.push(selecciones[0][i].reduce((acc, r) => acc + probsPartido[i][r], 0));
+      continue;
+    }
+
+    // Los resultados que ninguna quiniela eligió se agrupan en un solo escenario sin aciertos
+    const escenarios = elegidos.map(r => ({ prob: probsPartido[i][r], resultado: r as Resultado | null }));
+    const probResto = 1 - escenarios.reduce((acc, e) => acc + e.prob, 0);
+    if (probResto > 1e-12) escenarios.push({ prob: probResto, resultado: null });
+    divergentes.push({ idx: i, escenarios });
+  }
+
+  const numEscenarios = divergentes.reduce((acc, d) => acc * d.escenarios.length, 1);
+  const distribucionMejor: number[] = new Array(numPartidos + 1).fill(0);
+
+  if (numEscenarios <= LIMITE_ESCENARIOS_EXACTOS) {
+    const distribucionComun = calcularDistribucionAciertos(comunes);
+    const aciertos: number[] = new Array(quinielas.length).fill(0);
+
+    const enumerar = (nivel: number, prob: number) => {
+      if (prob === 0) return;
+      if (nivel === divergentes.length) {
+        const mejor = Math.max(...aciertos);
+        distribucionComun.forEach((p, k) => { distribucionMejor[mejor + k] += prob * p; });
+        return;
+      }
+
+      const { idx, escenarios } = divergentes[nivel];
+      for (const escenario of escenarios) {
+        const aciertan = selecciones.map(q => escenario.resultado !== null && q[idx].includes(escenario.resultado));
+        aciertan.forEach((acierta, j) => { if (acierta) aciertos[j]++; });
+        enumerar(nivel + 1, prob * escenario.prob);
+        aciertan.forEach((acierta, j) => { if (acierta) aciertos[j]--; });
+      }
+    };
+
+    enumerar(0, 1);
+    return { distribucion: distribucionMejor, metodo: 'exacto' };
+  }
+
+  // Monte Carlo con resultados simulados compartidos por todas las quinielas
+  for (let sim = 0; sim < numSimulaciones; sim++) {
+    const resultados = probsPartido.map((probs): Resultado => {
+      const u = random();
+      if (u < probs.L) return 'L';
+      if (u < probs.L + probs.E) return 'E';
+      return 'V';
+    });
+
+    let mejor = 0;
+    for (const quiniela of selecciones) {
+      let aciertos = 0;
+      for (let i = 0; i < numPartidos; i++) {
+        if (quiniela[i].includes(resultados[i])) aciertos++;
+      }
+      mejor = Math.max(mejor, aciertos);
+    }
+    distribucionMejor[mejor] += 1 / numSimulaciones;
+  }
+
+  return { distribucion: distribucionMejor, metodo: 'montecarlo' };
+};
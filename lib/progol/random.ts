@@ -0,0 +1,15 @@
+/**
+ * Generador pseudoaleatorio determinista (mulberry32): la misma semilla produce la misma
+ * secuencia. Todo el motor lo usa en lugar de `Math.random()` para que las quinielas sean
+ * reproducibles.
+ */
+export const crearGeneradorAleatorio = (seed: number) => {
+  let estado = seed >>> 0;
+  return () => {
+    estado = (estado + 0x6D2B79F5) >>> 0;
+    let t = estado;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -0,0 +1,61 @@
+import { crearGeneradorAleatorio } from './random';
+import type { Partido } from './types';
+
+// ==================== DATOS DE MUESTRA ====================
+
+/** Genera 14 partidos regulares y 7 de Revancha con probabilidades ficticias a partir de `seed`. */
+export const createSampleData = (seed = 42) => {
+  const random = crearGeneradorAleatorio(seed);
+
+  const equiposRegular = [
+    ['Real Madrid', 'Barcelona'],
+    ['Manchester United', 'Liverpool'],
+    ['PSG', 'Bayern Munich'],
+    ['Chelsea', 'Arsenal'],
+    ['Juventus', 'Inter Milan'],
+    ['Atletico Madrid', 'Sevilla'],
+    ['Borussia Dortmund', 'Bayern Leverkusen'],
+    ['AC Milan', 'Napoli'],
+    ['Ajax', 'PSV'],
+    ['Porto', 'Benfica'],
+    ['Lyon', 'Marseille'],
+    ['Valencia', 'Athletic Bilbao'],
+    ['Roma', 'Lazio'],
+    ['Tottenham', 'West Ham']
+  ];
+
+  const equiposRevancha = [
+    ['Flamengo', 'Palmeiras'],
+    ['Boca Juniors', 'River Plate'],
+    ['América', 'Chivas'],
+    ['São Paulo', 'Corinthians'],
+    ['Cruz Azul', 'Pumas'],
+    ['Santos', 'Fluminense'],
+    ['Monterrey', 'Tigres']
+  ];
+
+  const generatePartidos = (equipos: string[][], withFinals = false): Partido[] => {
+    return equipos.map(([local, visitante], i) => {
+      const rand = random();
+      const probLocal = 0.25 + rand * 0.3;
+      const probEmpate = 0.2 + rand * 0.2;
+      const probVisitante = 1 - probLocal - probEmpate;
+
+      return {
+        local,
+        visitante,
+        prob_local: probLocal,
+        prob_empate: probEmpate,
+        prob_visitante: probVisitante,
+        es_final: withFinals && (i === 0 || i === 2),
+        forma_diferencia: Math.floor((random() - 0.5) * 4),
+        lesiones_impact: Math.floor((random() - 0.5) * 2)
+      };
+    });
+  };
+
+  return {
+    partidos_regular: generatePartidos(equiposRegular, true),
+    partidos_revancha: generatePartidos(equiposRevancha, true)
+  };
+};
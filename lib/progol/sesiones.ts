@@ -0,0 +1,167 @@
+import { METODOS_MARGEN } from './cuotas';
+import type { MetodoMargen } from './cuotas';
+import { validarRestricciones } from './esquemas';
+import { esPartido } from './importar';
+import type {
+  ObjetivosHistoricos,
+  ParametrosOptimizador,
+  ParametrosPremios,
+  Partido,
+  PartidoClasificado,
+  Quiniela,
+  RestriccionesPortafolio,
+  ResultadoValidacion,
+  UmbralesClasificacion
+} from './types';
+
+// ==================== SESIONES DE TRABAJO ====================
+
+/** Parámetros de generación de la pestaña Configuración. */
+export interface ParametrosGeneracion {
+  numQuinielas: number;
+  numQuinielasRevancha: number;
+  seed: number;
+  metodoMargen: MetodoMargen;
+  presupuesto: number;
+}
+
+/**
+ * Lo que se guarda de la página para retomar un concurso: datos, clasificación, portafolio,
+ * configuración y objetivos históricos aplicados. Los resultados derivados (optimización,
+ * Monte Carlo, sistemas) se recalculan.
+ */
+export interface EstadoSesion {
+  numeroConcurso: number;
+  partidosRegular: Partido[];
+  partidosRevancha: Partido[];
+  partidosClasificados: PartidoClasificado[];
+  partidosRevanchaClasificados: PartidoClasificado[];
+  quinielasCore: Quiniela[];
+  quinielasSatelites: Quiniela[];
+  quinielasFinales: Quiniela[];
+  quinielasRevancha: Quiniela[];
+  validacion: ResultadoValidacion | null;
+  validacionRevancha: ResultadoValidacion | null;
+  config: ParametrosGeneracion;
+  optimizerConfig: ParametrosOptimizador;
+  restricciones: RestriccionesPortafolio;
+  drawPropensity: UmbralesClasificacion['drawPropensity'];
+  premios: ParametrosPremios;
+  /** Objetivos del historial de resultados importado, o null si se usan los de `PROGOL_CONFIG`. */
+  objetivosHistoricos: ObjetivosHistoricos | null;
+}
+
+export interface Sesion {
+  id: string;
+  nombre: string;
+  /** Fechas ISO de creación y del último guardado. */
+  creada: string;
+  actualizada: string;
+  estado: EstadoSesion;
+}
+
+const nuevoId = (fecha: Date) => `${fecha.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const crearSesion = (nombre: string, estado: EstadoSesion, fecha = new Date()): Sesion => ({
+  id: nuevoId(fecha),
+  nombre: nombre.trim() || `Concurso ${estado.numeroConcurso}`,
+  creada: fecha.toISOString(),
+  actualizada: fecha.toISOString(),
+  estado
+});
+
+export const actualizarSesion = (sesion: Sesion, estado: EstadoSesion, fecha = new Date()): Sesion => ({
+  ...sesion,
+  estado,
+  actualizada: fecha.toISOString()
+});
+
+/** Copia con id propio y un nombre que no choca con las demás sesiones ("X (copia)", "X (copia 2)"…). */
+export const duplicarSesion = (sesion: Sesion, sesiones: Sesion[], fecha = new Date()): Sesion => {
+  const nombres = new Set(sesiones.map(s => s.nombre));
+  let nombre = `${sesion.nombre} (copia)`;
+  for (let n = 2; nombres.has(nombre); n++) nombre = `${sesion.nombre} (copia ${n})`;
+  return crearSesion(nombre, sesion.estado, fecha);
+};
+
+/** Estado sin partidos ni portafolio que conserva la configuración, para empezar otro concurso. */
+export const estadoSinDatos = (estado: EstadoSesion, numeroConcurso = estado.numeroConcurso): EstadoSesion => ({
+  ...estado,
+  numeroConcurso,
+  partidosRegular: [],
+  partidosRevancha: [],
+  partidosClasificados: [],
+  partidosRevanchaClasificados: [],
+  quinielasCore: [],
+  quinielasSatelites: [],
+  quinielasFinales: [],
+  quinielasRevancha: [],
+  validacion: null,
+  validacionRevancha: null
+});
+
+/** Más recientes primero. */
+export const ordenarSesiones = (sesiones: Sesion[]) =>
+  [...sesiones].sort((a, b) => b.actualizada.localeCompare(a.actualizada));
+
+const esNumero = (valor: unknown): valor is number => typeof valor === 'number' && Number.isFinite(valor);
+
+const esListaPartidos = (valor: unknown) => Array.isArray(valor) && valor.every(esPartido);
+
+const esObjetivosHistoricos = (valor: unknown): valor is ObjetivosHistoricos => {
+  if (typeof valor !== 'object' || valor === null) return false;
+  const objetivos = valor as ObjetivosHistoricos;
+  return typeof objetivos.fuente === 'string' &&
+    esNumero(objetivos.concursos) &&
+    (['L', 'E', 'V'] as const).every(r => esNumero(objetivos.distribucion?.[r])) &&
+    esNumero(objetivos.empatesPromedio);
+};
+
+const esParametrosGeneracion = (valor: unknown): valor is ParametrosGeneracion => {
+  if (typeof valor !== 'object' || valor === null) return false;
+  const config = valor as ParametrosGeneracion;
+  return esNumero(config.numQuinielas) &&
+    esNumero(config.numQuinielasRevancha) &&
+    esNumero(config.seed) &&
+    esNumero(config.presupuesto) &&
+    METODOS_MARGEN.some(m => m.id === config.metodoMargen);
+};
+
+/**
+ * Sesión leída del almacenamiento del navegador, o null si no tiene la forma esperada. Las
+ * restricciones pasan por el mismo esquema que los presets y cada partido debe traer equipos
+ * y probabilidades.
+ */
+export const leerSesion = (valor: unknown): Sesion | null => {
+  if (typeof valor !== 'object' || valor === null) return null;
+  const sesion = valor as Sesion;
+  if (typeof sesion.id !== 'string' || typeof sesion.nombre !== 'string' ||
+      typeof sesion.creada !== 'string' || typeof sesion.actualizada !== 'string') return null;
+
+  const estado = sesion.estado;
+  if (typeof estado !== 'object' || estado === null) return null;
+  const valido =
+    Number.isInteger(estado.numeroConcurso) &&
+    esListaPartidos(estado.partidosRegular) &&
+    esListaPartidos(estado.partidosRevancha) &&
+    esListaPartidos(estado.partidosClasificados) &&
+    esListaPartidos(estado.partidosRevanchaClasificados) &&
+    [estado.quinielasCore, estado.quinielasSatelites, estado.quinielasFinales, estado.quinielasRevancha]
+      .every(lista => Array.isArray(lista) && lista.every(q => Array.isArray(q?.resultados))) &&
+    esParametrosGeneracion(estado.config) &&
+    typeof estado.optimizerConfig === 'object' && estado.optimizerConfig !== null &&
+    esNumero(estado.drawPropensity?.umbral_diferencia) &&
+    esNumero(estado.drawPropensity.boost_empate) &&
+    typeof estado.premios === 'object' && estado.premios !== null &&
+    // Las sesiones guardadas antes de conservar los objetivos no los traen
+    (estado.objetivosHistoricos === undefined || estado.objetivosHistoricos === null ||
+      esObjetivosHistoricos(estado.objetivosHistoricos));
+  if (!valido) return null;
+
+  const restricciones = validarRestricciones(estado.restricciones);
+  if (!restricciones.ok) return null;
+  return {
+    ...sesion,
+    estado: { ...estado, restricciones: restricciones.datos, objetivosHistoricos: estado.objetivosHistoricos ?? null }
+  };
+};
@@ -0,0 +1,155 @@
+import { PortfolioGenerator } from './generator';
+import type { Cobertura, GarantiaSistema, PartidoClasificado, Resultado, SistemaReducido } from './types';
+
+// ==================== SISTEMAS REDUCIDOS ====================
+
+/** Más combinaciones que esto (3^10) harían lenta la búsqueda de la cobertura en el navegador. */
+export const MAX_COMBINACIONES_SISTEMA = 59049;
+
+/** Dobles en los partidos Divisor y TendenciaEmpate; el resto, fijos al resultado sugerido. */
+export const coberturasPorDefecto = (partidosClasificados: PartidoClasificado[]): Cobertura[] =>
+  partidosClasificados.map(p => (p.clasificacion === 'Divisor' || p.clasificacion === 'TendenciaEmpate' ? 'doble' : 'fijo'));
+
+// Resultado más probable distinto del sugerido; con un empate en probabilidades
+// `getResultadoAlternativo` puede devolver el mismo sugerido
+const segundoResultado = (partido: PartidoClasificado): Resultado => {
+  const probs: [Resultado, number][] = [['L', partido.prob_local], ['E', partido.prob_empate], ['V', partido.prob_visitante]];
+  return probs
+    .filter(([resultado]) => resultado !== partido.resultadoSugerido)
+    .reduce((mejor, actual) => (actual[1] > mejor[1] ? actual : mejor))[0];
+};
+
+/**
+ * Cobertura de Hamming sobre el producto de las opciones de cada partido variable: devuelve
+ * puntos (como índices de opción) tales que todo punto del producto queda a distancia ≤ radio
+ * de alguno. Greedy (elige el punto que cubre más puntos sin cubrir) y después quita los
+ * elegidos redundantes; no garantiza el mínimo, pero sí la cobertura.
+ */
+export const calcularCobertura = (tamanos: number[], radio: number): number[][] => {
+  const total = tamanos.reduce((a, b) => a * b, 1);
+
+  const decodificar = (indice: number) => tamanos.map(tamano => {
+    const digito = indice % tamano;
+    indice = Math.floor(indice / tamano);
+    return digito;
+  });
+
+  const pesos = tamanos.map((_, i) => tamanos.slice(0, i).reduce((a, b) => a * b, 1));
+
+  const bola = (indice: number) => {
+    const puntos: number[] = [];
+    const digitos = decodificar(indice);
+    const recorrer = (desde: number, cambios: number, actual: number) => {
+      puntos.push(actual);
+      if (cambios === radio) return;
+      for (let i = desde; i < tamanos.length; i++) {
+        for (let d = 0; d < tamanos[i]; d++) {
+          if (d === digitos[i]) continue;
+          recorrer(i + 1, cambios + 1, actual + (d - digitos[i]) * pesos[i]);
+        }
+      }
+    };
+    recorrer(0, 0, indice);
+    return puntos;
+  };
+
+  // Todas las bolas tienen el mismo tamaño, así que la ganancia inicial es igual para todos
+  const ganancia = new Int32Array(total).fill(bola(0).length);
+  const cubierto = new Uint8Array(total);
+  let restantes = total;
+  const elegidos: number[] = [];
+
+  while (restantes > 0) {
+    let mejor = 0;
+    for (let i = 1; i < total; i++) {
+      if (ganancia[i] > ganancia[mejor]) mejor = i;
+    }
+    elegidos.push(mejor);
+
+    for (const punto of bola(mejor)) {
+      if (cubierto[punto]) continue;
+      cubierto[punto] = 1;
+      restantes--;
+      for (const vecino of bola(punto)) ganancia[vecino]--;
+    }
+  }
+
+  // Un elegido sobra si cada punto de su bola está cubierto por algún otro elegido
+  const coberturas = new Int32Array(total);
+  for (const elegido of elegidos) {
+    for (const punto of bola(elegido)) coberturas[punto]++;
+  }
+  const finales = elegidos.filter(elegido => {
+    const puntos = bola(elegido);
+    if (puntos.some(punto => coberturas[punto] < 2)) return true;
+    for (const punto of puntos) coberturas[punto]--;
+    return false;
+  });
+
+  return finales.map(decodificar);
+};
+
+/**
+ * Sistema reducido: los partidos con cobertura doble juegan el resultado sugerido y el más
+ * probable de los otros dos, los triples juegan L, E y V, y los fijos el sugerido. Con
+ * garantía "A si S" se construye una cobertura de radio S − A sobre los partidos variables: si la
+ * columna ganadora del desarrollo completo tiene S aciertos, alguna quiniela tiene al menos A.
+ */
+export const generarSistemaReducido = (
+  partidosClasificados: PartidoClasificado[],
+  coberturas: Cobertura[],
+  garantia: GarantiaSistema,
+  generator = new PortfolioGenerator()
+): SistemaReducido => {
+  const { numPartidos, prefijoId, precioBoleto } = generator.reglas;
+  const partidos = partidosClasificados.slice(0, numPartidos);
+
+  if (partidos.length < numPartidos) {
+    throw new Error(`Se necesitan ${numPartidos} partidos clasificados; se recibieron ${partidos.length}`);
+  }
+  if (garantia.si > numPartidos || garantia.aciertos > garantia.si || garantia.aciertos < 0) {
+    throw new Error(`Garantía inválida: ${garantia.aciertos} si ${garantia.si} (máximo ${numPartidos} aciertos)`);
+  }
+
+  const opciones: Resultado[][] = partidos.map((partido, i) => {
+    const cobertura = coberturas[i] || 'fijo';
+    if (cobertura === 'triple') return ['L', 'E', 'V'];
+    if (cobertura === 'doble') return [partido.resultadoSugerido, segundoResultado(partido)];
+    return [partido.resultadoSugerido];
+  });
+
+  const variables = opciones.map((o, i) => ({ i, tamano: o.length })).filter(v => v.tamano > 1);
+  const combinaciones = variables.reduce((acc, v) => acc * v.tamano, 1);
+  if (combinaciones > MAX_COMBINACIONES_SISTEMA) {
+    throw new Error(`El desarrollo completo tiene ${combinaciones} columnas; el máximo es ${MAX_COMBINACIONES_SISTEMA}`);
+  }
+
+  const radio = Math.min(garantia.si - garantia.aciertos, variables.length);
+  const puntos = calcularCobertura(variables.map(v => v.tamano), radio);
+
+  const quinielas = puntos.map((punto, q) => {
+    const resultados = opciones.map(o => o[0]);
+    variables.forEach(({ i }, v) => { resultados[i] = opciones[i][punto[v]]; });
+    return generator.construirQuiniela(`${prefijoId}Sis-${q + 1}`, 'Sistema', resultados, partidos);
+  });
+
+  // Bola de radio r en el producto: suma sobre subconjuntos de r partidos de Π (tamaño − 1)
+  let tamanoBola = 0;
+  const sumarBola = (desde: number, cambios: number, producto: number) => {
+    tamanoBola += producto;
+    if (cambios === radio) return;
+    for (let v = desde; v < variables.length; v++) sumarBola(v + 1, cambios + 1, producto * (variables[v].tamano - 1));
+  };
+  sumarBola(0, 0, 1);
+
+  return {
+    coberturas: opciones.map(o => (o.length === 3 ? 'triple' : o.length === 2 ? 'doble' : 'fijo')),
+    opciones,
+    garantia,
+    quinielas,
+    combinaciones,
+    cotaInferior: Math.ceil(combinaciones / tamanoBola),
+    costo: quinielas.length * precioBoleto,
+    costoDesarrolloCompleto: combinaciones * precioBoleto
+  };
+};
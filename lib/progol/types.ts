@@ -0,0 +1,536 @@
+// ==================== TIPOS DEL DOMINIO ====================
+
+/** Resultado de un partido: victoria Local, Empate o victoria Visitante. */
+export type Resultado = 'L' | 'E' | 'V';
+
+/** Lo que juega una quiniela en un partido: un resultado, o dos o tres en un boleto múltiple. */
+export type Seleccion = Resultado | Resultado[];
+
+/** Clasificación que asigna `MatchClassifier` a cada partido. */
+export type Clasificacion = 'Ancla' | 'Divisor' | 'TendenciaEmpate' | 'Neutro';
+
+/** Juego del boleto: la quiniela regular (14 partidos) o la Revancha (7 partidos). */
+export type Juego = 'regular' | 'revancha';
+
+export type TipoQuiniela = 'Core' | 'Satelite' | 'Sistema';
+
+/** Proporción de L/E/V, ya sea de una quiniela, del portafolio o del histórico. */
+export type DistribucionResultados = Record<Resultado, number>;
+
+export interface ProbabilidadesPartido {
+  prob_local: number;
+  prob_empate: number;
+  prob_visitante: number;
+}
+
+/** Cuotas decimales 1X2 de un partido: local, empate, visitante. */
+export type Cuotas1X2 = [number, number, number];
+
+/** Partido tal como se carga desde CSV o datos de muestra. */
+export interface Partido extends ProbabilidadesPartido {
+  local: string;
+  visitante: string;
+  es_final?: boolean;
+  forma_diferencia?: number;
+  lesiones_impact?: number;
+  /** Cuotas decimales de las que salieron las probabilidades, si se importaron cuotas. */
+  cuotas?: Cuotas1X2;
+  /** Margen implícito de la casa en esas cuotas (0.05 = 5%). */
+  margen?: number;
+  /** Proporción estimada del público que juega L/E/V; sin ella se suponen las probabilidades. */
+  popularidad?: DistribucionResultados;
+  /** Liga o torneo; separa los ratings Elo de equipos con el mismo nombre. */
+  liga?: string;
+}
+
+/** Partido con probabilidades calibradas y su clasificación. */
+export interface PartidoClasificado extends ProbabilidadesPartido {
+  id: number;
+  local: string;
+  visitante: string;
+  clasificacion: Clasificacion;
+  resultadoSugerido: Resultado;
+  confianza: number;
+  popularidad?: DistribucionResultados;
+}
+
+/**
+ * Probabilidades de premio de una quiniela. Las regulares llevan Pr[≥11], Pr[≥12],
+ * Pr[≥13] y Pr[14]; las de Revancha, Pr[7].
+ */
+export interface ProbabilidadesQuiniela {
+  prob_11_plus?: number;
+  prob_12_plus?: number;
+  prob_13_plus?: number;
+  prob_14?: number;
+  prob_7?: number;
+}
+
+export interface Quiniela extends ProbabilidadesQuiniela {
+  id: string;
+  tipo: TipoQuiniela;
+  /** Un resultado por partido; en un boleto múltiple, el primero de cada selección. */
+  resultados: Resultado[];
+  /**
+   * Solo en boletos múltiples: resultados jugados en cada partido (dobles y triples). El
+   * boleto cuesta tantas columnas como combinaciones tenga.
+   */
+  selecciones?: Resultado[][];
+  /** En boletos múltiples, el promedio de empates de sus columnas. */
+  empates: number;
+  distribucion: DistribucionResultados;
+  /** Par de satélites anticorrelacionados al que pertenece, si aplica. */
+  par_id?: number | null;
+}
+
+export type MetodoProbPortafolio = 'exacto' | 'montecarlo' | 'independiente';
+
+/** Correlación de aciertos lograda por un par de satélites. */
+export interface CorrelacionPar {
+  par_id: number;
+  ids: [string, string];
+  correlacion: number;
+}
+
+/**
+ * Métricas que calcula `PortfolioValidator`. Las métricas de premio llevan el sufijo
+ * del juego: `prob_11_plus_promedio`, `prob_portafolio_11_plus`, ... en el regular y
+ * `prob_7_promedio`, `prob_portafolio_7`, ... en Revancha.
+ */
+/** Partido cuyo resultado más jugado supera el límite de concentración. */
+export interface ConcentracionExcedida {
+  /** Índice del partido (desde 0). */
+  partido: number;
+  resultado: Resultado;
+  proporcion: number;
+  limite: number;
+}
+
+export interface MetricasPortafolio {
+  distribucion_global?: DistribucionResultados;
+  empates_promedio?: number;
+  empates_rango?: [number, number];
+  ganadores_esperados?: number;
+  distribucion_mejor_aciertos?: number[];
+  metodo_prob_portafolio?: MetodoProbPortafolio;
+  costo_total?: number;
+  eficiencia?: number;
+  /** Columnas pagadas: una por quiniela sencilla, el producto de sus selecciones en las múltiples. */
+  columnas_totales?: number;
+  boletos_multiples?: number;
+  correlaciones_pares?: CorrelacionPar[];
+  correlacion_pares_promedio?: number;
+  /** Índices de las quinielas con empates fuera del rango permitido. */
+  quinielas_fuera_empates?: number[];
+  concentraciones_excedidas?: ConcentracionExcedida[];
+  [metricaPremio: `prob_${string}`]: number | undefined;
+}
+
+export interface ResultadoValidacion {
+  es_valido: boolean;
+  warnings: string[];
+  errores: string[];
+  metricas: MetricasPortafolio;
+}
+
+/** Resultados que juega un partido en un sistema reducido. */
+export type Cobertura = 'fijo' | 'doble' | 'triple';
+
+/** "`aciertos` si `si`": si el desarrollo completo tiene `si` aciertos, alguna quiniela tiene `aciertos`. */
+export interface GarantiaSistema {
+  aciertos: number;
+  si: number;
+}
+
+export interface SistemaReducido {
+  coberturas: Cobertura[];
+  /** Resultados jugados en cada partido (uno si es fijo, dos o tres si es variable). */
+  opciones: Resultado[][];
+  garantia: GarantiaSistema;
+  quinielas: Quiniela[];
+  /** Columnas del desarrollo completo (todas las combinaciones de dobles y triples). */
+  combinaciones: number;
+  /** Cota de esferas: ninguna cobertura con esta garantía puede tener menos quinielas. */
+  cotaInferior: number;
+  costo: number;
+  costoDesarrolloCompleto: number;
+}
+
+/** Coeficientes de la calibración bayesiana de `MatchClassifier`. */
+export interface CoeficientesCalibracion {
+  k1_forma: number;
+  k2_lesiones: number;
+  k3_contexto: number;
+}
+
+/** Umbrales con que `MatchClassifier` clasifica y aplica la Draw-Propensity Rule. */
+export interface UmbralesClasificacion {
+  /** Probabilidad máxima por encima de la cual el partido es Ancla. */
+  umbralAncla: number;
+  umbralDivisorMin: number;
+  umbralDivisorMax: number;
+  /** Probabilidad de empate a partir de la cual un empate favorito es TendenciaEmpate. */
+  umbralEmpate: number;
+  drawPropensity: { umbral_diferencia: number; boost_empate: number };
+}
+
+/**
+ * Restricciones editables en la pestaña Configuración. `obtenerReglasJuego` las combina con
+ * las reglas fijas de cada juego; la calibración la usa `MatchClassifier`.
+ */
+export interface RestriccionesPortafolio {
+  empatesMin: number;
+  empatesMax: number;
+  concentracionGeneral: number;
+  concentracionInicial: number;
+  /** Primeros partidos del boleto a los que aplica `concentracionInicial`. */
+  partidosIniciales: number;
+  rangosHistoricos: Record<Resultado, [number, number]>;
+  /** Correlación de aciertos buscada entre los dos satélites de cada par. */
+  correlacionTarget: number;
+  calibracion: CoeficientesCalibracion;
+  /** Precio en MXN de una columna del juego regular y del complemento de Revancha. */
+  precioBoleto: number;
+  precioRevancha: number;
+}
+
+/** Reglas de distribución, empates y premio de un juego. */
+export interface ReglasJuego {
+  juego: Juego;
+  prefijoId: string;
+  numPartidos: number;
+  rangosHistoricos: Record<Resultado, [number, number]>;
+  empatesMin: number;
+  empatesMax: number;
+  concentracionMaxGeneral: number;
+  concentracionMaxInicial: number;
+  partidosIniciales: number;
+  correlacionTarget: number;
+  aciertosPremio: number;
+  /** Sufijo de las métricas de premio: '11_plus' o '7'. */
+  sufijoProb: string;
+  precioBoleto: number;
+}
+
+/** Hiperparámetros expuestos en la pestaña Configuración. */
+export interface ParametrosOptimizador {
+  iteracionesOptimizador: number;
+  temperaturaInicial: number;
+  tasaEnfriamiento: number;
+  simulacionesMontecarlo: number;
+}
+
+export interface ResultadoOptimizacion {
+  quinielas: Quiniela[];
+  /** Mejor score encontrado hasta cada iteración del recocido. */
+  historial: number[];
+  scoreInicial: number;
+  mejorScore: number;
+  penalizacionFinal: number;
+}
+
+/** Resultado de repartir el presupuesto con un número dado de boletos. */
+export interface AlternativaPresupuesto {
+  numBoletos: number;
+  boletosMultiples: number;
+  columnas: number;
+  /** Columnas regulares más las quinielas de Revancha que acompañan a los boletos. */
+  costo: number;
+  /** Pr de premio del portafolio sobre resultados compartidos, estimado por Monte Carlo. */
+  probEstimada: number;
+}
+
+export interface ResultadoPresupuesto {
+  quinielas: Quiniela[];
+  presupuesto: number;
+  costo: number;
+  /** Todas las alternativas evaluadas; la elegida es la de mayor `probEstimada`. */
+  alternativas: AlternativaPresupuesto[];
+}
+
+/** Parte de la bolsa que se reparte entre las columnas con exactamente `aciertos` aciertos. */
+export interface CategoriaPremio {
+  aciertos: number;
+  proporcion: number;
+}
+
+export interface ParametrosPremios {
+  /** Bolsa estimada en MXN (incluido el acumulado) que se reparte entre las categorías. */
+  bolsa: number;
+  /** Columnas que juega el público; junto con la popularidad fija cuántos comparten cada premio. */
+  columnasPublico: number;
+  categorias: CategoriaPremio[];
+}
+
+/** Valor esperado de un boleto dado el reparto de premios y la popularidad de cada resultado. */
+export interface ValorQuiniela {
+  id: string;
+  /** Pago esperado en MXN. */
+  valorEsperado: number;
+  /** Probabilidad de cobrar en alguna categoría. */
+  probPremio: number;
+  /** Columnas del público que se espera compartan cada premio cobrado. */
+  coganadoresEsperados: number;
+}
+
+export interface ValorPortafolio {
+  quinielas: ValorQuiniela[];
+  valorEsperado: number;
+  costo: number;
+  /** Valor esperado por peso apostado (1 = se recupera lo jugado en promedio). */
+  retorno: number;
+}
+
+export interface DistribucionPortafolio {
+  /** distribucion[k] = P(la mejor quiniela del portafolio tenga k aciertos). */
+  distribucion: number[];
+  metodo: Exclude<MetodoProbPortafolio, 'independiente'>;
+}
+
+/** Pago por columna en una categoría de un concurso ya jugado. */
+export interface PremioPagado {
+  aciertos: number;
+  monto: number;
+}
+
+/** Concurso registrado en el historial: partidos, portafolio jugado y, al terminar, los resultados reales. */
+export interface Concurso {
+  numero: number;
+  /** Fecha de registro (ISO). */
+  fecha: string;
+  partidos: Partido[];
+  partidosRevancha: Partido[];
+  quinielas: Quiniela[];
+  quinielasRevancha: Quiniela[];
+  precioBoleto: number;
+  precioRevancha: number;
+  /** Resultado final de cada partido; null mientras no se captura. */
+  resultados: (Resultado | null)[];
+  resultadosRevancha: (Resultado | null)[];
+  premios: PremioPagado[];
+  premiosRevancha: PremioPagado[];
+}
+
+export interface CalificacionQuiniela {
+  id: string;
+  tipo: TipoQuiniela;
+  juego: Juego;
+  /** Aciertos de la mejor columna del boleto. */
+  aciertos: number;
+  /** Categoría más alta alcanzada (en aciertos), o null si no cobró. */
+  categoria: number | null;
+  ganancia: number;
+  costo: number;
+}
+
+/** Desempeño de un grupo de boletos: Core, Satelite, Sistema o Revancha. */
+export interface ResumenGrupo {
+  grupo: TipoQuiniela | 'Revancha';
+  boletos: number;
+  premiados: number;
+  aciertosPromedio: number;
+  costo: number;
+  ganancia: number;
+}
+
+export interface CalificacionConcurso {
+  numero: number;
+  /** Están capturados los 14 resultados (y los 7 de Revancha si se jugó). */
+  completo: boolean;
+  quinielas: CalificacionQuiniela[];
+  grupos: ResumenGrupo[];
+  costo: number;
+  ganancia: number;
+}
+
+/** Concurso pasado para backtesting: probabilidades previas al partido y resultados reales. */
+export interface ConcursoHistorico {
+  numero: number;
+  partidos: Partido[];
+  resultados: Resultado[];
+  /** Pago por columna de cada categoría; sin él el concurso no entra en el ROI. */
+  premios?: PremioPagado[];
+}
+
+/** Configuración de la metodología que se evalúa en cada concurso del backtest. */
+export interface ConfiguracionBacktest {
+  nombre: string;
+  numQuinielas: number;
+  seed: number;
+  optimizar: boolean;
+  optimizador: ParametrosOptimizador;
+  restricciones: Partial<RestriccionesPortafolio>;
+  umbrales: Partial<UmbralesClasificacion>;
+}
+
+export interface BacktestConcurso {
+  numero: number;
+  /** Aciertos de cada quiniela del portafolio generado. */
+  aciertos: number[];
+  mejorAciertos: number;
+  valido: boolean;
+  /** Pr[≥11] del portafolio que estimó el validador antes del concurso. */
+  probPortafolio11: number;
+  costo: number;
+  /** Premios cobrados; null si el concurso no trae los montos pagados. */
+  ganancia: number | null;
+}
+
+export interface ResultadoBacktest {
+  configuracion: ConfiguracionBacktest;
+  concursos: BacktestConcurso[];
+  /** distribucion[k] = proporción de quinielas con k aciertos. */
+  distribucion: number[];
+  /** Proporción de quinielas con al menos 11, 12 y 13 aciertos. */
+  tasaQuinielas: Record<11 | 12 | 13, number>;
+  /** Proporción de concursos en que alguna quiniela llegó a 11, 12 y 13 aciertos. */
+  tasaConcursos: Record<11 | 12 | 13, number>;
+  /** Promedio del Pr[≥11] estimado, para contrastarlo con `tasaConcursos[11]`. */
+  probPortafolio11Media: number;
+  portafoliosValidos: number;
+  /** Costo y premios de los concursos con montos pagados. */
+  concursosConPremios: number;
+  costo: number;
+  ganancia: number;
+  /** (ganancia − costo) / costo; null si ningún concurso trae premios. */
+  roi: number | null;
+}
+
+/** Partido ya jugado con los datos que usa la calibración y su resultado real. */
+export interface PartidoJugado {
+  partido: Partido;
+  resultado: Resultado;
+}
+
+export type MetricaCalibracion = 'logloss' | 'brier';
+
+/** Todo lo que ajusta la calibración: coeficientes bayesianos y Draw-Propensity Rule. */
+export interface ParametrosCalibracion {
+  calibracion: CoeficientesCalibracion;
+  drawPropensity: UmbralesClasificacion['drawPropensity'];
+}
+
+/** Una barra del diagrama de confiabilidad: probabilidad predicha contra frecuencia observada. */
+export interface PuntoConfiabilidad {
+  /** Probabilidad predicha promedio de los casos del intervalo. */
+  prediccion: number;
+  observada: number;
+  casos: number;
+}
+
+export interface EvaluacionCalibracion {
+  logLoss: number;
+  brier: number;
+  /** Intervalos de 0.1 con casos, juntando las probabilidades de L, E y V. */
+  confiabilidad: PuntoConfiabilidad[];
+}
+
+export interface ResultadoCalibracion {
+  metrica: MetricaCalibracion;
+  partidos: number;
+  parametros: ParametrosCalibracion;
+  /** Probabilidades tal como llegan, sin `aplicarCalibracionBayesiana`. */
+  sinCalibrar: EvaluacionCalibracion;
+  /** Con los parámetros de partida (los activos). */
+  inicial: EvaluacionCalibracion;
+  /** Con los parámetros ajustados. */
+  ajustada: EvaluacionCalibracion;
+}
+
+/** Resultados finales de un concurso pasado, para recalcular los objetivos L/E/V. */
+export interface ResultadosConcurso {
+  numero: number;
+  /** Fecha del concurso (ISO, AAAA-MM-DD), o null si el historial no la trae. */
+  fecha: string | null;
+  resultados: Resultado[];
+}
+
+/** Objetivos del juego regular recalculados con un historial de resultados. */
+export interface ObjetivosHistoricos {
+  /** Archivo o conjunto de datos del que salen. */
+  fuente: string;
+  /** Años de la ventana móvil, o null si se usa todo el historial. */
+  ventanaAnios: number | null;
+  concursos: number;
+  numeroDesde: number;
+  numeroHasta: number;
+  desde: string | null;
+  hasta: string | null;
+  distribucion: DistribucionResultados;
+  rangosHistoricos: Record<Resultado, [number, number]>;
+  empatesPromedio: number;
+  empatesMin: number;
+  empatesMax: number;
+}
+
+/** Marcador final de un partido jugado, para ajustar el modelo de goles. */
+export interface MarcadorHistorico {
+  liga: string;
+  /** Fecha ISO (AAAA-MM-DD), o null si el archivo no la trae. */
+  fecha: string | null;
+  local: string;
+  visitante: string;
+  golesLocal: number;
+  golesVisitante: number;
+}
+
+/** Fuerza de un equipo en el modelo de goles: 1 es el promedio de su liga. */
+export interface FuerzaEquipo {
+  nombre: string;
+  /** Multiplica los goles que anota. */
+  ataque: number;
+  /** Multiplica los goles que recibe (mayor es peor defensa). */
+  defensa: number;
+  partidos: number;
+}
+
+/** Modelo de Dixon-Coles ajustado con los marcadores de una liga. */
+export interface ModeloGoles {
+  liga: string;
+  /** Equipos por nombre normalizado. */
+  equipos: Record<string, FuerzaEquipo>;
+  /** Factor multiplicativo de los goles del local. */
+  ventajaLocal: number;
+  /** Dependencia de los marcadores bajos (0-0, 1-0, 0-1, 1-1); negativa sube los empates 0-0 y 1-1. */
+  rho: number;
+  partidos: number;
+  desde: string | null;
+  hasta: string | null;
+  /** Log-verosimilitud ponderada de los marcadores con los parámetros ajustados. */
+  logVerosimilitud: number;
+}
+
+/** Pronóstico del modelo de goles para un partido. */
+export interface PrediccionGoles extends ProbabilidadesPartido {
+  liga: string;
+  golesEsperadosLocal: number;
+  golesEsperadosVisitante: number;
+  /** `marcadores[i][j]`: probabilidad de que el local anote i goles y el visitante j. */
+  marcadores: number[][];
+  marcadorProbable: [number, number];
+}
+
+/** Rating Elo de un equipo después de un partido. */
+export interface PuntoElo {
+  /** Fecha ISO (AAAA-MM-DD) del partido. */
+  fecha: string;
+  rating: number;
+  /** Concurso registrado del que salió el resultado, si aplica. */
+  concurso?: number;
+}
+
+export interface EquipoElo {
+  nombre: string;
+  liga: string;
+  rating: number;
+  partidos: number;
+  /** Ratings más recientes al final, hasta `PROGOL_CONFIG.ELO.HISTORIAL_MAXIMO`. */
+  historial: PuntoElo[];
+}
+
+/** Ratings Elo de todos los equipos, por liga y nombre normalizado. */
+export interface TablaElo {
+  equipos: Record<string, EquipoElo>;
+  /** Concursos cuyos resultados ya se sumaron, para no contarlos dos veces. */
+  concursosAplicados: number[];
+}
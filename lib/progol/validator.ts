@@ -0,0 +1,269 @@
+import { obtenerReglasJuego } from './config';
+import { contarCombinaciones, pesosSeleccion, seleccionesDe } from './multiples';
+import { calcularCorrelacionAciertos, calcularDistribucionPortafolio, probabilidadAlMenos } from './probabilidades';
+import { crearGeneradorAleatorio } from './random';
+import type {
+  ConcentracionExcedida,
+  CorrelacionPar,
+  DistribucionResultados,
+  Juego,
+  ProbabilidadesPartido,
+  Quiniela,
+  ReglasJuego,
+  RestriccionesPortafolio,
+  Resultado,
+  ResultadoValidacion
+} from './types';
+
+/**
+ * Revisa un portafolio contra las reglas del juego (distribución L/E/V histórica, empates
+ * por quiniela y concentración por partido) y calcula sus métricas de premio y costo. Un
+ * boleto múltiple cuenta en las reglas como el promedio de sus columnas y cuesta una por
+ * cada combinación.
+ */
+export class PortfolioValidator {
+  simulacionesMontecarlo: number;
+  reglas: ReglasJuego;
+  random: () => number;
+
+  constructor(
+    simulacionesMontecarlo = 10000,
+    juego: Juego = 'regular',
+    seed = 42,
+    restricciones: Partial<RestriccionesPortafolio> = {}
+  ) {
+    this.simulacionesMontecarlo = simulacionesMontecarlo;
+    this.reglas = obtenerReglasJuego(juego, restricciones);
+    this.random = crearGeneradorAleatorio(seed);
+  }
+
+  /**
+   * Valida el portafolio. Si se pasan los partidos clasificados, la probabilidad del
+   * portafolio se calcula sobre resultados compartidos; si no, suponiendo independencia.
+   */
+  validatePortfolio(quinielas: Quiniela[], partidosClasificados: ProbabilidadesPartido[] = []): ResultadoValidacion {
+    const validacion: ResultadoValidacion = {
+      es_valido: true,
+      warnings: [],
+      errores: [],
+      metricas: {}
+    };
+
+    if (!quinielas || quinielas.length === 0) {
+      validacion.es_valido = false;
+      validacion.errores.push("No hay quinielas en el portafolio");
+      return validacion;
+    }
+
+    this.validarDistribucionGlobal(quinielas, validacion);
+    this.validarEmpatesIndividuales(quinielas, validacion);
+    this.validarConcentracion(quinielas, validacion);
+    this.calcularMetricas(quinielas, validacion, partidosClasificados);
+
+    if (validacion.errores.length > 0) {
+      validacion.es_valido = false;
+    } else if (validacion.warnings.length > 3) {
+      validacion.es_valido = false;
+      validacion.errores.push("Demasiadas advertencias en la validación");
+    }
+
+    return validacion;
+  }
+
+  validarDistribucionGlobal(quinielas: Quiniela[], validacion: ResultadoValidacion) {
+    const totalPredicciones = quinielas.length * this.reglas.numPartidos;
+    const conteos: Record<Resultado, number> = { L: 0, E: 0, V: 0 };
+
+    for (const quiniela of quinielas) {
+      for (const pesos of pesosSeleccion(seleccionesDe(quiniela))) {
+        conteos.L += pesos.L;
+        conteos.E += pesos.E;
+        conteos.V += pesos.V;
+      }
+    }
+
+    const distribucionGlobal: DistribucionResultados = {
+      L: conteos.L / totalPredicciones,
+      E: conteos.E / totalPredicciones,
+      V: conteos.V / totalPredicciones
+    };
+
+    validacion.metricas.distribucion_global = distribucionGlobal;
+
+    for (const resultado of ['L', 'E', 'V'] as Resultado[]) {
+      const proporcion = distribucionGlobal[resultado];
+      const [minVal, maxVal] = this.reglas.rangosHistoricos[resultado];
+
+      if (proporcion < minVal) {
+        const diferencia = minVal - proporcion;
+        if (diferencia > 0.03) {
+          validacion.errores.push(
+            `Distribución ${resultado}: ${(proporcion * 100).toFixed(1)}% muy por debajo del mínimo ${(minVal * 100).toFixed(1)}%`
+          );
+        } else {
+          validacion.warnings.push(
+            `Distribución ${resultado}: ${(proporcion * 100).toFixed(1)}% ligeramente bajo (mín: ${(minVal * 100).toFixed(1)}%)`
+          );
+        }
+      } else if (proporcion > maxVal) {
+        const diferencia = proporcion - maxVal;
+        if (diferencia > 0.03) {
+          validacion.errores.push(
+            `Distribución ${resultado}: ${(proporcion * 100).toFixed(1)}% muy por encima del máximo ${(maxVal * 100).toFixed(1)}%`
+          );
+        } else {
+          validacion.warnings.push(
+            `Distribución ${resultado}: ${(proporcion * 100).toFixed(1)}% ligeramente alto (máx: ${(maxVal * 100).toFixed(1)}%)`
+          );
+        }
+      }
+    }
+  }
+
+  validarEmpatesIndividuales(quinielas: Quiniela[], validacion: ResultadoValidacion) {
+    const empatesPorQuiniela: number[] = [];
+    const quinielasProblematicas: string[] = [];
+    const fueraDeRango: number[] = [];
+
+    for (let i = 0; i < quinielas.length; i++) {
+      const empates = pesosSeleccion(seleccionesDe(quinielas[i])).reduce((acc, pesos) => acc + pesos.E, 0);
+      empatesPorQuiniela.push(empates);
+      const texto = Number.isInteger(empates) ? String(empates) : empates.toFixed(1);
+
+      if (empates < this.reglas.empatesMin) {
+        quinielasProblematicas.push(`Q-${i + 1}: ${texto} empates (mínimo ${this.reglas.empatesMin})`);
+        fueraDeRango.push(i);
+      } else if (empates > this.reglas.empatesMax) {
+        quinielasProblematicas.push(`Q-${i + 1}: ${texto} empates (máximo ${this.reglas.empatesMax})`);
+        fueraDeRango.push(i);
+      }
+    }
+
+    validacion.metricas.quinielas_fuera_empates = fueraDeRango;
+    validacion.metricas.empates_promedio = empatesPorQuiniela.reduce((a, b) => a + b, 0) / empatesPorQuiniela.length;
+    validacion.metricas.empates_rango = [Math.min(...empatesPorQuiniela), Math.max(...empatesPorQuiniela)];
+
+    if (quinielasProblematicas.length > 0) {
+      if (quinielasProblematicas.length > quinielas.length * 0.1) {
+        validacion.errores.push(`Muchas quinielas fuera del rango de empates: ${quinielasProblematicas.slice(0, 5).join(', ')}`);
+      } else {
+        validacion.warnings.push(...quinielasProblematicas);
+      }
+    }
+  }
+
+  validarConcentracion(quinielas: Quiniela[], validacion: ResultadoValidacion) {
+    const numQuinielas = quinielas.length;
+    if (numQuinielas === 0) return;
+
+    const concentracionesProblematicas: string[] = [];
+    const excedidas: ConcentracionExcedida[] = [];
+
+    for (let partidoIdx = 0; partidoIdx < this.reglas.numPartidos; partidoIdx++) {
+      const conteos: Record<Resultado, number> = { L: 0, E: 0, V: 0 };
+
+      for (const quiniela of quinielas) {
+        if (partidoIdx < quiniela.resultados.length) {
+          const pesos = pesosSeleccion([seleccionesDe(quiniela)[partidoIdx]])[0];
+          conteos.L += pesos.L;
+          conteos.E += pesos.E;
+          conteos.V += pesos.V;
+        }
+      }
+
+      const maxConcentracion = Math.max(...Object.values(conteos)) / numQuinielas;
+      const limiteAplicable = partidoIdx < this.reglas.partidosIniciales ?
+        this.reglas.concentracionMaxInicial :
+        this.reglas.concentracionMaxGeneral;
+
+      if (maxConcentracion > limiteAplicable) {
+        const resultadoConcentrado = (Object.keys(conteos) as Resultado[]).reduce((a, b) =>
+          conteos[a] > conteos[b] ? a : b
+        );
+        concentracionesProblematicas.push(
+          `Partido ${partidoIdx + 1}: ${(maxConcentracion * 100).toFixed(0)}% en '${resultadoConcentrado}' (límite: ${(limiteAplicable * 100).toFixed(0)}%)`
+        );
+        excedidas.push({ partido: partidoIdx, resultado: resultadoConcentrado, proporcion: maxConcentracion, limite: limiteAplicable });
+      }
+    }
+    validacion.metricas.concentraciones_excedidas = excedidas;
+
+    if (concentracionesProblematicas.length > 0) {
+      if (concentracionesProblematicas.length > 3) {
+        validacion.errores.push(`Múltiples violaciones de concentración: ${concentracionesProblematicas.slice(0, 3).join(', ')}`);
+      } else {
+        validacion.warnings.push(...concentracionesProblematicas);
+      }
+    }
+  }
+
+  calcularMetricas(quinielas: Quiniela[], validacion: ResultadoValidacion, partidosClasificados: ProbabilidadesPartido[] = []) {
+    if (quinielas.length === 0) return;
+
+    // Pr[≥11] en el juego regular (prob_11_plus_*), Pr[7] en Revancha (prob_7_*)
+    const { sufijoProb, aciertosPremio } = this.reglas;
+    const campoProb = `prob_${sufijoProb}` as keyof Quiniela;
+    const probsPremio = quinielas.map(q => (q[campoProb] as number | undefined) || 0);
+
+    validacion.metricas[`prob_${sufijoProb}_promedio`] = probsPremio.reduce((a, b) => a + b, 0) / probsPremio.length;
+    validacion.metricas[`prob_${sufijoProb}_max`] = Math.max(...probsPremio);
+    validacion.metricas[`prob_${sufijoProb}_min`] = Math.min(...probsPremio);
+
+    // Aproximación ingenua: supone quinielas independientes entre sí
+    const probIndependiente = 1 - probsPremio.reduce((acc, prob) => acc * (1 - prob), 1);
+    validacion.metricas[`prob_portafolio_${sufijoProb}_independiente`] = probIndependiente;
+
+    // Por linealidad de la esperanza, exacto aunque las quinielas estén correlacionadas
+    validacion.metricas.ganadores_esperados = probsPremio.reduce((a, b) => a + b, 0);
+
+    // Probabilidad del portafolio (al menos una quiniela premiada) sobre resultados compartidos
+    let probPortafolio = probIndependiente;
+    if (partidosClasificados.length === quinielas[0].resultados.length) {
+      const { distribucion, metodo } = calcularDistribucionPortafolio(
+        quinielas.map(seleccionesDe),
+        partidosClasificados,
+        this.simulacionesMontecarlo,
+        this.random
+      );
+      probPortafolio = probabilidadAlMenos(distribucion, aciertosPremio);
+      validacion.metricas.distribucion_mejor_aciertos = distribucion;
+      validacion.metricas.metodo_prob_portafolio = metodo;
+      this.calcularCorrelacionPares(quinielas, validacion, partidosClasificados);
+    } else {
+      validacion.metricas.metodo_prob_portafolio = 'independiente';
+    }
+    validacion.metricas[`prob_portafolio_${sufijoProb}`] = probPortafolio;
+
+    const columnas = quinielas.map(q => contarCombinaciones(seleccionesDe(q)));
+    const costoTotal = columnas.reduce((a, b) => a + b, 0) * this.reglas.precioBoleto;
+    validacion.metricas.columnas_totales = columnas.reduce((a, b) => a + b, 0);
+    validacion.metricas.boletos_multiples = columnas.filter(c => c > 1).length;
+    validacion.metricas.costo_total = costoTotal;
+    validacion.metricas.eficiencia = probPortafolio / (costoTotal / 1000);
+  }
+
+  /** Correlación de aciertos lograda por cada par de satélites (mismo `par_id`). */
+  calcularCorrelacionPares(quinielas: Quiniela[], validacion: ResultadoValidacion, partidosClasificados: ProbabilidadesPartido[]) {
+    const pares = new Map<number, Quiniela[]>();
+    for (const quiniela of quinielas) {
+      if (quiniela.par_id === undefined || quiniela.par_id === null) continue;
+      pares.set(quiniela.par_id, [...(pares.get(quiniela.par_id) || []), quiniela]);
+    }
+
+    const correlaciones: CorrelacionPar[] = [];
+    pares.forEach((miembros, parId) => {
+      if (miembros.length !== 2) return;
+      const [a, b] = miembros;
+      correlaciones.push({
+        par_id: parId,
+        ids: [a.id, b.id],
+        correlacion: calcularCorrelacionAciertos(seleccionesDe(a), seleccionesDe(b), partidosClasificados)
+      });
+    });
+    if (correlaciones.length === 0) return;
+
+    validacion.metricas.correlaciones_pares = correlaciones;
+    validacion.metricas.correlacion_pares_promedio =
+      correlaciones.reduce((acc, c) => acc + c.correlacion, 0) / correlaciones.length;
+  }
+}
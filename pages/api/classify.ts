@@ -0,0 +1,7 @@
+import { crearEndpointPost } from '@/lib/api';
+import { MatchClassifier, validarSolicitudClasificar } from '@/lib/progol';
+
+// POST /api/classify: partidos → partidos calibrados y clasificados
+export default crearEndpointPost(validarSolicitudClasificar, ({ partidos }) => ({
+  partidos_clasificados: new MatchClassifier().classifyMatches(partidos)
+}));
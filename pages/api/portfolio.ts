@@ -0,0 +1,49 @@
+import { crearEndpointPost } from '@/lib/api';
+import { ejecutarPipeline, validarSolicitudPortafolio } from '@/lib/progol';
+
+// POST /api/portfolio: partidos + config → Core, Satélites y validación (más Revancha si se envía)
+export default crearEndpointPost(validarSolicitudPortafolio, (solicitud) => {
+  const resultado = ejecutarPipeline({
+    partidosRegular: solicitud.partidos,
+    partidosRevancha: solicitud.partidos_revancha,
+    numQuinielas: solicitud.numQuinielas,
+    numQuinielasRevancha: solicitud.numQuinielasRevancha,
+    seed: solicitud.seed,
+    optimizar: solicitud.optimizar,
+    optimizador: solicitud.optimizador,
+    restricciones: solicitud.restricciones,
+    presupuesto: solicitud.presupuesto,
+    premios: solicitud.premios,
+    contrarian: solicitud.contrarian
+  });
+
+  return {
+    seed: solicitud.seed,
+    partidos_clasificados: resultado.partidosClasificados,
+    core: resultado.quinielas.filter(q => q.tipo === 'Core'),
+    satelites: resultado.quinielas.filter(q => q.tipo !== 'Core'),
+    validacion: resultado.validacion,
+    valor: resultado.valor,
+    ...(resultado.optimizacion ? {
+      optimizacion: {
+        scoreInicial: resultado.optimizacion.scoreInicial,
+        mejorScore: resultado.optimizacion.mejorScore,
+        penalizacionFinal: resultado.optimizacion.penalizacionFinal
+      }
+    } : {}),
+    ...(resultado.presupuesto ? {
+      presupuesto: {
+        presupuesto: resultado.presupuesto.presupuesto,
+        costo: resultado.presupuesto.costo,
+        alternativas: resultado.presupuesto.alternativas
+      }
+    } : {}),
+    ...(resultado.validacionRevancha ? {
+      revancha: {
+        partidos_clasificados: resultado.partidosRevanchaClasificados,
+        quinielas: resultado.quinielasRevancha,
+        validacion: resultado.validacionRevancha
+      }
+    } : {})
+  };
+});
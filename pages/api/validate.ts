@@ -0,0 +1,40 @@
+import { crearEndpointPost } from '@/lib/api';
+import {
+  MatchClassifier,
+  PortfolioGenerator,
+  PortfolioValidator,
+  contarCombinaciones,
+  pesosSeleccion,
+  validarSolicitudValidar
+} from '@/lib/progol';
+
+// POST /api/validate: quinielas (+ partidos opcionales para las probabilidades) → resultado de PortfolioValidator
+export default crearEndpointPost(validarSolicitudValidar, (solicitud) => {
+  const { quinielas, juego, partidos, seed, simulacionesMontecarlo, restricciones } = solicitud;
+  const partidosClasificados = new MatchClassifier(restricciones.calibracion).classifyMatches(partidos);
+  const generator = new PortfolioGenerator(seed, juego, restricciones);
+
+  // Sin partidos no hay probabilidades de premio: solo se revisan distribución, empates y concentración
+  const portafolio = quinielas.map((selecciones, i) => {
+    const id = `${generator.reglas.prefijoId}Q-${i + 1}`;
+    if (partidosClasificados.length === 0) {
+      const esMultiple = contarCombinaciones(selecciones) > 1;
+      return {
+        id,
+        tipo: 'Satelite' as const,
+        resultados: selecciones.map(s => s[0]),
+        ...(esMultiple ? { selecciones } : {}),
+        empates: pesosSeleccion(selecciones).reduce((acc, pesos) => acc + pesos.E, 0),
+        distribucion: generator.calcularDistribucion(selecciones)
+      };
+    }
+    return generator.construirQuinielaMultiple(id, 'Satelite', selecciones, partidosClasificados);
+  });
+
+  const validator = new PortfolioValidator(simulacionesMontecarlo, juego, seed, restricciones);
+
+  return {
+    quinielas: portafolio,
+    validacion: validator.validatePortfolio(portafolio, partidosClasificados)
+  };
+});
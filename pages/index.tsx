@@ -1,656 +1,210 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { BarChart } from '@/components/ui/bar-chart';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { AlertCircle, Target, TrendingUp, Download, Upload, Zap, BarChart3, Settings, Play, CheckCircle2, AlertTriangle, RefreshCw, FileDown, FileUp, Database, Bot, Brain, Gauge } from 'lucide-react';
-
-// ==================== CONFIGURACIÓN Y CONSTANTES ====================
-
-const PROGOL_CONFIG = {
-  // Distribución histórica de Progol (1,497+ concursos)
-  DISTRIBUCION_HISTORICA: { L: 0.38, E: 0.29, V: 0.33 },
-  RANGOS_HISTORICOS: {
-    L: [0.35, 0.41],
-    E: [0.25, 0.33],
-    V: [0.30, 0.36]
-  },
-  EMPATES_PROMEDIO: 4.33,
-  EMPATES_MIN: 4,
-  EMPATES_MAX: 6,
-  CONCENTRACION_MAX_GENERAL: 0.70,
-  CONCENTRACION_MAX_INICIAL: 0.60,
-
-  // Calibración Bayesiana
-  CALIBRACION: {
-    k1_forma: 0.15,
-    k2_lesiones: 0.10,
-    k3_contexto: 0.20
-  },
-
-  // Draw-Propensity Rule
-  DRAW_PROPENSITY: {
-    umbral_diferencia: 0.08,
-    boost_empate: 0.06
-  }
-};
-
-// ==================== UTILIDADES PRINCIPALES ====================
-
-class MatchClassifier {
-  // Propiedades de la clase declaradas
-  umbralAncla: number;
-  umbralDivisorMin: number;
-  umbralDivisorMax: number;
-  umbralEmpate: number;
-
-  constructor() {
-    this.umbralAncla = 0.60;
-    this.umbralDivisorMin = 0.40;
-    this.umbralDivisorMax = 0.60;
-    this.umbralEmpate = 0.30;
-  }
-
-  classifyMatches(partidos: any[]) {
-    return partidos.map((partido, i) => {
-      const partidoCalirado = this.aplicarCalibracionBayesiana(partido);
-      const clasificacion = this.clasificarPartido(partidoCalirado);
-
-      return {
-        id: i,
-        local: partido.local,
-        visitante: partido.visitante,
-        ...partidoCalirado,
-        clasificacion,
-        resultadoSugerido: this.getResultadoSugerido(partidoCalirado),
-        confianza: this.calcularConfianza(partidoCalirado)
-      };
-    });
-  }
-
-  aplicarCalibracionBayesiana(partido: any) {
-    const { k1_forma, k2_lesiones, k3_contexto } = PROGOL_CONFIG.CALIBRACION;
-
-    const deltaForma = partido.forma_diferencia || 0;
-    const lesionesImpact = partido.lesiones_impact || 0;
-    const contexto = partido.es_final ? 1.0 : 0.0;
-
-    const factorAjuste = 1 + k1_forma * deltaForma + k2_lesiones * lesionesImpact + k3_contexto * contexto;
-
-    let probLocal = partido.prob_local * factorAjuste;
-    let probEmpate = partido.prob_empate;
-    let probVisitante = partido.prob_visitante / Math.max(factorAjuste, 0.1);
-
-    // Aplicar Draw-Propensity Rule
-    if (Math.abs(probLocal - probVisitante) < PROGOL_CONFIG.DRAW_PROPENSITY.umbral_diferencia &&
-        probEmpate > Math.max(probLocal, probVisitante)) {
-      probEmpate = Math.min(probEmpate + PROGOL_CONFIG.DRAW_PROPENSITY.boost_empate, 0.95);
-    }
-
-    // Renormalizar
-    const total = probLocal + probEmpate + probVisitante;
-
-    return {
-      prob_local: probLocal / total,
-      prob_empate: probEmpate / total,
-      prob_visitante: probVisitante / total
-    };
-  }
-
-  clasificarPartido(partido: any) {
-    const probs = [partido.prob_local, partido.prob_empate, partido.prob_visitante];
-    const maxProb = Math.max(...probs);
-
-    if (maxProb > this.umbralAncla) return 'Ancla';
-    if (partido.prob_empate > this.umbralEmpate &&
-        partido.prob_empate >= Math.max(partido.prob_local, partido.prob_visitante)) {
-      return 'TendenciaEmpate';
-    }
-    if (maxProb >= this.umbralDivisorMin && maxProb < this.umbralDivisorMax) return 'Divisor';
-    return 'Neutro';
-  }
-
-  getResultadoSugerido(partido: any) {
-    const probs: { [key: string]: number } = {
-      L: partido.prob_local,
-      E: partido.prob_empate,
-      V: partido.prob_visitante
-    };
-    return Object.keys(probs).reduce((a, b) => probs[a] > probs[b] ? a : b);
-  }
-
-  calcularConfianza(partido: any) {
-    const probs = [partido.prob_local, partido.prob_empate, partido.prob_visitante];
-    probs.sort((a, b) => b - a);
-    return probs[0] - probs[1];
-  }
-}
-
-class PortfolioGenerator {
-  seed: number;
-
-  constructor(seed = 42) {
-    this.seed = seed;
-  }
-
-  generateCoreQuinielas(partidosClasificados: any[]) {
-    const coreQuinielas = [];
-
-    for (let i = 0; i < 4; i++) {
-      let quiniela = this.crearQuinielaBase(partidosClasificados);
-
-      if (i > 0) {
-        quiniela = this.aplicarVariacion(quiniela, partidosClasificados, i);
-      }
-
-      quiniela = this.ajustarEmpates(quiniela, partidosClasificados);
-
-      const quinielaObj = {
-        id: `Core-${i + 1}`,
-        tipo: 'Core',
-        resultados: quiniela,
-        empates: quiniela.filter(r => r === 'E').length,
-        prob_11_plus: this.calcularProb11Plus(quiniela, partidosClasificados),
-        distribucion: this.calcularDistribucion(quiniela)
-      };
-
-      coreQuinielas.push(quinielaObj);
-    }
-
-    return coreQuinielas;
-  }
-
-  crearQuinielaBase(partidosClasificados: any[]) {
-    const quiniela: string[] = [];
-    let empatesActuales = 0;
-
-    for (const partido of partidosClasificados) {
-      let resultado;
-
-      if (partido.clasificacion === 'Ancla') {
-        resultado = partido.resultadoSugerido;
-      } else if (partido.clasificacion === 'TendenciaEmpate' && empatesActuales < PROGOL_CONFIG.EMPATES_MAX) {
-        resultado = 'E';
-        empatesActuales++;
-      } else {
-        resultado = partido.resultadoSugerido;
-      }
-
-      if (resultado === 'E') empatesActuales++;
-      quiniela.push(resultado);
-    }
-
-    return quiniela;
-  }
-
-  generateSatelliteQuinielas(partidosClasificados: any[], quinielasCore: any[], numSatelites: number) {
-    const satelites: any[] = [];
-    const numPares = Math.floor(numSatelites / 2);
-
-    const partidosDivisor = partidosClasificados
-      .map((p, i) => ({ ...p, index: i }))
-      .filter(p => p.clasificacion === 'Divisor');
-
-    for (let par = 0; par < numPares; par++) {
-      const [satA, satB] = this.crearParSatelites(
-        partidosClasificados,
-        partidosDivisor,
-        par
-      );
-      satelites.push(satA, satB);
-    }
-
-    // Si número impar, crear uno adicional
-    if (numSatelites % 2 === 1) {
-      const satExtra = this.crearSateliteIndividual(partidosClasificados, satelites.length);
-      satelites.push(satExtra);
-    }
-
-    return satelites;
-  }
-
-  crearParSatelites(partidosClasificados: any[], partidosDivisor: any[], parId: number) {
-    const partidoPrincipal = partidosDivisor[parId % partidosDivisor.length]?.index || 0;
-
-    const quinielaA: string[] = [];
-    const quinielaB: string[] = [];
-
-    for (let i = 0; i < partidosClasificados.length; i++) {
-      const partido = partidosClasificados[i];
-
-      if (i === partidoPrincipal) {
-        // Anticorrelación en este partido
-        quinielaA.push(partido.resultadoSugerido);
-        quinielaB.push(this.getResultadoAlternativo(partido));
-      } else if (partido.clasificacion === 'Ancla') {
-        const resultado = partido.resultadoSugerido;
-        quinielaA.push(resultado);
-        quinielaB.push(resultado);
-      } else {
-        // Pequeña variación aleatoria
-        if (Math.random() < 0.3) {
-          quinielaA.push(partido.resultadoSugerido);
-          quinielaB.push(this.getResultadoAlternativo(partido));
-        } else {
-          const resultado = partido.resultadoSugerido;
-          quinielaA.push(resultado);
-          quinielaB.push(resultado);
-        }
-      }
-    }
-
-    const satA: any = {
-      id: `Sat-${parId * 2 + 1}A`,
-      tipo: 'Satelite',
-      resultados: this.ajustarEmpates(quinielaA, partidosClasificados),
-      par_id: parId
-    };
-
-    const satB: any = {
-      id: `Sat-${parId * 2 + 1}B`,
-      tipo: 'Satelite',
-      resultados: this.ajustarEmpates(quinielaB, partidosClasificados),
-      par_id: parId
-    };
-
-    // Calcular métricas
-    [satA, satB].forEach(sat => {
-      sat.empates = sat.resultados.filter((r: string) => r === 'E').length;
-      sat.prob_11_plus = this.calcularProb11Plus(sat.resultados, partidosClasificados);
-      sat.distribucion = this.calcularDistribucion(sat.resultados);
-    });
-
-    return [satA, satB];
-  }
-
-  crearSateliteIndividual(partidosClasificados: any[], sateliteId: number) {
-    let quiniela = this.crearQuinielaBase(partidosClasificados);
-
-    // Aplicar variación aleatoria
-    for (let i = 0; i < partidosClasificados.length; i++) {
-      const partido = partidosClasificados[i];
-      if (partido.clasificacion !== 'Ancla' && Math.random() < 0.4) {
-        quiniela[i] = this.getResultadoAlternativo(partido);
-      }
-    }
-
-    quiniela = this.ajustarEmpates(quiniela, partidosClasificados);
-
-    return {
-      id: `Sat-${sateliteId + 1}`,
-      tipo: 'Satelite',
-      resultados: quiniela,
-      empates: quiniela.filter(r => r === 'E').length,
-      prob_11_plus: this.calcularProb11Plus(quiniela, partidosClasificados),
-      distribucion: this.calcularDistribucion(quiniela),
-      par_id: null
-    };
-  }
-
-  getResultadoAlternativo(partido: any) {
-    const probs = [
-      { resultado: 'L', prob: partido.prob_local },
-      { resultado: 'E', prob: partido.prob_empate },
-      { resultado: 'V', prob: partido.prob_visitante }
-    ];
-
-    probs.sort((a, b) => b.prob - a.prob);
-    return probs[1].resultado; // Segunda opción más probable
-  }
-
-  ajustarEmpates(quiniela: any[], partidosClasificados: any[]) {
-    const empatesActuales = quiniela.filter(r => r === 'E').length;
-    const quinielaAjustada = [...quiniela];
-
-    if (empatesActuales < PROGOL_CONFIG.EMPATES_MIN) {
-      // Necesitamos más empates
-      const empatesNecesarios = PROGOL_CONFIG.EMPATES_MIN - empatesActuales;
-      const candidatos: any[] = [];
-
-      for (let i = 0; i < quinielaAjustada.length; i++) {
-        if (quinielaAjustada[i] !== 'E' && partidosClasificados[i].prob_empate > 0.20) {
-          candidatos.push({ index: i, prob: partidosClasificados[i].prob_empate });
-        }
-      }
-
-      candidatos.sort((a, b) => b.prob - a.prob);
-
-      for (let i = 0; i < Math.min(empatesNecesarios, candidatos.length); i++) {
-        quinielaAjustada[candidatos[i].index] = 'E';
-      }
-    } else if (empatesActuales > PROGOL_CONFIG.EMPATES_MAX) {
-      // Demasiados empates
-      const empatesExceso = empatesActuales - PROGOL_CONFIG.EMPATES_MAX;
-      const candidatosEmpate: any[] = [];
-
-      for (let i = 0; i < quinielaAjustada.length; i++) {
-        if (quinielaAjustada[i] === 'E') {
-          candidatosEmpate.push({ index: i, prob: partidosClasificados[i].prob_empate });
-        }
-      }
-
-      candidatosEmpate.sort((a, b) => a.prob - b.prob);
-
-      for (let i = 0; i < Math.min(empatesExceso, candidatosEmpate.length); i++) {
-        const idx = candidatosEmpate[i].index;
-        quinielaAjustada[idx] = partidosClasificados[idx].resultadoSugerido;
-      }
-    }
-
-    return quinielaAjustada;
-  }
-
-  aplicarVariacion(quiniela: any[], partidosClasificados: any[], variacion: number) {
-    const quinielaVariada = [...quiniela];
-    const candidatos: number[] = [];
-
-    for (let i = 0; i < partidosClasificados.length; i++) {
-      if (partidosClasificados[i].clasificacion !== 'Ancla') {
-        candidatos.push(i);
-      }
-    }
-
-    const numCambios = Math.min(2 + variacion, candidatos.length);
-    const indicesCambio = this.shuffleArray(candidatos).slice(0, numCambios);
-
-    for (const idx of indicesCambio) {
-      quinielaVariada[idx] = this.getResultadoAlternativo(partidosClasificados[idx]);
-    }
-
-    return quinielaVariada;
-  }
-
-  shuffleArray(array: any[]) {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
-  }
-
-  calcularProb11Plus(quiniela: any[], partidosClasificados: any[]) {
-    // Aproximación Monte Carlo simplificada
-    const numSimulaciones = 1000;
-    let aciertos11Plus = 0;
-
-    for (let sim = 0; sim < numSimulaciones; sim++) {
-      let aciertos = 0;
-
-      for (let i = 0; i < quiniela.length; i++) {
-        const partido = partidosClasificados[i];
-        const resultado = quiniela[i];
-        let prob;
-
-        if (resultado === 'L') prob = partido.prob_local;
-        else if (resultado === 'E') prob = partido.prob_empate;
-        else prob = partido.prob_visitante;
-
-        if (Math.random() < prob) aciertos++;
-      }
-
-      if (aciertos >= 11) aciertos11Plus++;
-    }
-
-    return aciertos11Plus / numSimulaciones;
-  }
-
-  calcularDistribucion(quiniela: any[]) {
-    const total = quiniela.length;
-    return {
-      L: quiniela.filter(r => r === 'L').length / total,
-      E: quiniela.filter(r => r === 'E').length / total,
-      V: quiniela.filter(r => r === 'V').length / total
-    };
-  }
-}
-
-class PortfolioValidator {
-  validatePortfolio(quinielas: any[]) {
-    const validacion: any = {
-      es_valido: true,
-      warnings: [],
-      errores: [],
-      metricas: {}
-    };
-
-    if (!quinielas || quinielas.length === 0) {
-      validacion.es_valido = false;
-      validacion.errores.push("No hay quinielas en el portafolio");
-      return validacion;
-    }
-
-    this.validarDistribucionGlobal(quinielas, validacion);
-    this.validarEmpatesIndividuales(quinielas, validacion);
-    this.validarConcentracion(quinielas, validacion);
-    this.calcularMetricas(quinielas, validacion);
-
-    if (validacion.errores.length > 0) {
-      validacion.es_valido = false;
-    } else if (validacion.warnings.length > 3) {
-      validacion.es_valido = false;
-      validacion.errores.push("Demasiadas advertencias en la validación");
-    }
-
-    return validacion;
-  }
-
-  validarDistribucionGlobal(quinielas: any[], validacion: any) {
-    const totalPredicciones = quinielas.length * 14;
-    const conteos: { [key: string]: number } = { L: 0, E: 0, V: 0 };
-
-    for (const quiniela of quinielas) {
-      for (const resultado of quiniela.resultados) {
-        conteos[resultado]++;
-      }
-    }
-
-    const distribucionGlobal = {
-      L: conteos.L / totalPredicciones,
-      E: conteos.E / totalPredicciones,
-      V: conteos.V / totalPredicciones
-    };
-
-    validacion.metricas.distribucion_global = distribucionGlobal;
-
-    for (const [resultado, proporcion] of Object.entries(distribucionGlobal)) {
-      const [minVal, maxVal] = (PROGOL_CONFIG.RANGOS_HISTORICOS as any)[resultado];
-
-      if (proporcion < minVal) {
-        const diferencia = minVal - proporcion;
-        if (diferencia > 0.03) {
-          validacion.errores.push(
-            `Distribución ${resultado}: ${(proporcion * 100).toFixed(1)}% muy por debajo del mínimo ${(minVal * 100).toFixed(1)}%`
-          );
-        } else {
-          validacion.warnings.push(
-            `Distribución ${resultado}: ${(proporcion * 100).toFixed(1)}% ligeramente bajo (mín: ${(minVal * 100).toFixed(1)}%)`
-          );
-        }
-      } else if (proporcion > maxVal) {
-        const diferencia = proporcion - maxVal;
-        if (diferencia > 0.03) {
-          validacion.errores.push(
-            `Distribución ${resultado}: ${(proporcion * 100).toFixed(1)}% muy por encima del máximo ${(maxVal * 100).toFixed(1)}%`
-          );
-        } else {
-          validacion.warnings.push(
-            `Distribución ${resultado}: ${(proporcion * 100).toFixed(1)}% ligeramente alto (máx: ${(maxVal * 100).toFixed(1)}%)`
-          );
-        }
-      }
-    }
-  }
-
-  validarEmpatesIndividuales(quinielas: any[], validacion: any) {
-    const empatesPorQuiniela: number[] = [];
-    const quinielasProblematicas: string[] = [];
-
-    for (let i = 0; i < quinielas.length; i++) {
-      const empates = quinielas[i].resultados.filter((r: string) => r === 'E').length;
-      empatesPorQuiniela.push(empates);
-
-      if (empates < PROGOL_CONFIG.EMPATES_MIN) {
-        quinielasProblematicas.push(`Q-${i + 1}: ${empates} empates (mínimo ${PROGOL_CONFIG.EMPATES_MIN})`);
-      } else if (empates > PROGOL_CONFIG.EMPATES_MAX) {
-        quinielasProblematicas.push(`Q-${i + 1}: ${empates} empates (máximo ${PROGOL_CONFIG.EMPATES_MAX})`);
-      }
-    }
-
-    validacion.metricas.empates_promedio = empatesPorQuiniela.reduce((a, b) => a + b, 0) / empatesPorQuiniela.length;
-    validacion.metricas.empates_rango = [Math.min(...empatesPorQuiniela), Math.max(...empatesPorQuiniela)];
-
-    if (quinielasProblematicas.length > 0) {
-      if (quinielasProblematicas.length > quinielas.length * 0.1) {
-        validacion.errores.push(`Muchas quinielas fuera del rango de empates: ${quinielasProblematicas.slice(0, 5).join(', ')}`);
-      } else {
-        validacion.warnings.push(...quinielasProblematicas);
-      }
-    }
-  }
-
-  validarConcentracion(quinielas: any[], validacion: any) {
-    const numQuinielas = quinielas.length;
-    if (numQuinielas === 0) return;
-
-    const concentracionesProblematicas: string[] = [];
-
-    for (let partidoIdx = 0; partidoIdx < 14; partidoIdx++) {
-      const conteos: { [key: string]: number } = { L: 0, E: 0, V: 0 };
-
-      for (const quiniela of quinielas) {
-        if (partidoIdx < quiniela.resultados.length) {
-          conteos[quiniela.resultados[partidoIdx]]++;
-        }
-      }
-
-      const maxConcentracion = Math.max(...Object.values(conteos)) / numQuinielas;
-      const limiteAplicable = partidoIdx < 3 ?
-        PROGOL_CONFIG.CONCENTRACION_MAX_INICIAL :
-        PROGOL_CONFIG.CONCENTRACION_MAX_GENERAL;
-
-      if (maxConcentracion > limiteAplicable) {
-        const resultadoConcentrado = Object.keys(conteos).reduce((a, b) =>
-          conteos[a] > conteos[b] ? a : b
-        );
-        concentracionesProblematicas.push(
-          `Partido ${partidoIdx + 1}: ${(maxConcentracion * 100).toFixed(0)}% en '${resultadoConcentrado}' (límite: ${(limiteAplicable * 100).toFixed(0)}%)`
-        );
-      }
-    }
-
-    if (concentracionesProblematicas.length > 0) {
-      if (concentracionesProblematicas.length > 3) {
-        validacion.errores.push(`Múltiples violaciones de concentración: ${concentracionesProblematicas.slice(0, 3).join(', ')}`);
-      } else {
-        validacion.warnings.push(...concentracionesProblematicas);
-      }
-    }
-  }
-
-  calcularMetricas(quinielas: any[], validacion: any) {
-    if (quinielas.length === 0) return;
-
-    const probs11Plus = quinielas.map(q => q.prob_11_plus || 0);
-
-    validacion.metricas.prob_11_plus_promedio = probs11Plus.reduce((a, b) => a + b, 0) / probs11Plus.length;
-    validacion.metricas.prob_11_plus_max = Math.max(...probs11Plus);
-    validacion.metricas.prob_11_plus_min = Math.min(...probs11Plus);
-
-    // Probabilidad del portafolio (al menos una quiniela con 11+)
-    const probPortafolio = 1 - probs11Plus.reduce((acc, prob) => acc * (1 - prob), 1);
-    validacion.metricas.prob_portafolio_11_plus = probPortafolio;
-
-    const costoTotal = quinielas.length * 15; // MXN 15 por boleto
-    validacion.metricas.costo_total = costoTotal;
-    validacion.metricas.eficiencia = probPortafolio / (costoTotal / 1000);
-  }
-}
-
-// ==================== DATOS DE MUESTRA ====================
-
-const createSampleData = () => {
-  const equiposRegular = [
-    ['Real Madrid', 'Barcelona'],
-    ['Manchester United', 'Liverpool'],
-    ['PSG', 'Bayern Munich'],
-    ['Chelsea', 'Arsenal'],
-    ['Juventus', 'Inter Milan'],
-    ['Atletico Madrid', 'Sevilla'],
-    ['Borussia Dortmund', 'Bayern Leverkusen'],
-    ['AC Milan', 'Napoli'],
-    ['Ajax', 'PSV'],
-    ['Porto', 'Benfica'],
-    ['Lyon', 'Marseille'],
-    ['Valencia', 'Athletic Bilbao'],
-    ['Roma', 'Lazio'],
-    ['Tottenham', 'West Ham']
-  ];
-
-  const equiposRevancha = [
-    ['Flamengo', 'Palmeiras'],
-    ['Boca Juniors', 'River Plate'],
-    ['América', 'Chivas'],
-    ['São Paulo', 'Corinthians'],
-    ['Cruz Azul', 'Pumas'],
-    ['Santos', 'Fluminense'],
-    ['Monterrey', 'Tigres']
-  ];
-
-  const generatePartidos = (equipos: any[], withFinals = false) => {
-    return equipos.map(([local, visitante], i) => {
-      const rand = Math.random();
-      const probLocal = 0.25 + rand * 0.3;
-      const probEmpate = 0.2 + rand * 0.2;
-      const probVisitante = 1 - probLocal - probEmpate;
-
-      return {
-        local,
-        visitante,
-        prob_local: probLocal,
-        prob_empate: probEmpate,
-        prob_visitante: probVisitante,
-        es_final: withFinals && (i === 0 || i === 2),
-        forma_diferencia: Math.floor((Math.random() - 0.5) * 4),
-        lesiones_impact: Math.floor((Math.random() - 0.5) * 2)
-      };
-    });
-  };
-
-  return {
-    partidos_regular: generatePartidos(equiposRegular, true),
-    partidos_revancha: generatePartidos(equiposRevancha, true)
-  };
-};
+import { LineChart } from '@/components/ui/line-chart';
+import { ReliabilityChart } from '@/components/ui/reliability-chart';
+import { AlertCircle, Target, TrendingUp, Download, Upload, Zap, BarChart3, Settings, Play, CheckCircle2, AlertTriangle, RefreshCw, FileDown, FileUp, Database, Bot, Brain, Gauge, Users } from 'lucide-react';
+import {
+  MatchClassifier,
+  PortfolioGenerator,
+  PortfolioOptimizer,
+  PortfolioValidator,
+  PROGOL_CONFIG,
+  OPTIMIZER_CONFIG,
+  PARAMETROS_OPTIMIZADOR,
+  PREMIOS_DEFAULT,
+  PRESETS_PREDEFINIDOS,
+  RESTRICCIONES_DEFAULT,
+  VERSION_MOTOR,
+  createSampleData,
+  actualizarEloConConcurso,
+  actualizarEloConMarcadores,
+  buscarEquipoElo,
+  completarConElo,
+  crearTablaElo,
+  formaElo,
+  leerTablaElo,
+  probabilidadesElo,
+  analizarJSONPortafolio,
+  analizarTextoProgol,
+  reconstruirPortafolio,
+  agregarQuiniela,
+  crearPilaDeshacer,
+  deshacer,
+  duplicarQuiniela,
+  editarSeleccion,
+  eliminarQuiniela,
+  moverQuiniela,
+  registrarCambio,
+  rehacer,
+  siguienteResultado,
+  actualizarSesion,
+  crearSesion,
+  duplicarSesion,
+  estadoSinDatos,
+  leerSesion,
+  ordenarSesiones,
+  ajustarCalibracion,
+  ajustarModelosGoles,
+  analizarHistorialResultados,
+  analizarMarcadoresCSV,
+  aplicarPredicciones,
+  predecirPartidos,
+  calcularObjetivosHistoricos,
+  restriccionesDeObjetivos,
+  usaObjetivos,
+  ejecutarPipelineRevancha,
+  analizarPartidosCSV,
+  aplicarMetodoMargen,
+  calificarConcurso,
+  concursoDesdeExportacion,
+  crearConcurso,
+  leerConcurso,
+  resumirHistorial,
+  METODOS_MARGEN,
+  calcularCostos,
+  calcularDistribucionAciertos,
+  calcularMatrizCorrelacion,
+  calcularMomentosAciertos,
+  calcularValorPortafolio,
+  popularidadDe,
+  probabilidadAlMenos,
+  coberturasPorDefecto,
+  seleccionesDe,
+  generarSistemaReducido,
+  generarCSVPortafolio,
+  generarJSONPortafolio,
+  generarTextoProgol,
+  partidosJugados,
+  validarConfiguracionBacktest,
+  validarHistorialBacktest,
+  validarRestricciones
+} from '@/lib/progol';
+import type {
+  Cobertura,
+  Concurso,
+  ConcursoHistorico,
+  EstadoSesion,
+  EvaluacionCalibracion,
+  GarantiaSistema,
+  ImportacionCSV,
+  Juego,
+  MetodoMargen,
+  MetricaCalibracion,
+  ModeloGoles,
+  ObjetivosHistoricos,
+  ParametrosCalibracion,
+  ParametrosGeneracion,
+  ParametrosPremios,
+  Partido,
+  PartidoClasificado,
+  PilaDeshacer,
+  PresetRestricciones,
+  Quiniela,
+  RestriccionesPortafolio,
+  Resultado,
+  ResultadoCalibracion,
+  ResultadoOptimizacion,
+  ResultadoPresupuesto,
+  ResultadoValidacion,
+  ResultadosConcurso,
+  Sesion,
+  SistemaReducido,
+  TablaElo
+} from '@/lib/progol';
+
+// Presets de restricciones guardados por el usuario en el navegador
+const CLAVE_PRESETS = 'progol-presets';
+// Historial de concursos jugados, con sus resultados reales
+const CLAVE_CONCURSOS = 'progol-concursos';
+// Calibración ajustada con el historial, en el formato de `progol calibrate`
+const CLAVE_CALIBRACION = 'progol-calibracion';
+// Ratings Elo de los equipos, actualizados con los concursos registrados
+const CLAVE_ELO = 'progol-elo';
+// Sesiones de trabajo por concurso y la que estaba abierta al cerrar la página
+const CLAVE_SESIONES = 'progol-sesiones';
+const CLAVE_SESION_ACTIVA = 'progol-sesion-activa';
+// Espera tras el último cambio antes de guardar la sesión abierta
+const RETARDO_GUARDADO_MS = 1000;
 
 // ==================== COMPONENTE PRINCIPAL ====================
 
 export default function Home() {
   // Estados principales
-  const [partidosRegular, setPartidosRegular] = useState<any[]>([]);
-  const [partidosRevancha, setPartidosRevancha] = useState<any[]>([]);
-  const [partidosClasificados, setPartidosClasificados] = useState<any[]>([]);
-  const [quinielasCore, setQuinielasCore] = useState<any[]>([]);
-  const [quinielasSatelites, setQuinielasSatelites] = useState<any[]>([]);
-  const [quinielasFinales, setQuinielasFinales] = useState<any[]>([]);
-  const [validacion, setValidacion] = useState<any>(null);
+  const [partidosRegular, setPartidosRegular] = useState<Partido[]>([]);
+  const [partidosRevancha, setPartidosRevancha] = useState<Partido[]>([]);
+  const [partidosClasificados, setPartidosClasificados] = useState<PartidoClasificado[]>([]);
+  const [quinielasCore, setQuinielasCore] = useState<Quiniela[]>([]);
+  const [quinielasSatelites, setQuinielasSatelites] = useState<Quiniela[]>([]);
+  const [quinielasFinales, setQuinielasFinales] = useState<Quiniela[]>([]);
+  const [validacion, setValidacion] = useState<ResultadoValidacion | null>(null);
+  const [optimizacion, setOptimizacion] = useState<ResultadoOptimizacion | null>(null);
+  const [verificacionMC, setVerificacionMC] = useState<any>(null);
+  const [partidosRevanchaClasificados, setPartidosRevanchaClasificados] = useState<PartidoClasificado[]>([]);
+  const [quinielasRevancha, setQuinielasRevancha] = useState<Quiniela[]>([]);
+  const [validacionRevancha, setValidacionRevancha] = useState<ResultadoValidacion | null>(null);
+  const [coberturasSistema, setCoberturasSistema] = useState<Cobertura[]>([]);
+  const [garantiaSistema, setGarantiaSistema] = useState<GarantiaSistema>({ aciertos: 13, si: 14 });
+  const [sistemaReducido, setSistemaReducido] = useState<{ sistema: SistemaReducido; validacion: ResultadoValidacion } | null>(null);
+  const [repartoPresupuesto, setRepartoPresupuesto] = useState<{ reparto: ResultadoPresupuesto; validacion: ResultadoValidacion } | null>(null);
+  const [quinielaGrafica, setQuinielaGrafica] = useState<string | null>(null);
+  // Cambios hechos a mano en la tabla de quinielas; el ref distingue esos cambios de un portafolio nuevo
+  const [pilaEdicion, setPilaEdicion] = useState<PilaDeshacer<Quiniela[]>>(crearPilaDeshacer);
+  const ultimaEdicion = useRef<Quiniela[] | null>(null);
+  const [importacionCSV, setImportacionCSV] = useState<{ juego: Juego; archivo: string; resultado: ImportacionCSV } | null>(null);
+  // Modelo de goles ajustado con marcadores pasados y partido cuya matriz de marcadores se muestra
+  const [modeloGoles, setModeloGoles] = useState<{ archivo: string; modelos: ModeloGoles[]; omitidas: number } | null>(null);
+  const [partidoModelo, setPartidoModelo] = useState<{ juego: Juego; indice: number } | null>(null);
 
   // Estados de UI
   const [activeTab, setActiveTab] = useState('datos');
   const [loading, setLoading] = useState(false);
-  const [config, setConfig] = useState({
+  const [config, setConfig] = useState<ParametrosGeneracion>({
     numQuinielas: 20,
-    empatesMin: 4,
-    empatesMax: 6,
-    concentracionGeneral: 0.70,
-    concentracionInicial: 0.60,
-    correlacionTarget: -0.35
+    numQuinielasRevancha: 10,
+    seed: 42,
+    metodoMargen: 'proporcional',
+    presupuesto: 300
   });
 
   // NUEVO ESTADO PARA PARÁMETROS DE OPTIMIZACIÓN
-  const [optimizerConfig, setOptimizerConfig] = useState({
-    iteracionesOptimizador: 2000,
-    temperaturaInicial: 0.05,
-    tasaEnfriamiento: 0.92,
-    simulacionesMontecarlo: 1000,
-  });
+  const [optimizerConfig, setOptimizerConfig] = useState(PARAMETROS_OPTIMIZADOR);
+
+  // Restricciones del portafolio (empates, concentración, rangos L/E/V y calibración)
+  const [restricciones, setRestricciones] = useState<RestriccionesPortafolio>(RESTRICCIONES_DEFAULT);
+  const [presetsGuardados, setPresetsGuardados] = useState<PresetRestricciones[]>([]);
+  const [presetActivo, setPresetActivo] = useState('estandar');
+  const [nombrePreset, setNombrePreset] = useState('');
+
+  // Draw-Propensity activa y último ajuste de la calibración contra partidos jugados
+  const [drawPropensity, setDrawPropensity] = useState(PROGOL_CONFIG.DRAW_PROPENSITY);
+  const [metricaCalibracion, setMetricaCalibracion] = useState<MetricaCalibracion>('logloss');
+  const [ajusteCalibracion, setAjusteCalibracion] = useState<{ origen: string; resultado: ResultadoCalibracion } | null>(null);
+
+  // Historial de resultados importado y objetivos L/E/V aplicados a las restricciones
+  const [historialResultados, setHistorialResultados] = useState<{ archivo: string; concursos: ResultadosConcurso[] } | null>(null);
+  const [ventanaObjetivos, setVentanaObjetivos] = useState<number>(PROGOL_CONFIG.OBJETIVOS.VENTANA_ANIOS);
+  const [objetivosHistoricos, setObjetivosHistoricos] = useState<ObjetivosHistoricos | null>(null);
+
+  // Bolsa estimada y reparto por categoría para el valor esperado y el modo contrarian
+  const [premios, setPremios] = useState<ParametrosPremios>(PREMIOS_DEFAULT);
+
+  // Historial de concursos
+  const [concursos, setConcursos] = useState<Concurso[]>([]);
+  const [concursoActivo, setConcursoActivo] = useState<number | null>(null);
+  const [numeroConcurso, setNumeroConcurso] = useState(1);
+
+  // Ratings Elo por equipo y equipo cuyo historial se grafica
+  const [tablaElo, setTablaElo] = useState<TablaElo>(crearTablaElo);
+  const [equipoElo, setEquipoElo] = useState<string | null>(null);
+  const [ligaElo, setLigaElo] = useState('');
+
+  // Sesiones guardadas en el navegador; la activa se guarda sola con cada cambio
+  const [sesiones, setSesiones] = useState<Sesion[]>([]);
+  const [sesionActiva, setSesionActiva] = useState<string | null>(null);
+  const [sesionesCargadas, setSesionesCargadas] = useState(false);
+  const [nombreSesion, setNombreSesion] = useState('');
+  const [errorSesiones, setErrorSesiones] = useState<string | null>(null);
 
   // Configuración del progreso
   const [progress, setProgress] = useState({
@@ -673,13 +227,238 @@ export default function Home() {
     }));
   }, [partidosRegular, partidosClasificados, quinielasCore, quinielasSatelites, quinielasFinales]);
 
+  // Cargar los presets guardados; se descartan los que ya no cumplen el esquema
+  useEffect(() => {
+    try {
+      const guardados = JSON.parse(localStorage.getItem(CLAVE_PRESETS) || '[]');
+      if (!Array.isArray(guardados)) return;
+      const validos: PresetRestricciones[] = [];
+      for (const preset of guardados) {
+        const resultado = validarRestricciones(preset?.restricciones);
+        if (typeof preset?.nombre === 'string' && resultado.ok) {
+          validos.push({ nombre: preset.nombre, restricciones: resultado.datos });
+        }
+      }
+      setPresetsGuardados(validos);
+    } catch (error) {
+      console.error('Error leyendo presets guardados:', error);
+    }
+  }, []);
+
+  // Cargar el historial de concursos; se descartan los registros dañados
+  useEffect(() => {
+    try {
+      const guardados = JSON.parse(localStorage.getItem(CLAVE_CONCURSOS) || '[]');
+      if (!Array.isArray(guardados)) return;
+      const validos = guardados.map(leerConcurso).filter((c): c is Concurso => c !== null);
+      setConcursos(validos);
+      if (validos.length > 0) setNumeroConcurso(Math.max(...validos.map(c => c.numero)) + 1);
+    } catch (error) {
+      console.error('Error leyendo el historial de concursos:', error);
+    }
+  }, []);
+
+  // Cargar la calibración activa guardada
+  useEffect(() => {
+    try {
+      const guardada = localStorage.getItem(CLAVE_CALIBRACION);
+      if (!guardada) return;
+      const resultado = validarConfiguracionBacktest(JSON.parse(guardada));
+      if (!resultado.ok) return;
+      setRestricciones(prev => ({ ...prev, calibracion: resultado.datos.restricciones.calibracion ?? prev.calibracion }));
+      setDrawPropensity(resultado.datos.umbrales.drawPropensity ?? PROGOL_CONFIG.DRAW_PROPENSITY);
+      setPresetActivo('');
+    } catch (error) {
+      console.error('Error leyendo la calibración guardada:', error);
+    }
+  }, []);
+
+  // Cargar los ratings Elo guardados
+  useEffect(() => {
+    try {
+      const tabla = leerTablaElo(JSON.parse(localStorage.getItem(CLAVE_ELO) || 'null'));
+      if (tabla) setTablaElo(tabla);
+    } catch (error) {
+      console.error('Error leyendo los ratings Elo:', error);
+    }
+  }, []);
+
+  const estadoSesion = useMemo<EstadoSesion>(() => ({
+    numeroConcurso,
+    partidosRegular,
+    partidosRevancha,
+    partidosClasificados,
+    partidosRevanchaClasificados,
+    quinielasCore,
+    quinielasSatelites,
+    quinielasFinales,
+    quinielasRevancha,
+    validacion,
+    validacionRevancha,
+    config,
+    optimizerConfig,
+    restricciones,
+    drawPropensity,
+    premios,
+    objetivosHistoricos
+  }), [
+    numeroConcurso, partidosRegular, partidosRevancha, partidosClasificados, partidosRevanchaClasificados,
+    quinielasCore, quinielasSatelites, quinielasFinales, quinielasRevancha, validacion, validacionRevancha,
+    config, optimizerConfig, restricciones, drawPropensity, premios, objetivosHistoricos
+  ]);
+
+  // Lo calculado a partir del estado (optimización, Monte Carlo, sistemas) se descarta
+  const aplicarEstadoSesion = useCallback((estado: EstadoSesion) => {
+    setNumeroConcurso(estado.numeroConcurso);
+    setPartidosRegular(estado.partidosRegular);
+    setPartidosRevancha(estado.partidosRevancha);
+    setPartidosClasificados(estado.partidosClasificados);
+    setPartidosRevanchaClasificados(estado.partidosRevanchaClasificados);
+    setQuinielasCore(estado.quinielasCore);
+    setQuinielasSatelites(estado.quinielasSatelites);
+    setQuinielasFinales(estado.quinielasFinales);
+    setQuinielasRevancha(estado.quinielasRevancha);
+    setValidacion(estado.validacion);
+    setValidacionRevancha(estado.validacionRevancha);
+    setConfig(estado.config);
+    setOptimizerConfig(estado.optimizerConfig);
+    setRestricciones(estado.restricciones);
+    setDrawPropensity(estado.drawPropensity);
+    setPremios(estado.premios);
+    setObjetivosHistoricos(estado.objetivosHistoricos);
+    setPresetActivo('');
+    setOptimizacion(null);
+    setVerificacionMC(null);
+    setCoberturasSistema(coberturasPorDefecto(estado.partidosClasificados));
+    setSistemaReducido(null);
+    setRepartoPresupuesto(null);
+    setQuinielaGrafica(null);
+    setImportacionCSV(null);
+  }, []);
+
+  const seleccionarSesion = useCallback((id: string | null) => {
+    setSesionActiva(id);
+    try {
+      if (id) {
+        localStorage.setItem(CLAVE_SESION_ACTIVA, id);
+      } else {
+        localStorage.removeItem(CLAVE_SESION_ACTIVA);
+      }
+    } catch (error) {
+      console.error('Error guardando la sesión activa:', error);
+    }
+  }, []);
+
+  // Los errores se muestran en la tarjeta de sesiones: el guardado automático no debe abrir alertas
+  const guardarSesiones = useCallback((lista: Sesion[]) => {
+    const ordenadas = ordenarSesiones(lista);
+    setSesiones(ordenadas);
+    try {
+      localStorage.setItem(CLAVE_SESIONES, JSON.stringify(ordenadas));
+      setErrorSesiones(null);
+    } catch (error) {
+      console.error('Error guardando las sesiones:', error);
+      setErrorSesiones('No se pudieron guardar las sesiones en este navegador (¿espacio lleno?)');
+    }
+  }, []);
+
+  // Cargar las sesiones y reabrir la que estaba activa
+  useEffect(() => {
+    try {
+      const guardadas = JSON.parse(localStorage.getItem(CLAVE_SESIONES) || '[]');
+      if (!Array.isArray(guardadas)) return;
+      const validas = ordenarSesiones(guardadas.map(leerSesion).filter((s): s is Sesion => s !== null));
+      setSesiones(validas);
+      const activa = validas.find(s => s.id === localStorage.getItem(CLAVE_SESION_ACTIVA));
+      if (activa) {
+        aplicarEstadoSesion(activa.estado);
+        setSesionActiva(activa.id);
+        setNombreSesion(activa.nombre);
+      }
+    } catch (error) {
+      console.error('Error leyendo las sesiones guardadas:', error);
+    } finally {
+      setSesionesCargadas(true);
+    }
+  }, [aplicarEstadoSesion]);
+
+  // Guardado automático: la primera vez que hay partidos se crea la sesión del concurso
+  useEffect(() => {
+    if (!sesionesCargadas) return;
+    const activa = sesiones.find(s => s.id === sesionActiva);
+    if (!activa && estadoSesion.partidosRegular.length === 0 && estadoSesion.partidosRevancha.length === 0) return;
+    if (activa && JSON.stringify(activa.estado) === JSON.stringify(estadoSesion)) return;
+
+    const temporizador = setTimeout(() => {
+      if (activa) {
+        guardarSesiones(sesiones.map(s => (s.id === activa.id ? actualizarSesion(s, estadoSesion) : s)));
+      } else {
+        const nueva = crearSesion('', estadoSesion);
+        guardarSesiones([nueva, ...sesiones]);
+        seleccionarSesion(nueva.id);
+        setNombreSesion(nueva.nombre);
+      }
+    }, RETARDO_GUARDADO_MS);
+    return () => clearTimeout(temporizador);
+  }, [sesionesCargadas, sesiones, sesionActiva, estadoSesion, guardarSesiones, seleccionarSesion]);
+
+  // Sesiones con los últimos cambios de la activa, por si el guardado automático no ha corrido
+  const sesionesAlDia = useCallback(() => sesiones.map(s =>
+    s.id === sesionActiva && JSON.stringify(s.estado) !== JSON.stringify(estadoSesion) ? actualizarSesion(s, estadoSesion) : s
+  ), [sesiones, sesionActiva, estadoSesion]);
+
+  const abrirSesion = useCallback((id: string) => {
+    const sesion = sesiones.find(s => s.id === id);
+    if (!sesion || id === sesionActiva) return;
+    guardarSesiones(sesionesAlDia());
+    aplicarEstadoSesion(sesion.estado);
+    seleccionarSesion(id);
+    setNombreSesion(sesion.nombre);
+  }, [sesiones, sesionActiva, sesionesAlDia, guardarSesiones, aplicarEstadoSesion, seleccionarSesion]);
+
+  // Sesión en blanco para el siguiente concurso; se conserva la configuración
+  const nuevaSesion = useCallback(() => {
+    guardarSesiones(sesionesAlDia());
+    aplicarEstadoSesion(estadoSinDatos(
+      estadoSesion,
+      Math.max(numeroConcurso + (sesionActiva ? 1 : 0), ...concursos.map(c => c.numero + 1))
+    ));
+    seleccionarSesion(null);
+    setNombreSesion('');
+  }, [estadoSesion, numeroConcurso, sesionActiva, concursos, sesionesAlDia, guardarSesiones, aplicarEstadoSesion, seleccionarSesion]);
+
+  const duplicarSesionGuardada = useCallback((id: string) => {
+    const actuales = sesionesAlDia();
+    const sesion = actuales.find(s => s.id === id);
+    if (!sesion) return;
+    guardarSesiones([...actuales, duplicarSesion(sesion, actuales)]);
+  }, [sesionesAlDia, guardarSesiones]);
+
+  const renombrarSesion = useCallback(() => {
+    const nombre = nombreSesion.trim();
+    if (!sesionActiva || !nombre) return;
+    guardarSesiones(sesionesAlDia().map(s => (s.id === sesionActiva ? { ...s, nombre } : s)));
+  }, [nombreSesion, sesionActiva, sesionesAlDia, guardarSesiones]);
+
+  const eliminarSesion = useCallback((id: string) => {
+    const sesion = sesiones.find(s => s.id === id);
+    if (!sesion || !confirm(`¿Eliminar la sesión "${sesion.nombre}"?`)) return;
+    guardarSesiones(sesiones.filter(s => s.id !== id));
+    // Sin esto el guardado automático volvería a crearla con los datos en pantalla
+    if (id === sesionActiva) {
+      aplicarEstadoSesion(estadoSinDatos(estadoSesion));
+      seleccionarSesion(null);
+      setNombreSesion('');
+    }
+  }, [sesiones, sesionActiva, estadoSesion, guardarSesiones, aplicarEstadoSesion, seleccionarSesion]);
+
   // ==================== FUNCIONES PRINCIPALES ====================
 
   const cargarDatosMuestra = useCallback(() => {
-    const sampleData = createSampleData();
+    const sampleData = createSampleData(config.seed);
     setPartidosRegular(sampleData.partidos_regular);
     setPartidosRevancha(sampleData.partidos_revancha);
-  }, []);
+  }, [config.seed]);
 
   const clasificarPartidos = useCallback(async () => {
     if (partidosRegular.length < 14) {
@@ -689,16 +468,18 @@ export default function Home() {
 
     setLoading(true);
     try {
-      const classifier = new MatchClassifier();
+      const classifier = new MatchClassifier(restricciones.calibracion, { drawPropensity });
       const clasificados = classifier.classifyMatches(partidosRegular);
       setPartidosClasificados(clasificados);
+      setCoberturasSistema(coberturasPorDefecto(clasificados));
+      setSistemaReducido(null);
     } catch (error) {
       console.error('Error clasificando partidos:', error);
       alert('Error al clasificar partidos');
     } finally {
       setLoading(false);
     }
-  }, [partidosRegular]);
+  }, [partidosRegular, restricciones.calibracion, drawPropensity]);
 
   const generarQuinielasCore = useCallback(async () => {
     if (partidosClasificados.length === 0) {
@@ -708,7 +489,7 @@ export default function Home() {
 
     setLoading(true);
     try {
-      const generator = new PortfolioGenerator();
+      const generator = new PortfolioGenerator(config.seed, 'regular', restricciones);
       const core = generator.generateCoreQuinielas(partidosClasificados);
       setQuinielasCore(core);
     } catch (error) {
@@ -717,7 +498,7 @@ export default function Home() {
     } finally {
       setLoading(false);
     }
-  }, [partidosClasificados]);
+  }, [partidosClasificados, config.seed, restricciones]);
 
   const generarQuinielasSatelites = useCallback(async () => {
     if (quinielasCore.length === 0) {
@@ -727,7 +508,7 @@ export default function Home() {
 
     setLoading(true);
     try {
-      const generator = new PortfolioGenerator();
+      const generator = new PortfolioGenerator(config.seed, 'regular', restricciones);
       const numSatelites = config.numQuinielas - 4;
       const satelites = generator.generateSatelliteQuinielas(
         partidosClasificados,
@@ -741,7 +522,29 @@ export default function Home() {
     } finally {
       setLoading(false);
     }
-  }, [quinielasCore, partidosClasificados, config.numQuinielas]);
+  }, [quinielasCore, partidosClasificados, config.numQuinielas, config.seed, restricciones]);
+
+  const optimizarPortafolio = useCallback(async () => {
+    if (quinielasCore.length === 0 || quinielasSatelites.length === 0) {
+      alert('Necesitas generar Core y Satélites primero');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const optimizer = new PortfolioOptimizer(optimizerConfig, new PortfolioGenerator(config.seed, 'regular', restricciones));
+      const resultado = optimizer.optimizar([...quinielasCore, ...quinielasSatelites], partidosClasificados);
+
+      setQuinielasCore(resultado.quinielas.filter(q => q.tipo === 'Core'));
+      setQuinielasSatelites(resultado.quinielas.filter(q => q.tipo !== 'Core'));
+      setOptimizacion(resultado);
+    } catch (error) {
+      console.error('Error optimizando:', error);
+      alert('Error al optimizar portafolio');
+    } finally {
+      setLoading(false);
+    }
+  }, [quinielasCore, quinielasSatelites, partidosClasificados, optimizerConfig, config.seed, restricciones]);
 
   const validarPortafolio = useCallback(async () => {
     if (quinielasCore.length === 0 || quinielasSatelites.length === 0) {
@@ -752,76 +555,650 @@ export default function Home() {
     setLoading(true);
     try {
       const todasQuinielas = [...quinielasCore, ...quinielasSatelites];
-      const validator = new PortfolioValidator();
-      const resultadoValidacion = validator.validatePortfolio(todasQuinielas);
+      const validator = new PortfolioValidator(optimizerConfig.simulacionesMontecarlo, 'regular', config.seed, restricciones);
+      const resultadoValidacion = validator.validatePortfolio(todasQuinielas, partidosClasificados);
 
       setQuinielasFinales(todasQuinielas);
       setValidacion(resultadoValidacion);
+      setVerificacionMC(null);
     } catch (error) {
       console.error('Error validando:', error);
       alert('Error al validar portafolio');
     } finally {
       setLoading(false);
     }
-  }, [quinielasCore, quinielasSatelites]);
+  }, [quinielasCore, quinielasSatelites, partidosClasificados, optimizerConfig.simulacionesMontecarlo, config.seed, restricciones]);
 
-  const procesarArchivoCSV = useCallback((file: File, tipo: string) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const csv = e.target!.result as string;
-        const lines = csv.split('\n').filter(line => line.trim() && !line.startsWith('#'));
-        const headers = lines[0].split(',').map(h => h.trim());
-
-        const partidos = [];
-        for (let i = 1; i < lines.length; i++) {
-          const values = lines[i].split(',').map(v => v.trim());
-          if (values.length >= 5) {
-            const probTotal = parseFloat(values[2]) + parseFloat(values[3]) + parseFloat(values[4]);
-
-            partidos.push({
-              local: values[0],
-              visitante: values[1],
-              prob_local: parseFloat(values[2]) / probTotal,
-              prob_empate: parseFloat(values[3]) / probTotal,
-              prob_visitante: parseFloat(values[4]) / probTotal,
-              es_final: values[5] === 'TRUE' || values[5] === 'true',
-              forma_diferencia: parseInt(values[6]) || 0,
-              lesiones_impact: parseInt(values[7]) || 0
-            });
-          }
-        }
+  const generarSistema = useCallback(async () => {
+    if (partidosClasificados.length === 0) {
+      alert('Primero clasifica los partidos');
+      return;
+    }
 
-        if (tipo === 'regular') {
-          setPartidosRegular(partidos.slice(0, 14));
-        } else {
-          setPartidosRevancha(partidos.slice(0, 7));
-        }
-      } catch (error) {
-        alert('Error procesando el archivo CSV');
-      }
-    };
-    reader.readAsText(file);
-  }, []);
+    setLoading(true);
+    try {
+      const generator = new PortfolioGenerator(config.seed, 'regular', restricciones);
+      const sistema = generarSistemaReducido(partidosClasificados, coberturasSistema, garantiaSistema, generator);
+      const validator = new PortfolioValidator(optimizerConfig.simulacionesMontecarlo, 'regular', config.seed, restricciones);
+      setSistemaReducido({ sistema, validacion: validator.validatePortfolio(sistema.quinielas, partidosClasificados) });
+    } catch (error) {
+      console.error('Error generando sistema reducido:', error);
+      alert(`Error al generar el sistema reducido: ${(error as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [partidosClasificados, coberturasSistema, garantiaSistema, config.seed, restricciones, optimizerConfig.simulacionesMontecarlo]);
 
-  // ==================== RENDERIZADO DE COMPONENTES ====================
+  const usarSistemaComoPortafolio = useCallback(() => {
+    if (!sistemaReducido) return;
+    setQuinielasFinales(sistemaReducido.sistema.quinielas);
+    setValidacion(sistemaReducido.validacion);
+    setVerificacionMC(null);
+  }, [sistemaReducido]);
 
-  const renderBarraProgreso = () => (
-    <Card className="mb-6">
-      <CardContent className="p-4">
-        <div className="flex items-center justify-between mb-4">
-          <h3 className="text-lg font-semibold flex items-center gap-2">
-            <Target className="w-5 h-5" />
-            Progreso de la Metodología
-          </h3>
-          <span className="text-sm text-gray-500">
-            {Object.values(progress).filter(Boolean).length}/5 completados
-          </span>
-        </div>
+  const repartirPresupuesto = useCallback(async () => {
+    if (quinielasCore.length === 0 || quinielasSatelites.length === 0) {
+      alert('Necesitas generar Core y Satélites primero');
+      return;
+    }
 
-        <div className="grid grid-cols-5 gap-2">
-          {[
-            { key: 'datos', label: 'Datos', icon: Database },
+    setLoading(true);
+    try {
+      const optimizer = new PortfolioOptimizer(optimizerConfig, new PortfolioGenerator(config.seed, 'regular', restricciones));
+      // Las quinielas de Revancha ya generadas se pagan del mismo presupuesto
+      const reparto = optimizer.distribuirPresupuesto([...quinielasCore, ...quinielasSatelites], partidosClasificados, config.presupuesto, {
+        quinielas: quinielasRevancha.length,
+        precio: restricciones.precioRevancha
+      });
+      const validator = new PortfolioValidator(optimizerConfig.simulacionesMontecarlo, 'regular', config.seed, restricciones);
+      setRepartoPresupuesto({ reparto, validacion: validator.validatePortfolio(reparto.quinielas, partidosClasificados) });
+    } catch (error) {
+      console.error('Error repartiendo el presupuesto:', error);
+      alert(`Error al repartir el presupuesto: ${(error as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [quinielasCore, quinielasSatelites, quinielasRevancha.length, partidosClasificados, optimizerConfig, config.seed, config.presupuesto, restricciones]);
+
+  const usarRepartoComoPortafolio = useCallback(() => {
+    if (!repartoPresupuesto) return;
+    setQuinielasFinales(repartoPresupuesto.reparto.quinielas);
+    setValidacion(repartoPresupuesto.validacion);
+    setVerificacionMC(null);
+  }, [repartoPresupuesto]);
+
+  const aplicarContrarian = useCallback(async () => {
+    if (quinielasCore.length === 0 || quinielasSatelites.length === 0) {
+      alert('Necesitas generar Core y Satélites primero');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const generator = new PortfolioGenerator(config.seed, 'regular', restricciones);
+      const quinielas = generator.aplicarModoContrarian([...quinielasCore, ...quinielasSatelites], partidosClasificados, premios);
+
+      setQuinielasCore(quinielas.filter(q => q.tipo === 'Core'));
+      setQuinielasSatelites(quinielas.filter(q => q.tipo !== 'Core'));
+    } catch (error) {
+      console.error('Error aplicando el modo contrarian:', error);
+      alert('Error al aplicar el modo contrarian');
+    } finally {
+      setLoading(false);
+    }
+  }, [quinielasCore, quinielasSatelites, partidosClasificados, config.seed, restricciones, premios]);
+
+  // Popularidad capturada en porcentaje; se copia a los partidos ya clasificados
+  const actualizarPopularidad = useCallback((indice: number, resultado: Resultado, porcentaje: number) => {
+    const actualizar = <T extends Partido | PartidoClasificado>(partidos: T[]) =>
+      partidos.map((partido, i) => {
+        if (i !== indice) return partido;
+        const popularidad = partido.popularidad || popularidadDe(partido);
+        return { ...partido, popularidad: { ...popularidad, [resultado]: Math.max(0, porcentaje) / 100 } };
+      });
+    setPartidosRegular(prev => actualizar(prev));
+    setPartidosClasificados(prev => actualizar(prev));
+  }, []);
+
+  const generarPortafolioRevancha = useCallback(async () => {
+    if (partidosRevancha.length < 7) {
+      alert('Necesitas 7 partidos de Revancha');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const revancha = ejecutarPipelineRevancha(
+        partidosRevancha,
+        // Una quiniela de Revancha por boleto regular, si ya hay portafolio
+        Math.min(config.numQuinielasRevancha, quinielasFinales.length || config.numQuinielas),
+        config.seed,
+        optimizerConfig,
+        restricciones,
+        { drawPropensity }
+      );
+
+      setPartidosRevanchaClasificados(revancha.partidosClasificados);
+      setQuinielasRevancha(revancha.quinielas);
+      setValidacionRevancha(revancha.validacion);
+    } catch (error) {
+      console.error('Error generando Revancha:', error);
+      alert('Error al generar quinielas de Revancha');
+    } finally {
+      setLoading(false);
+    }
+  }, [partidosRevancha, quinielasFinales.length, config.numQuinielasRevancha, config.numQuinielas, config.seed, optimizerConfig, restricciones, drawPropensity]);
+
+  const verificarMontecarlo = useCallback(async () => {
+    if (quinielasFinales.length === 0) return;
+
+    setLoading(true);
+    try {
+      const generator = new PortfolioGenerator(config.seed);
+      const numSimulaciones = optimizerConfig.simulacionesMontecarlo;
+      const filas = quinielasFinales.map(q => {
+        const simulada = generator.simularProbPremio(seleccionesDe(q), partidosClasificados, numSimulaciones);
+        const exacta = q.prob_11_plus || 0;
+        return { id: q.id, exacta, simulada, diferencia: Math.abs(simulada - exacta) };
+      });
+
+      setVerificacionMC({
+        simulaciones: numSimulaciones,
+        diferenciaMax: Math.max(...filas.map(f => f.diferencia)),
+        diferenciaPromedio: filas.reduce((acc, f) => acc + f.diferencia, 0) / filas.length
+      });
+    } catch (error) {
+      console.error('Error en verificación Montecarlo:', error);
+      alert('Error al verificar con Montecarlo');
+    } finally {
+      setLoading(false);
+    }
+  }, [quinielasFinales, partidosClasificados, optimizerConfig.simulacionesMontecarlo, config.seed]);
+
+  // Un portafolio nuevo (generado, importado o de otra sesión) empieza sin historial de cambios
+  useEffect(() => {
+    if (quinielasFinales !== ultimaEdicion.current) setPilaEdicion(crearPilaDeshacer());
+  }, [quinielasFinales]);
+
+  const aplicarEdicion = useCallback((quinielas: Quiniela[], pila: PilaDeshacer<Quiniela[]>) => {
+    try {
+      const validator = new PortfolioValidator(optimizerConfig.simulacionesMontecarlo, 'regular', config.seed, restricciones);
+      setValidacion(validator.validatePortfolio(quinielas, partidosClasificados));
+      ultimaEdicion.current = quinielas;
+      setQuinielasFinales(quinielas);
+      setPilaEdicion(pila);
+      setVerificacionMC(null);
+    } catch (error) {
+      console.error('Error validando la edición:', error);
+      alert(`Error al validar el portafolio editado: ${(error as Error).message}`);
+    }
+  }, [partidosClasificados, optimizerConfig.simulacionesMontecarlo, config.seed, restricciones]);
+
+  const editarPortafolio = useCallback((cambio: (quinielas: Quiniela[], generator: PortfolioGenerator) => Quiniela[]) => {
+    if (partidosClasificados.length !== 14) {
+      alert('Clasifica los partidos del concurso para editar el portafolio');
+      return;
+    }
+    const quinielas = cambio(quinielasFinales, new PortfolioGenerator(config.seed, 'regular', restricciones));
+    if (quinielas !== quinielasFinales) aplicarEdicion(quinielas, registrarCambio(pilaEdicion, quinielasFinales));
+  }, [quinielasFinales, partidosClasificados, pilaEdicion, config.seed, restricciones, aplicarEdicion]);
+
+  const editarCelda = useCallback((indice: number, partido: number, seleccion: Resultado[]) => {
+    editarPortafolio((quinielas, generator) =>
+      editarSeleccion(quinielas, indice, partido, seleccion, generator, partidosClasificados));
+  }, [editarPortafolio, partidosClasificados]);
+
+  const deshacerEdicion = useCallback(() => {
+    const anterior = deshacer(pilaEdicion, quinielasFinales);
+    if (anterior) aplicarEdicion(anterior.estado, anterior.pila);
+  }, [pilaEdicion, quinielasFinales, aplicarEdicion]);
+
+  const rehacerEdicion = useCallback(() => {
+    const siguiente = rehacer(pilaEdicion, quinielasFinales);
+    if (siguiente) aplicarEdicion(siguiente.estado, siguiente.pila);
+  }, [pilaEdicion, quinielasFinales, aplicarEdicion]);
+
+  // Teclado en una celda: L/E/V (o 1/X/2) la fija, las flechas mueven el foco y Ctrl+Z/Ctrl+Y deshacen y rehacen
+  const teclaCelda = useCallback((e: React.KeyboardEvent, indice: number, partido: number) => {
+    const tecla = e.key.toUpperCase();
+    if ((e.ctrlKey || e.metaKey) && (tecla === 'Z' || tecla === 'Y')) {
+      e.preventDefault();
+      if (tecla === 'Y' || e.shiftKey) rehacerEdicion();
+      else deshacerEdicion();
+      return;
+    }
+
+    const resultado = ({ L: 'L', '1': 'L', E: 'E', X: 'E', V: 'V', '2': 'V' } as Record<string, Resultado>)[tecla];
+    if (resultado && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      e.preventDefault();
+      editarCelda(indice, partido, [resultado]);
+      return;
+    }
+
+    const desplazamientos: Record<string, [number, number]> = {
+      ArrowUp: [-1, 0], ArrowDown: [1, 0], ArrowLeft: [0, -1], ArrowRight: [0, 1]
+    };
+    const desplazamiento = desplazamientos[e.key];
+    if (!desplazamiento) return;
+    e.preventDefault();
+    document.querySelector<HTMLElement>(
+      `[data-celda="${indice + desplazamiento[0]}-${partido + desplazamiento[1]}"]`
+    )?.focus();
+  }, [editarCelda, deshacerEdicion, rehacerEdicion]);
+
+  const aplicarPreset = useCallback((nombre: string) => {
+    const preset = [...PRESETS_PREDEFINIDOS, ...presetsGuardados].find(p => p.nombre === nombre);
+    if (!preset) return;
+    setRestricciones(prev => ({ ...prev, ...preset.restricciones }));
+    setPresetActivo(nombre);
+  }, [presetsGuardados]);
+
+  const guardarPresets = useCallback((presets: PresetRestricciones[]) => {
+    setPresetsGuardados(presets);
+    try {
+      localStorage.setItem(CLAVE_PRESETS, JSON.stringify(presets));
+    } catch (error) {
+      console.error('Error guardando presets:', error);
+      alert('No se pudieron guardar los presets en este navegador');
+    }
+  }, []);
+
+  const guardarPreset = useCallback(() => {
+    const nombre = nombrePreset.trim();
+    if (!nombre) {
+      alert('Escribe un nombre para el preset');
+      return;
+    }
+    if (PRESETS_PREDEFINIDOS.some(p => p.nombre === nombre)) {
+      alert(`"${nombre}" es un preset predefinido; usa otro nombre`);
+      return;
+    }
+
+    const validacionPreset = validarRestricciones(restricciones);
+    if (!validacionPreset.ok) {
+      alert(`Restricciones inválidas:\n${validacionPreset.errores.map(e => `${e.campo}: ${e.mensaje}`).join('\n')}`);
+      return;
+    }
+
+    guardarPresets([
+      ...presetsGuardados.filter(p => p.nombre !== nombre),
+      { nombre, restricciones: validacionPreset.datos }
+    ]);
+    setPresetActivo(nombre);
+    setNombrePreset('');
+  }, [nombrePreset, restricciones, presetsGuardados, guardarPresets]);
+
+  const eliminarPreset = useCallback((nombre: string) => {
+    guardarPresets(presetsGuardados.filter(p => p.nombre !== nombre));
+    if (presetActivo === nombre) setPresetActivo('');
+  }, [presetsGuardados, presetActivo, guardarPresets]);
+
+  // Cualquier ajuste manual deja de corresponder al preset seleccionado
+  const actualizarRestricciones = useCallback((cambios: Partial<RestriccionesPortafolio>) => {
+    setRestricciones(prev => ({ ...prev, ...cambios }));
+    setPresetActivo('');
+  }, []);
+
+  const calibrarConHistorial = useCallback((historicos: ConcursoHistorico[], origen: string) => {
+    setLoading(true);
+    try {
+      const inicial: ParametrosCalibracion = { calibracion: restricciones.calibracion, drawPropensity };
+      setAjusteCalibracion({ origen, resultado: ajustarCalibracion(partidosJugados(historicos), metricaCalibracion, inicial) });
+    } catch (error) {
+      console.error('Error ajustando la calibración:', error);
+      alert(`Error al ajustar la calibración: ${(error as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [restricciones.calibracion, drawPropensity, metricaCalibracion]);
+
+  const calibrarConConcursos = useCallback(() => {
+    const historicos = concursos
+      .filter(c => c.resultados.every(r => r !== null))
+      .map(c => ({ numero: c.numero, partidos: c.partidos, resultados: c.resultados as Resultado[] }));
+    if (historicos.length === 0) {
+      alert('No hay concursos registrados con los 14 resultados capturados');
+      return;
+    }
+    calibrarConHistorial(historicos, `${historicos.length} concursos registrados`);
+  }, [concursos, calibrarConHistorial]);
+
+  const importarHistorialCalibracion = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const resultado = validarHistorialBacktest(JSON.parse(e.target!.result as string));
+        if (!resultado.ok) {
+          alert(`Historial inválido:\n${resultado.errores.slice(0, 10).map(err => `${err.campo}: ${err.mensaje}`).join('\n')}`);
+          return;
+        }
+        calibrarConHistorial(resultado.datos, file.name);
+      } catch (error) {
+        console.error('Error importando el historial:', error);
+        alert(`Error al leer el historial: ${(error as Error).message}`);
+      }
+    };
+    reader.readAsText(file);
+  }, [calibrarConHistorial]);
+
+  const guardarCalibracion = useCallback((parametros: ParametrosCalibracion | null) => {
+    const activa = parametros || { calibracion: RESTRICCIONES_DEFAULT.calibracion, drawPropensity: PROGOL_CONFIG.DRAW_PROPENSITY };
+    actualizarRestricciones({ calibracion: activa.calibracion });
+    setDrawPropensity(activa.drawPropensity);
+    try {
+      if (parametros) {
+        localStorage.setItem(CLAVE_CALIBRACION, JSON.stringify({
+          nombre: 'calibrada',
+          restricciones: { calibracion: parametros.calibracion },
+          umbrales: { drawPropensity: parametros.drawPropensity }
+        }));
+      } else {
+        localStorage.removeItem(CLAVE_CALIBRACION);
+      }
+    } catch (error) {
+      console.error('Error guardando la calibración:', error);
+      alert('No se pudo guardar la calibración en este navegador');
+    }
+  }, [actualizarRestricciones]);
+
+  const importarHistorialResultados = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const importacion = analizarHistorialResultados(e.target!.result as string);
+      if (importacion.errores.length > 0) {
+        const resto = importacion.errores.length > 10 ? `\n… y ${importacion.errores.length - 10} más` : '';
+        alert(`Filas omitidas del historial:\n${importacion.errores.slice(0, 10).join('\n')}${resto}`);
+      }
+      if (importacion.concursos.length === 0) {
+        alert('El historial no tiene concursos válidos');
+        return;
+      }
+      setHistorialResultados({ archivo: file.name, concursos: importacion.concursos });
+    };
+    reader.readAsText(file);
+  }, []);
+
+  // Los objetivos quedan como fuente de la distribución mientras no se cambien las restricciones
+  const aplicarObjetivos = useCallback((objetivos: ObjetivosHistoricos) => {
+    actualizarRestricciones(restriccionesDeObjetivos(objetivos));
+    setObjetivosHistoricos(objetivos);
+  }, [actualizarRestricciones]);
+
+  const guardarConcursos = useCallback((lista: Concurso[]) => {
+    const ordenados = [...lista].sort((a, b) => b.numero - a.numero);
+    setConcursos(ordenados);
+    try {
+      localStorage.setItem(CLAVE_CONCURSOS, JSON.stringify(ordenados));
+    } catch (error) {
+      console.error('Error guardando el historial:', error);
+      alert('No se pudo guardar el historial en este navegador');
+    }
+  }, []);
+
+  const agregarConcurso = useCallback((concurso: Concurso) => {
+    if (concursos.some(c => c.numero === concurso.numero) &&
+      !confirm(`El concurso ${concurso.numero} ya está registrado. ¿Reemplazarlo?`)) {
+      return;
+    }
+    guardarConcursos([...concursos.filter(c => c.numero !== concurso.numero), concurso]);
+    setConcursoActivo(concurso.numero);
+    setNumeroConcurso(concurso.numero + 1);
+  }, [concursos, guardarConcursos]);
+
+  const registrarConcurso = useCallback(() => {
+    if (quinielasFinales.length === 0 || partidosRegular.length < 14) {
+      alert('Necesitas un portafolio validado para registrarlo');
+      return;
+    }
+    agregarConcurso(crearConcurso({
+      numero: numeroConcurso,
+      partidos: partidosRegular,
+      partidosRevancha,
+      quinielas: quinielasFinales,
+      quinielasRevancha,
+      precioBoleto: restricciones.precioBoleto,
+      precioRevancha: restricciones.precioRevancha
+    }));
+  }, [quinielasFinales, partidosRegular, partidosRevancha, quinielasRevancha, numeroConcurso, restricciones, agregarConcurso]);
+
+  const importarConcursoJSON = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        agregarConcurso(concursoDesdeExportacion(e.target!.result as string, numeroConcurso));
+      } catch (error) {
+        console.error('Error importando el concurso:', error);
+        alert(`Error al importar el portafolio: ${(error as Error).message}`);
+      }
+    };
+    reader.readAsText(file);
+  }, [numeroConcurso, agregarConcurso]);
+
+  const actualizarConcurso = useCallback((numero: number, cambios: Partial<Concurso>) => {
+    guardarConcursos(concursos.map(c => (c.numero === numero ? { ...c, ...cambios } : c)));
+  }, [concursos, guardarConcursos]);
+
+  const eliminarConcurso = useCallback((numero: number) => {
+    if (!confirm(`¿Eliminar el concurso ${numero} del historial?`)) return;
+    guardarConcursos(concursos.filter(c => c.numero !== numero));
+    if (concursoActivo === numero) setConcursoActivo(null);
+  }, [concursos, concursoActivo, guardarConcursos]);
+
+  const procesarArchivoCSV = useCallback((file: File, tipo: Juego) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const resultado = analizarPartidosCSV(e.target!.result as string, tipo === 'regular' ? 14 : 7, config.metodoMargen);
+        setImportacionCSV({ juego: tipo, archivo: file.name, resultado });
+
+        // Si el CSV no trae la forma, se toma de los ratings Elo de los equipos conocidos
+        const partidos = resultado.columnas.forma_diferencia === undefined ?
+          completarConElo(tablaElo, resultado.partidos).partidos :
+          resultado.partidos;
+
+        // Se cargan las filas válidas; las inválidas quedan señaladas en la vista previa
+        if (partidos.length > 0) {
+          if (tipo === 'regular') {
+            setPartidosRegular(partidos);
+          } else {
+            setPartidosRevancha(partidos);
+          }
+        }
+      } catch (error) {
+        console.error('Error procesando CSV:', error);
+        alert('Error procesando el archivo CSV');
+      }
+    };
+    reader.readAsText(file);
+  }, [config.metodoMargen, tablaElo]);
+
+  // JSON de Exportar o texto de boletos; el texto no trae probabilidades y usa los partidos cargados
+  const importarPortafolio = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setLoading(true);
+      try {
+        const texto = e.target!.result as string;
+        const importado = texto.trimStart().startsWith('{') ?
+          analizarJSONPortafolio(texto) :
+          analizarTextoProgol(texto, partidosRegular, partidosRevancha);
+        const seed = importado.seed ?? config.seed;
+        const resultado = reconstruirPortafolio(importado, {
+          seed,
+          optimizador: importado.optimizador ?? optimizerConfig,
+          restricciones: importado.restricciones ?? restricciones,
+          umbrales: { drawPropensity }
+        });
+
+        setPartidosRegular(importado.partidos);
+        if (importado.formato === 'json' || importado.partidosRevancha.length > 0) {
+          setPartidosRevancha(importado.partidosRevancha);
+        }
+        setPartidosClasificados(resultado.partidosClasificados);
+        setPartidosRevanchaClasificados(resultado.partidosRevanchaClasificados);
+        setQuinielasCore(resultado.quinielas.filter(q => q.tipo === 'Core'));
+        setQuinielasSatelites(resultado.quinielas.filter(q => q.tipo !== 'Core'));
+        setQuinielasFinales(resultado.quinielas);
+        setQuinielasRevancha(resultado.quinielasRevancha);
+        setValidacion(resultado.validacion);
+        setValidacionRevancha(resultado.validacionRevancha);
+        setConfig(prev => ({
+          ...prev,
+          ...importado.parametros,
+          seed,
+          numQuinielas: resultado.quinielas.length,
+          numQuinielasRevancha: resultado.quinielasRevancha.length || prev.numQuinielasRevancha
+        }));
+        if (importado.restricciones) {
+          setRestricciones(importado.restricciones);
+          setPresetActivo('');
+        }
+        if (importado.optimizador) setOptimizerConfig(importado.optimizador);
+        setOptimizacion(null);
+        setVerificacionMC(null);
+        setCoberturasSistema(coberturasPorDefecto(resultado.partidosClasificados));
+        setSistemaReducido(null);
+        setRepartoPresupuesto(null);
+        setQuinielaGrafica(null);
+        setImportacionCSV(null);
+
+        if (importado.advertencias.length > 0) {
+          alert(`Portafolio importado con advertencias:\n${importado.advertencias.join('\n')}`);
+        }
+        setActiveTab('resultados');
+      } catch (error) {
+        console.error('Error importando el portafolio:', error);
+        alert(`Error al importar el portafolio: ${(error as Error).message}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+    reader.readAsText(file);
+  }, [partidosRegular, partidosRevancha, config.seed, optimizerConfig, restricciones, drawPropensity]);
+
+  const cambiarMetodoMargen = useCallback((metodo: MetodoMargen) => {
+    setConfig(prev => ({ ...prev, metodoMargen: metodo }));
+    setPartidosRegular(prev => aplicarMetodoMargen(prev, metodo));
+    setPartidosRevancha(prev => aplicarMetodoMargen(prev, metodo));
+  }, []);
+
+  const importarMarcadores = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setLoading(true);
+      try {
+        const importacion = analizarMarcadoresCSV(e.target!.result as string);
+        if (importacion.marcadores.length === 0) {
+          alert(`El archivo no tiene marcadores válidos${importacion.errores.length > 0 ? `:\n${importacion.errores.slice(0, 10).join('\n')}` : ''}`);
+          return;
+        }
+        setModeloGoles({ archivo: file.name, modelos: ajustarModelosGoles(importacion.marcadores), omitidas: importacion.errores.length });
+        setPartidoModelo(null);
+      } catch (error) {
+        console.error('Error ajustando el modelo de goles:', error);
+        alert(`Error al ajustar el modelo de goles: ${(error as Error).message}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+    reader.readAsText(file);
+  }, []);
+
+  // Las probabilidades del modelo sustituyen a las importadas; hay que volver a clasificar
+  const usarProbabilidadesModelo = useCallback((juego: Juego) => {
+    if (!modeloGoles) return;
+    if (juego === 'regular') {
+      setPartidosRegular(prev => aplicarPredicciones(prev, predecirPartidos(modeloGoles.modelos, prev)));
+    } else {
+      setPartidosRevancha(prev => aplicarPredicciones(prev, predecirPartidos(modeloGoles.modelos, prev)));
+    }
+  }, [modeloGoles]);
+
+  const guardarTablaElo = useCallback((tabla: TablaElo) => {
+    setTablaElo(tabla);
+    try {
+      localStorage.setItem(CLAVE_ELO, JSON.stringify(tabla));
+    } catch (error) {
+      console.error('Error guardando los ratings Elo:', error);
+      alert('No se pudieron guardar los ratings Elo en este navegador');
+    }
+  }, []);
+
+  const sumarConcursoElo = useCallback((numero: number) => {
+    const concurso = concursos.find(c => c.numero === numero);
+    if (!concurso) return;
+    try {
+      guardarTablaElo(actualizarEloConConcurso(tablaElo, concurso));
+    } catch (error) {
+      console.error('Error actualizando los ratings Elo:', error);
+      alert((error as Error).message);
+    }
+  }, [concursos, tablaElo, guardarTablaElo]);
+
+  const importarMarcadoresElo = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setLoading(true);
+      try {
+        const importacion = analizarMarcadoresCSV(e.target!.result as string);
+        const conFecha = importacion.marcadores.filter(m => m.fecha !== null);
+        if (conFecha.length === 0) {
+          alert('El archivo no tiene marcadores con fecha; los ratings necesitan el orden de los partidos');
+          return;
+        }
+        guardarTablaElo(actualizarEloConMarcadores(tablaElo, conFecha));
+        if (importacion.errores.length > 0 || conFecha.length < importacion.marcadores.length) {
+          alert(`Se sumaron ${conFecha.length} partidos; se omitieron ${importacion.errores.length + importacion.marcadores.length - conFecha.length} filas`);
+        }
+      } catch (error) {
+        console.error('Error importando marcadores para Elo:', error);
+        alert(`Error al importar los marcadores: ${(error as Error).message}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+    reader.readAsText(file);
+  }, [tablaElo, guardarTablaElo]);
+
+  const reiniciarElo = useCallback(() => {
+    if (!confirm('¿Borrar todos los ratings Elo? Los equipos vuelven al rating inicial.')) return;
+    guardarTablaElo(crearTablaElo());
+    setEquipoElo(null);
+  }, [guardarTablaElo]);
+
+  // Llena la forma (y, si se pide, las probabilidades) de los partidos cargados
+  const completarPartidosElo = useCallback((juego: Juego, usarProbabilidades: boolean) => {
+    const partidos = juego === 'regular' ? partidosRegular : partidosRevancha;
+    const { partidos: completados, completados: total } = completarConElo(tablaElo, partidos, usarProbabilidades);
+    if (total === 0) {
+      alert('Ningún partido tiene rating Elo para ambos equipos');
+      return;
+    }
+    if (juego === 'regular') {
+      setPartidosRegular(completados);
+    } else {
+      setPartidosRevancha(completados);
+    }
+  }, [partidosRegular, partidosRevancha, tablaElo]);
+
+  // ==================== RENDERIZADO DE COMPONENTES ====================
+
+  const renderBarraProgreso = () => (
+    <Card className="mb-6">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Target className="w-5 h-5" />
+            Progreso de la Metodología
+          </h3>
+          <span className="text-sm text-gray-500">
+            {Object.values(progress).filter(Boolean).length}/5 completados
+          </span>
+        </div>
+
+        <div className="grid grid-cols-5 gap-2">
+          {[
+            { key: 'datos', label: 'Datos', icon: Database },
             { key: 'clasificacion', label: 'Clasificación', icon: Brain },
             { key: 'core', label: 'Core', icon: Target },
             { key: 'satelites', label: 'Satélites', icon: RefreshCw },
@@ -843,57 +1220,351 @@ export default function Home() {
     </Card>
   );
 
-  const renderEntradaDatos = () => (
-    <div className="space-y-6">
+  const renderModeloGoles = () => {
+    const juegos = ([['regular', 'Regular', partidosRegular], ['revancha', 'Revancha', partidosRevancha]] as const)
+      .filter(([, , partidos]) => partidos.length > 0)
+      .map(([juego, titulo, partidos]) => ({
+        juego,
+        titulo,
+        partidos,
+        predicciones: modeloGoles ? predecirPartidos(modeloGoles.modelos, partidos) : []
+      }));
+    const seleccion = partidoModelo && juegos.find(j => j.juego === partidoModelo.juego);
+    const partidoSeleccionado = seleccion ? seleccion.partidos[partidoModelo!.indice] : undefined;
+    const prediccionSeleccionada = seleccion ? seleccion.predicciones[partidoModelo!.indice] : null;
+    const porcentajes = (probs: { prob_local: number; prob_empate: number; prob_visitante: number }) =>
+      `${(probs.prob_local * 100).toFixed(0)}-${(probs.prob_empate * 100).toFixed(0)}-${(probs.prob_visitante * 100).toFixed(0)}`;
+    const golesMatriz = Array.from({ length: 6 }, (_, k) => k);
+
+    return (
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
-            <Database className="w-5 h-5" />
-            Configuración de Datos
+            <TrendingUp className="w-5 h-5" />
+            Modelo de Goles (Dixon-Coles)
           </CardTitle>
           <CardDescription>
-            Carga partidos o usa datos de muestra para comenzar
+            Ajusta ataque, defensa y ventaja de local por liga con marcadores pasados (CSV con liga, fecha, local, visitante,
+            goles_local y goles_visitante, o un archivo de football-data.co.uk) y calcula las probabilidades 1X2 y la matriz de
+            marcadores de cada partido cargado. Los partidos recientes pesan más.
           </CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-            <div className="text-center">
-              <div className="text-2xl font-bold text-blue-600">{partidosRegular.length}/14</div>
-              <div className="text-sm text-gray-600">Partidos Regulares</div>
-              <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
-                <div
-                  className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${Math.min(partidosRegular.length / 14 * 100, 100)}%` }}
-                />
-              </div>
-            </div>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors cursor-pointer">
+              <FileUp className="w-4 h-4" />
+              Importar marcadores CSV
+              <input
+                type="file"
+                accept=".csv,.txt"
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files && e.target.files[0]) importarMarcadores(e.target.files[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {modeloGoles && (
+              <span className="text-gray-500">
+                {modeloGoles.archivo}: {modeloGoles.modelos.reduce((acc, m) => acc + m.partidos, 0)} partidos
+                {modeloGoles.omitidas > 0 && ` (${modeloGoles.omitidas} filas omitidas)`}
+              </span>
+            )}
+          </div>
 
-            <div className="text-center">
-              <div className="text-2xl font-bold text-green-600">{partidosRevancha.length}/7</div>
-              <div className="text-sm text-gray-600">Partidos Revancha</div>
-              <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
-                <div
-                  className="bg-green-600 h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${Math.min(partidosRevancha.length / 7 * 100, 100)}%` }}
-                />
+          {modeloGoles && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-1">Liga</th>
+                  <th className="py-1 text-right">Partidos</th>
+                  <th className="py-1 text-right">Equipos</th>
+                  <th className="py-1">Periodo</th>
+                  <th className="py-1 text-right">Ventaja local</th>
+                  <th className="py-1 text-right">ρ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {modeloGoles.modelos.map(modelo => (
+                  <tr key={modelo.liga} className="border-b last:border-0">
+                    <td className="py-1">{modelo.liga}</td>
+                    <td className="py-1 text-right font-mono">{modelo.partidos}</td>
+                    <td className="py-1 text-right font-mono">{Object.keys(modelo.equipos).length}</td>
+                    <td className="py-1 text-gray-500">{modelo.desde ? `${modelo.desde} a ${modelo.hasta}` : 'sin fechas'}</td>
+                    <td className="py-1 text-right font-mono">×{modelo.ventajaLocal.toFixed(2)}</td>
+                    <td className="py-1 text-right font-mono">{modelo.rho.toFixed(3)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {modeloGoles && juegos.map(({ juego, titulo, partidos, predicciones }) => (
+            <div key={juego} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium text-sm">
+                  {titulo}: {predicciones.filter(Boolean).length}/{partidos.length} partidos con pronóstico
+                </h4>
+                <button
+                  onClick={() => usarProbabilidadesModelo(juego)}
+                  disabled={!predicciones.some(Boolean)}
+                  className="text-sm px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+                >
+                  Usar probabilidades del modelo
+                </button>
               </div>
-            </div>
-
-            <div className="text-center">
-              <div className="text-2xl font-bold text-purple-600">{(partidosRegular.length + partidosRevancha.length)}/21</div>
-              <div className="text-sm text-gray-600">Total Progreso</div>
-              <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
-                <div
-                  className="bg-purple-600 h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${Math.min((partidosRegular.length + partidosRevancha.length) / 21 * 100, 100)}%` }}
-                />
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-1">Partido</th>
+                      <th className="py-1 text-center">Actual % L-E-V</th>
+                      <th className="py-1 text-center">Modelo % L-E-V</th>
+                      <th className="py-1 text-right">Dif. máx</th>
+                      <th className="py-1 text-right">Goles esperados</th>
+                      <th className="py-1 text-right">Marcador</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {partidos.map((partido, i) => {
+                      const prediccion = predicciones[i];
+                      const diferencia = prediccion ? Math.max(
+                        Math.abs(prediccion.prob_local - partido.prob_local),
+                        Math.abs(prediccion.prob_empate - partido.prob_empate),
+                        Math.abs(prediccion.prob_visitante - partido.prob_visitante)
+                      ) : 0;
+                      const activo = partidoModelo?.juego === juego && partidoModelo.indice === i;
+                      return (
+                        <tr
+                          key={i}
+                          onClick={() => prediccion && setPartidoModelo({ juego, indice: i })}
+                          className={`border-b last:border-0 ${prediccion ? 'cursor-pointer hover:bg-gray-50' : 'text-gray-400'} ${activo ? 'bg-blue-50' : ''}`}
+                        >
+                          <td className="py-1">{partido.local} vs {partido.visitante}</td>
+                          <td className="py-1 text-center font-mono">{porcentajes(partido)}</td>
+                          <td className="py-1 text-center font-mono">{prediccion ? porcentajes(prediccion) : 'sin datos'}</td>
+                          <td className={`py-1 text-right font-mono ${diferencia > 0.1 ? 'text-red-600' : ''}`}>
+                            {prediccion ? `${(diferencia * 100).toFixed(1)}` : '—'}
+                          </td>
+                          <td className="py-1 text-right font-mono">
+                            {prediccion ? `${prediccion.golesEsperadosLocal.toFixed(2)}-${prediccion.golesEsperadosVisitante.toFixed(2)}` : '—'}
+                          </td>
+                          <td className="py-1 text-right font-mono">
+                            {prediccion ? prediccion.marcadorProbable.join('-') : '—'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
               </div>
             </div>
-          </div>
+          ))}
 
-          <div className="flex flex-wrap gap-4">
-            <button
-              onClick={cargarDatosMuestra}
+          {partidoSeleccionado && prediccionSeleccionada && (
+            <div className="space-y-2">
+              <h4 className="font-medium text-sm">
+                Marcadores: {partidoSeleccionado.local} (filas) vs {partidoSeleccionado.visitante} (columnas) · {prediccionSeleccionada.liga}
+              </h4>
+              <table className="text-xs font-mono border-collapse">
+                <thead>
+                  <tr>
+                    <th />
+                    {golesMatriz.map(y => <th key={y} className="px-2 font-normal text-gray-500">{y}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {golesMatriz.map(x => (
+                    <tr key={x}>
+                      <td className="pr-2 text-gray-500">{x}</td>
+                      {golesMatriz.map(y => {
+                        const prob = prediccionSeleccionada.marcadores[x][y];
+                        return (
+                          <td
+                            key={y}
+                            title={`${x}-${y}: ${(prob * 100).toFixed(2)}%`}
+                            className="w-12 h-7 text-center border border-white"
+                            style={{ backgroundColor: `rgba(37, 99, 235, ${Math.min(1, prob / 0.2)})` }}
+                          >
+                            {(prob * 100).toFixed(1)}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500">Porcentaje de cada marcador hasta 5 goles; la diagonal son los empates.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderImportarPortafolio = () => (
+    <label className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors cursor-pointer">
+      <FileUp className="w-4 h-4" />
+      Importar JSON / Progol
+      <input
+        type="file"
+        accept=".json,.txt"
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files && e.target.files[0]) importarPortafolio(e.target.files[0]);
+          e.target.value = '';
+        }}
+      />
+    </label>
+  );
+
+  const renderSesiones = () => (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="w-5 h-5" />
+          Sesiones
+        </CardTitle>
+        <CardDescription>
+          El trabajo de cada concurso (partidos, clasificación, portafolio y configuración) se guarda solo en este navegador
+          y se reabre al volver a la página. Los resultados de optimización y Monte Carlo se recalculan al abrir una sesión.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <input
+            type="text"
+            value={nombreSesion}
+            onChange={(e) => setNombreSesion(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && renombrarSesion()}
+            placeholder={sesionActiva ? 'Nombre de la sesión' : 'Se crea al cargar partidos'}
+            disabled={!sesionActiva}
+            className="w-64 px-3 py-2 bg-gray-100 rounded-md disabled:text-gray-400"
+          />
+          <button
+            onClick={renombrarSesion}
+            disabled={!sesionActiva || !nombreSesion.trim()}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:text-gray-400"
+          >
+            Renombrar
+          </button>
+          <button
+            onClick={nuevaSesion}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <FileUp className="w-4 h-4" />
+            Nueva sesión
+          </button>
+        </div>
+
+        {errorSesiones && (
+          <div className="flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4" />
+            {errorSesiones}
+          </div>
+        )}
+
+        {sesiones.length > 0 && (
+          <div className="overflow-x-auto max-h-64 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-1">Sesión</th>
+                  <th className="py-1 text-right">Concurso</th>
+                  <th className="py-1 text-right">Partidos</th>
+                  <th className="py-1 text-right">Quinielas</th>
+                  <th className="py-1">Guardada</th>
+                  <th className="py-1"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {sesiones.map(sesion => (
+                  <tr key={sesion.id} className={`border-b last:border-0 ${sesion.id === sesionActiva ? 'bg-blue-50' : ''}`}>
+                    <td className="py-1 font-medium">{sesion.nombre}</td>
+                    <td className="py-1 text-right font-mono">{sesion.estado.numeroConcurso}</td>
+                    <td className="py-1 text-right font-mono">
+                      {sesion.estado.partidosRegular.length}+{sesion.estado.partidosRevancha.length}
+                    </td>
+                    <td className="py-1 text-right font-mono">{sesion.estado.quinielasFinales.length}</td>
+                    <td className="py-1 text-gray-600">{new Date(sesion.actualizada).toLocaleString()}</td>
+                    <td className="py-1 text-right space-x-3">
+                      {sesion.id === sesionActiva ? (
+                        <span className="text-gray-500">Abierta</span>
+                      ) : (
+                        <button onClick={() => abrirSesion(sesion.id)} className="text-blue-600 hover:underline">
+                          Abrir
+                        </button>
+                      )}
+                      <button onClick={() => duplicarSesionGuardada(sesion.id)} className="text-blue-600 hover:underline">
+                        Duplicar
+                      </button>
+                      <button onClick={() => eliminarSesion(sesion.id)} className="text-red-600 hover:underline">
+                        Eliminar
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderEntradaDatos = () => (
+    <div className="space-y-6">
+      {renderSesiones()}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Database className="w-5 h-5" />
+            Configuración de Datos
+          </CardTitle>
+          <CardDescription>
+            Carga partidos o usa datos de muestra para comenzar
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className="text-center">
+              <div className="text-2xl font-bold text-blue-600">{partidosRegular.length}/14</div>
+              <div className="text-sm text-gray-600">Partidos Regulares</div>
+              <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${Math.min(partidosRegular.length / 14 * 100, 100)}%` }}
+                />
+              </div>
+            </div>
+
+            <div className="text-center">
+              <div className="text-2xl font-bold text-green-600">{partidosRevancha.length}/7</div>
+              <div className="text-sm text-gray-600">Partidos Revancha</div>
+              <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
+                <div
+                  className="bg-green-600 h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${Math.min(partidosRevancha.length / 7 * 100, 100)}%` }}
+                />
+              </div>
+            </div>
+
+            <div className="text-center">
+              <div className="text-2xl font-bold text-purple-600">{(partidosRegular.length + partidosRevancha.length)}/21</div>
+              <div className="text-sm text-gray-600">Total Progreso</div>
+              <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
+                <div
+                  className="bg-purple-600 h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${Math.min((partidosRegular.length + partidosRevancha.length) / 21 * 100, 100)}%` }}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            <button
+              onClick={cargarDatosMuestra}
               className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
             >
               <Bot className="w-4 h-4" />
@@ -905,7 +1576,7 @@ export default function Home() {
               Cargar CSV Regular
               <input
                 type="file"
-                accept=".csv"
+                accept=".csv,.txt"
                 className="hidden"
                 onChange={(e) => e.target.files && e.target.files[0] && procesarArchivoCSV(e.target.files[0], 'regular')}
               />
@@ -916,15 +1587,128 @@ export default function Home() {
               Cargar CSV Revancha
               <input
                 type="file"
-                accept=".csv"
+                accept=".csv,.txt"
                 className="hidden"
                 onChange={(e) => e.target.files && e.target.files[0] && procesarArchivoCSV(e.target.files[0], 'revancha')}
               />
             </label>
+
+            {renderImportarPortafolio()}
+
+            <div className="flex items-center gap-2 text-sm">
+              <label className="font-medium text-gray-700">Margen de cuotas:</label>
+              <select
+                value={config.metodoMargen}
+                onChange={(e) => cambiarMetodoMargen(e.target.value as MetodoMargen)}
+                className="px-2 py-2 bg-gray-100 rounded-md"
+              >
+                {METODOS_MARGEN.map(metodo => (
+                  <option key={metodo.id} value={metodo.id}>{metodo.nombre}</option>
+                ))}
+              </select>
+            </div>
           </div>
+          <p className="text-xs text-gray-500 mt-3">
+            El CSV puede traer probabilidades (prob_local, prob_empate, prob_visitante) o cuotas 1X2 decimales,
+            fraccionales o americanas (cuota_local, cuota_empate, cuota_visitante); a las cuotas se les quita el margen
+            de la casa con el método elegido. Con pop_local, pop_empate y pop_visitante se indica qué parte del público
+            juega cada resultado (sin ellas se supone que juega según las probabilidades).
+          </p>
         </CardContent>
       </Card>
 
+      {importacionCSV && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between">
+              <div>
+                <CardTitle>📋 Vista Previa de Importación</CardTitle>
+                <CardDescription>
+                  {importacionCSV.archivo} ({importacionCSV.juego === 'regular' ? 'Regular' : 'Revancha'}) · delimitador
+                  {' '}{importacionCSV.resultado.delimitador === '\t' ? 'tabulador' : `'${importacionCSV.resultado.delimitador}'`}
+                  {' · '}{importacionCSV.resultado.usaCuotas ? 'cuotas sin margen' : 'probabilidades'}
+                  {' · '}{importacionCSV.resultado.partidos.length} partidos importados
+                </CardDescription>
+              </div>
+              <button
+                onClick={() => setImportacionCSV(null)}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Cerrar
+              </button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {[...importacionCSV.resultado.errores, ...importacionCSV.resultado.advertencias].length > 0 && (
+              <div className="space-y-1 mb-4">
+                {importacionCSV.resultado.errores.map((error, i) => (
+                  <div key={`e${i}`} className="flex items-center gap-2 text-sm text-red-600">
+                    <AlertCircle className="w-4 h-4" />
+                    {error}
+                  </div>
+                ))}
+                {importacionCSV.resultado.advertencias.map((advertencia, i) => (
+                  <div key={`w${i}`} className="flex items-center gap-2 text-sm text-yellow-700">
+                    <AlertTriangle className="w-4 h-4" />
+                    {advertencia}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {importacionCSV.resultado.filas.length > 0 && (
+              <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2">Línea</th>
+                      <th className="text-left p-2">Local</th>
+                      <th className="text-left p-2">Visitante</th>
+                      <th className="text-center p-2">L</th>
+                      <th className="text-center p-2">E</th>
+                      <th className="text-center p-2">V</th>
+                      {importacionCSV.resultado.usaCuotas && <th className="text-center p-2">Margen</th>}
+                      <th className="text-left p-2">Estado</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {importacionCSV.resultado.filas.map(fila => (
+                      <tr
+                        key={fila.linea}
+                        className={`border-b ${fila.errores.length > 0 ? 'bg-red-50' : fila.advertencias.length > 0 ? 'bg-yellow-50' : ''}`}
+                      >
+                        <td className="p-2 text-gray-500">{fila.linea}</td>
+                        <td className="p-2">{fila.local || '—'}</td>
+                        <td className="p-2">{fila.visitante || '—'}</td>
+                        {fila.probs.map((prob, j) => (
+                          <td key={j} className="text-center p-2">{Number.isFinite(prob) ? prob.toFixed(3) : '—'}</td>
+                        ))}
+                        {importacionCSV.resultado.usaCuotas && (
+                          <td className="text-center p-2">
+                            {fila.margen !== undefined ? `${(fila.margen * 100).toFixed(1)}%` : '—'}
+                          </td>
+                        )}
+                        <td className="p-2">
+                          {fila.errores.length > 0 ? (
+                            <span className="text-red-600">{fila.errores.join('; ')}</span>
+                          ) : fila.advertencias.length > 0 ? (
+                            <span className="text-yellow-700">{fila.advertencias.join('; ')}</span>
+                          ) : (
+                            <span className="text-green-600">✓</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {renderModeloGoles()}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
           <CardHeader>
@@ -935,12 +1719,32 @@ export default function Home() {
             {partidosRegular.length > 0 ? (
               <div className="space-y-2 max-h-64 overflow-y-auto">
                 {partidosRegular.map((partido, i) => (
-                  <div key={i} className="flex justify-between items-center p-2 bg-gray-50 rounded text-sm">
-                    <span className="font-medium">{partido.local} vs {partido.visitante}</span>
-                    <span className="text-gray-600">
-                      {(partido.prob_local * 100).toFixed(0)}%-{(partido.prob_empate * 100).toFixed(0)}%-{(partido.prob_visitante * 100).toFixed(0)}%
-                      {partido.es_final && <span className="ml-1 text-red-500">🏆</span>}
-                    </span>
+                  <div key={i} className="p-2 bg-gray-50 rounded text-sm">
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium">{partido.local} vs {partido.visitante}</span>
+                      <span className="text-gray-600">
+                        {(partido.prob_local * 100).toFixed(0)}%-{(partido.prob_empate * 100).toFixed(0)}%-{(partido.prob_visitante * 100).toFixed(0)}%
+                        {partido.margen !== undefined && (
+                          <span className="ml-2 text-xs text-gray-400">margen {(partido.margen * 100).toFixed(1)}%</span>
+                        )}
+                        {partido.es_final && <span className="ml-1 text-red-500">🏆</span>}
+                      </span>
+                    </div>
+                    <div className="flex justify-end items-center gap-1 mt-1 text-xs text-gray-500">
+                      <span className={partido.popularidad ? 'text-purple-700' : ''}>Público %:</span>
+                      {(['L', 'E', 'V'] as Resultado[]).map(resultado => (
+                        <input
+                          key={resultado}
+                          type="number"
+                          min={0}
+                          max={100}
+                          title={`Porcentaje del público que juega ${resultado}`}
+                          value={Math.round(popularidadDe(partido)[resultado] * 100)}
+                          onChange={(e) => actualizarPopularidad(i, resultado, parseFloat(e.target.value) || 0)}
+                          className="w-12 px-1 py-0.5 bg-white border rounded text-center"
+                        />
+                      ))}
+                    </div>
                   </div>
                 ))}
               </div>
@@ -966,6 +1770,9 @@ export default function Home() {
                     <span className="font-medium">{partido.local} vs {partido.visitante}</span>
                     <span className="text-gray-600">
                       {(partido.prob_local * 100).toFixed(0)}%-{(partido.prob_empate * 100).toFixed(0)}%-{(partido.prob_visitante * 100).toFixed(0)}%
+                      {partido.margen !== undefined && (
+                        <span className="ml-2 text-xs text-gray-400">margen {(partido.margen * 100).toFixed(1)}%</span>
+                      )}
                       {partido.es_final && <span className="ml-1 text-red-500">🏆</span>}
                     </span>
                   </div>
@@ -976,279 +1783,1622 @@ export default function Home() {
                 <Database className="w-12 h-12 mx-auto mb-4 opacity-50" />
                 <p>No hay partidos de revancha cargados</p>
               </div>
-            )}
-          </CardContent>
-        </Card>
-      </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {partidosRegular.length >= 14 && (
+        <Card className="bg-green-50 border-green-200">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2 text-green-700">
+              <CheckCircle2 className="w-5 h-5" />
+              <span className="font-medium">¡Listo para continuar!</span>
+              <span className="text-sm">Tienes suficientes partidos para generar las quinielas</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+
+  const renderGeneracion = () => (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Zap className="w-5 h-5" />
+            Generación de Portafolio
+          </CardTitle>
+          <CardDescription>
+            Sigue la metodología Core + Satélites con optimización GRASP-Annealing
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+            <div className="text-center">
+              <div className="text-lg font-bold">{config.numQuinielas}</div>
+              <div className="text-sm text-gray-600">Quinielas Target</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-bold">{restricciones.empatesMin}-{restricciones.empatesMax}</div>
+              <div className="text-sm text-gray-600">Empates por Quiniela</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-bold">{(restricciones.concentracionGeneral * 100).toFixed(0)}%</div>
+              <div className="text-sm text-gray-600">Concentración Máx</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg font-bold">{partidosClasificados.length}</div>
+              <div className="text-sm text-gray-600">Partidos Clasificados</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <button
+              onClick={clasificarPartidos}
+              disabled={partidosRegular.length < 14 || loading}
+              className={`flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium transition-colors ${
+                partidosRegular.length >= 14 && !loading
+                  ? 'bg-blue-600 text-white hover:bg-blue-700'
+                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              <Brain className="w-4 h-4" />
+              {loading ? 'Clasificando...' : 'Clasificar Partidos'}
+            </button>
+
+            <button
+              onClick={generarQuinielasCore}
+              disabled={partidosClasificados.length === 0 || loading}
+              className={`flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium transition-colors ${
+                partidosClasificados.length > 0 && !loading
+                  ? 'bg-green-600 text-white hover:bg-green-700'
+                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              <Target className="w-4 h-4" />
+              {loading ? 'Generando...' : 'Generar Core (4)'}
+            </button>
+
+            <button
+              onClick={generarQuinielasSatelites}
+              disabled={quinielasCore.length === 0 || loading}
+              className={`flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium transition-colors ${
+                quinielasCore.length > 0 && !loading
+                  ? 'bg-purple-600 text-white hover:bg-purple-700'
+                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              <RefreshCw className="w-4 h-4" />
+              {loading ? 'Generando...' : `Generar Satélites (${config.numQuinielas - 4})`}
+            </button>
+
+            <button
+              onClick={optimizarPortafolio}
+              disabled={quinielasCore.length === 0 || quinielasSatelites.length === 0 || loading}
+              className={`flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium transition-colors ${
+                quinielasCore.length > 0 && quinielasSatelites.length > 0 && !loading
+                  ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              <Gauge className="w-4 h-4" />
+              {loading ? 'Optimizando...' : 'Optimizar GRASP'}
+            </button>
+
+            <button
+              onClick={aplicarContrarian}
+              disabled={quinielasCore.length === 0 || quinielasSatelites.length === 0 || loading}
+              title={`Cambia resultados hacia los poco jugados por el público; cada quiniela pierde a lo más ${PROGOL_CONFIG.CONTRARIAN_PERDIDA_MAX * 100}% de su Pr[≥11]`}
+              className={`flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium transition-colors ${
+                quinielasCore.length > 0 && quinielasSatelites.length > 0 && !loading
+                  ? 'bg-fuchsia-600 text-white hover:bg-fuchsia-700'
+                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              <TrendingUp className="w-4 h-4" />
+              {loading ? 'Aplicando...' : 'Modo Contrarian'}
+            </button>
+
+            <button
+              onClick={validarPortafolio}
+              disabled={quinielasCore.length === 0 || quinielasSatelites.length === 0 || loading}
+              className={`flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium transition-colors ${
+                quinielasCore.length > 0 && quinielasSatelites.length > 0 && !loading
+                  ? 'bg-orange-600 text-white hover:bg-orange-700'
+                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              <CheckCircle2 className="w-4 h-4" />
+              {loading ? 'Validando...' : 'Validar Portafolio'}
+            </button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Mostrar clasificación de partidos */}
+      {partidosClasificados.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>🎯 Clasificación de Partidos</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+              {['Ancla', 'Divisor', 'TendenciaEmpate', 'Neutro'].map(tipo => {
+                const count = partidosClasificados.filter(p => p.clasificacion === tipo).length;
+                const color = {
+                  'Ancla': 'text-red-600',
+                  'Divisor': 'text-yellow-600',
+                  'TendenciaEmpate': 'text-blue-600',
+                  'Neutro': 'text-gray-600'
+                }[tipo];
+
+                return (
+                  <div key={tipo} className="text-center">
+                    <div className={`text-lg font-bold ${color}`}>{count}</div>
+                    <div className="text-sm text-gray-600">{tipo}</div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="space-y-1 max-h-32 overflow-y-auto text-sm">
+              {partidosClasificados.map((partido, i) => (
+                <div key={i} className="flex justify-between items-center">
+                  <span>{partido.local} vs {partido.visitante}</span>
+                  <span className={`px-2 py-1 rounded text-xs ${
+                    partido.clasificacion === 'Ancla' ? 'bg-red-100 text-red-600' :
+                    partido.clasificacion === 'Divisor' ? 'bg-yellow-100 text-yellow-600' :
+                    partido.clasificacion === 'TendenciaEmpate' ? 'bg-blue-100 text-blue-600' :
+                    'bg-gray-100 text-gray-600'
+                  }`}>
+                    {partido.clasificacion}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Sistema reducido */}
+      {partidosClasificados.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>🧮 Modo Sistema Reducido</CardTitle>
+            <CardDescription>
+              Alternativa a Core + Satélites: dobles o triples en los partidos inciertos y la cobertura mínima que asegura la garantía elegida
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+              {partidosClasificados.map((partido, i) => {
+                if (partido.clasificacion !== 'Divisor' && partido.clasificacion !== 'TendenciaEmpate') return null;
+                return (
+                  <div key={i} className="flex justify-between items-center gap-2">
+                    <span>{i + 1}. {partido.local} vs {partido.visitante}</span>
+                    <select
+                      value={coberturasSistema[i] || 'fijo'}
+                      onChange={(e) => {
+                        const cobertura = e.target.value as Cobertura;
+                        setCoberturasSistema(prev => prev.map((c, j) => (j === i ? cobertura : c)));
+                      }}
+                      className="text-sm px-2 py-1 bg-gray-100 rounded-md"
+                    >
+                      <option value="fijo">Fijo ({partido.resultadoSugerido})</option>
+                      <option value="doble">Doble</option>
+                      <option value="triple">Triple</option>
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">Garantía:</span>
+              <select
+                value={garantiaSistema.aciertos}
+                onChange={(e) => setGarantiaSistema(prev => ({ ...prev, aciertos: parseInt(e.target.value) }))}
+                className="px-2 py-1 bg-gray-100 rounded-md"
+              >
+                {Array.from({ length: 4 }, (_, k) => garantiaSistema.si - k).filter(n => n >= 0).map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+              <span>si</span>
+              <select
+                value={garantiaSistema.si}
+                onChange={(e) => {
+                  const si = parseInt(e.target.value);
+                  setGarantiaSistema(prev => ({ si, aciertos: Math.min(si, Math.max(si - 3, prev.aciertos)) }));
+                }}
+                className="px-2 py-1 bg-gray-100 rounded-md"
+              >
+                {[14, 13, 12, 11].map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+              <span className="text-gray-500">aciertos en la mejor columna del desarrollo completo</span>
+              <button
+                onClick={generarSistema}
+                disabled={loading}
+                className={`ml-auto flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${
+                  !loading ? 'bg-teal-600 text-white hover:bg-teal-700' : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                }`}
+              >
+                <Play className="w-4 h-4" />
+                {loading ? 'Generando...' : 'Generar Sistema'}
+              </button>
+            </div>
+
+            {sistemaReducido && (() => {
+              const { sistema, validacion: validacionSistema } = sistemaReducido;
+              const filas = [
+                {
+                  nombre: `Sistema reducido (${sistema.garantia.aciertos} si ${sistema.garantia.si})`,
+                  quinielas: sistema.quinielas.length,
+                  costo: sistema.costo,
+                  prob: validacionSistema.metricas.prob_portafolio_11_plus || 0
+                },
+                ...(validacion && quinielasFinales.length > 0 ? [{
+                  nombre: 'Portafolio actual',
+                  quinielas: quinielasFinales.length,
+                  costo: validacion.metricas.costo_total || 0,
+                  prob: validacion.metricas.prob_portafolio_11_plus || 0
+                }] : [])
+              ];
+
+              return (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="text-center">
+                      <div className="text-lg font-bold">{sistema.combinaciones}</div>
+                      <div className="text-sm text-gray-600">Columnas del desarrollo completo</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-lg font-bold text-teal-600">{sistema.quinielas.length}</div>
+                      <div className="text-sm text-gray-600">Quinielas (cota {sistema.cotaInferior})</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-lg font-bold">${sistema.costo.toLocaleString()}</div>
+                      <div className="text-sm text-gray-600">Costo MXN</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-lg font-bold text-gray-600">${sistema.costoDesarrolloCompleto.toLocaleString()}</div>
+                      <div className="text-sm text-gray-600">Desarrollo completo MXN</div>
+                    </div>
+                  </div>
+
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600 border-b">
+                        <th className="py-1">Portafolio</th>
+                        <th className="py-1 text-right">Quinielas</th>
+                        <th className="py-1 text-right">Costo MXN</th>
+                        <th className="py-1 text-right">Pr[≥11]</th>
+                        <th className="py-1 text-right">Pr[≥11] por $1,000</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {filas.map(fila => (
+                        <tr key={fila.nombre} className="border-b last:border-0">
+                          <td className="py-1">{fila.nombre}</td>
+                          <td className="py-1 text-right font-mono">{fila.quinielas}</td>
+                          <td className="py-1 text-right font-mono">{fila.costo.toLocaleString()}</td>
+                          <td className="py-1 text-right font-mono">{(fila.prob * 100).toFixed(2)}%</td>
+                          <td className="py-1 text-right font-mono">{fila.costo > 0 ? (fila.prob / (fila.costo / 1000) * 100).toFixed(2) : '-'}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  <button
+                    onClick={usarSistemaComoPortafolio}
+                    className="text-sm px-3 py-1 bg-teal-50 text-teal-700 rounded-md hover:bg-teal-100"
+                  >
+                    Usar como portafolio final
+                  </button>
+                </div>
+              );
+            })()}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Reparto del presupuesto entre boletos sencillos y múltiples */}
+      {quinielasSatelites.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>💰 Presupuesto: Sencillos vs Múltiples</CardTitle>
+            <CardDescription>
+              Reparte el presupuesto entre más boletos sencillos o menos boletos con dobles y triples, a ${restricciones.precioBoleto} MXN por columna
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">Presupuesto (MXN):</span>
+              <input
+                type="number"
+                min={restricciones.precioBoleto}
+                step={restricciones.precioBoleto}
+                value={config.presupuesto}
+                onChange={(e) => setConfig(prev => ({ ...prev, presupuesto: parseFloat(e.target.value) || 0 }))}
+                className="w-28 px-2 py-1 bg-gray-100 rounded-md"
+              />
+              <span className="text-gray-500">
+                hasta {Math.floor(config.presupuesto / restricciones.precioBoleto)} columnas
+              </span>
+              <button
+                onClick={repartirPresupuesto}
+                disabled={loading}
+                className={`ml-auto flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${
+                  !loading ? 'bg-amber-600 text-white hover:bg-amber-700' : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                }`}
+              >
+                <Play className="w-4 h-4" />
+                {loading ? 'Repartiendo...' : 'Repartir Presupuesto'}
+              </button>
+            </div>
+
+            {repartoPresupuesto && (() => {
+              const { reparto, validacion: validacionReparto } = repartoPresupuesto;
+              const mejor = Math.max(...reparto.alternativas.map(a => a.probEstimada));
+
+              return (
+                <div className="space-y-3">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600 border-b">
+                        <th className="py-1">Boletos</th>
+                        <th className="py-1 text-right">Múltiples</th>
+                        <th className="py-1 text-right">Columnas</th>
+                        <th className="py-1 text-right">Costo MXN</th>
+                        <th className="py-1 text-right">Pr[≥11] estimado</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {reparto.alternativas.map(alternativa => (
+                        <tr
+                          key={alternativa.numBoletos}
+                          className={`border-b last:border-0 ${alternativa.probEstimada === mejor ? 'bg-amber-50 font-medium' : ''}`}
+                        >
+                          <td className="py-1">{alternativa.numBoletos}</td>
+                          <td className="py-1 text-right font-mono">{alternativa.boletosMultiples}</td>
+                          <td className="py-1 text-right font-mono">{alternativa.columnas}</td>
+                          <td className="py-1 text-right font-mono">{alternativa.costo.toLocaleString()}</td>
+                          <td className="py-1 text-right font-mono">{(alternativa.probEstimada * 100).toFixed(2)}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  <div className="text-sm text-gray-600">
+                    Elegido: {reparto.quinielas.length} boletos por ${reparto.costo.toLocaleString()} de ${reparto.presupuesto.toLocaleString()} MXN ·
+                    Pr[≥11] validado {((validacionReparto.metricas.prob_portafolio_11_plus || 0) * 100).toFixed(2)}% ·
+                    {validacionReparto.es_valido ? ' cumple las reglas' : ` ${validacionReparto.errores.length} errores de validación`}
+                  </div>
+
+                  <button
+                    onClick={usarRepartoComoPortafolio}
+                    className="text-sm px-3 py-1 bg-amber-50 text-amber-700 rounded-md hover:bg-amber-100"
+                  >
+                    Usar como portafolio final
+                  </button>
+                </div>
+              );
+            })()}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Convergencia del optimizador */}
+      {optimizacion && (
+        <Card>
+          <CardHeader>
+            <CardTitle>📈 Convergencia GRASP-Annealing</CardTitle>
+            <CardDescription>
+              Mejor score encontrado en cada iteración (Pr[≥11] del portafolio menos penalización por restricciones)
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+              <div className="text-center">
+                <div className="text-lg font-bold">{optimizacion.historial.length}</div>
+                <div className="text-sm text-gray-600">Iteraciones</div>
+              </div>
+              <div className="text-center">
+                <div className="text-lg font-bold">{(optimizacion.scoreInicial * 100).toFixed(2)}</div>
+                <div className="text-sm text-gray-600">Score Inicial</div>
+              </div>
+              <div className="text-center">
+                <div className="text-lg font-bold text-indigo-600">{(optimizacion.mejorScore * 100).toFixed(2)}</div>
+                <div className="text-sm text-gray-600">Mejor Score</div>
+              </div>
+              <div className="text-center">
+                <div className={`text-lg font-bold ${optimizacion.penalizacionFinal > 0 ? 'text-yellow-600' : 'text-green-600'}`}>
+                  {optimizacion.penalizacionFinal.toFixed(1)}
+                </div>
+                <div className="text-sm text-gray-600">Violaciones Restantes</div>
+              </div>
+            </div>
+
+            {optimizacion.historial.length > 1 && (() => {
+              const historial: number[] = optimizacion.historial;
+              const min = Math.min(...historial);
+              const rango = Math.max(...historial) - min || 1;
+              const paso = Math.max(1, Math.floor(historial.length / 200));
+              const puntos = historial
+                .filter((_, i) => i % paso === 0 || i === historial.length - 1)
+                .map((score, i, arr) => `${(i / (arr.length - 1)) * 100},${40 - ((score - min) / rango) * 40}`)
+                .join(' ');
+
+              return (
+                <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-32 bg-gray-50 rounded">
+                  <polyline points={puntos} fill="none" stroke="#4f46e5" strokeWidth="0.8" vectorEffect="non-scaling-stroke" />
+                </svg>
+              );
+            })()}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Revancha */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            🏆 Revancha
+          </CardTitle>
+          <CardDescription>
+            Clasifica los 7 partidos de Revancha y genera su portafolio Core + Satélites con reglas propias
+            ({PROGOL_CONFIG.REVANCHA.EMPATES_MIN}-{PROGOL_CONFIG.REVANCHA.EMPATES_MAX} empates por quiniela)
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-6">
+            <button
+              onClick={generarPortafolioRevancha}
+              disabled={partidosRevancha.length < 7 || loading}
+              className={`flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium transition-colors ${
+                partidosRevancha.length >= 7 && !loading
+                  ? 'bg-orange-600 text-white hover:bg-orange-700'
+                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              <Zap className="w-4 h-4" />
+              {loading ? 'Generando...' : `Generar Revancha (${Math.max(4, Math.min(config.numQuinielasRevancha, config.numQuinielas))})`}
+            </button>
+
+            {partidosRevanchaClasificados.length > 0 && (
+              <div className="flex gap-4 text-sm">
+                {['Ancla', 'Divisor', 'TendenciaEmpate', 'Neutro'].map(tipo => (
+                  <span key={tipo} className="text-gray-600">
+                    {tipo}: <span className="font-bold">{partidosRevanchaClasificados.filter(p => p.clasificacion === tipo).length}</span>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {validacionRevancha && (
+              <div className={`text-sm font-medium ${validacionRevancha.es_valido ? 'text-green-700' : 'text-yellow-700'}`}>
+                {validacionRevancha.es_valido ? '✅ Revancha válida' : '⚠️ Revancha con advertencias'}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Estado del progreso */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card className={quinielasCore.length > 0 ? 'border-green-200 bg-green-50' : ''}>
+          <CardContent className="p-4 text-center">
+            <Target className={`w-8 h-8 mx-auto mb-2 ${quinielasCore.length > 0 ? 'text-green-600' : 'text-gray-400'}`} />
+            <div className={`font-medium ${quinielasCore.length > 0 ? 'text-green-700' : 'text-gray-600'}`}>
+              Quinielas Core: {quinielasCore.length}/4
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className={quinielasSatelites.length > 0 ? 'border-purple-200 bg-purple-50' : ''}>
+          <CardContent className="p-4 text-center">
+            <RefreshCw className={`w-8 h-8 mx-auto mb-2 ${quinielasSatelites.length > 0 ? 'text-purple-600' : 'text-gray-400'}`} />
+            <div className={`font-medium ${quinielasSatelites.length > 0 ? 'text-purple-700' : 'text-gray-600'}`}>
+              Quinielas Satélites: {quinielasSatelites.length}/{config.numQuinielas - 4}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className={quinielasFinales.length > 0 ? 'border-orange-200 bg-orange-50' : ''}>
+          <CardContent className="p-4 text-center">
+            <CheckCircle2 className={`w-8 h-8 mx-auto mb-2 ${quinielasFinales.length > 0 ? 'text-orange-600' : 'text-gray-400'}`} />
+            <div className={`font-medium ${quinielasFinales.length > 0 ? 'text-orange-700' : 'text-gray-600'}`}>
+              Portafolio Final: {quinielasFinales.length}/{config.numQuinielas}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+
+  const renderControlRestriccion = (
+    etiqueta: string,
+    valor: number,
+    texto: string,
+    { min, max, step }: { min: number; max: number; step: number },
+    onChange: (valor: number) => void,
+    ayuda?: string
+  ) => (
+    <div className="grid gap-2">
+      <div className="flex justify-between items-center">
+        <label className="font-medium text-sm">{etiqueta}</label>
+        <span className="text-sm px-2 py-1 bg-gray-100 rounded-md font-mono">{texto}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={valor}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+      />
+      {ayuda && <p className="text-xs text-gray-500">{ayuda}</p>}
+    </div>
+  );
+
+  const renderRestricciones = () => (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="w-5 h-5" />
+          Restricciones del Portafolio
+        </CardTitle>
+        <CardDescription>
+          Se aplican al clasificar, generar, optimizar y validar. Los rangos L/E/V y los empates son del juego regular; Revancha conserva los suyos.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8 pt-4">
+        {/* Presets */}
+        <div className="grid gap-2">
+          <label className="font-medium text-sm">Preset</label>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={presetActivo}
+              onChange={(e) => aplicarPreset(e.target.value)}
+              className="text-sm px-2 py-1 bg-gray-100 rounded-md"
+            >
+              {presetActivo === '' && <option value="">Personalizado</option>}
+              {PRESETS_PREDEFINIDOS.map(p => (
+                <option key={p.nombre} value={p.nombre}>{p.nombre}</option>
+              ))}
+              {presetsGuardados.map(p => (
+                <option key={`guardado-${p.nombre}`} value={p.nombre}>{p.nombre} (guardado)</option>
+              ))}
+            </select>
+            {presetsGuardados.some(p => p.nombre === presetActivo) && (
+              <button
+                onClick={() => eliminarPreset(presetActivo)}
+                className="text-sm px-2 py-1 bg-red-50 text-red-700 rounded-md hover:bg-red-100"
+              >
+                Eliminar
+              </button>
+            )}
+            <input
+              type="text"
+              placeholder="Nombre del preset"
+              value={nombrePreset}
+              onChange={(e) => setNombrePreset(e.target.value)}
+              className="text-sm px-2 py-1 bg-gray-100 rounded-md"
+            />
+            <button
+              onClick={guardarPreset}
+              className="text-sm px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Guardar preset
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">Los presets guardados se conservan en este navegador.</p>
+        </div>
+
+        {renderControlRestriccion(
+          'Empates mínimos por quiniela',
+          restricciones.empatesMin,
+          String(restricciones.empatesMin),
+          { min: 0, max: 14, step: 1 },
+          (valor) => actualizarRestricciones({ empatesMin: valor, empatesMax: Math.max(valor, restricciones.empatesMax) })
+        )}
+        {renderControlRestriccion(
+          'Empates máximos por quiniela',
+          restricciones.empatesMax,
+          String(restricciones.empatesMax),
+          { min: 0, max: 14, step: 1 },
+          (valor) => actualizarRestricciones({ empatesMax: valor, empatesMin: Math.min(valor, restricciones.empatesMin) })
+        )}
+        {renderControlRestriccion(
+          'Concentración máxima general',
+          restricciones.concentracionGeneral,
+          `${(restricciones.concentracionGeneral * 100).toFixed(0)}%`,
+          { min: 0.4, max: 1, step: 0.05 },
+          (valor) => actualizarRestricciones({ concentracionGeneral: valor }),
+          'Porcentaje máximo de quinielas con el mismo resultado en un partido.'
+        )}
+        {renderControlRestriccion(
+          'Concentración máxima en partidos iniciales',
+          restricciones.concentracionInicial,
+          `${(restricciones.concentracionInicial * 100).toFixed(0)}%`,
+          { min: 0.4, max: 1, step: 0.05 },
+          (valor) => actualizarRestricciones({ concentracionInicial: valor })
+        )}
+        {renderControlRestriccion(
+          'Partidos iniciales',
+          restricciones.partidosIniciales,
+          String(restricciones.partidosIniciales),
+          { min: 0, max: 14, step: 1 },
+          (valor) => actualizarRestricciones({ partidosIniciales: valor }),
+          'Los primeros partidos del boleto a los que aplica la concentración inicial.'
+        )}
+        {renderControlRestriccion(
+          'Correlación objetivo entre satélites',
+          restricciones.correlacionTarget,
+          restricciones.correlacionTarget.toFixed(2),
+          { min: -0.8, max: 0, step: 0.05 },
+          (valor) => actualizarRestricciones({ correlacionTarget: valor }),
+          'Correlación de aciertos que busca el generador en cada par de satélites; más negativa reparte más el riesgo.'
+        )}
+
+        {/* Rangos históricos L/E/V */}
+        <div className="grid gap-2">
+          <label className="font-medium text-sm">Rangos de distribución L/E/V (%)</label>
+          <div className="grid grid-cols-3 gap-4">
+            {(['L', 'E', 'V'] as Resultado[]).map(resultado => (
+              <div key={resultado} className="flex items-center gap-1 text-sm">
+                <span className="font-mono w-4">{resultado}</span>
+                {[0, 1].map(extremo => (
+                  <input
+                    key={extremo}
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={Math.round(restricciones.rangosHistoricos[resultado][extremo] * 100)}
+                    onChange={(e) => {
+                      const rango = [...restricciones.rangosHistoricos[resultado]] as [number, number];
+                      rango[extremo] = Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) / 100;
+                      actualizarRestricciones({ rangosHistoricos: { ...restricciones.rangosHistoricos, [resultado]: rango } });
+                    }}
+                    className="w-16 px-2 py-1 bg-gray-100 rounded-md font-mono text-right"
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">Mínimo y máximo del porcentaje de cada resultado en el portafolio.</p>
+        </div>
+
+        {/* Precios */}
+        <div className="grid gap-2">
+          <label className="font-medium text-sm">Precios (MXN)</label>
+          <div className="flex flex-wrap gap-4 text-sm">
+            {([['precioBoleto', 'Columna regular'], ['precioRevancha', 'Revancha']] as const).map(([campo, etiqueta]) => (
+              <div key={campo} className="flex items-center gap-2">
+                <span className="text-gray-600">{etiqueta}</span>
+                <input
+                  type="number"
+                  min="1"
+                  max="1000"
+                  step="1"
+                  value={restricciones[campo]}
+                  onChange={(e) => actualizarRestricciones({ [campo]: Math.min(1000, Math.max(1, parseFloat(e.target.value) || 1)) })}
+                  className="w-20 px-2 py-1 bg-gray-100 rounded-md font-mono text-right"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">Un doble cuesta 2 columnas y un triple 3; se usan en costos, presupuesto y exportación.</p>
+        </div>
 
-      {partidosRegular.length >= 14 && (
-        <Card className="bg-green-50 border-green-200">
-          <CardContent className="p-4">
-            <div className="flex items-center gap-2 text-green-700">
-              <CheckCircle2 className="w-5 h-5" />
-              <span className="font-medium">¡Listo para continuar!</span>
-              <span className="text-sm">Tienes suficientes partidos para generar las quinielas</span>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-    </div>
+        {/* Calibración bayesiana */}
+        {renderControlRestriccion(
+          'k1 · Forma',
+          restricciones.calibracion.k1_forma,
+          restricciones.calibracion.k1_forma.toFixed(2),
+          { min: 0, max: 0.5, step: 0.01 },
+          (valor) => actualizarRestricciones({ calibracion: { ...restricciones.calibracion, k1_forma: valor } })
+        )}
+        {renderControlRestriccion(
+          'k2 · Lesiones',
+          restricciones.calibracion.k2_lesiones,
+          restricciones.calibracion.k2_lesiones.toFixed(2),
+          { min: 0, max: 0.5, step: 0.01 },
+          (valor) => actualizarRestricciones({ calibracion: { ...restricciones.calibracion, k2_lesiones: valor } })
+        )}
+        {renderControlRestriccion(
+          'k3 · Contexto (finales)',
+          restricciones.calibracion.k3_contexto,
+          restricciones.calibracion.k3_contexto.toFixed(2),
+          { min: 0, max: 0.5, step: 0.01 },
+          (valor) => actualizarRestricciones({ calibracion: { ...restricciones.calibracion, k3_contexto: valor } }),
+          'Coeficientes de la calibración bayesiana; se aplican al volver a clasificar los partidos.'
+        )}
+      </CardContent>
+    </Card>
   );
 
-  const renderGeneracion = () => (
-    <div className="space-y-6">
+  const renderObjetivos = () => {
+    const calcular = (ventana: number | null) => {
+      if (!historialResultados) return { objetivos: null, error: null };
+      try {
+        return { objetivos: calcularObjetivosHistoricos(historialResultados.concursos, historialResultados.archivo, ventana), error: null };
+      } catch (error) {
+        return { objetivos: null, error: (error as Error).message };
+      }
+    };
+    const columnas = [
+      { titulo: 'Histórico completo', ...calcular(null) },
+      { titulo: `Últimos ${ventanaObjetivos} años`, ...calcular(ventanaObjetivos) }
+    ];
+    const porcentaje = (valor: number) => `${(valor * 100).toFixed(1)}%`;
+    const filas: [string, (o: ObjetivosHistoricos) => string][] = [
+      ['Concursos', o => `${o.concursos} (${o.numeroDesde}-${o.numeroHasta})`],
+      ['Periodo', o => (o.desde ? `${o.desde} a ${o.hasta}` : 'sin fechas')],
+      ['Distribución L / E / V', o => `${porcentaje(o.distribucion.L)} / ${porcentaje(o.distribucion.E)} / ${porcentaje(o.distribucion.V)}`],
+      ...(['L', 'E', 'V'] as Resultado[]).map(r => [
+        `Rango ${r}`,
+        (o: ObjetivosHistoricos) => `${porcentaje(o.rangosHistoricos[r][0])}-${porcentaje(o.rangosHistoricos[r][1])}`
+      ] as [string, (o: ObjetivosHistoricos) => string]),
+      ['Empates promedio por concurso', o => o.empatesPromedio.toFixed(2)],
+      ['Empates por quiniela', o => `${o.empatesMin}-${o.empatesMax}`]
+    ];
+    const aplicados = objetivosHistoricos && usaObjetivos(restricciones, objetivosHistoricos) ? objetivosHistoricos : null;
+    const vigentes = aplicados ?? { distribucion: PROGOL_CONFIG.DISTRIBUCION_HISTORICA, empatesPromedio: PROGOL_CONFIG.EMPATES_PROMEDIO };
+
+    return (
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
-            <Zap className="w-5 h-5" />
-            Generación de Portafolio
+            <BarChart3 className="w-5 h-5" />
+            Objetivos Históricos
           </CardTitle>
           <CardDescription>
-            Sigue la metodología Core + Satélites con optimización GRASP-Annealing
+            Recalcula la distribución L/E/V, sus rangos y los empates por quiniela con un historial de resultados
+            (CSV con concurso, fecha y resultados como <code>LEVL…</code> o <code>1X21…</code>, o el JSON de backtest).
+            Al aplicarlos, el validador y el optimizador usan esos rangos en lugar de los del preset.
           </CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
-            <div className="text-center">
-              <div className="text-lg font-bold">{config.numQuinielas}</div>
-              <div className="text-sm text-gray-600">Quinielas Target</div>
-            </div>
-            <div className="text-center">
-              <div className="text-lg font-bold">{config.empatesMin}-{config.empatesMax}</div>
-              <div className="text-sm text-gray-600">Empates por Quiniela</div>
-            </div>
-            <div className="text-center">
-              <div className="text-lg font-bold">{(config.concentracionGeneral * 100).toFixed(0)}%</div>
-              <div className="text-sm text-gray-600">Concentración Máx</div>
-            </div>
-            <div className="text-center">
-              <div className="text-lg font-bold">{partidosClasificados.length}</div>
-              <div className="text-sm text-gray-600">Partidos Clasificados</div>
-            </div>
+        <CardContent className="space-y-6 pt-4">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors cursor-pointer">
+              <FileUp className="w-4 h-4" />
+              Importar historial de resultados
+              <input
+                type="file"
+                accept=".csv,.txt,.json"
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files && e.target.files[0]) importarHistorialResultados(e.target.files[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-gray-600">Ventana (años)</span>
+              <input
+                type="number"
+                min="0.5"
+                max="50"
+                step="0.5"
+                value={ventanaObjetivos}
+                onChange={(e) => setVentanaObjetivos(Math.min(50, Math.max(0.5, parseFloat(e.target.value) || 0.5)))}
+                className="w-20 px-2 py-1 bg-gray-100 rounded-md font-mono text-right"
+              />
+            </label>
+            {historialResultados && (
+              <span className="text-gray-500">{historialResultados.archivo}: {historialResultados.concursos.length} concursos</span>
+            )}
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-            <button
-              onClick={clasificarPartidos}
-              disabled={partidosRegular.length < 14 || loading}
-              className={`flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium transition-colors ${
-                partidosRegular.length >= 14 && !loading
-                  ? 'bg-blue-600 text-white hover:bg-blue-700'
-                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
-              }`}
-            >
-              <Brain className="w-4 h-4" />
-              {loading ? 'Clasificando...' : 'Clasificar Partidos'}
-            </button>
+          {historialResultados ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-1"></th>
+                  {columnas.map(c => <th key={c.titulo} className="py-1 text-right">{c.titulo}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {filas.map(([etiqueta, valor]) => (
+                  <tr key={etiqueta} className="border-b">
+                    <td className="py-1">{etiqueta}</td>
+                    {columnas.map(c => (
+                      <td key={c.titulo} className="py-1 text-right font-mono">{c.objetivos ? valor(c.objetivos) : '—'}</td>
+                    ))}
+                  </tr>
+                ))}
+                <tr>
+                  <td className="py-2"></td>
+                  {columnas.map(c => (
+                    <td key={c.titulo} className="py-2 text-right">
+                      {c.objetivos ? (
+                        <button
+                          onClick={() => aplicarObjetivos(c.objetivos!)}
+                          className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                        >
+                          Aplicar
+                        </button>
+                      ) : (
+                        <span className="text-xs text-gray-500">{c.error}</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500">
+              {aplicados ?
+                `El historial no está cargado, pero siguen aplicados los objetivos de ${aplicados.fuente}` :
+                'Sin historial importado: se usan los objetivos por defecto de PROGOL_CONFIG'}
+              {' '}(L {(vigentes.distribucion.L * 100).toFixed(0)}%, E {(vigentes.distribucion.E * 100).toFixed(0)}%,
+              V {(vigentes.distribucion.V * 100).toFixed(0)}%, {vigentes.empatesPromedio.toFixed(1)} empates promedio).
+            </p>
+          )}
+
+          {aplicados && (
+            <p className="text-xs text-gray-500">
+              Aplicados: {aplicados.fuente}, {aplicados.concursos} concursos
+              {aplicados.desde && ` del ${aplicados.desde} al ${aplicados.hasta}`}
+              {aplicados.ventanaAnios !== null && ` (últimos ${aplicados.ventanaAnios} años)`}. Cambiar las restricciones o el preset los reemplaza.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderCalibracion = () => {
+    const resultado = ajusteCalibracion?.resultado;
+    const activos: [string, number][] = [
+      ['k1 · Forma', restricciones.calibracion.k1_forma],
+      ['k2 · Lesiones', restricciones.calibracion.k2_lesiones],
+      ['k3 · Contexto', restricciones.calibracion.k3_contexto],
+      ['Draw-Propensity · umbral', drawPropensity.umbral_diferencia],
+      ['Draw-Propensity · boost', drawPropensity.boost_empate]
+    ];
+    const ajustados = resultado ? [
+      resultado.parametros.calibracion.k1_forma,
+      resultado.parametros.calibracion.k2_lesiones,
+      resultado.parametros.calibracion.k3_contexto,
+      resultado.parametros.drawPropensity.umbral_diferencia,
+      resultado.parametros.drawPropensity.boost_empate
+    ] : [];
+    const evaluaciones: [string, EvaluacionCalibracion | undefined, string, string][] = [
+      ['Sin calibrar', resultado?.sinCalibrar, 'stroke-gray-400', 'text-gray-400'],
+      ['Calibración activa', resultado?.inicial, 'stroke-orange-500', 'text-orange-500'],
+      ['Calibración ajustada', resultado?.ajustada, 'stroke-blue-600', 'text-blue-600']
+    ];
 
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="w-5 h-5" />
+            Calibración desde el Historial
+          </CardTitle>
+          <CardDescription>
+            Ajusta k1, k2, k3 y la Draw-Propensity Rule a partidos ya jugados (forma, lesiones, finales, probabilidades y resultado real)
+            minimizando log-loss o Brier. Usa los concursos registrados en Resultados o un JSON como el de <code>progol backtest</code>.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6 pt-4">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <select
+              value={metricaCalibracion}
+              onChange={(e) => setMetricaCalibracion(e.target.value as MetricaCalibracion)}
+              className="px-2 py-2 bg-gray-100 rounded-md"
+            >
+              <option value="logloss">Minimizar log-loss</option>
+              <option value="brier">Minimizar Brier</option>
+            </select>
             <button
-              onClick={generarQuinielasCore}
-              disabled={partidosClasificados.length === 0 || loading}
-              className={`flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium transition-colors ${
-                partidosClasificados.length > 0 && !loading
-                  ? 'bg-green-600 text-white hover:bg-green-700'
-                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
-              }`}
+              onClick={calibrarConConcursos}
+              disabled={loading}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-300"
             >
-              <Target className="w-4 h-4" />
-              {loading ? 'Generando...' : 'Generar Core (4)'}
+              <Database className="w-4 h-4" />
+              Usar concursos registrados
             </button>
-
+            <label className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors cursor-pointer">
+              <FileUp className="w-4 h-4" />
+              Importar historial JSON
+              <input
+                type="file"
+                accept=".json"
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files && e.target.files[0]) importarHistorialCalibracion(e.target.files[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
             <button
-              onClick={generarQuinielasSatelites}
-              disabled={quinielasCore.length === 0 || loading}
-              className={`flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium transition-colors ${
-                quinielasCore.length > 0 && !loading
-                  ? 'bg-purple-600 text-white hover:bg-purple-700'
-                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
-              }`}
+              onClick={() => guardarCalibracion(null)}
+              className="flex items-center gap-1 px-3 py-2 bg-gray-100 rounded-md hover:bg-gray-200"
             >
-              <RefreshCw className="w-4 h-4" />
-              {loading ? 'Generando...' : `Generar Satélites (${config.numQuinielas - 4})`}
+              <RefreshCw className="w-3 h-3" />
+              Calibración por defecto
             </button>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-1">Parámetro</th>
+                <th className="py-1 text-right">Activo</th>
+                {resultado && <th className="py-1 text-right">Ajustado</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {activos.map(([etiqueta, valor], i) => (
+                <tr key={etiqueta} className="border-b last:border-0">
+                  <td className="py-1">{etiqueta}</td>
+                  <td className="py-1 text-right font-mono">{valor.toFixed(3)}</td>
+                  {resultado && <td className="py-1 text-right font-mono">{ajustados[i].toFixed(3)}</td>}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {resultado && ajusteCalibracion && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {resultado.partidos} partidos de {ajusteCalibracion.origen}, minimizando {resultado.metrica === 'brier' ? 'Brier' : 'log-loss'}.
+              </p>
+              <div className="grid md:grid-cols-2 gap-6 items-start">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-1">Probabilidades</th>
+                      <th className="py-1 text-right">Log-loss</th>
+                      <th className="py-1 text-right">Brier</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {evaluaciones.map(([etiqueta, evaluacion, , color]) => evaluacion && (
+                      <tr key={etiqueta} className="border-b last:border-0">
+                        <td className={`py-1 ${color}`}>{etiqueta}</td>
+                        <td className="py-1 text-right font-mono">{evaluacion.logLoss.toFixed(4)}</td>
+                        <td className="py-1 text-right font-mono">{evaluacion.brier.toFixed(4)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div>
+                  <ReliabilityChart
+                    className="max-w-sm mx-auto"
+                    aria-label="Diagrama de confiabilidad"
+                    series={evaluaciones.map(([label, evaluacion, strokeClassName, colorClassName]) => ({
+                      label,
+                      points: (evaluacion?.confiabilidad || []).map(p => ({ predicted: p.prediccion, observed: p.observada, count: p.casos })),
+                      strokeClassName,
+                      colorClassName
+                    }))}
+                  />
+                  <p className="text-xs text-gray-500 text-center">
+                    Frecuencia observada contra probabilidad predicha (L, E y V juntas); la diagonal es la calibración perfecta.
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => guardarCalibracion(resultado.parametros)}
+                className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+              >
+                <CheckCircle2 className="w-4 h-4" />
+                Usar como calibración activa
+              </button>
+              <p className="text-xs text-gray-500">Se guarda en este navegador y se aplica al volver a clasificar los partidos.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  // NUEVO COMPONENTE DE RENDERIZADO PARA LA CONFIGURACIÓN
+  const renderPremios = () => {
+    const totalCategorias = premios.categorias.reduce((acc, c) => acc + c.proporcion, 0);
 
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="w-5 h-5" />
+            Premios y Valor Esperado
+          </CardTitle>
+          <CardDescription>
+            Bolsa estimada del concurso y su reparto por aciertos. Con la popularidad del público (pestaña Datos) estiman cuántos
+            comparten cada premio; los usan el valor esperado de Resultados y el Modo Contrarian.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6 pt-4">
+          <div className="flex flex-wrap gap-6 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="text-gray-600">Bolsa (MXN)</span>
+              <input
+                type="number"
+                min="0"
+                step="100000"
+                value={premios.bolsa}
+                onChange={(e) => setPremios(prev => ({ ...prev, bolsa: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                className="w-32 px-2 py-1 bg-gray-100 rounded-md font-mono text-right"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-gray-600">Columnas del público</span>
+              <input
+                type="number"
+                min="0"
+                step="10000"
+                value={premios.columnasPublico}
+                onChange={(e) => setPremios(prev => ({ ...prev, columnasPublico: Math.max(0, Math.round(parseFloat(e.target.value) || 0)) }))}
+                className="w-32 px-2 py-1 bg-gray-100 rounded-md font-mono text-right"
+              />
+            </div>
             <button
-              onClick={validarPortafolio}
-              disabled={quinielasCore.length === 0 || quinielasSatelites.length === 0 || loading}
-              className={`flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-medium transition-colors ${
-                quinielasCore.length > 0 && quinielasSatelites.length > 0 && !loading
-                  ? 'bg-orange-600 text-white hover:bg-orange-700'
-                  : 'bg-gray-300 text-gray-500 cursor-not-allowed'
-              }`}
+              onClick={() => setPremios(PREMIOS_DEFAULT)}
+              className="flex items-center gap-1 px-3 py-1 bg-gray-100 rounded-md hover:bg-gray-200"
             >
-              <CheckCircle2 className="w-4 h-4" />
-              {loading ? 'Validando...' : 'Validar Portafolio'}
+              <RefreshCw className="w-3 h-3" />
+              Valores por defecto
             </button>
           </div>
+
+          <div className="grid gap-2">
+            <label className="font-medium text-sm">Reparto por categoría</label>
+            <div className="flex flex-wrap gap-4 text-sm">
+              {premios.categorias.map((categoria, i) => (
+                <div key={categoria.aciertos} className="flex items-center gap-2">
+                  <span className="text-gray-600">{categoria.aciertos} aciertos</span>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={Math.round(categoria.proporcion * 100)}
+                    onChange={(e) => {
+                      const proporcion = Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) / 100;
+                      setPremios(prev => ({
+                        ...prev,
+                        categorias: prev.categorias.map((c, j) => (j === i ? { ...c, proporcion } : c))
+                      }));
+                    }}
+                    className="w-16 px-2 py-1 bg-gray-100 rounded-md font-mono text-right"
+                  />
+                  <span className="text-gray-500">%</span>
+                </div>
+              ))}
+            </div>
+            <p className={`text-xs ${totalCategorias > 1 + 1e-9 ? 'text-red-600' : 'text-gray-500'}`}>
+              Las categorías reparten el {(totalCategorias * 100).toFixed(0)}% de la bolsa
+              {totalCategorias > 1 + 1e-9 ? '; no deben pasar del 100%.' : '.'}
+            </p>
+          </div>
         </CardContent>
       </Card>
+    );
+  };
 
-      {/* Mostrar clasificación de partidos */}
-      {partidosClasificados.length > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle>🎯 Clasificación de Partidos</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
-              {['Ancla', 'Divisor', 'TendenciaEmpate', 'Neutro'].map(tipo => {
-                const count = partidosClasificados.filter(p => p.clasificacion === tipo).length;
-                const color = {
-                  'Ancla': 'text-red-600',
-                  'Divisor': 'text-yellow-600',
-                  'TendenciaEmpate': 'text-blue-600',
-                  'Neutro': 'text-gray-600'
-                }[tipo];
+  const renderConfiguracion = () => (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Settings className="w-5 h-5" />
+            Parámetros de Optimización
+          </CardTitle>
+          <CardDescription>
+            Ajusta los hiperparámetros del algoritmo de generación. Cambios aquí requerirán volver a generar las quinielas.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-8 pt-4">
+          {/* Fila para Número de Quinielas (existente) */}
+          <div className="grid gap-2">
+            <div className="flex justify-between items-center">
+              <label className="font-medium text-sm">Número Total de Quinielas</label>
+              <span className="text-sm px-2 py-1 bg-gray-100 rounded-md font-mono">{config.numQuinielas}</span>
+            </div>
+            <input
+              type="range"
+              min="5"
+              max="40"
+              step="1"
+              value={config.numQuinielas}
+              onChange={(e) => setConfig(prev => ({ ...prev, numQuinielas: parseInt(e.target.value) }))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
 
-                return (
-                  <div key={tipo} className="text-center">
-                    <div className={`text-lg font-bold ${color}`}>{count}</div>
-                    <div className="text-sm text-gray-600">{tipo}</div>
-                  </div>
-                );
-              })}
+          {/* Fila para la semilla */}
+          <div className="grid gap-2">
+            <div className="flex justify-between items-center">
+              <label className="font-medium text-sm">Semilla (seed)</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={config.seed}
+                  onChange={(e) => setConfig(prev => ({ ...prev, seed: parseInt(e.target.value) || 0 }))}
+                  className="w-32 text-sm px-2 py-1 bg-gray-100 rounded-md font-mono text-right"
+                />
+                <button
+                  onClick={() => setConfig(prev => ({ ...prev, seed: Math.floor(Math.random() * 1000000) }))}
+                  className="text-sm px-2 py-1 bg-gray-100 rounded-md hover:bg-gray-200"
+                >
+                  🎲
+                </button>
+              </div>
             </div>
+            <p className="text-xs text-gray-500">
+              Con los mismos datos y la misma semilla se regeneran exactamente las mismas quinielas (motor v{VERSION_MOTOR}).
+            </p>
+          </div>
 
-            <div className="space-y-1 max-h-32 overflow-y-auto text-sm">
-              {partidosClasificados.map((partido, i) => (
-                <div key={i} className="flex justify-between items-center">
-                  <span>{partido.local} vs {partido.visitante}</span>
-                  <span className={`px-2 py-1 rounded text-xs ${
-                    partido.clasificacion === 'Ancla' ? 'bg-red-100 text-red-600' :
-                    partido.clasificacion === 'Divisor' ? 'bg-yellow-100 text-yellow-600' :
-                    partido.clasificacion === 'TendenciaEmpate' ? 'bg-blue-100 text-blue-600' :
-                    'bg-gray-100 text-gray-600'
-                  }`}>
-                    {partido.clasificacion}
-                  </span>
-                </div>
-              ))}
+          {/* Fila para Quinielas con Revancha */}
+          <div className="grid gap-2">
+            <div className="flex justify-between items-center">
+              <label className="font-medium text-sm">Quinielas con Revancha</label>
+              <span className="text-sm px-2 py-1 bg-gray-100 rounded-md font-mono">
+                {Math.max(4, Math.min(config.numQuinielasRevancha, config.numQuinielas))}
+              </span>
             </div>
-          </CardContent>
-        </Card>
-      )}
+            <input
+              type="range"
+              min="4"
+              max="40"
+              step="1"
+              value={config.numQuinielasRevancha}
+              onChange={(e) => setConfig(prev => ({ ...prev, numQuinielasRevancha: parseInt(e.target.value) }))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+            <p className="text-xs text-gray-500">
+              Boletos que además juegan Revancha (MXN {restricciones.precioRevancha} adicionales cada uno). No puede exceder el total de quinielas.
+            </p>
+          </div>
 
-      {/* Estado del progreso */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        <Card className={quinielasCore.length > 0 ? 'border-green-200 bg-green-50' : ''}>
-          <CardContent className="p-4 text-center">
-            <Target className={`w-8 h-8 mx-auto mb-2 ${quinielasCore.length > 0 ? 'text-green-600' : 'text-gray-400'}`} />
-            <div className={`font-medium ${quinielasCore.length > 0 ? 'text-green-700' : 'text-gray-600'}`}>
-              Quinielas Core: {quinielasCore.length}/4
+          {/* Fila para Simulaciones Montecarlo */}
+          <div className="grid gap-2">
+            <div className="flex justify-between items-center">
+              <label className="font-medium text-sm">Simulaciones Montecarlo</label>
+              <span className="text-sm px-2 py-1 bg-gray-100 rounded-md font-mono">{optimizerConfig.simulacionesMontecarlo}</span>
             </div>
-          </CardContent>
-        </Card>
+            <input
+              type="range"
+              min="1000"
+              max="20000"
+              step="1000"
+              value={optimizerConfig.simulacionesMontecarlo}
+              onChange={(e) => setOptimizerConfig(prev => ({ ...prev, simulacionesMontecarlo: parseInt(e.target.value) }))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+            <p className="text-xs text-gray-500">Pr[≥11] se calcula de forma exacta; estas simulaciones solo se usan para la verificación cruzada en Resultados.</p>
+          </div>
 
-        <Card className={quinielasSatelites.length > 0 ? 'border-purple-200 bg-purple-50' : ''}>
-          <CardContent className="p-4 text-center">
-            <RefreshCw className={`w-8 h-8 mx-auto mb-2 ${quinielasSatelites.length > 0 ? 'text-purple-600' : 'text-gray-400'}`} />
-            <div className={`font-medium ${quinielasSatelites.length > 0 ? 'text-purple-700' : 'text-gray-600'}`}>
-              Quinielas Satélites: {quinielasSatelites.length}/{config.numQuinielas - 4}
+          {/* Parámetros del optimizador GRASP-Annealing */}
+          <div className="grid gap-2">
+            <div className="flex justify-between items-center">
+              <label className="font-medium text-sm">Iteraciones del Optimizador</label>
+              <span className="text-sm px-2 py-1 bg-gray-100 rounded-md font-mono">{optimizerConfig.iteracionesOptimizador}</span>
             </div>
-          </CardContent>
-        </Card>
+            <input
+              type="range"
+              min="500"
+              max="20000"
+              step="500"
+              value={optimizerConfig.iteracionesOptimizador}
+              onChange={(e) => setOptimizerConfig(prev => ({ ...prev, iteracionesOptimizador: parseInt(e.target.value) }))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+            <p className="text-xs text-gray-500">Número de cambios evaluados por el recocido simulado.</p>
+          </div>
 
-        <Card className={quinielasFinales.length > 0 ? 'border-orange-200 bg-orange-50' : ''}>
-          <CardContent className="p-4 text-center">
-            <CheckCircle2 className={`w-8 h-8 mx-auto mb-2 ${quinielasFinales.length > 0 ? 'text-orange-600' : 'text-gray-400'}`} />
-            <div className={`font-medium ${quinielasFinales.length > 0 ? 'text-orange-700' : 'text-gray-600'}`}>
-              Portafolio Final: {quinielasFinales.length}/{config.numQuinielas}
+          <div className="grid gap-2">
+            <div className="flex justify-between items-center">
+              <label className="font-medium text-sm">Temperatura Inicial</label>
+              <span className="text-sm px-2 py-1 bg-gray-100 rounded-md font-mono">{optimizerConfig.temperaturaInicial.toFixed(3)}</span>
+            </div>
+            <input
+              type="range"
+              min="0.005"
+              max="0.2"
+              step="0.005"
+              value={optimizerConfig.temperaturaInicial}
+              onChange={(e) => setOptimizerConfig(prev => ({ ...prev, temperaturaInicial: parseFloat(e.target.value) }))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+            <p className="text-xs text-gray-500">Mayor temperatura acepta más cambios que empeoran el score al inicio.</p>
+          </div>
+
+          <div className="grid gap-2">
+            <div className="flex justify-between items-center">
+              <label className="font-medium text-sm">Tasa de Enfriamiento</label>
+              <span className="text-sm px-2 py-1 bg-gray-100 rounded-md font-mono">{optimizerConfig.tasaEnfriamiento.toFixed(2)}</span>
+            </div>
+            <input
+              type="range"
+              min="0.80"
+              max="0.99"
+              step="0.01"
+              value={optimizerConfig.tasaEnfriamiento}
+              onChange={(e) => setOptimizerConfig(prev => ({ ...prev, tasaEnfriamiento: parseFloat(e.target.value) }))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+            <p className="text-xs text-gray-500">Factor aplicado a la temperatura cada {OPTIMIZER_CONFIG.ITERACIONES_POR_TEMPERATURA} iteraciones.</p>
+          </div>
+        </CardContent>
+      </Card>
+      {renderRestricciones()}
+      {renderObjetivos()}
+      {renderCalibracion()}
+      {renderPremios()}
+    </div>
+  );
+
+  // Captura de un resultado: un clic lo elige y otro clic sobre el mismo lo borra
+  const renderCapturaResultados = (
+    titulo: string,
+    partidos: Partido[],
+    resultados: (Resultado | null)[],
+    onChange: (resultados: (Resultado | null)[]) => void
+  ) => (
+    <div className="grid gap-2">
+      <label className="font-medium text-sm">{titulo}</label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+        {partidos.map((partido, i) => (
+          <div key={i} className="flex items-center justify-between gap-2">
+            <span className="truncate">{i + 1}. {partido.local} vs {partido.visitante}</span>
+            <div className="flex gap-1">
+              {(['L', 'E', 'V'] as Resultado[]).map(resultado => (
+                <button
+                  key={resultado}
+                  onClick={() => onChange(resultados.map((r, j) => (j === i ? (r === resultado ? null : resultado) : r)))}
+                  className={`w-7 h-7 rounded font-mono text-xs ${
+                    resultados[i] === resultado ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'
+                  }`}
+                >
+                  {resultado}
+                </button>
+              ))}
             </div>
-          </CardContent>
-        </Card>
+          </div>
+        ))}
       </div>
     </div>
   );
 
-  // NUEVO COMPONENTE DE RENDERIZADO PARA LA CONFIGURACIÓN
-  const renderConfiguracion = () => (
-    <Card>
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <Settings className="w-5 h-5" />
-          Parámetros de Optimización
-        </CardTitle>
-        <CardDescription>
-          Ajusta los hiperparámetros del algoritmo de generación. Cambios aquí requerirán volver a generar las quinielas.
-        </CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-8 pt-4">
-        {/* Fila para Número de Quinielas (existente) */}
-        <div className="grid gap-2">
-          <div className="flex justify-between items-center">
-            <label className="font-medium text-sm">Número Total de Quinielas</label>
-            <span className="text-sm px-2 py-1 bg-gray-100 rounded-md font-mono">{config.numQuinielas}</span>
-          </div>
-          <input
-            type="range"
-            min="5"
-            max="40"
-            step="1"
-            value={config.numQuinielas}
-            onChange={(e) => setConfig(prev => ({ ...prev, numQuinielas: parseInt(e.target.value) }))}
-            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-          />
-        </div>
+  const renderResumenGrupos = (grupos: ReturnType<typeof resumirHistorial>['grupos']) => (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-600 border-b">
+          <th className="py-1">Grupo</th>
+          <th className="py-1 text-right">Boletos</th>
+          <th className="py-1 text-right">Premiados</th>
+          <th className="py-1 text-right">Aciertos prom.</th>
+          <th className="py-1 text-right">Costo MXN</th>
+          <th className="py-1 text-right">Ganancia MXN</th>
+          <th className="py-1 text-right">Neto MXN</th>
+        </tr>
+      </thead>
+      <tbody>
+        {grupos.map(grupo => (
+          <tr key={grupo.grupo} className="border-b last:border-0">
+            <td className="py-1">{grupo.grupo}</td>
+            <td className="py-1 text-right font-mono">{grupo.boletos}</td>
+            <td className="py-1 text-right font-mono">{grupo.premiados}</td>
+            <td className="py-1 text-right font-mono">{grupo.aciertosPromedio.toFixed(2)}</td>
+            <td className="py-1 text-right font-mono">{grupo.costo.toLocaleString()}</td>
+            <td className="py-1 text-right font-mono">{grupo.ganancia.toLocaleString()}</td>
+            <td className={`py-1 text-right font-mono ${grupo.ganancia >= grupo.costo ? 'text-green-600' : 'text-red-600'}`}>
+              {(grupo.ganancia - grupo.costo).toLocaleString()}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
 
-        {/* Fila para Simulaciones Montecarlo */}
-        <div className="grid gap-2">
-          <div className="flex justify-between items-center">
-            <label className="font-medium text-sm">Simulaciones Montecarlo</label>
-            <span className="text-sm px-2 py-1 bg-gray-100 rounded-md font-mono">{optimizerConfig.simulacionesMontecarlo}</span>
+  const renderHistorial = () => {
+    const calificaciones = concursos.map(calificarConcurso);
+    const resumen = resumirHistorial(calificaciones);
+    const activo = concursos.find(c => c.numero === concursoActivo);
+    const calificacionActiva = activo ? calificaciones[concursos.indexOf(activo)] : null;
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Database className="w-5 h-5" />
+            Historial de Concursos
+          </CardTitle>
+          <CardDescription>
+            Registra el portafolio jugado, captura los resultados y los premios pagados, y compara cómo les fue a los boletos Core y Satélite.
+            Se guarda en este navegador.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="font-medium text-gray-700">Concurso #</label>
+            <input
+              type="number"
+              min="1"
+              value={numeroConcurso}
+              onChange={(e) => setNumeroConcurso(Math.max(1, parseInt(e.target.value) || 1))}
+              className="w-24 px-2 py-2 bg-gray-100 rounded-md font-mono"
+            />
+            <button
+              onClick={registrarConcurso}
+              disabled={quinielasFinales.length === 0}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                quinielasFinales.length > 0 ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              }`}
+            >
+              <Database className="w-4 h-4" />
+              Registrar portafolio actual
+            </button>
+            <label className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors cursor-pointer">
+              <FileUp className="w-4 h-4" />
+              Importar JSON exportado
+              <input
+                type="file"
+                accept=".json"
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files && e.target.files[0]) importarConcursoJSON(e.target.files[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
           </div>
-          <input
-            type="range"
-            min="1000"
-            max="20000"
-            step="1000"
-            value={optimizerConfig.simulacionesMontecarlo}
-            onChange={(e) => setOptimizerConfig(prev => ({ ...prev, simulacionesMontecarlo: parseInt(e.target.value) }))}
-            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-          />
-          <p className="text-xs text-gray-500">Define la precisión para calcular Pr[≥11]. Más es mejor pero más lento.</p>
-        </div>
 
-        {/* Los siguientes parámetros son para un futuro optimizador GRASP, pero los dejamos listos */}
-        <div className="grid gap-2 opacity-50 cursor-not-allowed">
-           <div className="flex justify-between items-center">
-            <label className="font-medium text-sm">Iteraciones del Optimizador (futuro)</label>
-            <span className="text-sm px-2 py-1 bg-gray-100 rounded-md font-mono">{optimizerConfig.iteracionesOptimizador}</span>
+          {concursos.length > 0 && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                <div>
+                  <div className="text-lg font-bold">{resumen.concursos}/{concursos.length}</div>
+                  <div className="text-sm text-gray-600">Concursos con resultados</div>
+                </div>
+                <div>
+                  <div className="text-lg font-bold">${resumen.costo.toLocaleString()}</div>
+                  <div className="text-sm text-gray-600">Costo acumulado</div>
+                </div>
+                <div>
+                  <div className="text-lg font-bold text-green-600">${resumen.ganancia.toLocaleString()}</div>
+                  <div className="text-sm text-gray-600">Premios acumulados</div>
+                </div>
+                <div>
+                  <div className={`text-lg font-bold ${resumen.ganancia >= resumen.costo ? 'text-green-600' : 'text-red-600'}`}>
+                    ${(resumen.ganancia - resumen.costo).toLocaleString()}
+                  </div>
+                  <div className="text-sm text-gray-600">Neto acumulado</div>
+                </div>
+              </div>
+
+              {resumen.grupos.length > 0 && renderResumenGrupos(resumen.grupos)}
+
+              <div className="overflow-x-auto max-h-64 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-1">Concurso</th>
+                      <th className="py-1">Registrado</th>
+                      <th className="py-1 text-right">Boletos</th>
+                      <th className="py-1">Estado</th>
+                      <th className="py-1 text-right">Costo MXN</th>
+                      <th className="py-1 text-right">Premios MXN</th>
+                      <th className="py-1"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {concursos.map((concurso, i) => (
+                      <tr key={concurso.numero} className={`border-b last:border-0 ${concurso.numero === concursoActivo ? 'bg-blue-50' : ''}`}>
+                        <td className="py-1 font-medium">{concurso.numero}</td>
+                        <td className="py-1 text-gray-600">{new Date(concurso.fecha).toLocaleDateString()}</td>
+                        <td className="py-1 text-right font-mono">{concurso.quinielas.length}</td>
+                        <td className="py-1">
+                          {calificaciones[i].completo ? (
+                            <span className="text-green-600">Calificado</span>
+                          ) : (
+                            <span className="text-yellow-700">Faltan resultados</span>
+                          )}
+                        </td>
+                        <td className="py-1 text-right font-mono">{calificaciones[i].costo.toLocaleString()}</td>
+                        <td className="py-1 text-right font-mono">{calificaciones[i].ganancia.toLocaleString()}</td>
+                        <td className="py-1 text-right space-x-3">
+                          <button
+                            onClick={() => setConcursoActivo(concurso.numero === concursoActivo ? null : concurso.numero)}
+                            className="text-blue-600 hover:underline"
+                          >
+                            {concurso.numero === concursoActivo ? 'Cerrar' : 'Resultados'}
+                          </button>
+                          <button onClick={() => eliminarConcurso(concurso.numero)} className="text-red-600 hover:underline">
+                            Eliminar
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {activo && calificacionActiva && (
+            <div className="space-y-4 border-t pt-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h4 className="font-semibold">Concurso {activo.numero}</h4>
+                {tablaElo.concursosAplicados.includes(activo.numero) ? (
+                  <span className="text-sm text-green-600">Sumado a los ratings Elo</span>
+                ) : (
+                  <button
+                    onClick={() => sumarConcursoElo(activo.numero)}
+                    disabled={activo.resultados.some(r => r === null)}
+                    className={`flex items-center gap-2 px-3 py-1 rounded-lg text-sm transition-colors ${
+                      activo.resultados.every(r => r !== null) ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                    }`}
+                  >
+                    <Users className="w-4 h-4" />
+                    Sumar a ratings Elo
+                  </button>
+                )}
+              </div>
+
+              {renderCapturaResultados('Resultados finales', activo.partidos, activo.resultados, resultados =>
+                actualizarConcurso(activo.numero, { resultados })
+              )}
+              {activo.quinielasRevancha.length > 0 && renderCapturaResultados(
+                'Resultados Revancha',
+                activo.partidosRevancha,
+                activo.resultadosRevancha,
+                resultadosRevancha => actualizarConcurso(activo.numero, { resultadosRevancha })
+              )}
+
+              <div className="grid gap-2">
+                <label className="font-medium text-sm">Premio pagado por columna (MXN)</label>
+                <div className="flex flex-wrap gap-4 text-sm">
+                  {([['premios', activo.premios, ''], ['premiosRevancha', activo.premiosRevancha, ' Revancha']] as const).map(([campo, lista, sufijo]) =>
+                    lista.map((premio, j) => (
+                      <div key={`${campo}${premio.aciertos}`} className="flex items-center gap-2">
+                        <span className="text-gray-600">{premio.aciertos} aciertos{sufijo}</span>
+                        <input
+                          type="number"
+                          min="0"
+                          value={premio.monto}
+                          onChange={(e) => actualizarConcurso(activo.numero, {
+                            [campo]: lista.map((p, k) => (k === j ? { ...p, monto: Math.max(0, parseFloat(e.target.value) || 0) } : p))
+                          })}
+                          className="w-28 px-2 py-1 bg-gray-100 rounded-md font-mono text-right"
+                        />
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+
+              {calificacionActiva.quinielas.length > 0 ? (
+                <>
+                  {renderResumenGrupos(calificacionActiva.grupos)}
+                  <div className="overflow-x-auto max-h-64 overflow-y-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-600 border-b">
+                          <th className="py-1">Quiniela</th>
+                          <th className="py-1">Juego</th>
+                          <th className="py-1 text-right">Aciertos</th>
+                          <th className="py-1 text-right">Categoría</th>
+                          <th className="py-1 text-right">Costo MXN</th>
+                          <th className="py-1 text-right">Premio MXN</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {calificacionActiva.quinielas.map(q => (
+                          <tr key={`${q.juego}-${q.id}`} className={`border-b last:border-0 ${q.categoria !== null ? 'bg-green-50' : ''}`}>
+                            <td className="py-1">{q.id}</td>
+                            <td className="py-1">{q.juego === 'regular' ? q.tipo : 'Revancha'}</td>
+                            <td className="py-1 text-right font-mono">{q.aciertos}</td>
+                            <td className="py-1 text-right font-mono">{q.categoria ?? '—'}</td>
+                            <td className="py-1 text-right font-mono">{q.costo.toLocaleString()}</td>
+                            <td className="py-1 text-right font-mono">{q.ganancia.toLocaleString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">Captura los 14 resultados para calificar el portafolio.</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  // Barras de P(k aciertos) con las categorías de premio resaltadas y la media marcada
+  const renderDistribucionAciertos = (distribucion: number[]) => {
+    const { media, desviacion } = calcularMomentosAciertos(distribucion);
+    const colorCategoria = (k: number) =>
+      k === 14 ? 'fill-red-600' : k === 13 ? 'fill-orange-600' : k === 12 ? 'fill-orange-500' : k === 11 ? 'fill-amber-400' : 'fill-gray-300';
+
+    return (
+      <div className="space-y-3">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <div className="text-lg font-bold text-blue-600">{media.toFixed(2)}</div>
+            <div className="text-sm text-gray-600">Aciertos esperados</div>
+          </div>
+          <div>
+            <div className="text-lg font-bold">±{desviacion.toFixed(2)}</div>
+            <div className="text-sm text-gray-600">Desviación estándar</div>
+          </div>
+          <div>
+            <div className="text-lg font-bold text-orange-600">{(probabilidadAlMenos(distribucion, 11) * 100).toFixed(2)}%</div>
+            <div className="text-sm text-gray-600">Pr[≥11]</div>
           </div>
-           <input type="range" disabled className="w-full h-2 bg-gray-200 rounded-lg appearance-none" />
-          <p className="text-xs text-gray-500">Para el optimizador GRASP-Annealing no implementado aún.</p>
         </div>
-      </CardContent>
-    </Card>
-  );
+        <BarChart
+          data={distribucion.map((prob, k) => ({ label: String(k), value: prob * 100, fillClassName: colorCategoria(k) }))}
+          formatValue={(valor) => `${valor.toFixed(valor < 1 && valor > 0 ? 2 : 0)}%`}
+          marker={{ position: media, label: `μ = ${media.toFixed(2)}` }}
+          aria-label="Distribución del número de aciertos"
+        />
+        <div className="flex flex-wrap justify-center gap-4 text-xs text-gray-600">
+          {[['bg-amber-400', '11'], ['bg-orange-500', '12'], ['bg-orange-600', '13'], ['bg-red-600', '14']].map(([color, k]) => (
+            <span key={k} className="flex items-center gap-1">
+              <span className={`inline-block w-3 h-3 rounded-sm ${color}`} />
+              {k} aciertos
+            </span>
+          ))}
+        </div>
+      </div>
+    );
+  };
 
   const renderResultados = () => {
     if (quinielasFinales.length === 0) {
       return (
-        <Card>
-          <CardContent className="p-8 text-center">
-            <BarChart3 className="w-16 h-16 mx-auto mb-4 text-gray-400" />
-            <h3 className="text-lg font-medium text-gray-600 mb-2">No hay resultados aún</h3>
-            <p className="text-gray-500">Genera las quinielas primero para ver el análisis</p>
-          </CardContent>
-        </Card>
+        <div className="space-y-6">
+          <Card>
+            <CardContent className="p-8 text-center">
+              <BarChart3 className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+              <h3 className="text-lg font-medium text-gray-600 mb-2">No hay resultados aún</h3>
+              <p className="text-gray-500">Genera las quinielas primero para ver el análisis</p>
+            </CardContent>
+          </Card>
+          {renderHistorial()}
+        </div>
       );
     }
 
-    const empatesPromedio = quinielasFinales.reduce((acc, q) => acc + q.resultados.filter((r:string) => r === 'E').length, 0) / quinielasFinales.length;
+    const empatesPromedio = quinielasFinales.reduce((acc, q) => acc + q.empates, 0) / quinielasFinales.length;
     const prob11Plus = quinielasFinales.reduce((acc, q) => acc + (q.prob_11_plus || 0), 0) / quinielasFinales.length;
     const probPortafolio = validacion?.metricas?.prob_portafolio_11_plus || 0;
-
-    // Calcular distribución
-    const totalPredicciones = quinielasFinales.length * 14;
-    const conteos: { [key: string]: number } = { L: 0, E: 0, V: 0 };
-    quinielasFinales.forEach(q => {
-      q.resultados.forEach((r: string) => conteos[r]++);
-    });
+    const correlacionesPares = validacion?.metricas?.correlaciones_pares || [];
+    const matrizCorrelacion = partidosClasificados.length === 14 ?
+      calcularMatrizCorrelacion(quinielasFinales.map(seleccionesDe), partidosClasificados) :
+      [];
+    const quinielaElegida = quinielasFinales.find(q => q.id === quinielaGrafica) || quinielasFinales[0];
+    const valor = partidosClasificados.length === 14 ?
+      calcularValorPortafolio(quinielasFinales, partidosClasificados, premios, restricciones.precioBoleto) :
+      null;
+
+    // Calcular distribución (los boletos múltiples cuentan como el promedio de sus columnas)
     const distribucion = {
-      L: conteos.L / totalPredicciones,
-      E: conteos.E / totalPredicciones,
-      V: conteos.V / totalPredicciones
+      L: quinielasFinales.reduce((acc, q) => acc + q.distribucion.L, 0) / quinielasFinales.length,
+      E: quinielasFinales.reduce((acc, q) => acc + q.distribucion.E, 0) / quinielasFinales.length,
+      V: quinielasFinales.reduce((acc, q) => acc + q.distribucion.V, 0) / quinielasFinales.length
     };
+    const objetivosActivos = objetivosHistoricos && usaObjetivos(restricciones, objetivosHistoricos) ? objetivosHistoricos : null;
+    const distribucionObjetivo = objetivosActivos?.distribucion ?? PROGOL_CONFIG.DISTRIBUCION_HISTORICA;
 
     return (
       <div className="space-y-6">
@@ -1265,7 +3415,7 @@ export default function Home() {
             <CardContent className="p-4 text-center">
               <div className="text-2xl font-bold text-green-600">{empatesPromedio.toFixed(1)}</div>
               <div className="text-sm text-gray-600">Empates Promedio</div>
-              <div className="text-xs text-gray-500">Target: {PROGOL_CONFIG.EMPATES_PROMEDIO}</div>
+              <div className="text-xs text-gray-500">Target: {(objetivosActivos?.empatesPromedio ?? PROGOL_CONFIG.EMPATES_PROMEDIO).toFixed(1)}</div>
             </CardContent>
           </Card>
 
@@ -1280,21 +3430,125 @@ export default function Home() {
             <CardContent className="p-4 text-center">
               <div className="text-2xl font-bold text-orange-600">{(probPortafolio * 100).toFixed(1)}%</div>
               <div className="text-sm text-gray-600">Pr[≥11] Portafolio</div>
+              {validacion?.metricas?.prob_portafolio_11_plus_independiente !== undefined && (
+                <div className="text-xs text-gray-500">
+                  Si fueran independientes: {(validacion.metricas.prob_portafolio_11_plus_independiente * 100).toFixed(1)}%
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
 
+        {/* Mejor resultado del portafolio */}
+        {validacion?.metricas?.distribucion_mejor_aciertos && (() => {
+          const distribucionMejor: number[] = validacion.metricas.distribucion_mejor_aciertos;
+
+          return (
+            <Card>
+              <CardHeader>
+                <CardTitle>🎯 Mejor Quiniela del Portafolio</CardTitle>
+                <CardDescription>
+                  Distribución del máximo de aciertos entre todas las quinielas ({validacion.metricas.metodo_prob_portafolio === 'exacto' ? 'cálculo exacto' : 'Monte Carlo con resultados compartidos'})
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                  <div className="text-center">
+                    <div className="text-lg font-bold text-orange-600">{((validacion.metricas.prob_portafolio_11_plus || 0) * 100).toFixed(2)}%</div>
+                    <div className="text-sm text-gray-600">P(al menos una ≥11)</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-lg font-bold text-gray-600">{((validacion.metricas.prob_portafolio_11_plus_independiente || 0) * 100).toFixed(2)}%</div>
+                    <div className="text-sm text-gray-600">Suponiendo independencia</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-lg font-bold text-blue-600">{(validacion.metricas.ganadores_esperados || 0).toFixed(3)}</div>
+                    <div className="text-sm text-gray-600">Boletos Ganadores Esperados</div>
+                  </div>
+                </div>
+
+                {renderDistribucionAciertos(distribucionMejor)}
+              </CardContent>
+            </Card>
+          );
+        })()}
+
+        {/* Valor esperado con la bolsa y la popularidad del público */}
+        {valor && (
+          <Card>
+            <CardHeader>
+              <CardTitle>💵 Valor Esperado</CardTitle>
+              <CardDescription>
+                Pago esperado con una bolsa de ${premios.bolsa.toLocaleString()} MXN repartida entre {premios.columnasPublico.toLocaleString()} columnas
+                del público{partidosClasificados.some(p => p.popularidad) ? '' : ' (sin popularidad capturada: el público juega según las probabilidades)'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <div className="text-center">
+                  <div className="text-lg font-bold text-green-600">${valor.valorEsperado.toFixed(2)}</div>
+                  <div className="text-sm text-gray-600">Valor esperado MXN</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-lg font-bold">${valor.costo.toLocaleString()}</div>
+                  <div className="text-sm text-gray-600">Costo MXN</div>
+                </div>
+                <div className="text-center">
+                  <div className={`text-lg font-bold ${valor.retorno >= 1 ? 'text-green-600' : 'text-red-600'}`}>
+                    {(valor.retorno * 100).toFixed(1)}%
+                  </div>
+                  <div className="text-sm text-gray-600">Retorno esperado</div>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto max-h-64 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-1">Quiniela</th>
+                      <th className="py-1 text-right">Valor esperado MXN</th>
+                      <th className="py-1 text-right">Pr[premio]</th>
+                      <th className="py-1 text-right">Co-ganadores esperados</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {valor.quinielas.map(v => (
+                      <tr key={v.id} className="border-b last:border-0">
+                        <td className="py-1">{v.id}</td>
+                        <td className="py-1 text-right font-mono">{v.valorEsperado.toFixed(2)}</td>
+                        <td className="py-1 text-right font-mono">{(v.probPremio * 100).toFixed(3)}%</td>
+                        <td className="py-1 text-right font-mono">{v.coganadoresEsperados.toFixed(1)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Distribución vs Target */}
         <Card>
           <CardHeader>
             <CardTitle>📊 Distribución vs Histórico</CardTitle>
+            <CardDescription>
+              {objetivosActivos ? (
+                <>
+                  {objetivosActivos.fuente}: {objetivosActivos.concursos} concursos ({objetivosActivos.numeroDesde}-{objetivosActivos.numeroHasta})
+                  {objetivosActivos.desde && `, ${objetivosActivos.desde} a ${objetivosActivos.hasta}`}
+                  {objetivosActivos.ventanaAnios !== null && ` · ventana de ${objetivosActivos.ventanaAnios} años`}
+                </>
+              ) : (
+                'PROGOL_CONFIG (1,497+ concursos); rangos de las restricciones de Configuración'
+              )}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-3 gap-4">
-              {['L', 'E', 'V'].map(resultado => {
+              {(['L', 'E', 'V'] as Resultado[]).map(resultado => {
                 const actual = (distribucion as any)[resultado];
-                const target = (PROGOL_CONFIG.DISTRIBUCION_HISTORICA as any)[resultado];
-                const [min, max] = (PROGOL_CONFIG.RANGOS_HISTORICOS as any)[resultado];
+                const target = distribucionObjetivo[resultado];
+                const [min, max] = restricciones.rangosHistoricos[resultado];
                 const enRango = actual >= min && actual <= max;
 
                 return (
@@ -1318,6 +3572,114 @@ export default function Home() {
           </CardContent>
         </Card>
 
+        {/* Correlación de aciertos entre quinielas */}
+        {matrizCorrelacion.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>🔗 Correlación entre Quinielas</CardTitle>
+              <CardDescription>
+                Correlación del número de aciertos bajo las probabilidades de los partidos. Target de los pares de satélites: {restricciones.correlacionTarget.toFixed(2)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {correlacionesPares.length > 0 && (
+                <div>
+                  <div className="text-sm font-medium mb-2">
+                    Pares de satélites (promedio {(validacion?.metricas.correlacion_pares_promedio || 0).toFixed(2)})
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {correlacionesPares.map(par => {
+                      const cerca = Math.abs(par.correlacion - restricciones.correlacionTarget) <= PROGOL_CONFIG.CORRELACION_TOLERANCIA;
+                      return (
+                        <div
+                          key={par.par_id}
+                          className={`text-xs px-2 py-1 rounded border ${cerca ? 'bg-green-50 border-green-200 text-green-700' : 'bg-yellow-50 border-yellow-200 text-yellow-700'}`}
+                        >
+                          {par.ids[0]} / {par.ids[1]}: <span className="font-mono">{par.correlacion.toFixed(2)}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="text-[10px] font-mono border-collapse">
+                  <thead>
+                    <tr>
+                      <th />
+                      {quinielasFinales.map((q, j) => (
+                        <th key={q.id} className="px-0.5 font-normal text-gray-500" title={q.id}>{j + 1}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matrizCorrelacion.map((fila, i) => (
+                      <tr key={quinielasFinales[i].id}>
+                        <td className="pr-2 text-gray-600 whitespace-nowrap">{quinielasFinales[i].id}</td>
+                        {fila.map((valor, j) => (
+                          <td
+                            key={j}
+                            title={`${quinielasFinales[i].id} × ${quinielasFinales[j].id}: ${valor.toFixed(2)}`}
+                            className="w-5 h-5 border border-white"
+                            style={{
+                              backgroundColor: valor >= 0 ?
+                                `rgba(220, 38, 38, ${Math.min(1, valor)})` :
+                                `rgba(37, 99, 235, ${Math.min(1, -valor)})`
+                            }}
+                          />
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-gray-500">Rojo: aciertan juntas · Azul: se reparten el riesgo. Pasa el cursor sobre una celda para ver el valor.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Verificación Montecarlo */}
+        <Card>
+          <CardHeader>
+            <CardTitle>🎲 Verificación Montecarlo</CardTitle>
+            <CardDescription>
+              Compara el Pr[≥11] exacto (Poisson-binomial) contra {optimizerConfig.simulacionesMontecarlo} simulaciones
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap items-center gap-6">
+              <button
+                onClick={verificarMontecarlo}
+                disabled={loading}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                  !loading ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                }`}
+              >
+                <Play className="w-4 h-4" />
+                {loading ? 'Simulando...' : 'Verificar'}
+              </button>
+
+              {verificacionMC && (
+                <>
+                  <div className="text-center">
+                    <div className="text-lg font-bold">{verificacionMC.simulaciones}</div>
+                    <div className="text-sm text-gray-600">Simulaciones</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-lg font-bold">{(verificacionMC.diferenciaPromedio * 100).toFixed(2)} pp</div>
+                    <div className="text-sm text-gray-600">Diferencia Promedio</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-lg font-bold">{(verificacionMC.diferenciaMax * 100).toFixed(2)} pp</div>
+                    <div className="text-sm text-gray-600">Diferencia Máxima</div>
+                  </div>
+                </>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Estado de validación */}
         {validacion && (
           <Card>
@@ -1366,57 +3728,243 @@ export default function Home() {
           </Card>
         )}
 
+        {/* Distribución de aciertos de la quiniela elegida en la tabla */}
+        {partidosClasificados.length === 14 && (() => {
+          const quiniela = quinielaElegida;
+          const probsAcierto = new PortfolioGenerator(config.seed, 'regular', restricciones)
+            .calcularProbsAcierto(seleccionesDe(quiniela), partidosClasificados);
+
+          return (
+            <Card>
+              <CardHeader>
+                <CardTitle>📈 Distribución de Aciertos: {quiniela.id}</CardTitle>
+                <CardDescription>
+                  P(k aciertos) de la quiniela {quiniela.selecciones ? '(boleto múltiple: su mejor columna) ' : ''}
+                  seleccionada en la tabla de abajo
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {renderDistribucionAciertos(calcularDistribucionAciertos(probsAcierto))}
+              </CardContent>
+            </Card>
+          );
+        })()}
+
         {/* Tabla de quinielas */}
-        <Card>
-          <CardHeader>
-            <CardTitle>📋 Todas las Quinielas</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="overflow-x-auto">
-              <table className="w-full text-sm">
-                <thead>
-                  <tr className="border-b">
-                    <th className="text-left p-2">Q</th>
-                    <th className="text-left p-2">Tipo</th>
-                    {Array.from({length: 14}, (_, i) => (
-                      <th key={i} className="text-center p-1 w-8">P{i+1}</th>
-                    ))}
-                    <th className="text-center p-2">E</th>
-                    <th className="text-center p-2">Pr≥11</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {quinielasFinales.slice(0, 10).map((quiniela, i) => (
-                    <tr key={i} className="border-b hover:bg-gray-50">
-                      <td className="p-2 font-medium">Q-{i+1}</td>
-                      <td className={`p-2 text-xs ${
-                        quiniela.tipo === 'Core' ? 'text-green-600' : 'text-purple-600'
-                      }`}>
-                        {quiniela.tipo}
-                      </td>
-                      {quiniela.resultados.map((resultado: string, j: number) => (
-                        <td key={j} className={`text-center p-1 font-mono ${
-                          resultado === 'L' ? 'text-blue-600' :
-                          resultado === 'E' ? 'text-gray-600' : 'text-red-600'
-                        }`}>
-                          {resultado}
-                        </td>
-                      ))}
-                      <td className="text-center p-2">{quiniela.empates}</td>
-                      <td className="text-center p-2">{((quiniela.prob_11_plus || 0) * 100).toFixed(1)}%</td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
+        {(() => {
+          const excedidas = validacion?.metricas.concentraciones_excedidas || [];
+          const fueraEmpates = new Set(validacion?.metricas.quinielas_fuera_empates || []);
+          const excedeConcentracion = (partido: number, seleccion: Resultado[]) =>
+            excedidas.some(c => c.partido === partido && seleccion.includes(c.resultado));
+
+          return (
+            <Card>
+              <CardHeader>
+                <CardTitle>📋 Todas las Quinielas</CardTitle>
+                <CardDescription>
+                  Haz clic en Q-n para ver su distribución de aciertos. Cada celda se edita con un clic (L → E → V) o con
+                  las teclas L/E/V o 1/X/2; las flechas mueven entre celdas y Ctrl+Z/Ctrl+Y deshacen y rehacen. El portafolio
+                  se valida de nuevo con cada cambio y se marcan en rojo los partidos sobre el límite de concentración y los
+                  empates fuera de rango.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <button
+                    onClick={() => editarPortafolio((quinielas, generator) => agregarQuiniela(quinielas, generator, partidosClasificados))}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Agregar quiniela
+                  </button>
+                  <button
+                    onClick={deshacerEdicion}
+                    disabled={pilaEdicion.pasado.length === 0}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:text-gray-400"
+                  >
+                    Deshacer
+                  </button>
+                  <button
+                    onClick={rehacerEdicion}
+                    disabled={pilaEdicion.futuro.length === 0}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:text-gray-400"
+                  >
+                    Rehacer
+                  </button>
+                  {validacion && (
+                    <span className={validacion.es_valido ? 'text-green-700' : 'text-yellow-700'}>
+                      {validacion.es_valido ? '✅ Portafolio válido' : `⚠️ ${validacion.errores.length + validacion.warnings.length} avisos de validación`}
+                    </span>
+                  )}
+                </div>
 
-              {quinielasFinales.length > 10 && (
-                <div className="text-center p-4 text-gray-500 text-sm">
-                  Mostrando las primeras 10 de {quinielasFinales.length} quinielas
+                <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left p-2">Q</th>
+                        <th className="text-left p-2">Tipo</th>
+                        {Array.from({length: 14}, (_, i) => (
+                          <th
+                            key={i}
+                            title={excedidas.filter(c => c.partido === i)
+                              .map(c => `${(c.proporcion * 100).toFixed(0)}% en '${c.resultado}' (límite: ${(c.limite * 100).toFixed(0)}%)`)
+                              .join('; ') || undefined}
+                            className={`text-center p-1 w-8 ${excedidas.some(c => c.partido === i) ? 'text-red-600' : ''}`}
+                          >
+                            P{i+1}
+                          </th>
+                        ))}
+                        <th className="text-center p-2">E</th>
+                        <th className="text-center p-2">Pr≥11</th>
+                        <th className="text-center p-2">Pr≥12</th>
+                        <th className="text-center p-2">Pr≥13</th>
+                        <th className="text-center p-2">Pr=14</th>
+                        <th className="p-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {quinielasFinales.map((quiniela, i) => (
+                        <tr
+                          key={i}
+                          className={`border-b ${quiniela.id === quinielaElegida.id ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                        >
+                          <td className="p-2 font-medium">
+                            <button onClick={() => setQuinielaGrafica(quiniela.id)} className="hover:underline" title={quiniela.id}>
+                              Q-{i+1}
+                            </button>
+                          </td>
+                          <td className={`p-2 text-xs ${
+                            quiniela.tipo === 'Core' ? 'text-green-600' : 'text-purple-600'
+                          }`}>
+                            {quiniela.tipo}
+                          </td>
+                          {seleccionesDe(quiniela).map((seleccion, j) => (
+                            <td key={j} className={`text-center p-0 font-mono ${
+                              excedeConcentracion(j, seleccion) ? 'bg-red-100' :
+                              seleccion.length > 1 ? 'bg-amber-50' : ''
+                            }`}>
+                              <button
+                                data-celda={`${i}-${j}`}
+                                onClick={() => editarCelda(i, j, [siguienteResultado(seleccion)])}
+                                onKeyDown={(e) => teclaCelda(e, i, j)}
+                                className={`w-full p-1 focus:outline-none focus:ring-2 focus:ring-blue-400 ${
+                                  seleccion.length > 1 ? 'text-amber-600' :
+                                  seleccion[0] === 'L' ? 'text-blue-600' :
+                                  seleccion[0] === 'E' ? 'text-gray-600' : 'text-red-600'
+                                }`}
+                              >
+                                {seleccion.join('')}
+                              </button>
+                            </td>
+                          ))}
+                          <td className={`text-center p-2 ${fueraEmpates.has(i) ? 'bg-red-100 text-red-700 font-medium' : ''}`}>
+                            {Number.isInteger(quiniela.empates) ? quiniela.empates : quiniela.empates.toFixed(1)}
+                          </td>
+                          <td className="text-center p-2">{((quiniela.prob_11_plus || 0) * 100).toFixed(1)}%</td>
+                          <td className="text-center p-2">{((quiniela.prob_12_plus || 0) * 100).toFixed(2)}%</td>
+                          <td className="text-center p-2">{((quiniela.prob_13_plus || 0) * 100).toFixed(3)}%</td>
+                          <td className="text-center p-2">{((quiniela.prob_14 || 0) * 100).toFixed(4)}%</td>
+                          <td className="p-2 text-right text-xs whitespace-nowrap space-x-2">
+                            <button
+                              onClick={() => editarPortafolio(quinielas => moverQuiniela(quinielas, i, -1))}
+                              disabled={i === 0}
+                              className="text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                              title="Subir"
+                            >
+                              ↑
+                            </button>
+                            <button
+                              onClick={() => editarPortafolio(quinielas => moverQuiniela(quinielas, i, 1))}
+                              disabled={i === quinielasFinales.length - 1}
+                              className="text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                              title="Bajar"
+                            >
+                              ↓
+                            </button>
+                            <button
+                              onClick={() => editarPortafolio(quinielas => duplicarQuiniela(quinielas, i))}
+                              className="text-blue-600 hover:underline"
+                            >
+                              Duplicar
+                            </button>
+                            <button
+                              onClick={() => editarPortafolio(quinielas => eliminarQuiniela(quinielas, i))}
+                              disabled={quinielasFinales.length === 1}
+                              className="text-red-600 hover:underline disabled:text-gray-300 disabled:no-underline"
+                            >
+                              Eliminar
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
+              </CardContent>
+            </Card>
+          );
+        })()}
+
+        {/* Revancha */}
+        {quinielasRevancha.length > 0 && validacionRevancha && (
+          <Card>
+            <CardHeader>
+              <CardTitle>🏆 Quinielas Revancha</CardTitle>
+              <CardDescription>
+                {validacionRevancha.es_valido ? '✅ Portafolio de Revancha válido' : '⚠️ Portafolio de Revancha con advertencias'}
+                {' · '}Pr[7] Portafolio: {((validacionRevancha.metricas.prob_portafolio_7 || 0) * 100).toFixed(1)}%
+                {' · '}Empates promedio: {(validacionRevancha.metricas.empates_promedio || 0).toFixed(1)} (target {PROGOL_CONFIG.REVANCHA.EMPATES_PROMEDIO})
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {[...validacionRevancha.errores, ...validacionRevancha.warnings].length > 0 && (
+                <ul className="text-sm text-yellow-700 space-y-1 mb-4">
+                  {[...validacionRevancha.errores, ...validacionRevancha.warnings].slice(0, 3).map((mensaje: string, i: number) => (
+                    <li key={i}>• {mensaje}</li>
+                  ))}
+                </ul>
               )}
-            </div>
-          </CardContent>
-        </Card>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2">Q</th>
+                      <th className="text-left p-2">Tipo</th>
+                      {Array.from({length: 7}, (_, i) => (
+                        <th key={i} className="text-center p-1 w-8">R{i+1}</th>
+                      ))}
+                      <th className="text-center p-2">E</th>
+                      <th className="text-center p-2">Pr=7</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {quinielasRevancha.map((quiniela, i) => (
+                      <tr key={i} className="border-b hover:bg-gray-50">
+                        <td className="p-2 font-medium">Q-{i+1}</td>
+                        <td className={`p-2 text-xs ${quiniela.tipo === 'Core' ? 'text-green-600' : 'text-purple-600'}`}>
+                          {quiniela.tipo}
+                        </td>
+                        {quiniela.resultados.map((resultado: string, j: number) => (
+                          <td key={j} className={`text-center p-1 font-mono ${
+                            resultado === 'L' ? 'text-blue-600' :
+                            resultado === 'E' ? 'text-gray-600' : 'text-red-600'
+                          }`}>
+                            {resultado}
+                          </td>
+                        ))}
+                        <td className="text-center p-2">{quiniela.empates}</td>
+                        <td className="text-center p-2">{((quiniela.prob_7 || 0) * 100).toFixed(2)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {renderHistorial()}
       </div>
     );
   };
@@ -1428,82 +3976,55 @@ export default function Home() {
           <CardContent className="p-8 text-center">
             <FileDown className="w-16 h-16 mx-auto mb-4 text-gray-400" />
             <h3 className="text-lg font-medium text-gray-600 mb-2">No hay datos para exportar</h3>
-            <p className="text-gray-500">Genera las quinielas primero para poder exportar</p>
+            <p className="text-gray-500 mb-4">Genera las quinielas primero para poder exportar, o importa un portafolio exportado</p>
+            <div className="flex justify-center">{renderImportarPortafolio()}</div>
           </CardContent>
         </Card>
       );
     }
 
-    const generarCSV = () => {
-      const headers = ['Quiniela', 'Tipo', ...Array.from({length: 14}, (_, i) => `P${i+1}`), 'Empates', 'Prob_11_Plus'];
-      const rows = quinielasFinales.map((q, i) => [
-        `Q-${i+1}`,
-        q.tipo,
-        ...q.resultados,
-        q.empates,
-        ((q.prob_11_plus || 0) * 100).toFixed(2)
-      ]);
-
-      const csvContent = [headers, ...rows].map(row => row.join(',')).join('\n');
-      const blob = new Blob([csvContent], { type: 'text/csv' });
+    const datosExportacion = {
+      partidos: partidosRegular,
+      quinielas: quinielasFinales,
+      validacion,
+      partidosRevancha,
+      quinielasRevancha,
+      validacionRevancha,
+      seed: config.seed,
+      configuracion: { ...config, preset: presetActivo || null, ...restricciones },
+      optimizador: optimizerConfig,
+      precioBoleto: restricciones.precioBoleto,
+      precioRevancha: restricciones.precioRevancha,
+      objetivos: objetivosHistoricos && usaObjetivos(restricciones, objetivosHistoricos) ? objetivosHistoricos : null
+    };
+    // Cada boleto Q-i juega Revancha con la quiniela de Revancha i, si existe
+    const {
+      numConRevancha,
+      sinRevancha: costoSinRevancha,
+      revancha: costoRevancha,
+      total: costoTotal
+    } = calcularCostos(datosExportacion);
+
+    const descargarArchivo = (contenido: string, tipo: string, nombre: string, extension: string) => {
+      const blob = new Blob([contenido], { type: tipo });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `progol_quinielas_${new Date().toISOString().slice(0, 10)}.csv`;
+      a.download = `${nombre}_${new Date().toISOString().slice(0, 10)}.${extension}`;
       a.click();
       URL.revokeObjectURL(url);
     };
 
+    const generarCSV = () => {
+      descargarArchivo(generarCSVPortafolio(datosExportacion), 'text/csv', 'progol_quinielas', 'csv');
+    };
+
     const generarJSON = () => {
-      const exportData = {
-        metadata: {
-          fecha_generacion: new Date().toISOString(),
-          total_quinielas: quinielasFinales.length,
-          metodologia: 'Core + Satélites GRASP-Annealing',
-          distribucion_historica: PROGOL_CONFIG.DISTRIBUCION_HISTORICA
-        },
-        partidos: partidosRegular,
-        quinielas: quinielasFinales,
-        validacion: validacion
-      };
-
-      const jsonContent = JSON.stringify(exportData, null, 2);
-      const blob = new Blob([jsonContent], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `progol_quinielas_${new Date().toISOString().slice(0, 10)}.json`;
-      a.click();
-      URL.revokeObjectURL(url);
+      descargarArchivo(generarJSONPortafolio(datosExportacion), 'application/json', 'progol_quinielas', 'json');
     };
 
     const generarProgol = () => {
-      const lines = [
-        'PROGOL OPTIMIZER - QUINIELAS GENERADAS',
-        '='.repeat(50),
-        `Fecha: ${new Date().toLocaleString()}`,
-        `Total de quinielas: ${quinielasFinales.length}`,
-        `Metodología: Core + Satélites GRASP-Annealing`,
-        '',
-        'PARTIDOS:',
-        ...partidosRegular.map((p, i) => `${String(i+1).padStart(2)}. ${p.local} vs ${p.visitante}`),
-        '',
-        'QUINIELAS:',
-        ...quinielasFinales.map((q, i) => {
-          const resultados = q.resultados.join(' ');
-          const prob = ((q.prob_11_plus || 0) * 100).toFixed(1);
-          return `Q-${String(i+1).padStart(2)} (${q.tipo.padStart(8)}): ${resultados} | E:${q.empates} | Pr:${prob}%`;
-        })
-      ];
-
-      const content = lines.join('\n');
-      const blob = new Blob([content], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `progol_boletos_${new Date().toISOString().slice(0, 10)}.txt`;
-      a.click();
-      URL.revokeObjectURL(url);
+      descargarArchivo(generarTextoProgol(datosExportacion), 'text/plain', 'progol_boletos', 'txt');
     };
 
     return (
@@ -1515,7 +4036,8 @@ export default function Home() {
               Exportación de Resultados
             </CardTitle>
             <CardDescription>
-              Descarga las quinielas en diferentes formatos
+              Descarga las quinielas en diferentes formatos. El JSON y el Formato Progol (también editado a mano) se pueden
+              volver a importar; el texto usa las probabilidades de los partidos cargados.
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -1544,6 +4066,7 @@ export default function Home() {
                 Formato Progol
               </button>
             </div>
+            <div className="flex mt-4">{renderImportarPortafolio()}</div>
           </CardContent>
         </Card>
 
@@ -1567,9 +4090,12 @@ export default function Home() {
 
               <div className="text-center">
                 <div className="text-2xl font-bold text-purple-600">
-                  ${quinielasFinales.length * 15}
+                  ${costoTotal}
                 </div>
                 <div className="text-sm text-gray-600">Costo Total (MXN)</div>
+                <div className="text-xs text-gray-500">
+                  ${costoSinRevancha} sin Revancha + ${costoRevancha} Revancha ({numConRevancha} boletos)
+                </div>
               </div>
 
               <div className="text-center">
@@ -1586,6 +4112,192 @@ export default function Home() {
     );
   };
 
+  const renderEquipos = () => {
+    const ligas = Array.from(new Set(Object.values(tablaElo.equipos).map(e => e.liga))).sort();
+    const equipos = Object.entries(tablaElo.equipos)
+      .filter(([, e]) => !ligaElo || e.liga === ligaElo)
+      .sort(([, a], [, b]) => b.rating - a.rating);
+    const seleccionado = equipoElo ? tablaElo.equipos[equipoElo] : undefined;
+    const juegos = ([['regular', 'Regular', partidosRegular], ['revancha', 'Revancha', partidosRevancha]] as const)
+      .filter(([, , partidos]) => partidos.length > 0);
+    const porcentajes = (probs: { prob_local: number; prob_empate: number; prob_visitante: number }) =>
+      `${(probs.prob_local * 100).toFixed(0)}-${(probs.prob_empate * 100).toFixed(0)}-${(probs.prob_visitante * 100).toFixed(0)}`;
+
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Ratings Elo
+            </CardTitle>
+            <CardDescription>
+              Cada equipo arranca en {PROGOL_CONFIG.ELO.RATING_INICIAL} y gana o pierde puntos con cada resultado, con
+              {' '}{PROGOL_CONFIG.ELO.VENTAJA_LOCAL} puntos de ventaja para el local. Se alimenta de los concursos del historial
+              y de marcadores pasados (el mismo CSV del modelo de goles); la forma de los últimos
+              {' '}{PROGOL_CONFIG.ELO.PARTIDOS_FORMA} partidos llena la Forma de los partidos importados. Se guarda en este navegador.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <label className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors cursor-pointer">
+                <FileUp className="w-4 h-4" />
+                Importar marcadores CSV
+                <input
+                  type="file"
+                  accept=".csv,.txt"
+                  className="hidden"
+                  onChange={(e) => {
+                    if (e.target.files && e.target.files[0]) importarMarcadoresElo(e.target.files[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              <select
+                value={ligaElo}
+                onChange={(e) => setLigaElo(e.target.value)}
+                className="px-3 py-2 bg-gray-100 rounded-md"
+              >
+                <option value="">Todas las ligas</option>
+                {ligas.map(liga => <option key={liga} value={liga}>{liga}</option>)}
+              </select>
+              <span className="text-gray-500">
+                {Object.keys(tablaElo.equipos).length} equipos · {tablaElo.concursosAplicados.length} concursos sumados
+              </span>
+              {Object.keys(tablaElo.equipos).length > 0 && (
+                <button onClick={reiniciarElo} className="text-red-600 hover:underline">
+                  Reiniciar ratings
+                </button>
+              )}
+            </div>
+
+            {equipos.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Aún no hay ratings. Importa marcadores o suma los resultados de un concurso desde el Historial.
+              </p>
+            ) : (
+              <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-1 text-right">#</th>
+                      <th className="py-1 pl-3">Equipo</th>
+                      <th className="py-1">Liga</th>
+                      <th className="py-1 text-right">Rating</th>
+                      <th className="py-1 text-right">Partidos</th>
+                      <th className="py-1 text-right">Forma</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {equipos.map(([clave, equipo], i) => {
+                      const forma = formaElo(equipo);
+                      return (
+                        <tr
+                          key={clave}
+                          onClick={() => setEquipoElo(clave === equipoElo ? null : clave)}
+                          className={`border-b last:border-0 cursor-pointer hover:bg-gray-50 ${clave === equipoElo ? 'bg-blue-50' : ''}`}
+                        >
+                          <td className="py-1 text-right text-gray-500">{i + 1}</td>
+                          <td className="py-1 pl-3 font-medium">{equipo.nombre}</td>
+                          <td className="py-1 text-gray-600">{equipo.liga}</td>
+                          <td className="py-1 text-right font-mono">{equipo.rating.toFixed(0)}</td>
+                          <td className="py-1 text-right font-mono">{equipo.partidos}</td>
+                          <td className={`py-1 text-right font-mono ${forma > 0 ? 'text-green-600' : forma < 0 ? 'text-red-600' : ''}`}>
+                            {forma > 0 ? '+' : ''}{forma.toFixed(0)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {seleccionado && (
+              <div className="space-y-2">
+                <h4 className="font-medium text-sm">
+                  {seleccionado.nombre} ({seleccionado.liga}): últimos {seleccionado.historial.length} partidos
+                </h4>
+                {seleccionado.historial.length > 0 ? (
+                  <LineChart
+                    data={seleccionado.historial.map(punto => ({
+                      label: punto.concurso !== undefined ? `#${punto.concurso}` : punto.fecha.slice(2),
+                      value: punto.rating
+                    }))}
+                    reference={PROGOL_CONFIG.ELO.RATING_INICIAL}
+                    aria-label={`Historial de rating de ${seleccionado.nombre}`}
+                  />
+                ) : (
+                  <p className="text-sm text-gray-500">Sin partidos registrados.</p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {juegos.map(([juego, titulo, partidos]) => (
+          <Card key={juego}>
+            <CardHeader>
+              <CardTitle className="text-base">Partidos cargados: {titulo}</CardTitle>
+              <CardDescription>
+                Probabilidades base del Elo para los partidos con ambos equipos en la tabla. Llenar la forma no cambia las
+                probabilidades; usar las del Elo sustituye las importadas.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex flex-wrap gap-3">
+                <button
+                  onClick={() => completarPartidosElo(juego, false)}
+                  className="text-sm px-3 py-1 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+                >
+                  Llenar forma
+                </button>
+                <button
+                  onClick={() => completarPartidosElo(juego, true)}
+                  className="text-sm px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                >
+                  Usar probabilidades Elo
+                </button>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-1">Partido</th>
+                      <th className="py-1 text-right">Ratings</th>
+                      <th className="py-1 text-center">Actual % L-E-V</th>
+                      <th className="py-1 text-center">Elo % L-E-V</th>
+                      <th className="py-1 text-right">Forma</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {partidos.map((partido, i) => {
+                      const local = buscarEquipoElo(tablaElo, partido.local, partido.liga);
+                      const visitante = buscarEquipoElo(tablaElo, partido.visitante, partido.liga || local?.liga);
+                      return (
+                        <tr key={i} className={`border-b last:border-0 ${local && visitante ? '' : 'text-gray-400'}`}>
+                          <td className="py-1">{partido.local} vs {partido.visitante}</td>
+                          <td className="py-1 text-right font-mono">
+                            {local ? local.rating.toFixed(0) : '—'} / {visitante ? visitante.rating.toFixed(0) : '—'}
+                          </td>
+                          <td className="py-1 text-center font-mono">{porcentajes(partido)}</td>
+                          <td className="py-1 text-center font-mono">
+                            {local && visitante ? porcentajes(probabilidadesElo(local.rating, visitante.rating)) : 'sin rating'}
+                          </td>
+                          <td className="py-1 text-right font-mono">{partido.forma_diferencia ?? 0}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  };
+
   // ==================== RENDER PRINCIPAL ====================
 
   return (
@@ -1603,7 +4315,12 @@ export default function Home() {
             </div>
 
             <div className="flex items-center gap-4 text-sm">
-              <span className="text-gray-500">v1.0.0</span>
+              {sesionActiva && (
+                <span className="text-gray-700 font-medium">
+                  {sesiones.find(s => s.id === sesionActiva)?.nombre}
+                </span>
+              )}
+              <span className="text-gray-500">v{VERSION_MOTOR}</span>
               <div className={`px-2 py-1 rounded text-xs ${
                 Object.values(progress).filter(Boolean).length >= 3 ?
                 'bg-green-100 text-green-600' : 'bg-gray-100 text-gray-600'
@@ -1626,7 +4343,8 @@ export default function Home() {
             { id: 'generacion', label: 'Generación', icon: Zap },
             { id: 'configuracion', label: 'Configuración', icon: Settings },
             { id: 'resultados', label: 'Resultados', icon: BarChart3 },
-            { id: 'exportacion', label: 'Exportar', icon: FileDown }
+            { id: 'exportacion', label: 'Exportar', icon: FileDown },
+            { id: 'equipos', label: 'Equipos', icon: Users }
           ].map(({ id, label, icon: Icon }) => (
             <button
               key={id}
@@ -1649,6 +4367,7 @@ export default function Home() {
         {activeTab === 'configuracion' && renderConfiguracion()}
         {activeTab === 'resultados' && renderResultados()}
         {activeTab === 'exportacion' && renderExportacion()}
+        {activeTab === 'equipos' && renderEquipos()}
       </div>
     </div>
   );
@@ -0,0 +1,483 @@
+/**
+ * CLI de Progol Optimizer: ejecuta el pipeline Clasificar → Core → Satélites → Validar sin
+ * pasar por el navegador y escribe los mismos archivos que la pestaña Exportar. `backtest`
+ * repite la metodología sobre concursos pasados y compara configuraciones lado a lado;
+ * `calibrate` ajusta con ellos la calibración bayesiana.
+ *
+ *   npm run progol -- generate --regular partidos.csv --revancha rev.csv --quinielas 30 --seed 7 --out portafolio.json
+ *   npm run progol -- generate --regular partidos.csv --preset conservador --optimizar
+ *   npm run progol -- generate --regular partidos.csv --presupuesto 450 --precio 15
+ *   npm run progol -- generate --regular partidos.csv --contrarian --bolsa 8000000
+ *   npm run progol -- backtest --historial concursos.json --config estandar --config mis-umbrales.json
+ *   npm run progol -- calibrate --historial concursos.json --metrica brier --out calibracion.json
+ *   npm run progol -- generate --regular partidos.csv --calibracion calibracion.json
+ *   npm run progol -- generate --regular partidos.csv --historico resultados.csv --ventana 2
+ *
+ * Códigos de salida: 0 portafolio válido (o backtest terminado), 1 portafolio inválido, 2 error
+ * de uso o de entrada.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename, extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  METODOS_MARGEN,
+  PARAMETROS_OPTIMIZADOR,
+  PREMIOS_DEFAULT,
+  PRESETS_PREDEFINIDOS,
+  PROGOL_CONFIG,
+  analizarHistorialResultados,
+  analizarPartidosCSV,
+  ajustarCalibracion,
+  calcularObjetivosHistoricos,
+  ejecutarBacktest,
+  ejecutarPipeline,
+  generarCSVPortafolio,
+  generarJSONPortafolio,
+  generarTextoProgol,
+  partidosJugados,
+  restriccionesDeObjetivos,
+  validarConfiguracionBacktest,
+  validarHistorialBacktest,
+  validarRestricciones
+} from '../lib/progol';
+import type {
+  DatosExportacion,
+  ErrorCampo,
+  EvaluacionCalibracion,
+  MetodoMargen,
+  MetricaCalibracion,
+  ResultadoBacktest,
+  ResultadoValidacion
+} from '../lib/progol';
+
+const AYUDA = `Uso: progol generate --regular <partidos.csv> [opciones]
+     progol backtest --historial <concursos.json> [opciones]
+     progol calibrate --historial <concursos.json> [opciones]
+
+Opciones de generate:
+  --regular <archivo>          CSV con los 14 partidos regulares (obligatorio)
+  --revancha <archivo>         CSV con los 7 partidos de Revancha
+  --quinielas <n>              Número de quinielas regulares (default 30)
+  --quinielas-revancha <n>     Número de quinielas de Revancha (default: igual a --quinielas)
+  --seed <n>                   Semilla del generador (default 42)
+  --margen <metodo>            Quita el margen de las cuotas: ${METODOS_MARGEN.map(m => m.id).join(', ')}
+                               (default proporcional)
+  --preset <nombre|archivo>    Restricciones: ${PRESETS_PREDEFINIDOS.map(p => p.nombre).join(', ')} o un JSON
+                               con los campos de RestriccionesPortafolio (default estandar)
+  --optimizar                  Refina el portafolio regular con GRASP-Annealing
+  --presupuesto <mxn>          Reparte el presupuesto del juego regular entre boletos
+                               sencillos y múltiples (Revancha se cobra aparte)
+  --precio <mxn>               Precio de una columna regular (default: el del preset, ${PROGOL_CONFIG.PRECIO_BOLETO})
+  --contrarian                 Cambia resultados hacia los poco jugados por el público (columnas
+                               pop_local/pop_empate/pop_visitante del CSV) para subir el valor esperado
+  --bolsa <mxn>                Bolsa estimada del concurso (default ${PROGOL_CONFIG.PREMIOS.BOLSA})
+  --calibracion <archivo>      Calibración ajustada con calibrate: sustituye los coeficientes k1-k3
+                               del preset y la Draw-Propensity Rule
+  --historico <archivo>        CSV (concurso, fecha, resultados) o JSON con resultados pasados:
+                               recalcula los rangos L/E/V y los límites de empates del preset
+  --ventana <años>             Con --historico, usa solo los concursos de los últimos años
+  --iteraciones <n>            Iteraciones del optimizador (default ${PARAMETROS_OPTIMIZADOR.iteracionesOptimizador})
+  --out <archivo>              Archivo JSON de salida (default portafolio.json); junto a él
+                               se escriben el .csv y el .txt en formato Progol
+
+Opciones de backtest:
+  --historial <archivo>        JSON con una lista de { numero, partidos, resultados, premios? }:
+                               los 14 partidos con sus probabilidades previas, los 14 resultados
+                               finales y, para el ROI, el pago por columna de cada categoría
+  --config <preset|archivo>    Configuración a evaluar; se repite para comparar varias lado a lado.
+                               Un preset (${PRESETS_PREDEFINIDOS.map(p => p.nombre).join(', ')}) o un JSON con nombre,
+                               numQuinielas, seed, optimizar, restricciones y umbrales (default estandar)
+  --quinielas <n>              Quinielas por concurso si la configuración no lo fija (default 20)
+  --seed <n>                   Semilla si la configuración no la fija (default 42)
+  --optimizar                  Optimiza cada portafolio si la configuración no lo fija
+
+Opciones de calibrate:
+  --historial <archivo>        El mismo JSON de backtest; los partidos necesitan forma_diferencia,
+                               lesiones_impact y es_final para ajustar k1, k2 y k3
+  --metrica <logloss|brier>    Pérdida que se minimiza (default logloss)
+  --out <archivo>              JSON con la calibración ajustada (default calibracion.json); sirve
+                               para generate --calibracion y como --config de backtest
+
+  -h, --help                   Muestra esta ayuda`;
+
+class ErrorUso extends Error {}
+
+const leerEntero = (valor: string | undefined, opcion: string, porDefecto: number, minimo: number) => {
+  if (valor === undefined) return porDefecto;
+  const numero = Number(valor);
+  if (!Number.isInteger(numero) || numero < minimo) {
+    throw new ErrorUso(`--${opcion} debe ser un entero ≥ ${minimo}; se recibió "${valor}"`);
+  }
+  return numero;
+};
+
+const leerNumero = (valor: string | undefined, opcion: string, minimo: number) => {
+  if (valor === undefined) return undefined;
+  const numero = Number(valor);
+  if (!Number.isFinite(numero) || numero < minimo) {
+    throw new ErrorUso(`--${opcion} debe ser un número ≥ ${minimo}; se recibió "${valor}"`);
+  }
+  return numero;
+};
+
+const leerPartidos = (archivo: string, numPartidos: number, metodoMargen: MetodoMargen) => {
+  let contenido: string;
+  try {
+    contenido = readFileSync(archivo, 'utf8');
+  } catch (error) {
+    throw new ErrorUso(`No se pudo leer ${archivo}: ${(error as Error).message}`);
+  }
+
+  const importacion = analizarPartidosCSV(contenido, numPartidos, metodoMargen);
+  for (const fila of importacion.filas) {
+    for (const error of fila.errores) console.error(`  ${archivo}:${fila.linea}: ✗ ${error}`);
+    for (const advertencia of fila.advertencias) console.error(`  ${archivo}:${fila.linea}: ⚠ ${advertencia}`);
+  }
+  for (const advertencia of importacion.advertencias) console.error(`  ${archivo}: ⚠ ${advertencia}`);
+  if (importacion.errores.length > 0) {
+    throw new ErrorUso(`${archivo}: ${importacion.errores.join('; ')}`);
+  }
+
+  return importacion.partidos;
+};
+
+const leerPreset = (preset: string) => {
+  const predefinido = PRESETS_PREDEFINIDOS.find(p => p.nombre === preset);
+  if (predefinido) return predefinido.restricciones;
+
+  let contenido: unknown;
+  try {
+    contenido = JSON.parse(readFileSync(preset, 'utf8'));
+  } catch (error) {
+    throw new ErrorUso(`--preset no es un preset conocido ni un JSON legible (${preset}): ${(error as Error).message}`);
+  }
+
+  const resultado = validarRestricciones(contenido);
+  if (!resultado.ok) {
+    throw new ErrorUso(`${preset}: ${resultado.errores.map(e => `${e.campo} ${e.mensaje}`).join('; ')}`);
+  }
+  return resultado.datos;
+};
+
+const leerJSON = (archivo: string, opcion: string): unknown => {
+  try {
+    return JSON.parse(readFileSync(archivo, 'utf8'));
+  } catch (error) {
+    throw new ErrorUso(`--${opcion} no es un JSON legible (${archivo}): ${(error as Error).message}`);
+  }
+};
+
+const describirErrores = (errores: ErrorCampo[]) => errores.map(e => `${e.campo} ${e.mensaje}`.trim()).join('; ');
+
+// El archivo de calibrate es una configuración de backtest con restricciones.calibracion y umbrales
+const leerCalibracion = (archivo: string) => {
+  const resultado = validarConfiguracionBacktest(leerJSON(archivo, 'calibracion'));
+  if (!resultado.ok) throw new ErrorUso(`${archivo}: ${describirErrores(resultado.errores)}`);
+  return resultado.datos;
+};
+
+const leerObjetivos = (archivo: string, ventana: number | undefined) => {
+  let contenido: string;
+  try {
+    contenido = readFileSync(archivo, 'utf8');
+  } catch (error) {
+    throw new ErrorUso(`No se pudo leer ${archivo}: ${(error as Error).message}`);
+  }
+
+  const importacion = analizarHistorialResultados(contenido);
+  for (const error of importacion.errores) console.error(`  ${archivo}: ✗ ${error}`);
+  if (importacion.concursos.length === 0) throw new ErrorUso(`${archivo}: no tiene concursos válidos`);
+
+  try {
+    return calcularObjetivosHistoricos(importacion.concursos, basename(archivo), ventana ?? null);
+  } catch (error) {
+    throw new ErrorUso(`${archivo}: ${(error as Error).message}`);
+  }
+};
+
+const reportarValidacion = (titulo: string, validacion: ResultadoValidacion) => {
+  console.log(`${titulo}: ${validacion.es_valido ? 'válido' : 'INVÁLIDO'}`);
+  for (const error of validacion.errores) console.error(`  ✗ ${error}`);
+  for (const warning of validacion.warnings) console.error(`  ⚠ ${warning}`);
+};
+
+const generar = (args: string[]) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      regular: { type: 'string' },
+      revancha: { type: 'string' },
+      quinielas: { type: 'string' },
+      'quinielas-revancha': { type: 'string' },
+      seed: { type: 'string' },
+      margen: { type: 'string', default: 'proporcional' },
+      preset: { type: 'string', default: 'estandar' },
+      optimizar: { type: 'boolean', default: false },
+      iteraciones: { type: 'string' },
+      presupuesto: { type: 'string' },
+      precio: { type: 'string' },
+      contrarian: { type: 'boolean', default: false },
+      bolsa: { type: 'string' },
+      calibracion: { type: 'string' },
+      historico: { type: 'string' },
+      ventana: { type: 'string' },
+      out: { type: 'string', default: 'portafolio.json' }
+    }
+  });
+
+  if (!values.regular) throw new ErrorUso('Falta --regular <partidos.csv>');
+
+  const numQuinielas = leerEntero(values.quinielas, 'quinielas', 30, 4);
+  const numQuinielasRevancha = leerEntero(values['quinielas-revancha'], 'quinielas-revancha', numQuinielas, 4);
+  const seed = leerEntero(values.seed, 'seed', 42, 0);
+  const optimizador = {
+    ...PARAMETROS_OPTIMIZADOR,
+    iteracionesOptimizador: leerEntero(values.iteraciones, 'iteraciones', PARAMETROS_OPTIMIZADOR.iteracionesOptimizador, 0)
+  };
+
+  const metodoMargen = values.margen as MetodoMargen;
+  if (!METODOS_MARGEN.some(m => m.id === metodoMargen)) {
+    throw new ErrorUso(`--margen debe ser uno de ${METODOS_MARGEN.map(m => m.id).join(', ')}`);
+  }
+
+  const precio = leerNumero(values.precio, 'precio', 1);
+  const presupuesto = leerNumero(values.presupuesto, 'presupuesto', 1);
+  const calibrada = values.calibracion ? leerCalibracion(values.calibracion) : null;
+  const ventana = leerNumero(values.ventana, 'ventana', 0.25);
+  if (ventana !== undefined && !values.historico) throw new ErrorUso('--ventana necesita --historico <archivo>');
+  const objetivos = values.historico ? leerObjetivos(values.historico, ventana) : null;
+  const restricciones = {
+    ...leerPreset(values.preset),
+    ...(precio === undefined ? {} : { precioBoleto: precio }),
+    ...(calibrada ? { calibracion: calibrada.restricciones.calibracion } : {}),
+    ...(objetivos ? restriccionesDeObjetivos(objetivos) : {})
+  };
+  const premios = { ...PREMIOS_DEFAULT, bolsa: leerNumero(values.bolsa, 'bolsa', 0) ?? PREMIOS_DEFAULT.bolsa };
+
+  const partidosRegular = leerPartidos(values.regular, 14, metodoMargen);
+  const partidosRevancha = values.revancha ? leerPartidos(values.revancha, 7, metodoMargen) : [];
+
+  const resultado = ejecutarPipeline({
+    partidosRegular,
+    partidosRevancha,
+    numQuinielas,
+    numQuinielasRevancha,
+    seed,
+    optimizar: values.optimizar,
+    optimizador,
+    restricciones,
+    presupuesto,
+    premios,
+    contrarian: values.contrarian,
+    umbrales: calibrada?.umbrales
+  });
+
+  const datos: DatosExportacion = {
+    partidos: partidosRegular,
+    quinielas: resultado.quinielas,
+    validacion: resultado.validacion,
+    partidosRevancha,
+    quinielasRevancha: resultado.quinielasRevancha,
+    validacionRevancha: resultado.validacionRevancha,
+    seed,
+    configuracion: {
+      numQuinielas,
+      numQuinielasRevancha,
+      seed,
+      metodoMargen,
+      optimizar: values.optimizar,
+      preset: values.preset,
+      presupuesto: presupuesto ?? null,
+      contrarian: values.contrarian,
+      bolsa: premios.bolsa,
+      ...restricciones,
+      ...(calibrada ? { drawPropensity: calibrada.umbrales.drawPropensity } : {})
+    },
+    optimizador,
+    precioBoleto: restricciones.precioBoleto,
+    precioRevancha: restricciones.precioRevancha,
+    objetivos
+  };
+
+  const base = values.out.slice(0, values.out.length - extname(values.out).length);
+  const archivos = [
+    [`${base}.json`, generarJSONPortafolio(datos)],
+    [`${base}.csv`, generarCSVPortafolio(datos)],
+    [`${base}.txt`, generarTextoProgol(datos)]
+  ];
+  for (const [archivo, contenido] of archivos) {
+    writeFileSync(archivo, contenido + '\n');
+  }
+
+  if (objetivos) {
+    const periodo = objetivos.desde ? `, ${objetivos.desde} a ${objetivos.hasta}` : '';
+    const { L, E, V } = objetivos.distribucion;
+    console.log(
+      `Objetivos de ${objetivos.fuente}: ${objetivos.concursos} concursos (${objetivos.numeroDesde}-${objetivos.numeroHasta}${periodo}); ` +
+      `L ${porcentaje(L)}, E ${porcentaje(E)}, V ${porcentaje(V)}, empates ${objetivos.empatesMin}-${objetivos.empatesMax}`
+    );
+  }
+  console.log(`${resultado.quinielas.length} quinielas (seed ${seed}) → ${archivos.map(([archivo]) => archivo).join(', ')}`);
+  const probPortafolio = resultado.validacion.metricas.prob_portafolio_11_plus || 0;
+  console.log(`Pr[≥11] del portafolio: ${(probPortafolio * 100).toFixed(2)}%`);
+  if (resultado.presupuesto) {
+    const { presupuesto: disponible, costo } = resultado.presupuesto;
+    const multiples = resultado.validacion.metricas.boletos_multiples || 0;
+    console.log(`Presupuesto: $${costo} de $${disponible} MXN en ${resultado.quinielas.length} boletos (${multiples} múltiples)`);
+  }
+
+  const { valor } = resultado;
+  console.log(`Valor esperado: $${valor.valorEsperado.toFixed(2)} por $${valor.costo} MXN (retorno ${(valor.retorno * 100).toFixed(1)}%)`);
+
+  reportarValidacion('Portafolio regular', resultado.validacion);
+  if (resultado.validacionRevancha) {
+    reportarValidacion('Portafolio Revancha', resultado.validacionRevancha);
+  }
+
+  const esValido = resultado.validacion.es_valido && (resultado.validacionRevancha?.es_valido ?? true);
+  return esValido ? 0 : 1;
+};
+
+const porcentaje = (valor: number) => `${(valor * 100).toFixed(1)}%`;
+
+const imprimirComparacion = (resultados: ResultadoBacktest[]) => {
+  const filas: [string, (r: ResultadoBacktest) => string][] = [
+    ['Concursos', r => String(r.concursos.length)],
+    ['Portafolios válidos', r => `${r.portafoliosValidos}/${r.concursos.length}`],
+    ['Pr[≥11] estimado', r => porcentaje(r.probPortafolio11Media)],
+    ['Concursos con ≥11', r => porcentaje(r.tasaConcursos[11])],
+    ['Concursos con ≥12', r => porcentaje(r.tasaConcursos[12])],
+    ['Concursos con ≥13', r => porcentaje(r.tasaConcursos[13])],
+    ['Quinielas con ≥11', r => porcentaje(r.tasaQuinielas[11])],
+    ['Quinielas con ≥12', r => porcentaje(r.tasaQuinielas[12])],
+    ['Quinielas con ≥13', r => porcentaje(r.tasaQuinielas[13])],
+    ['Aciertos promedio', r => r.distribucion.reduce((acc, p, k) => acc + p * k, 0).toFixed(2)],
+    ['Concursos con premios', r => String(r.concursosConPremios)],
+    ['Costo MXN', r => r.costo.toLocaleString('es-MX')],
+    ['Premios MXN', r => r.ganancia.toLocaleString('es-MX')],
+    ['ROI', r => (r.roi === null ? '—' : porcentaje(r.roi))]
+  ];
+  for (let k = 14; k >= 0; k--) {
+    filas.push([`  ${String(k).padStart(2)} aciertos`, r => porcentaje(r.distribucion[k])]);
+  }
+
+  const anchoEtiqueta = Math.max(...filas.map(([etiqueta]) => etiqueta.length));
+  const anchos = resultados.map(r => Math.max(r.configuracion.nombre.length, 10));
+  const fila = (etiqueta: string, celdas: string[]) =>
+    [etiqueta.padEnd(anchoEtiqueta), ...celdas.map((celda, i) => celda.padStart(anchos[i]))].join('  ');
+
+  console.log(fila('', resultados.map(r => r.configuracion.nombre)));
+  for (const [etiqueta, valor] of filas) {
+    if (etiqueta === '  14 aciertos') console.log('Distribución de aciertos');
+    console.log(fila(etiqueta, resultados.map(valor)));
+  }
+};
+
+const backtest = (args: string[]) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      historial: { type: 'string' },
+      config: { type: 'string', multiple: true },
+      quinielas: { type: 'string' },
+      seed: { type: 'string' },
+      optimizar: { type: 'boolean', default: false }
+    }
+  });
+
+  if (!values.historial) throw new ErrorUso('Falta --historial <concursos.json>');
+
+  const historial = validarHistorialBacktest(leerJSON(values.historial, 'historial'));
+  if (!historial.ok) throw new ErrorUso(`${values.historial}: ${describirErrores(historial.errores)}`);
+
+  const porDefecto = {
+    numQuinielas: leerEntero(values.quinielas, 'quinielas', 20, 4),
+    seed: leerEntero(values.seed, 'seed', 42, 0),
+    optimizar: values.optimizar
+  };
+  const configuraciones = (values.config || ['estandar']).map(config => {
+    const predefinido = PRESETS_PREDEFINIDOS.find(p => p.nombre === config);
+    const resultado = predefinido ?
+      validarConfiguracionBacktest({ ...porDefecto, restricciones: predefinido.restricciones }, predefinido.nombre) :
+      validarConfiguracionBacktest({ ...porDefecto, ...(leerJSON(config, 'config') as object) }, basename(config, extname(config)));
+    if (!resultado.ok) throw new ErrorUso(`${config}: ${describirErrores(resultado.errores)}`);
+    return resultado.datos;
+  });
+
+  console.log(`Backtest de ${historial.datos.length} concursos (${values.historial})\n`);
+  imprimirComparacion(configuraciones.map(configuracion => ejecutarBacktest(historial.datos, configuracion)));
+  return 0;
+};
+
+const imprimirConfiabilidad = (titulo: string, evaluacion: EvaluacionCalibracion) => {
+  console.log(`${titulo}: log-loss ${evaluacion.logLoss.toFixed(4)}, Brier ${evaluacion.brier.toFixed(4)}`);
+  for (const punto of evaluacion.confiabilidad) {
+    console.log(`  predicho ${porcentaje(punto.prediccion).padStart(6)}  observado ${porcentaje(punto.observada).padStart(6)}  (${punto.casos} casos)`);
+  }
+};
+
+const calibrar = (args: string[]) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      historial: { type: 'string' },
+      metrica: { type: 'string', default: 'logloss' },
+      out: { type: 'string', default: 'calibracion.json' }
+    }
+  });
+
+  if (!values.historial) throw new ErrorUso('Falta --historial <concursos.json>');
+  if (values.metrica !== 'logloss' && values.metrica !== 'brier') {
+    throw new ErrorUso(`--metrica debe ser logloss o brier; se recibió "${values.metrica}"`);
+  }
+
+  const historial = validarHistorialBacktest(leerJSON(values.historial, 'historial'));
+  if (!historial.ok) throw new ErrorUso(`${values.historial}: ${describirErrores(historial.errores)}`);
+
+  const resultado = ajustarCalibracion(partidosJugados(historial.datos), values.metrica as MetricaCalibracion);
+  const { calibracion, drawPropensity } = resultado.parametros;
+
+  console.log(`Calibración ajustada con ${resultado.partidos} partidos (${values.metrica})`);
+  console.log(`  k1_forma ${calibracion.k1_forma.toFixed(3)}, k2_lesiones ${calibracion.k2_lesiones.toFixed(3)}, k3_contexto ${calibracion.k3_contexto.toFixed(3)}`);
+  console.log(`  Draw-Propensity: umbral ${drawPropensity.umbral_diferencia.toFixed(3)}, boost ${drawPropensity.boost_empate.toFixed(3)}\n`);
+  imprimirConfiabilidad('Sin calibrar', resultado.sinCalibrar);
+  imprimirConfiabilidad('Calibración por defecto', resultado.inicial);
+  imprimirConfiabilidad('Calibración ajustada', resultado.ajustada);
+
+  writeFileSync(values.out, JSON.stringify({
+    nombre: 'calibrada',
+    restricciones: { calibracion },
+    umbrales: { drawPropensity }
+  }, null, 2) + '\n');
+  console.log(`\nCalibración → ${values.out}`);
+  return 0;
+};
+
+const main = (argv: string[]) => {
+  const [comando, ...args] = argv;
+
+  if (!comando || comando === '-h' || comando === '--help') {
+    console.log(AYUDA);
+    return comando ? 0 : 2;
+  }
+
+  try {
+    if (!['generate', 'backtest', 'calibrate'].includes(comando)) throw new ErrorUso(`Comando desconocido: ${comando}`);
+    if (args.includes('-h') || args.includes('--help')) {
+      console.log(AYUDA);
+      return 0;
+    }
+    if (comando === 'backtest') return backtest(args);
+    if (comando === 'calibrate') return calibrar(args);
+    return generar(args);
+  } catch (error) {
+    if (error instanceof ErrorUso || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`Error: ${(error as Error).message}\n\n${AYUDA}`);
+      return 2;
+    }
+    console.error(comando === 'generate' ? 'Error generando el portafolio:' : `Error en ${comando}:`, error);
+    return 2;
+  }
+};
+
+process.exitCode = main(process.argv.slice(2));